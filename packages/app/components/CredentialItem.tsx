@@ -1,4 +1,5 @@
 import { Credential } from '../types';
+import { credentialExpiresAt, credentialStatus } from '../lib/credentials';
 import { Card, CardContent } from './ui/card';
 import { Checkbox } from './ui/checkbox';
 import { Badge } from './ui/badge';
@@ -49,8 +50,9 @@ export function CredentialItem({
   // Extract credential type from parsed.type array
   const credentialType = credential.parsed.type.find(t => t !== 'VerifiableCredential') || 'Unknown';
   
-  // Calculate status based on verification
-  const status = credential.verified ? 'valid' : 'invalid';
+  // Status from verification and the credential's validity period
+  const status = credentialStatus(credential);
+  const expiresAt = credentialExpiresAt(credential);
   const statusConfig = STATUS_CONFIG[status];
   const StatusIcon = statusConfig.icon;
   
@@ -64,12 +66,6 @@ export function CredentialItem({
     return match ? match[1].replace(/([a-z])([A-Z])/g, '$1 $2') : issuerDid;
   };
 
-  // Calculate expiration (default to 1 year from issuance)
-  const calculateExpiresAt = () => {
-    const issuedDate = new Date(credential.issuedAt);
-    return new Date(issuedDate.getTime() + 365 * 24 * 60 * 60 * 1000).toISOString();
-  };
-
   // Extract claims from credentialSubject and evidence
   const extractClaims = () => {
     const claims: Record<string, any> = {};
@@ -95,7 +91,7 @@ export function CredentialItem({
     return claims;
   };
 
-  const isInteractable = !disabled && credential.verified;
+  const isInteractable = !disabled && status !== 'invalid';
 
   return (
     <Card className={`transition-all ${isSelected ? 'ring-2 ring-primary' : ''} ${
@@ -142,7 +138,7 @@ export function CredentialItem({
             {/* Dates */}
             <div className="flex gap-4 text-xs text-muted-foreground">
               <span>Issued: {formatDate(credential.issuedAt)}</span>
-              <span>Expires: {formatDate(calculateExpiresAt())}</span>
+              <span>Expires: {expiresAt ? formatDate(expiresAt.toISOString()) : 'Never'}</span>
             </div>
 
             {/* Required indicator */}
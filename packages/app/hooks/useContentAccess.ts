@@ -2,12 +2,16 @@ import { useState, useCallback } from 'react';
 import { AccessStep, Flow, Credential } from '../types';
 import { useAccount, useWalletClient } from 'wagmi';
 import { 
+  createDecryptionJWT,
   decryptFromCredentialsWithJWT,
+  migrateEncryptedPayload,
+  parseEncryptedPayload,
   CredentialRequirements,
-  validateGithubCredentialRequirements,
+  validateCredentialRequirements,
   ParsedCredential
 } from '../../browser/src/index';
 import { storageManager } from '../lib/storage';
+import { verifyCredentials, credentialMatchesRequirement } from '../lib/credentials';
 import { useTinyCloud } from '../contexts/TinyCloudContext';
 
 export function useContentAccess(signMessage: (message: string) => Promise<string>) {
@@ -65,10 +69,23 @@ export function useContentAccess(signMessage: (message: string) => Promise<strin
         step.id === 'signature' ? { ...step, status: 'loading' } : step
       ));
       
+      if (!address) {
+        throw new Error('Wallet not connected');
+      }
+
+      // Load encrypted content for this flow: the decryption JWT is bound to it
+      const encryptedData = await loadEncryptedContent(flow.id);
+      if (!encryptedData) {
+        throw new Error('No encrypted content found for this flow. Content may not be initialized yet.');
+      }
+
       console.log('Starting signature process...');
-      const message = `Access request for: ${flow.title}\nTimestamp: ${Date.now()}`;
-      const signature = await signMessage(message);
-      console.log('Signature received:', signature);
+      const decryptionJWT = await createDecryptionJWT(
+        { address, signMessage },
+        encryptedData.credentialRequirements,
+        encryptedData.dataToEncryptHash
+      );
+      console.log('Decryption JWT signed with EIP-191');
       
       setAccessSteps(prev => prev.map(step => 
         step.id === 'signature' ? { ...step, status: 'completed' } : step
@@ -88,9 +105,9 @@ export function useContentAccess(signMessage: (message: string) => Promise<strin
       
       // Load user's credentials
       const userCredentials = await storageManager.loadCredentials();
-      const selectedCredentials = userCredentials.filter(cred => 
+      const selectedCredentials = await verifyCredentials(userCredentials.filter(cred => 
         selectedCredentialIds.includes(cred.id)
-      );
+      ));
       
       // Verify credentials match flow requirements
       const validationErrors = await validateCredentialsForFlow(selectedCredentials, flow);
@@ -111,12 +128,6 @@ export function useContentAccess(signMessage: (message: string) => Promise<strin
       
       console.log('Starting decryption process...');
       
-      // Load encrypted content for this flow
-      const encryptedData = await loadEncryptedContent(flow.id);
-      if (!encryptedData) {
-        throw new Error('No encrypted content found for this flow. Content may not be initialized yet.');
-      }
-      
       // Convert credentials to ParsedCredential format for browser package
       const parsedCredentials: ParsedCredential[] = selectedCredentials.map(cred => ({
         jwt: cred.jwt || '',
@@ -133,7 +144,8 @@ export function useContentAccess(signMessage: (message: string) => Promise<strin
       const litActionResult = await decryptFromCredentialsWithJWT(
         encryptedData,
         parsedCredentials,
-        address // Pass user address for optional verification
+        address, // Pass user address for optional verification
+        decryptionJWT
       );
       
       // Handle Lit Action response
@@ -181,7 +193,7 @@ export function useContentAccess(signMessage: (message: string) => Promise<strin
     } finally {
       setIsAccessing(false);
     }
-  }, [signMessage]);
+  }, [address, signMessage]);
 
   const cacheContent = (flowId: string, content: string) => {
     try {
@@ -247,44 +259,22 @@ export function useContentAccess(signMessage: (message: string) => Promise<strin
         const coreRequirement: CredentialRequirements = {
           issuer: requirement.issuer,
           credentialType: requirement.credentialType,
-          claims: requirement.claims
+          claims: requirement.claims,
+          predicates: requirement.predicates,
+          maxCredentialAge: requirement.maxCredentialAge,
+          minCredentialAge: requirement.minCredentialAge
         };
         
         // Validate requirement format
         try {
-          validateGithubCredentialRequirements(coreRequirement);
+          validateCredentialRequirements(coreRequirement);
         } catch (error) {
           errors.push(`Invalid requirement: ${error instanceof Error ? error.message : 'Unknown error'}`);
           continue;
         }
         
         // Check if any credential matches this requirement
-        const match = credentials.find(cred => {
-          // Check issuer
-          if (cred.parsed.issuer !== coreRequirement.issuer) return false;
-          
-          // Check credential type
-          const credentialType = cred.parsed.type.find(t => t !== 'VerifiableCredential');
-          if (credentialType !== coreRequirement.credentialType) return false;
-          
-          // Check if verified
-          if (!cred.verified) return false;
-          
-          // Check claims match (if any)
-          if (coreRequirement.claims && Object.keys(coreRequirement.claims).length > 0) {
-            for (const [key, value] of Object.entries(coreRequirement.claims)) {
-              // Check in credentialSubject
-              if (cred.parsed.credentialSubject?.[key] !== value) {
-                // Also check in evidence
-                if (cred.parsed.evidence?.[key] !== value) {
-                  return false;
-                }
-              }
-            }
-          }
-          
-          return true;
-        });
+        const match = credentials.find(cred => credentialMatchesRequirement(cred, requirement));
         
         if (!match) {
           errors.push(`No valid credential found for requirement: ${requirement.credentialType} from ${requirement.issuer}`);
@@ -321,9 +311,9 @@ export function useContentAccess(signMessage: (message: string) => Promise<strin
         throw new Error(`Encrypted content has error: ${flowData.error}`);
       }
       
-      // Return the encrypted content (excluding metadata)
-      const { metadata, ...encryptedContent } = flowData;
-      console.log(`✅ Loaded encrypted content for flow: ${flowId} (encrypted at: ${metadata?.encryptedAt})`);
+      // Validate the payload, migrating older format versions
+      const encryptedContent = migrateEncryptedPayload(flowData);
+      console.log(`✅ Loaded encrypted content for flow: ${flowId} (encrypted at: ${encryptedContent.metadata?.encryptedAt})`);
       
       return encryptedContent;
       
@@ -335,7 +325,7 @@ export function useContentAccess(signMessage: (message: string) => Promise<strin
         const stored = localStorage.getItem(`encrypted_content_${flowId}`);
         if (stored) {
           console.log(`📁 Falling back to localStorage for flow: ${flowId}`);
-          return JSON.parse(stored);
+          return parseEncryptedPayload(stored);
         }
       } catch (localError) {
         console.warn('LocalStorage fallback also failed:', localError);
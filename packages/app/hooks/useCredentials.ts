@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Credential, CredentialRequirement } from '../types';
 import { storageManager } from '../lib/storage';
+import { verifyCredentials, credentialMatchesRequirement } from '../lib/credentials';
 import { useTinyCloud } from '../contexts/TinyCloudContext';
 
 export function useCredentials() {
@@ -24,8 +25,8 @@ export function useCredentials() {
       // Load from TinyCloud storage
       const loadedCredentials = await storageManager.loadCredentials();
       
-      // Credentials are already in the correct format from TinyCloud
-      setCredentials(loadedCredentials);
+      // Only credentials whose JWT verifies against the issuer are marked verified
+      setCredentials(await verifyCredentials(loadedCredentials));
     } catch (err) {
       console.error('Failed to load credentials:', err);
       setError('Failed to load credentials from TinyCloud');
@@ -41,28 +42,8 @@ export function useCredentials() {
     credential: Credential, 
     requirement: CredentialRequirement
   ): boolean => {
-    // Check issuer
-    if (credential.parsed.issuer !== requirement.issuer) return false;
-    
-    // Check credential type
-    const credentialType = credential.parsed.type.find(t => t !== 'VerifiableCredential');
-    if (credentialType !== requirement.credentialType) return false;
-    
-    // Check if verified
-    if (!credential.verified) return false;
-    
-    // Check claims match
-    for (const [key, value] of Object.entries(requirement.claims)) {
-      // Check in credentialSubject
-      if (credential.parsed.credentialSubject?.[key] !== value) {
-        // Also check in evidence
-        if (credential.parsed.evidence?.[key] !== value) {
-          return false;
-        }
-      }
-    }
-    
-    return true;
+    // Same evaluator as core's matcher and the Lit Action
+    return credentialMatchesRequirement(credential, requirement);
   }, []);
 
   // Find credentials that match requirements
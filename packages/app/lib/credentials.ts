@@ -0,0 +1,115 @@
+import {
+  claimPredicatesSatisfied,
+  credentialAgeSatisfied,
+  credentialTypes,
+  credentialValidityPeriod,
+  credentialValidityStatus,
+  decodeJWT,
+  verifyCredentialJWT,
+  CredentialJWTHeader,
+  CredentialJWTPayload,
+  CredentialValidityOptions,
+  DEFAULT_CLOCK_SKEW_SECONDS,
+} from '../../browser/src/index';
+import { Credential, CredentialRequirement } from '../types';
+
+/**
+ * Clock skew tolerated on validity dates, and how close to expiry a
+ * credential is flagged as expiring
+ */
+export const CREDENTIAL_VALIDITY: CredentialValidityOptions & { expiringWithinSeconds: number } = {
+  clockSkewSeconds: DEFAULT_CLOCK_SKEW_SECONDS,
+  expiringWithinSeconds: 7 * 24 * 60 * 60,
+};
+
+export type CredentialDisplayStatus = 'valid' | 'expiring' | 'invalid';
+
+const credentialPayload = (credential: Credential) =>
+  decodeJWT<CredentialJWTHeader, CredentialJWTPayload>(credential.jwt).payload;
+
+/**
+ * Verifies a stored credential's JWT against its issuer's DID document.
+ * `verified` reflects the result, and `subject`/`parsed` are rebuilt from the
+ * signed payload so unsigned fields in storage are never trusted.
+ */
+export async function verifyCredential(credential: Credential): Promise<Credential> {
+  try {
+    const verified = await verifyCredentialJWT(credential.jwt, {
+      clockSkewSeconds: CREDENTIAL_VALIDITY.clockSkewSeconds,
+    });
+
+    return {
+      ...credential,
+      subject: verified.subject,
+      verified: true,
+      parsed: {
+        type: verified.types,
+        issuer: verified.issuer,
+        credentialSubject: verified.credentialSubject,
+        evidence: verified.evidence,
+        issuanceDate: verified.issuanceDate ?? credential.parsed.issuanceDate,
+        handle: verified.handle,
+      },
+    };
+  } catch (error) {
+    console.warn(`Credential ${credential.id} failed verification:`, error);
+    return { ...credential, verified: false };
+  }
+}
+
+/**
+ * Verifies every credential, keeping failures (marked unverified) for display
+ */
+export function verifyCredentials(credentials: Credential[]): Promise<Credential[]> {
+  return Promise.all(credentials.map(verifyCredential));
+}
+
+/**
+ * Status shown for a credential: `invalid` when unverified or outside its
+ * validity period, `expiring` when it expires soon. Evaluated against the
+ * current time, so a credential verified earlier can since have expired.
+ */
+export function credentialStatus(
+  credential: Credential,
+  options = CREDENTIAL_VALIDITY
+): CredentialDisplayStatus {
+  if (!credential.verified) return 'invalid';
+  try {
+    const status = credentialValidityStatus(credentialPayload(credential), options);
+    return status === 'valid' || status === 'expiring' ? status : 'invalid';
+  } catch {
+    return 'invalid';
+  }
+}
+
+/**
+ * When the credential stops being valid, if it expires at all
+ */
+export function credentialExpiresAt(credential: Credential): Date | null {
+  try {
+    const { validUntil } = credentialValidityPeriod(credentialPayload(credential));
+    return validUntil === undefined ? null : new Date(validUntil * 1000);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a verified credential satisfies a requirement: validity period,
+ * issuer, type, the type's registered claims, the requirement's claim
+ * predicates and its age constraints
+ */
+export function credentialMatchesRequirement(
+  credential: Credential,
+  requirement: CredentialRequirement
+): boolean {
+  if (credentialStatus(credential) === 'invalid') return false;
+  if (credential.parsed.issuer !== requirement.issuer) return false;
+  if (!credential.parsed.type.includes(requirement.credentialType)) return false;
+  if (!credentialTypes.claimsSatisfied(credential.parsed, requirement)) return false;
+
+  // Predicates and ages are read from the signed payload, which `parsed` only partly mirrors
+  const payload = credentialPayload(credential);
+  return claimPredicatesSatisfied(payload.vc, requirement.predicates)
+    && credentialAgeSatisfied(payload, requirement);
+}
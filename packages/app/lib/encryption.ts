@@ -1,27 +1,20 @@
 import { Wallet } from 'ethers';
 import { 
   encryptToCredentialWithJWT, 
-  CredentialRequirements 
+  serializeEncryptedPayload,
+  CredentialPolicy,
+  CredentialRequirements,
+  EncryptedPayload
 } from '../../browser/src/index';
 
-export interface EncryptedContentData {
-  ciphertext: string;
-  dataToEncryptHash: string;
-  accessControlConditions: any;
-  accsResourceString: string;
-  credentialRequirements: CredentialRequirements;
-  userSignedJWT: string;
-  userAddress: string;
-}
-
 /**
  * Encrypts content using Lit Protocol with credential requirements
  */
 export async function encryptContent(
   content: string,
-  credentialRequirements: CredentialRequirements,
+  credentialRequirements: CredentialPolicy,
   userWallet: Wallet
-): Promise<EncryptedContentData> {
+): Promise<EncryptedPayload> {
   try {
     console.log('Encrypting content with credential requirements...');
     
@@ -99,11 +92,20 @@ export async function initializeDemoContent(userWallet: Wallet): Promise<void> {
   try {
     console.log('Initializing demo content...');
     
-    // Encrypt premium research content
-    const premiumRequirements: CredentialRequirements = {
-      issuer: "did:web:rebasedemokey.pages.dev",
-      credentialType: "GitHubVerification",
-      claims: {}
+    // Encrypt premium research content, which needs both credentials
+    const premiumRequirements: CredentialPolicy = {
+      allOf: [
+        {
+          issuer: "did:web:rebasedemokey.pages.dev",
+          credentialType: "GitHubVerification",
+          claims: {}
+        },
+        {
+          issuer: "did:web:issuer.tinycloud.xyz",
+          credentialType: "PremiumSubscription",
+          claims: { tier: "pro" }
+        }
+      ]
     };
 
     const premiumEncrypted = await encryptContent(
@@ -115,7 +117,7 @@ export async function initializeDemoContent(userWallet: Wallet): Promise<void> {
     // Store encrypted premium content
     localStorage.setItem(
       'encrypted_content_premium-research-access',
-      JSON.stringify(premiumEncrypted)
+      serializeEncryptedPayload(premiumEncrypted)
     );
 
     // Encrypt developer resources content
@@ -134,7 +136,7 @@ export async function initializeDemoContent(userWallet: Wallet): Promise<void> {
     // Store encrypted developer content
     localStorage.setItem(
       'encrypted_content_developer-resources',
-      JSON.stringify(devEncrypted)
+      serializeEncryptedPayload(devEncrypted)
     );
 
     console.log('Demo content initialized successfully');
@@ -5,10 +5,22 @@
  * This creates properly formatted encrypted data structure without actual Lit Protocol encryption
  */
 
+import { createHash } from 'crypto';
 import { writeFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
+import {
+  base64urlEncode,
+  computeLitActionIpfsCid,
+  createLitActionAccessControlConditions,
+  enhancedCredentialActionCode,
+  validateEncryptedPayload,
+  CredentialPolicy,
+  EncryptedPayload,
+  ENCRYPTED_PAYLOAD_FORMAT_VERSION
+} from '@lit-encryption/browser';
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
@@ -64,14 +76,24 @@ For technical support, please contact our developer team.`
 };
 
 // Flow configurations with credential requirements
-const FLOWS = [
+const FLOWS: { id: string; title: string; credentialRequirements: CredentialPolicy }[] = [
   {
     id: "premium-research-access",
     title: "Premium Research Content",
+    // Both credentials are enforced together in the Lit Action
     credentialRequirements: {
-      issuer: "did:web:rebasedemokey.pages.dev",
-      credentialType: "GitHubVerification",
-      claims: {}
+      allOf: [
+        {
+          issuer: "did:web:rebasedemokey.pages.dev",
+          credentialType: "GitHubVerification",
+          claims: {}
+        },
+        {
+          issuer: "did:web:issuer.tinycloud.xyz",
+          credentialType: "PremiumSubscription",
+          claims: { tier: "pro" }
+        }
+      ]
     }
   },
   {
@@ -85,27 +107,22 @@ const FLOWS = [
   }
 ];
 
-function createMockEncryptedData(content: string, requirements: any) {
+async function createMockEncryptedData(content: string, requirements: CredentialPolicy): Promise<EncryptedPayload> {
+  // Pinned to the enhanced Lit Action like real payloads, so no sample
+  // shows conditions another action could satisfy
+  const litActionIpfsCid = await computeLitActionIpfsCid(enhancedCredentialActionCode);
+
   // Create mock encrypted data that matches the expected structure
   return {
-    ciphertext: btoa(content), // Base64 encode the content for "encryption"
-    dataToEncryptHash: "0x" + Array(64).fill('0').map(() => Math.floor(Math.random() * 16).toString(16)).join(''),
-    accessControlConditions: [
-      {
-        contractAddress: "",
-        standardContractType: "timestamp",
-        chain: "ethereum",
-        method: "",
-        parameters: [":currentActionIpfsId"],
-        returnValueTest: {
-          comparator: ">=",
-          value: "0",
-        },
-      },
-    ],
+    formatVersion: ENCRYPTED_PAYLOAD_FORMAT_VERSION,
+    encryption: "mock", // The app decodes the ciphertext instead of calling Lit
+    ciphertext: base64urlEncode(content), // Base64url encode the UTF-8 content for "encryption"
+    // Lit's dataToEncryptHash: the SHA-256 of the plaintext, in hex
+    dataToEncryptHash: createHash('sha256').update(content).digest('hex'),
+    accessControlConditions: createLitActionAccessControlConditions(litActionIpfsCid),
+    litActionIpfsCid,
     accsResourceString: `lit-accesscontrolcondition://0x${'a'.repeat(64)}`,
     credentialRequirements: requirements,
-    userSignedJWT: "mock.jwt.token",
     userAddress: "0x8fd379246834eac74B8419FfdA202CF8051F7A03"
   };
 }
@@ -116,7 +133,7 @@ async function createMockContent() {
   const demoWalletAddress = "0x8fd379246834eac74B8419FfdA202CF8051F7A03";
   console.log(`📝 Using demo wallet: ${demoWalletAddress}`);
   
-  const encryptedContent: Record<string, any> = {};
+  const encryptedContent: Record<string, EncryptedPayload> = {};
   
   for (const flow of FLOWS) {
     console.log(`\n🔄 Creating mock encrypted content for flow: ${flow.id}`);
@@ -128,10 +145,10 @@ async function createMockContent() {
     }
     
     console.log(`📄 Content length: ${content.length} characters`);
-    console.log(`🔑 Credential requirements: ${flow.credentialRequirements.credentialType} from ${flow.credentialRequirements.issuer}`);
+    console.log(`🔑 Credential requirements: ${JSON.stringify(flow.credentialRequirements)}`);
     
     // Create mock encrypted data
-    const encrypted = createMockEncryptedData(content, flow.credentialRequirements);
+    const encrypted = await createMockEncryptedData(content, flow.credentialRequirements);
     
     // Store encrypted data with metadata
     encryptedContent[flow.id] = {
@@ -140,10 +157,10 @@ async function createMockContent() {
         flowId: flow.id,
         flowTitle: flow.title,
         encryptedAt: new Date().toISOString(),
-        contentLength: content.length,
-        mock: true // Indicate this is mock data
+        contentLength: content.length
       }
     };
+    validateEncryptedPayload(encryptedContent[flow.id]);
     
     console.log(`✅ Successfully created mock encrypted content for: ${flow.id}`);
   }
@@ -167,7 +184,7 @@ async function createMockContent() {
     // Print summary
     console.log('\n📋 Summary:');
     for (const [flowId, data] of Object.entries(encryptedContent)) {
-      console.log(`  ✅ ${flowId}: Success (${data.metadata.contentLength} chars) [MOCK]`);
+      console.log(`  ✅ ${flowId}: Success (${data.metadata?.contentLength} chars) [MOCK]`);
     }
     
     console.log('\n⚠️  Note: This is mock encrypted content for testing the flow.');
@@ -12,8 +12,10 @@ import { fileURLToPath } from 'url';
 
 // Import from the browser package workspace dependency
 import { 
+  disconnectLitNodeClient,
   encryptToCredentialWithJWT,
-  CredentialRequirements 
+  validateEncryptedPayload,
+  CredentialPolicy 
 } from '@lit-encryption/browser';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -71,14 +73,24 @@ For technical support, please contact our developer team.`
 };
 
 // Flow configurations with credential requirements
-const FLOWS = [
+const FLOWS: { id: string; title: string; credentialRequirements: CredentialPolicy }[] = [
   {
     id: "premium-research-access",
     title: "Premium Research Content",
+    // Both credentials are enforced together in the Lit Action
     credentialRequirements: {
-      issuer: "did:web:rebasedemokey.pages.dev",
-      credentialType: "GitHubVerification",
-      claims: {}
+      allOf: [
+        {
+          issuer: "did:web:rebasedemokey.pages.dev",
+          credentialType: "GitHubVerification",
+          claims: {}
+        },
+        {
+          issuer: "did:web:issuer.tinycloud.xyz",
+          credentialType: "PremiumSubscription",
+          claims: { tier: "pro" }
+        }
+      ]
     }
   },
   {
@@ -118,7 +130,7 @@ async function encryptDemoContent() {
       }
       
       console.log(`📄 Content length: ${content.length} characters`);
-      console.log(`🔑 Credential requirements: ${flow.credentialRequirements.credentialType} from ${flow.credentialRequirements.issuer}`);
+      console.log(`🔑 Credential requirements: ${JSON.stringify(flow.credentialRequirements)}`);
       
       // Encrypt the content using the browser package
       const encrypted = await encryptToCredentialWithJWT(
@@ -128,7 +140,7 @@ async function encryptDemoContent() {
       );
       
       // Store encrypted data with metadata
-      encryptedContent[flow.id] = {
+      const payload = {
         ...encrypted,
         metadata: {
           flowId: flow.id,
@@ -137,6 +149,8 @@ async function encryptDemoContent() {
           contentLength: content.length
         }
       };
+      validateEncryptedPayload(payload);
+      encryptedContent[flow.id] = payload;
       
       console.log(`✅ Successfully encrypted content for: ${flow.id}`);
       
@@ -187,8 +201,10 @@ async function encryptDemoContent() {
   }
 }
 
-// Run the encryption
-encryptDemoContent().catch(error => {
-  console.error('❌ Script failed:', error);
-  process.exit(1);
-});
\ No newline at end of file
+// Run the encryption, then let the process exit
+encryptDemoContent()
+  .catch(error => {
+    console.error('❌ Script failed:', error);
+    process.exit(1);
+  })
+  .finally(() => disconnectLitNodeClient());
\ No newline at end of file
@@ -1,5 +1,7 @@
 // Core types for the credential access application
 
+import type { ClaimPredicate } from '../../browser/src/index';
+
 export interface Credential {
   id: string;
   subject: string; // did:pkh:eip155:1:0x{address}
@@ -20,6 +22,9 @@ export interface CredentialRequirement {
   issuer: string;
   credentialType: string;
   claims: Record<string, any>;
+  predicates?: ClaimPredicate[];
+  maxCredentialAge?: number; // seconds since issuance
+  minCredentialAge?: number; // seconds since issuance
 }
 
 export interface Flow {
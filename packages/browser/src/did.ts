@@ -1,46 +1,55 @@
-import { isAddress, getAddress } from "ethers";
+import {
+  DIDPkhNamespace,
+  normalizePkhAddress,
+  parseCAIP2Chain,
+  parseDIDPkhAccount,
+  isPkhAddress,
+  samePkhAddress,
+} from "@lit-encryption/core/verification";
 
 export interface DIDPKHAddress {
   did: string;
+  namespace: DIDPkhNamespace;
+  /** CAIP-2 chain id, e.g. `eip155:1` */
+  chain: string;
+  /** EVM chain id for eip155 accounts, the chain reference otherwise */
+  chainId: number | string;
   address: string;
-  chainId: number;
 }
 
 /**
- * Creates a DID:PKH identifier from an Ethereum address
- * Format: did:pkh:eip155:1:0x{address}
+ * Creates a DID:PKH identifier for an account on an EVM chain id (1 by
+ * default) or a CAIP-2 chain (`eip155:137`, `solana:...`, `bip122:...`)
+ * Format: did:pkh:{namespace}:{reference}:{address}
  */
-export function createDIDPKH(address: string, chainId: number = 1): string {
-  if (!isAddress(address)) {
-    throw new Error(`Invalid Ethereum address: ${address}`);
-  }
-  
-  const checksumAddress = getAddress(address);
-  return `did:pkh:eip155:${chainId}:${checksumAddress}`;
+export function createDIDPKH(address: string, chain: number | string = 1): string {
+  const { namespace, reference } = parseCAIP2Chain(chain);
+  return `did:pkh:${namespace}:${reference}:${normalizePkhAddress(namespace, address)}`;
 }
 
 /**
  * Parses a DID:PKH identifier to extract address and chain information
  */
 export function parseDIDPKH(did: string): DIDPKHAddress {
-  const didPattern = /^did:pkh:eip155:(\d+):(0x[a-fA-F0-9]{40})$/;
-  const match = did.match(didPattern);
-  
-  if (!match) {
+  let parsed: ReturnType<typeof parseDIDPkhAccount>;
+  let namespace: DIDPkhNamespace;
+  try {
+    parsed = parseDIDPkhAccount(did);
+    namespace = parseCAIP2Chain(parsed.chain).namespace;
+  } catch {
     throw new Error(`Invalid DID:PKH format: ${did}`);
   }
-  
-  const [, chainIdStr, address] = match;
-  const chainId = parseInt(chainIdStr, 10);
-  
-  if (!isAddress(address)) {
-    throw new Error(`Invalid address in DID:PKH: ${address}`);
+
+  if (!isPkhAddress(namespace, parsed.address)) {
+    throw new Error(`Invalid DID:PKH format: ${did}`);
   }
-  
+
   return {
     did,
-    address: getAddress(address),
-    chainId
+    namespace,
+    chain: parsed.chain,
+    chainId: namespace === "eip155" ? parseInt(parsed.reference, 10) : parsed.reference,
+    address: normalizePkhAddress(namespace, parsed.address)
   };
 }
 
@@ -50,14 +59,14 @@ export function parseDIDPKH(did: string): DIDPKHAddress {
 export function validateDIDPKHAddress(did: string, expectedAddress: string): boolean {
   try {
     const parsed = parseDIDPKH(did);
-    return parsed.address.toLowerCase() === expectedAddress.toLowerCase();
+    return samePkhAddress(parsed.namespace, parsed.address, expectedAddress);
   } catch {
     return false;
   }
 }
 
 /**
- * Extracts the Ethereum address from a DID:PKH identifier
+ * Extracts the account address from a DID:PKH identifier
  */
 export function extractAddressFromDID(did: string): string {
   const parsed = parseDIDPKH(did);
@@ -68,13 +77,10 @@ export function extractAddressFromDID(did: string): string {
  * Validates DID:PKH format without throwing errors
  */
 export function isValidDIDPKH(did: string): boolean {
-  const didPattern = /^did:pkh:eip155:(\d+):(0x[a-fA-F0-9]{40})$/;
-  const match = did.match(didPattern);
-  
-  if (!match) {
+  try {
+    parseDIDPKH(did);
+    return true;
+  } catch {
     return false;
   }
-  
-  const [, , address] = match;
-  return isAddress(address);
-}
\ No newline at end of file
+}
@@ -2,15 +2,14 @@ import { LitNodeClient } from "@lit-protocol/lit-node-client";
 import { encryptString } from "@lit-protocol/encryption";
 import { LIT_NETWORK } from "@lit-protocol/constants";
 import { LitAccessControlConditionResource } from "@lit-protocol/auth-helpers";
-import { LitContracts } from "@lit-protocol/contracts-sdk";
 import { AccessControlConditions } from "@lit-protocol/types";
 import { Wallet } from "ethers";
 
 import {
-  getEnv,
   CredentialRequirements,
   loadCredentials,
   findMatchingCredential,
+  validateCredentialRequirements,
   validateGithubCredentialRequirements,
   getTrustedIssuers,
   validateTrustedIssuer,
@@ -19,97 +18,139 @@ import {
 import {
   createEncryptionJWT,
   createDecryptionJWT,
+  createRekeyJWT,
+  createPresentation,
+  createDecryptionPresentation,
+  signWalletJWT,
   validateJWTUserAddress,
 } from "./jwt";
+import { litActionCode } from "./litActionEnhanced";
+import { parseCredentialActionResponse, rekeyActionCode } from "@lit-encryption/core/action";
+import { createDIDPKH } from "./did";
+import {
+  computeLitActionIpfsCid,
+  createLitActionAccessControlConditions,
+  assertLitActionPinned,
+} from "./ipfs";
+import {
+  assertES256KJWT,
+  base64urlDecode,
+  ciphertextResource,
+  hashCredentialRequirements,
+  policyRequirements,
+  sealSecret,
+  selectCredentialsForPolicy,
+  verifyCredentials,
+} from "@lit-encryption/core/verification";
+import type { CredentialPolicy } from "@lit-encryption/core/verification";
+import {
+  ENCRYPTED_PAYLOAD_FORMAT_VERSION,
+  migrateEncryptedPayload,
+} from "@lit-encryption/core/payload";
+import type {
+  EncryptedPayload,
+  EncryptedPayloadV1,
+} from "@lit-encryption/core/payload";
+import {
+  decryptContent,
+  encryptContent,
+  generateContentKey,
+} from "@lit-encryption/core/envelope";
+import type {
+  ContentEnvelope,
+  ContentEnvelopeOptions,
+  DecryptedContent,
+} from "@lit-encryption/core/envelope";
+
+let litConnection: Promise<LitNodeClient> | undefined;
+
+/**
+ * The Lit node client shared by every call, connecting on first use
+ */
+const connectedLitNodeClient = (): Promise<LitNodeClient> => {
+  if (!litConnection) {
+    console.log("🔄 Connecting to the Lit network...");
+    const litNodeClient = new LitNodeClient({
+      litNetwork: LIT_NETWORK.DatilTest,
+      debug: false,
+    });
+    litConnection = litNodeClient.connect().then(() => {
+      console.log("✅ Connected to the Lit network");
+      return litNodeClient;
+    });
+    litConnection.catch(() => {
+      litConnection = undefined;
+    });
+  }
+  return litConnection;
+};
+
+/**
+ * Disconnect the shared Lit node client; the next call reconnects
+ */
+export const disconnectLitNodeClient = async (): Promise<void> => {
+  const connection = litConnection;
+  litConnection = undefined;
+  const litNodeClient = await connection?.catch(() => undefined);
+  if (litNodeClient) {
+    await litNodeClient.disconnect();
+  }
+};
 
 // Browser-compatible encryption function that accepts user wallet and credentials
-export const encryptToCredentialWithJWT = async (
+export const encryptToCredentialWithJWT = async <P extends CredentialPolicy>(
   secret: string,
-  credentialRequirements: CredentialRequirements,
+  credentialRequirements: P,
   userWallet: Wallet,
+  userChainId: number = 1,
 ) => {
-  let litNodeClient: LitNodeClient;
-
   try {
     console.log("🔒 Validating credential requirements...");
-    validateGithubCredentialRequirements(credentialRequirements);
+    validateCredentialRequirements(credentialRequirements);
     console.log(
-      `✅ Credential requirements validated for trusted issuer: ${credentialRequirements.issuer}`,
+      `✅ Credential requirements validated for trusted issuers: ${policyRequirements(credentialRequirements).map((requirements) => requirements.issuer).join(", ")}`,
     );
 
     console.log("🔑 Generating user ES256K JWT for encryption...");
+    const userChain = `eip155:${userChainId}`;
     const userSignedJWT = await createEncryptionJWT(
       userWallet,
       credentialRequirements,
+      userChain,
     );
-    console.log(
-      `✅ User JWT signed with DID: did:pkh:eip155:1:${userWallet.address}`,
-    );
+    // The user publishes the ciphertext and may later rekey it
+    const publisher = createDIDPKH(userWallet.address, userChain);
+    console.log(`✅ User JWT signed with DID: ${publisher}`);
 
-    console.log("🔄 Connecting to the Lit network...");
-    litNodeClient = new LitNodeClient({
-      litNetwork: LIT_NETWORK.DatilTest,
-      debug: false,
-    });
-    await litNodeClient.connect();
-    console.log("✅ Connected to the Lit network");
+    // Encrypting needs the network's public key only: no session
+    // signatures, so no capacity credits
+    const litNodeClient = await connectedLitNodeClient();
 
-    console.log("🔄 Connecting LitContracts client to network...");
-    const litContracts = new LitContracts({
-      signer: userWallet,
-      network: LIT_NETWORK.DatilTest,
-      debug: false,
-    });
-    await litContracts.connect();
-    console.log("✅ Connected LitContracts client to network");
-
-    let capacityTokenId = getEnv("LIT_CAPACITY_CREDIT_TOKEN_ID");
-    if (capacityTokenId === "" || capacityTokenId === undefined) {
-      console.log("🔄 No Capacity Credit provided, minting a new one...");
-      capacityTokenId = (
-        await litContracts.mintCapacityCreditsNFT({
-          requestsPerKilosecond: 10,
-          daysUntilUTCMidnightExpiration: 1,
-        })
-      ).capacityTokenIdStr;
-      console.log(`✅ Minted new Capacity Credit with ID: ${capacityTokenId}`);
-    } else {
-      console.log(
-        `ℹ️  Using provided Capacity Credit with ID: ${capacityTokenId}`,
+    // Only the pinned Lit Action can decrypt - authorization happens
+    // inside it via dual JWT verification
+    console.log("🔄 Computing the Lit Action IPFS CID...");
+    const litActionIpfsCid = await computeLitActionIpfsCid(litActionCode);
+    console.log(`✅ Pinned Lit Action IPFS CID: ${litActionIpfsCid}`);
+    const accessControlConditions: AccessControlConditions =
+      createLitActionAccessControlConditions(
+        litActionIpfsCid,
+        await computeLitActionIpfsCid(rekeyActionCode),
       );
-    }
 
-    console.log("🔄 Creating capacityDelegationAuthSig...");
-    const { capacityDelegationAuthSig } =
-      await litNodeClient.createCapacityDelegationAuthSig({
-        dAppOwnerWallet: userWallet,
-        capacityTokenId,
-        delegateeAddresses: [userWallet.address],
-        uses: "1",
-      });
-    console.log("✅ Capacity Delegation Auth Sig created");
-
-    // Universal access control - anyone can attempt decryption
-    // Real authorization happens in the Lit Action via dual JWT verification
-    const accessControlConditions: AccessControlConditions = [
-      {
-        contractAddress: "",
-        standardContractType: "timestamp",
-        chain: "ethereum",
-        method: "",
-        parameters: [":currentActionIpfsId"],
-        returnValueTest: {
-          comparator: ">=",
-          value: "0",
-        },
-      },
-    ];
+    // Commit the requirements into the ciphertext so the Lit Action can
+    // refuse to release the secret under relaxed requirements
+    const credentialRequirementsHash = await hashCredentialRequirements(
+      credentialRequirements,
+    );
+    console.log(
+      `ℹ️  Credential requirements hash: ${credentialRequirementsHash}`,
+    );
 
     console.log("🔐 Encrypting the secret...");
     const { ciphertext, dataToEncryptHash } = await encryptString(
       {
         accessControlConditions,
-        dataToEncrypt: secret,
+        dataToEncrypt: sealSecret(secret, credentialRequirementsHash, publisher),
       },
       litNodeClient,
     );
@@ -129,47 +170,55 @@ export const encryptToCredentialWithJWT = async (
     console.log("✅ Generated the Resource String");
 
     return {
+      formatVersion: ENCRYPTED_PAYLOAD_FORMAT_VERSION,
+      encryption: "lit" as const,
       ciphertext,
       dataToEncryptHash,
       accessControlConditions,
       accsResourceString,
       credentialRequirements,
+      credentialRequirementsHash,
+      litActionIpfsCid,
       userSignedJWT,
       userAddress: userWallet.address,
+      userChain,
     };
   } catch (error) {
     console.error(error);
     throw error;
-  } finally {
-    if (litNodeClient) {
-      litNodeClient.disconnect();
-    }
   }
 };
 
 // Browser-compatible decryption function that uses credentials only (no wallet needed)
 export const decryptFromCredentialsWithJWT = async (
-  encryptedData: {
-    ciphertext: string;
-    dataToEncryptHash: string;
-    accessControlConditions: AccessControlConditions;
-    accsResourceString: string;
-    credentialRequirements: CredentialRequirements;
-    userSignedJWT: string;
-    userAddress: string;
-    metadata?: { mock?: boolean }; // Optional metadata field
-  },
+  encryptedData: EncryptedPayload | EncryptedPayloadV1, // Migrated and validated before use
   userCredentials: ParsedCredential[] = [],
   userAddress?: string, // Optional address for verification
+  decryptionJWT?: string, // From createDecryptionJWT naming a replay service, signed by the user's wallet
 ) => {
+  const payload = migrateEncryptedPayload(encryptedData);
+  const holderAddress = userAddress || payload.userAddress;
+
+  if (decryptionJWT) {
+    if (!holderAddress) {
+      throw new Error("A user address is required to check the decryption JWT");
+    }
+    const { payload: jwtPayload } = await assertES256KJWT(decryptionJWT, holderAddress);
+    if (jwtPayload.purpose !== "decrypt" || jwtPayload.resource !== ciphertextResource(payload.dataToEncryptHash)) {
+      throw new Error("Decryption JWT was not signed for this ciphertext");
+    }
+  }
+
   // Handle mock encrypted data for testing
-  if (encryptedData.metadata?.mock || encryptedData.userSignedJWT === "mock.jwt.token") {
+  if (payload.encryption === "mock") {
     console.log("🧪 Detected mock encrypted data, using mock decryption...");
     
-    // For mock data, the ciphertext is base64 encoded content
+    // For mock data, the ciphertext is the base64 encoded UTF-8 plaintext
     try {
-      const decodedContent = atob(encryptedData.ciphertext);
-      
+      const decodedContent = new TextDecoder("utf-8", { fatal: true }).decode(
+        base64urlDecode(payload.ciphertext),
+      );
+
       // Return mock Lit Action result format
       return {
         response: {
@@ -190,28 +239,47 @@ export const decryptFromCredentialsWithJWT = async (
 
   try {
     // Optional address validation if provided
-    if (userAddress && userAddress.toLowerCase() !== encryptedData.userAddress.toLowerCase()) {
+    if (userAddress && payload.userAddress && userAddress.toLowerCase() !== payload.userAddress.toLowerCase()) {
       console.warn("User address mismatch - proceeding with credential verification");
     }
+    if (!holderAddress) {
+      throw new Error("A user address is required to decrypt");
+    }
+
+    if (!payload.litActionIpfsCid) {
+      throw new Error("Encrypted data is not bound to a pinned Lit Action");
+    }
+    const litActionIpfsCid = await assertLitActionPinned(
+      litActionCode,
+      {
+        litActionIpfsCid: payload.litActionIpfsCid,
+        accessControlConditions: payload.accessControlConditions,
+      },
+      await computeLitActionIpfsCid(rekeyActionCode),
+    );
+    console.log(
+      `✅ Local Lit Action matches pinned IPFS CID: ${litActionIpfsCid}`,
+    );
 
     console.log("🔍 Verifying credentials for access...");
 
     // Load and find matching credential from provided credentials
     console.log("🔍 Loading credentials...");
-    const credentials = loadCredentials(userCredentials);
-    const matchingCredential = findMatchingCredential(
+    const credentials = await verifyCredentials(loadCredentials(userCredentials));
+    const matchingCredentials = selectCredentialsForPolicy(
       credentials,
-      encryptedData.credentialRequirements,
-      userAddress || encryptedData.userAddress, // Use provided or encrypted data address
+      payload.credentialRequirements,
+      // Use provided or encrypted data address, on the encrypted data's chain
+      createDIDPKH(holderAddress, payload.userChain || "eip155:1"),
     );
 
-    if (!matchingCredential) {
+    if (!matchingCredentials) {
       throw new Error(
         "No matching credential found for the specified requirements",
       );
     }
     console.log(
-      `✅ Found matching credential for ${matchingCredential.handle}`,
+      `✅ Found ${matchingCredentials.length} matching credential(s) from ${matchingCredentials.map((credential) => credential.issuer).join(", ")}`,
     );
 
     // Real Lit Protocol decryption requires wallet operations which conflicts
@@ -227,15 +295,192 @@ export const decryptFromCredentialsWithJWT = async (
   }
 };
 
+/**
+ * Encrypt `content` under a fresh content key (DEK), and encrypt the DEK to
+ * the credential requirements. Only the DEK goes through Lit.
+ */
+export const encryptContentEnvelope = async <P extends CredentialPolicy>(
+  content: Uint8Array | Blob,
+  credentialRequirements: P,
+  userWallet: Wallet,
+  options: ContentEnvelopeOptions = {},
+  userChainId = 1,
+): Promise<ContentEnvelope> => {
+  const contentKey = generateContentKey();
+  const { metadata, ciphertext } = await encryptContent(content, contentKey, options);
+  const encryptedKey = await encryptToCredentialWithJWT(contentKey, credentialRequirements, userWallet, userChainId);
+  return { encryptedKey, metadata, ciphertext };
+};
+
+/**
+ * Release the DEK of an envelope with `decryptFromCredentialsWithJWT`, then
+ * decrypt the content locally. Works for `mock` and `lit` keys alike.
+ */
+export const decryptContentEnvelope = async (
+  envelope: ContentEnvelope,
+  userCredentials: ParsedCredential[] = [],
+  userAddress?: string,
+  decryptionJWT?: string,
+): Promise<DecryptedContent> => {
+  const { response } = await decryptFromCredentialsWithJWT(
+    envelope.encryptedKey,
+    userCredentials,
+    userAddress,
+    decryptionJWT,
+  );
+  const result = parseCredentialActionResponse(response);
+  if (!result.success) {
+    throw new Error(`The Lit Action did not release the content key: ${result.error}`);
+  }
+
+  return {
+    content: await decryptContent(envelope.ciphertext, result.secret, envelope.metadata),
+    mimeType: envelope.metadata.mimeType,
+  };
+};
+
 // Re-export utilities for use in other packages
 export type { CredentialRequirements, ParsedCredential };
 export {
   findMatchingCredential,
+  validateCredentialRequirements,
   validateGithubCredentialRequirements,
   getTrustedIssuers,
   validateTrustedIssuer,
   loadCredentials,
   createEncryptionJWT,
   createDecryptionJWT,
+  createRekeyJWT,
+  createPresentation,
+  createDecryptionPresentation,
+  signWalletJWT,
   validateJWTUserAddress,
-};
\ No newline at end of file
+};
+
+// Verification shared with the Lit Actions
+export {
+  verifyJWTWithEdDSA,
+  verifyCredentialJWT,
+  verifyCredentials,
+  credentialSubjectMatchesAddress,
+  validateCredentialClaims,
+  createCredentialTypeRegistry,
+  CredentialTypeRegistry,
+  credentialTypes,
+  isCredentialRequirement,
+  policyRequirements,
+  selectCredentialsForPolicy,
+  validateCredentialPolicy,
+  decodeJWT,
+  base64urlEncode,
+  base64urlDecode,
+  resolveJSONPointer,
+  evaluateClaimPredicate,
+  claimPredicatesSatisfied,
+  validateClaimPredicates,
+  checkCredentialStatus,
+  credentialAgeSatisfied,
+  credentialIssuedAt,
+  credentialValidityPeriod,
+  credentialValidityStatus,
+  DEFAULT_CLOCK_SKEW_SECONDS,
+  hashCredentialRequirements,
+  unsealSecret,
+  canonicalizeJSON,
+  hashCanonicalJSON,
+  createDIDResolver,
+  DIDResolverRegistry,
+  ciphertextResource,
+  consumeJWTNonce,
+  createMemoryReplayStore,
+  createTinyCloudReplayStore,
+  createHttpReplayStore,
+  jwtReplayStore,
+  createChainRPC,
+  createJSONRPCProvider,
+  verifySmartAccountSignature,
+  parseCAIP2Chain,
+  chainAccepted,
+  SOLANA_MAINNET,
+  BITCOIN_MAINNET,
+  assertPresentationJWT,
+  verifyPresentation,
+} from "@lit-encryption/core/verification";
+export type {
+  DIDResolver,
+  DIDDocument,
+  VerificationMethod,
+  VerifiedCredential,
+  CredentialTypeDefinition,
+  CredentialClaimDefinition,
+  CredentialJWTHeader,
+  CredentialJWTPayload,
+  ClaimPredicate,
+  ClaimValue,
+  CredentialPolicy,
+  CredentialStatusEntry,
+  CredentialValidityOptions,
+  CredentialValidityPeriod,
+  CredentialValidityStatus,
+  ReplayStore,
+  ReplayServiceFetch,
+  TinyCloudReplayStorage,
+  UserJWTSigner,
+  UserJWTTypedData,
+  WalletSignatureScheme,
+  ChainRPC,
+  EthereumProvider,
+  UserJWTVerificationOptions,
+  DIDPkhNamespace,
+  VerifiablePresentation,
+  PresentationJWTPayload,
+  VerifiedPresentation,
+  VerifyPresentationOptions,
+} from "@lit-encryption/core/verification";
+export { verifyES256KJWT } from "./jwt";
+
+// The Lit Actions ciphertexts are pinned to, and the access control
+// conditions that pin them
+export {
+  computeLitActionIpfsCid,
+  createLitActionAccessControlConditions,
+  assertLitActionPinned,
+} from "./ipfs";
+export { enhancedCredentialActionCode, rekeyActionCode } from "@lit-encryption/core/action";
+
+// The versioned payload format shared with core and the app
+export {
+  validateEncryptedPayload,
+  migrateEncryptedPayload,
+  migrateEncryptedPayloadV1,
+  serializeEncryptedPayload,
+  parseEncryptedPayload,
+  ENCRYPTED_PAYLOAD_FORMAT_VERSION,
+  ENCRYPTED_PAYLOAD_SCHEMA,
+} from "@lit-encryption/core/payload";
+export type {
+  EncryptedPayload,
+  EncryptedPayloadLink,
+  EncryptedPayloadMetadata,
+  EncryptedPayloadV1,
+  JSONSchema,
+} from "@lit-encryption/core/payload";
+
+// Envelope encryption of files and binary content under a content key
+export {
+  encryptContent,
+  decryptContent,
+  encryptContentStream,
+  decryptContentStream,
+  generateContentKey,
+  readContent,
+  CONTENT_ENVELOPE_ALGORITHM,
+  DEFAULT_CONTENT_CHUNK_SIZE,
+} from "@lit-encryption/core/envelope";
+export type {
+  ContentEnvelope,
+  ContentEnvelopeMetadata,
+  ContentEnvelopeOptions,
+  DecryptedContent,
+  EnvelopeContent,
+} from "@lit-encryption/core/envelope";
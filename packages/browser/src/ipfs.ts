@@ -0,0 +1,7 @@
+// Lit Action pinning is shared with packages/core, so the access control
+// conditions check cannot drift between the two
+export {
+  computeLitActionIpfsCid,
+  createLitActionAccessControlConditions,
+  assertLitActionPinned,
+} from "@lit-encryption/core/ipfs";
@@ -1,47 +1,35 @@
-import { Wallet, keccak256, toUtf8Bytes, getBytes, isAddress, recoverAddress } from "ethers";
+import { Wallet, keccak256, toUtf8Bytes, getBytes } from "ethers";
 import { createDIDPKH, validateDIDPKHAddress } from "./did";
-import { CredentialRequirements } from "./utils";
+import {
+  base64urlDecode,
+  base64urlEncode,
+  ciphertextResource,
+  hashCredentialRequirements,
+  parseCAIP2Chain,
+  signUserJWTWithWallet,
+  VERIFIABLE_PRESENTATION_CONTEXT,
+  CredentialPolicy,
+  ES256KJWTHeader,
+  ES256KJWTPayload,
+  UserJWTSigner,
+  VerifiablePresentation,
+  WalletSignatureScheme,
+} from "@lit-encryption/core/verification";
 
-export interface ES256KJWTHeader {
-  alg: "ES256K";
-  typ: "JWT";
-  kid: string;
-}
-
-export interface ES256KJWTPayload {
-  iss: string;
-  sub: string;
-  aud: string;
-  exp: number;
-  iat: number;
-  nonce: string;
-  purpose: "encrypt" | "decrypt";
-  resource: string;
-  credential_requirements?: CredentialRequirements;
-}
-
-/**
- * Base64URL encode (without padding)
- */
-function base64urlEncode(data: string | Uint8Array): string {
-  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
-  const base64 = btoa(String.fromCharCode(...bytes));
-  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
-}
+export type {
+  ES256KJWTHeader,
+  ES256KJWTPayload,
+  PresentationJWTPayload,
+  UserJWTSigner,
+  WalletSignatureScheme,
+} from "@lit-encryption/core/verification";
+export { verifyES256KJWT } from "@lit-encryption/core/verification";
 
 /**
- * Base64URL decode
+ * The claims a caller chooses; the signer's DID, timestamps and (unless a
+ * verifier set one) nonce are added
  */
-function base64urlDecode(data: string): Uint8Array {
-  const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
-  const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=');
-  const binary = atob(padded);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return bytes;
-}
+type UserJWTClaims = Omit<ES256KJWTPayload, 'iss' | 'sub' | 'iat' | 'exp' | 'nonce'> & { nonce?: string };
 
 /**
  * Generate a cryptographically secure random nonce
@@ -53,31 +41,45 @@ function generateNonce(): string {
 }
 
 /**
- * Sign a JWT using ES256K (ECDSA with secp256k1)
+ * Complete a user JWT payload for `address` on `chain`, valid for
+ * `expirationMinutes`
+ */
+function completeUserJWTPayload(
+  address: string,
+  payload: UserJWTClaims,
+  expirationMinutes: number,
+  chain: number | string
+): ES256KJWTPayload {
+  const now = Math.floor(Date.now() / 1000);
+  const userDID = createDIDPKH(address, chain);
+  return {
+    ...payload,
+    iss: userDID,
+    sub: userDID,
+    iat: now,
+    exp: now + (expirationMinutes * 60),
+    nonce: payload.nonce || generateNonce()
+  };
+}
+
+/**
+ * Sign a JWT using ES256K (ECDSA with secp256k1) for the wallet's account on
+ * EVM chain `chainId`
  */
 export async function signES256KJWT(
   wallet: Wallet,
-  payload: Omit<ES256KJWTPayload, 'iss' | 'sub' | 'iat' | 'nonce'>,
-  expirationMinutes: number = 5
+  payload: UserJWTClaims,
+  expirationMinutes: number = 5,
+  chainId: number = 1
 ): Promise<string> {
-  const now = Math.floor(Date.now() / 1000);
-  const userDID = createDIDPKH(wallet.address);
+  // Create complete payload
+  const completePayload = completeUserJWTPayload(wallet.address, payload, expirationMinutes, chainId);
   
   // Create header
   const header: ES256KJWTHeader = {
     alg: "ES256K",
     typ: "JWT",
-    kid: `${userDID}#controller`
-  };
-  
-  // Create complete payload
-  const completePayload: ES256KJWTPayload = {
-    ...payload,
-    iss: userDID,
-    sub: userDID,
-    iat: now,
-    exp: now + (expirationMinutes * 60),
-    nonce: generateNonce()
+    kid: `${completePayload.iss}#controller`
   };
   
   // Encode header and payload
@@ -104,109 +106,148 @@ export async function signES256KJWT(
 }
 
 /**
- * Verify an ES256K JWT signature
+ * Sign a JWT with a browser wallet (MetaMask, WalletConnect, wagmi, viem),
+ * which cannot expose a raw signing key: the signature is an EIP-191
+ * `personal_sign` (the default when the signer supports it) or an EIP-712
+ * typed-data signature over the signing input. Solana and Bitcoin wallets
+ * sign for their `chain` with Ed25519 or BIP-137.
  */
-export async function verifyES256KJWT(jwt: string): Promise<{
-  header: ES256KJWTHeader;
-  payload: ES256KJWTPayload;
-  valid: boolean;
-}> {
-  const [encodedHeader, encodedPayload, encodedSignature] = jwt.split('.');
-  
-  if (!encodedHeader || !encodedPayload || !encodedSignature) {
-    throw new Error('Invalid JWT format');
-  }
-  
-  // Decode components
-  const header = JSON.parse(new TextDecoder().decode(base64urlDecode(encodedHeader))) as ES256KJWTHeader;
-  const payload = JSON.parse(new TextDecoder().decode(base64urlDecode(encodedPayload))) as ES256KJWTPayload;
-  
-  // Verify algorithm
-  if (header.alg !== 'ES256K') {
-    throw new Error(`Unsupported algorithm: ${header.alg}`);
-  }
-  
-  // Verify DID format and consistency
-  if (!payload.iss.startsWith('did:pkh:eip155:') || payload.iss !== payload.sub) {
-    throw new Error('Invalid DID format in JWT');
-  }
-  
-  // Extract address from DID
-  const signerAddress = payload.iss.split(':').pop();
-  if (!signerAddress || !isAddress(signerAddress)) {
-    throw new Error('Invalid address in JWT DID');
-  }
-  
-  // Verify expiration
-  const now = Math.floor(Date.now() / 1000);
-  if (payload.exp < now) {
-    return { header, payload, valid: false };
-  }
-  
-  // Recreate signing input
-  const signingInput = `${encodedHeader}.${encodedPayload}`;
-  const messageHash = keccak256(toUtf8Bytes(signingInput));
-  
-  // Decode signature
-  const rawSignature = base64urlDecode(encodedSignature);
-  if (rawSignature.length !== 64) {
-    throw new Error('Invalid signature length');
-  }
-  
-  // Extract r and s values
-  const r = '0x' + Array.from(rawSignature.slice(0, 32)).map(b => b.toString(16).padStart(2, '0')).join('');
-  const s = '0x' + Array.from(rawSignature.slice(32, 64)).map(b => b.toString(16).padStart(2, '0')).join('');
-  
-  // Try both recovery IDs (0 and 1, then convert to 27 and 28)
-  let recoveredAddress: string | null = null;
-  
-  for (const recoveryParam of [0, 1]) {
-    try {
-      const v = recoveryParam + 27;
-      const signature = { r, s, v };
-      const recovered = recoverAddress(messageHash, signature);
-      if (recovered.toLowerCase() === signerAddress.toLowerCase()) {
-        recoveredAddress = recovered;
-        break;
-      }
-    } catch {
-      // Continue to next recovery ID
-    }
+export async function signWalletJWT(
+  signer: UserJWTSigner,
+  payload: UserJWTClaims,
+  options: { scheme?: WalletSignatureScheme; expirationMinutes?: number; chain?: number | string } = {}
+): Promise<string> {
+  const completePayload = completeUserJWTPayload(
+    signer.address,
+    payload,
+    options.expirationMinutes ?? 5,
+    options.chain ?? signer.chain ?? 1
+  );
+  return signUserJWTWithWallet(signer, completePayload, options.scheme);
+}
+
+/**
+ * The EVM chain id of `chain`, which ES256K keys can only sign for
+ */
+function evmChainId(chain: number | string = 1): number {
+  const { namespace, reference } = parseCAIP2Chain(chain);
+  if (namespace !== 'eip155') {
+    throw new Error(`ES256K keys cannot sign for ${namespace} accounts`);
   }
-  
-  const valid = recoveredAddress !== null;
-  
-  return { header, payload, valid };
+  return parseInt(reference, 10);
+}
+
+/**
+ * Sign a user JWT with a raw key wallet (ES256K) or a browser wallet, for
+ * its account on `chain` (the signer's own chain, else `eip155:1`)
+ */
+function signUserJWT(
+  signer: Wallet | UserJWTSigner,
+  payload: UserJWTClaims,
+  chain?: number | string
+): Promise<string> {
+  return 'signingKey' in signer
+    ? signES256KJWT(signer as Wallet, payload, 5, evmChainId(chain))
+    : signWalletJWT(signer, payload, { chain });
 }
 
 /**
- * Create a JWT for encryption operations
+ * Create a JWT for encryption operations, carrying the hash of the
+ * credential requirements
  */
 export async function createEncryptionJWT(
-  wallet: Wallet,
-  credentialRequirements: CredentialRequirements
+  wallet: Wallet | UserJWTSigner,
+  credentialRequirements: CredentialPolicy,
+  chain?: number | string
 ): Promise<string> {
-  return signES256KJWT(wallet, {
+  return signUserJWT(wallet, {
     aud: "lit-protocol-encryption",
     purpose: "encrypt",
     resource: "credential-gated-secret",
-    credential_requirements: credentialRequirements
-  });
+    credential_requirements_hash: await hashCredentialRequirements(credentialRequirements)
+  }, chain);
 }
 
 /**
- * Create a JWT for decryption operations
+ * Create a JWT for decrypting one ciphertext, identified by its
+ * `dataToEncryptHash`. The Lit Action consumes its nonce in `replayService`.
  */
 export async function createDecryptionJWT(
-  wallet: Wallet,
-  credentialRequirements: CredentialRequirements
+  wallet: Wallet | UserJWTSigner,
+  credentialRequirements: CredentialPolicy,
+  dataToEncryptHash: string,
+  chain?: number | string,
+  replayService?: string
 ): Promise<string> {
-  return signES256KJWT(wallet, {
+  return signUserJWT(wallet, {
     aud: "lit-protocol-encryption",
     purpose: "decrypt",
-    resource: "credential-gated-secret",
-    credential_requirements: credentialRequirements
-  });
+    resource: ciphertextResource(dataToEncryptHash),
+    credential_requirements_hash: await hashCredentialRequirements(credentialRequirements),
+    ...(replayService && { replay_service: replayService })
+  }, chain);
+}
+
+/**
+ * Create a JWT authorizing the publisher's rekey of one ciphertext,
+ * identified by its `dataToEncryptHash`, to `newCredentialRequirements`. The
+ * rekey action consumes its nonce in `replayService`.
+ */
+export async function createRekeyJWT(
+  wallet: Wallet | UserJWTSigner,
+  newCredentialRequirements: CredentialPolicy,
+  dataToEncryptHash: string,
+  chain?: number | string,
+  replayService?: string
+): Promise<string> {
+  return signUserJWT(wallet, {
+    aud: "lit-protocol-encryption",
+    purpose: "rekey",
+    resource: ciphertextResource(dataToEncryptHash),
+    credential_requirements_hash: await hashCredentialRequirements(newCredentialRequirements),
+    ...(replayService && { replay_service: replayService })
+  }, chain);
+}
+
+/**
+ * Create a VP-JWT presenting `credentialJWTs`, signed by the holder's key like
+ * a user JWT. `claims` carry the verifier's `aud` and `nonce` and the
+ * operation the credentials are presented for.
+ */
+export async function createPresentation(
+  holder: Wallet | UserJWTSigner,
+  credentialJWTs: string[],
+  claims: UserJWTClaims,
+  chain?: number | string
+): Promise<string> {
+  const vp: VerifiablePresentation = {
+    '@context': [VERIFIABLE_PRESENTATION_CONTEXT],
+    type: ['VerifiablePresentation'],
+    verifiableCredential: credentialJWTs,
+  };
+  return signUserJWT(holder, { ...claims, vp } as UserJWTClaims, chain);
+}
+
+/**
+ * Create a VP-JWT for decrypting one ciphertext: the single holder proof the
+ * enhanced Lit Action accepts in place of the credential JWTs and a
+ * decryption JWT, with its nonce consumed in `replayService`
+ */
+export async function createDecryptionPresentation(
+  holder: Wallet | UserJWTSigner,
+  credentialJWTs: string[],
+  credentialRequirements: CredentialPolicy,
+  dataToEncryptHash: string,
+  chain?: number | string,
+  replayService?: string
+): Promise<string> {
+  return createPresentation(holder, credentialJWTs, {
+    aud: "lit-protocol-encryption",
+    purpose: "decrypt",
+    resource: ciphertextResource(dataToEncryptHash),
+    credential_requirements_hash: await hashCredentialRequirements(credentialRequirements),
+    ...(replayService && { replay_service: replayService })
+  }, chain);
 }
 
 /**
@@ -1,5 +1,13 @@
 // Browser-compatible utilities for lit-encryption
 
+import {
+  credentialTypes,
+  validateCredentialPolicy,
+  CredentialPolicy,
+  CredentialRequirements,
+  CredentialTypeRegistry,
+} from '@lit-encryption/core/verification';
+
 export const getEnv = (name: string): string => {
   // Browser environment (Vite)
   if (typeof globalThis !== 'undefined' && 'window' in globalThis) {
@@ -46,41 +54,28 @@ export const validateTrustedIssuer = (issuer: string): boolean => {
   return trustedIssuers.includes(issuer);
 };
 
-export const validateGithubCredentialRequirements = (requirements: CredentialRequirements): void => {
-  // Check if issuer is trusted
-  if (!validateTrustedIssuer(requirements.issuer)) {
-    const trustedIssuers = getTrustedIssuers();
-    throw new Error(`Untrusted issuer: ${requirements.issuer}. Trusted issuers: ${trustedIssuers.join(', ')}`);
-  }
-
-  // Check if credential type is GitHub verification
-  if (requirements.credentialType !== "GitHubVerification") {
-    throw new Error(`Invalid credential type: ${requirements.credentialType}. Only GitHubVerification is supported.`);
-  }
-
-  // Validate that GitHub handle claims are present (if specified)
-  if (requirements.claims?.githubHandle !== undefined) {
-    const handles = Array.isArray(requirements.claims.githubHandle) 
-      ? requirements.claims.githubHandle 
-      : [requirements.claims.githubHandle];
-    
-    for (const handle of handles) {
-      if (!handle || typeof handle !== 'string' || handle.trim().length === 0) {
-        throw new Error(`Invalid GitHub handle: ${handle}. GitHub handles must be non-empty strings.`);
-      }
+export const validateCredentialRequirements = (
+  policy: CredentialPolicy,
+  registry: CredentialTypeRegistry = credentialTypes,
+): void => {
+  validateCredentialPolicy(policy, (requirements: CredentialRequirements) => {
+    // Check if issuer is trusted
+    if (!validateTrustedIssuer(requirements.issuer)) {
+      const trustedIssuers = getTrustedIssuers();
+      throw new Error(`Untrusted issuer: ${requirements.issuer}. Trusted issuers: ${trustedIssuers.join(', ')}`);
     }
-  }
+
+    // Check the credential type, its issuers and claims
+    registry.validateRequirements(requirements);
+  });
 };
 
-export interface CredentialRequirements {
-  issuer: string;
-  credentialType: string;
-  claims?: {
-    githubHandle?: string | string[];
-    minIssuanceAge?: number;
-    requiredEvidence?: string[];
-  };
-}
+/**
+ * @deprecated Use `validateCredentialRequirements`, which accepts every registered credential type
+ */
+export const validateGithubCredentialRequirements = validateCredentialRequirements;
+
+export type { CredentialRequirements } from '@lit-encryption/core/verification';
 
 export interface ParsedCredential {
   jwt: string;
@@ -98,38 +93,4 @@ export const loadCredentials = (credentials: ParsedCredential[]): ParsedCredenti
   return credentials || [];
 };
 
-export const findMatchingCredential = (
-  credentials: ParsedCredential[], 
-  requirements: CredentialRequirements,
-  userAddress: string
-): ParsedCredential | null => {
-  return credentials.find(cred => {
-    // Check issuer
-    if (cred.issuer !== requirements.issuer) return false;
-    
-    // Check credential type
-    if (!cred.credentialSubject || 
-        !cred.credentialSubject.id || 
-        !cred.credentialSubject.id.includes(userAddress.toLowerCase())) {
-      return false;
-    }
-    
-    // Check GitHub handle if specified
-    if (requirements.claims?.githubHandle) {
-      const requiredHandles = Array.isArray(requirements.claims.githubHandle) 
-        ? requirements.claims.githubHandle 
-        : [requirements.claims.githubHandle];
-      
-      if (!cred.handle || !requiredHandles.includes(cred.handle)) return false;
-    }
-    
-    // Check issuance age if specified
-    if (requirements.claims?.minIssuanceAge) {
-      const issuanceTime = new Date(cred.issuanceDate).getTime();
-      const minTime = Date.now() - (requirements.claims.minIssuanceAge * 1000);
-      if (issuanceTime < minTime) return false;
-    }
-    
-    return true;
-  }) || null;
-};
\ No newline at end of file
+export { findMatchingCredential } from '@lit-encryption/core/verification';
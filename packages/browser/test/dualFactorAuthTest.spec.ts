@@ -4,7 +4,17 @@ import * as ethers from "ethers";
 
 use(chaiJsonSchema);
 
-import { encryptToCredentialWithJWT, decryptFromCredentialsWithJWT } from "../src/index.js";
+import {
+  encryptToCredentialWithJWT,
+  decryptFromCredentialsWithJWT,
+  decryptContentEnvelope,
+  disconnectLitNodeClient,
+  encryptContent,
+  generateContentKey,
+  base64urlEncode,
+  ENCRYPTED_PAYLOAD_FORMAT_VERSION,
+  EncryptedPayload,
+} from "../src/index.js";
 import { 
   createEncryptionJWT, 
   createDecryptionJWT, 
@@ -23,6 +33,9 @@ import {
 import { 
   CredentialRequirements
 } from "../src/utils.js";
+import { computeLitActionIpfsCid, createLitActionAccessControlConditions } from "../src/ipfs.js";
+import { litActionCode } from "../src/litActionEnhanced.js";
+import { hashCredentialRequirements } from "@lit-encryption/core/verification";
 
 describe("Dual-Factor Authentication with ES256K JWT", () => {
   const testSecret = "This is a dual-factor protected secret requiring both GitHub credential and Ethereum key proof!";
@@ -39,9 +52,16 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
     }
   };
 
+  // Lit's dataToEncryptHash of testSecret: the SHA-256 of the plaintext, in hex
+  const dataToEncryptHash = ethers.sha256(ethers.toUtf8Bytes(testSecret)).slice(2);
+
   // Shared encrypted data for tests
   let encryptedData: any;
 
+  after(async () => {
+    await disconnectLitNodeClient();
+  });
+
   describe("DID:PKH Utilities", () => {
     it("should create valid DID:PKH from Ethereum address", () => {
       const did = createDIDPKH(userAddress);
@@ -114,7 +134,7 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
       expect(parsed.payload.resource).to.equal("credential-gated-secret");
       
       // Verify JWT structure
-      expect(parsed.payload.credential_requirements).to.deep.equal(credentialRequirements);
+      expect(parsed.payload.credential_requirements_hash).to.equal(await hashCredentialRequirements(credentialRequirements));
       expect(parsed.payload.nonce).to.be.a('string');
       expect(parsed.payload.iat).to.be.a('number');
       expect(parsed.payload.exp).to.be.a('number');
@@ -122,13 +142,14 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
     });
 
     it("should create valid decryption JWT with ES256K", async () => {
-      decryptionJWT = await createDecryptionJWT(userWallet, credentialRequirements);
+      decryptionJWT = await createDecryptionJWT(userWallet, credentialRequirements, dataToEncryptHash);
       
       console.log("🔓 Created decryption JWT:", decryptionJWT);
       
       const parsed = parseJWT(decryptionJWT);
       
       expect(parsed.payload.purpose).to.equal("decrypt");
+      expect(parsed.payload.resource).to.equal(`lit-ciphertext:${dataToEncryptHash}`);
       expect(parsed.payload.aud).to.equal("lit-protocol-encryption");
       expect(parsed.payload.iss).to.equal(`did:pkh:eip155:1:${userAddress}`);
     });
@@ -158,7 +179,7 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
         aud: "lit-protocol-encryption",
         purpose: "encrypt",
         resource: "credential-gated-secret",
-        credential_requirements: credentialRequirements
+        credential_requirements_hash: await hashCredentialRequirements(credentialRequirements)
       }, -1); // Negative expiration means already expired
       
       try {
@@ -316,7 +337,7 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
   describe("Security Validation", () => {
     it("should prevent JWT reuse across different operations", async () => {
       const encryptJWT = await createEncryptionJWT(userWallet, credentialRequirements);
-      const decryptJWT = await createDecryptionJWT(userWallet, credentialRequirements);
+      const decryptJWT = await createDecryptionJWT(userWallet, credentialRequirements, dataToEncryptHash);
       
       const encryptParsed = parseJWT(encryptJWT);
       const decryptParsed = parseJWT(decryptJWT);
@@ -328,6 +349,34 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
       console.log("🔒 Unique JWTs generated for different operations");
     });
 
+    it("should not decrypt one ciphertext with a decryption JWT bound to another", async () => {
+      // Mock payloads pinned to the enhanced action, hashed like Lit hashes the plaintext
+      const accessControlConditions = createLitActionAccessControlConditions(await computeLitActionIpfsCid(litActionCode));
+      const mockPayload = (content: string): EncryptedPayload => ({
+        formatVersion: ENCRYPTED_PAYLOAD_FORMAT_VERSION,
+        encryption: "mock",
+        ciphertext: base64urlEncode(content),
+        dataToEncryptHash: ethers.sha256(ethers.toUtf8Bytes(content)).slice(2),
+        accessControlConditions,
+        accsResourceString: `lit-accesscontrolcondition://0x${"a".repeat(64)}`,
+        credentialRequirements,
+        userAddress,
+      });
+      const ciphertextA = mockPayload(testSecret);
+      const ciphertextB = mockPayload("Another secret under the same requirements");
+      const jwtForA = await createDecryptionJWT(userWallet, credentialRequirements, ciphertextA.dataToEncryptHash);
+
+      const result = await decryptFromCredentialsWithJWT(ciphertextA, [], userAddress, jwtForA);
+      expect((result.response as any).secret).to.equal(testSecret);
+
+      try {
+        await decryptFromCredentialsWithJWT(ciphertextB, [], userAddress, jwtForA);
+        expect.fail("Expected decryption to fail with a JWT for another ciphertext");
+      } catch (error) {
+        expect((error as Error).message).to.equal("Decryption JWT was not signed for this ciphertext");
+      }
+    });
+
     it("should bind JWTs to specific credential requirements", async () => {
       const differentRequirements: CredentialRequirements = {
         issuer: "did:web:rebasedemokey.pages.dev",
@@ -343,7 +392,7 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
       const parsed1 = parseJWT(jwt1);
       const parsed2 = parseJWT(jwt2);
       
-      expect(parsed1.payload.credential_requirements).to.not.deep.equal(parsed2.payload.credential_requirements);
+      expect(parsed1.payload.credential_requirements_hash).to.not.equal(parsed2.payload.credential_requirements_hash);
       console.log("🔗 JWTs properly bound to specific credential requirements");
     });
 
@@ -375,6 +424,56 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
     });
   });
 
+  describe("Mock Decryption", () => {
+    // Mock payloads pinned to the enhanced action, hashed like Lit hashes the plaintext
+    const mockPayload = async (content: string): Promise<EncryptedPayload> => ({
+      formatVersion: ENCRYPTED_PAYLOAD_FORMAT_VERSION,
+      encryption: "mock",
+      ciphertext: base64urlEncode(content),
+      dataToEncryptHash: ethers.sha256(ethers.toUtf8Bytes(content)).slice(2),
+      accessControlConditions: createLitActionAccessControlConditions(await computeLitActionIpfsCid(litActionCode)),
+      accsResourceString: `lit-accesscontrolcondition://0x${"a".repeat(64)}`,
+      credentialRequirements,
+      userAddress,
+    });
+
+    it("should decode mock payloads as UTF-8", async () => {
+      const secret = "Café ☕ — ключ 🔑";
+
+      const result = await decryptFromCredentialsWithJWT(await mockPayload(secret), [], userAddress);
+      expect(result.response).to.deep.equal({ success: true, secret });
+    });
+
+    it("should decrypt a binary envelope whose content key is a mock payload", async () => {
+      const content = new Uint8Array(256).map((_, i) => 255 - i);
+      const contentKey = generateContentKey();
+      const { metadata, ciphertext } = await encryptContent(content, contentKey, { mimeType: "application/octet-stream" });
+
+      const decrypted = await decryptContentEnvelope(
+        { encryptedKey: await mockPayload(contentKey), metadata, ciphertext },
+        [],
+        userAddress,
+      );
+      expect(decrypted.mimeType).to.equal("application/octet-stream");
+      expect(Array.from(decrypted.content)).to.deep.equal(Array.from(content));
+    });
+
+    it("should reject a mock envelope key that is not valid base64url", async () => {
+      const contentKey = generateContentKey();
+      const { metadata, ciphertext } = await encryptContent(new Uint8Array([1, 2, 3]), contentKey);
+      const encryptedKey = { ...(await mockPayload(contentKey)), ciphertext: "%%%" };
+
+      try {
+        await decryptContentEnvelope({ encryptedKey, metadata, ciphertext }, [], userAddress);
+        expect.fail("Expected the content key to be withheld");
+      } catch (error) {
+        expect((error as Error).message).to.equal(
+          "The Lit Action did not release the content key: Failed to decode mock encrypted content",
+        );
+      }
+    });
+  });
+
   describe("Integration with Trusted Issuers", () => {
     it("should combine trusted issuer validation with JWT signing", async () => {
       // This should work - trusted issuer + valid JWT
@@ -412,7 +511,7 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
       expect(parsedJWT.header.alg).to.equal("ES256K");
       expect(parsedJWT.payload.iss).to.match(/^did:pkh:eip155:1:/);
       expect(parsedJWT.payload.purpose).to.equal("encrypt");
-      expect(parsedJWT.payload.credential_requirements).to.deep.equal(credentialRequirements);
+      expect(parsedJWT.payload.credential_requirements_hash).to.equal(await hashCredentialRequirements(credentialRequirements));
     });
   });
 });
\ No newline at end of file
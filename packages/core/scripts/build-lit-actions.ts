@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+
+/**
+ * Bundles the Lit Action entry points in src/action/entries into
+ * self-contained scripts and writes them to src/action/generated as string
+ * constants. The IPFS CID of these strings is what ciphertexts are pinned to,
+ * so the generated files are committed and must be rebuilt whenever the
+ * action or verification modules change.
+ *
+ *   npm run build:actions          # regenerate
+ *   npm run build:actions -- --check   # fail if the generated code is stale
+ */
+
+import { build, Plugin } from 'esbuild';
+import { readFileSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const ACTION_DIR = join(__dirname, '..', 'src', 'action');
+
+export const LIT_ACTIONS = [
+  { entry: 'credentialAction', exportName: 'credentialActionCode' },
+  { entry: 'enhancedCredentialAction', exportName: 'enhancedCredentialActionCode' },
+  { entry: 'rekeyAction', exportName: 'rekeyActionCode' },
+] as const;
+
+/**
+ * The Lit Action runtime provides ethers v5 as a global, so resolve
+ * `import * as ethers from "ethers"` to it instead of bundling the package
+ */
+const litRuntimeGlobals: Plugin = {
+  name: 'lit-runtime-globals',
+  setup(pluginBuild) {
+    pluginBuild.onResolve({ filter: /^ethers$/ }, () => ({
+      path: 'ethers',
+      namespace: 'lit-runtime-global',
+    }));
+    pluginBuild.onLoad({ filter: /.*/, namespace: 'lit-runtime-global' }, () => ({
+      contents: 'module.exports = ethers;',
+      loader: 'js',
+    }));
+  },
+};
+
+/**
+ * Bundle one Lit Action entry point into a single script
+ */
+export async function bundleLitAction(entry: string): Promise<string> {
+  const result = await build({
+    entryPoints: [join(ACTION_DIR, 'entries', `${entry}.ts`)],
+    bundle: true,
+    write: false,
+    format: 'iife',
+    platform: 'neutral',
+    target: 'es2020',
+    charset: 'utf8',
+    legalComments: 'none',
+    plugins: [litRuntimeGlobals],
+    logLevel: 'silent',
+  });
+  return result.outputFiles[0].text;
+}
+
+/**
+ * Source of the generated module exporting the bundled action as a string
+ */
+export function renderGeneratedModule(exportName: string, code: string): string {
+  return `// Generated by scripts/build-lit-actions.ts from src/action - do not edit.\n` +
+    `export const ${exportName} = ${JSON.stringify(code)};\n`;
+}
+
+export const generatedModulePath = (entry: string): string =>
+  join(ACTION_DIR, 'generated', `${entry}.ts`);
+
+async function main() {
+  const check = process.argv.includes('--check');
+  let stale = false;
+
+  for (const { entry, exportName } of LIT_ACTIONS) {
+    const source = renderGeneratedModule(exportName, await bundleLitAction(entry));
+    const outputPath = generatedModulePath(entry);
+
+    if (check) {
+      const current = readFileSync(outputPath, 'utf8');
+      if (current !== source) {
+        console.error(`❌ ${outputPath} is out of date`);
+        stale = true;
+      }
+      continue;
+    }
+
+    writeFileSync(outputPath, source);
+    console.log(`✅ Wrote ${outputPath}`);
+  }
+
+  if (stale) {
+    console.error('Run `npm run build:actions` to regenerate the Lit Actions');
+    process.exit(1);
+  }
+}
+
+if (process.argv[1] === __filename) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
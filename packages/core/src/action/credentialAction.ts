@@ -0,0 +1,57 @@
+import { unsealSecret } from "../verification/requirements";
+import { verifyCredentialPolicy } from "./policy";
+import {
+  CredentialActionParams,
+  CredentialActionResponse,
+  LitActionsRuntime,
+} from "./runtime";
+
+/**
+ * Verify the presented credential JWTs and, only if they satisfy the
+ * credential policy, decrypt the secret inside the Lit Action
+ */
+export async function runCredentialAction(
+  params: CredentialActionParams,
+  Lit: { Actions: LitActionsRuntime },
+): Promise<CredentialActionResponse> {
+  let response: CredentialActionResponse;
+
+  try {
+    console.log("Starting credential verification...");
+
+    // 1-2. Verify JWT signatures and enforce the credential policy
+    const verifiedCredentials = await verifyCredentialPolicy(params);
+    console.log("Credential policy satisfied");
+
+    // 3. If verification passes, decrypt the sealed secret
+    const sealedSecret = await Lit.Actions.decryptAndCombine({
+      accessControlConditions: params.accessControlConditions,
+      ciphertext: params.ciphertext,
+      dataToEncryptHash: params.dataToEncryptHash,
+      chain: "ethereum",
+    });
+
+    // 4. Refuse to release it if the requirements were altered after encryption
+    const secret = await unsealSecret(sealedSecret, params.credentialRequirements);
+
+    console.log("Secret decrypted successfully");
+
+    // 5. Return the decrypted secret along with verification details
+    response = {
+      success: true,
+      secret,
+      verifiedCredential: verifiedCredentials[0],
+      verifiedCredentials,
+    };
+  } catch (e) {
+    const message = (e as Error).message;
+    console.error("Credential verification failed:", message);
+    response = {
+      success: false,
+      error: message
+    };
+  }
+
+  Lit.Actions.setResponse({ response });
+  return response;
+}
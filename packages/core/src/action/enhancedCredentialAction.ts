@@ -0,0 +1,190 @@
+import { parseDIDPkhAccount } from "../verification/did/pkh";
+import { assertES256KJWT } from "../verification/es256k";
+import { assertPresentationJWT } from "../verification/presentation";
+import { ciphertextResource, consumeJWTNonce, jwtReplayStore } from "../verification/replay";
+import { hashCredentialRequirements, unsealSecret } from "../verification/requirements";
+import { verifyCredentialPolicy } from "./policy";
+import { litChainRPC } from "./rpc";
+import { runOnce } from "./runOnce";
+import {
+  ActionErrorType,
+  EnhancedCredentialActionParams,
+  EnhancedCredentialActionResponse,
+  EnhancedLitRuntime,
+} from "./runtime";
+
+/**
+ * Names the user's chain in logs and authentication factors, by `did:pkh`
+ * namespace
+ */
+const KEY_OWNERSHIP_LABELS: Record<string, string> = {
+  eip155: "Ethereum",
+  solana: "Solana",
+  bip122: "Bitcoin",
+};
+
+/**
+ * Message fragments identifying each error category, checked in order
+ */
+const ACTION_ERROR_TYPES: [string[], ActionErrorType][] = [
+  [["publisher to authorize", "Only the publisher"], "rekey_authorization"],
+  [["Presentation", "presentation"], "presentation_verification"],
+  [["ES256K", "JWT chain"], "user_jwt_verification"],
+  [["JWT resource"], "jwt_resource_mismatch"],
+  [["JWT nonce", "JWT has no nonce", "replay service", "Replay service"], "jwt_replay"],
+  [["is not accepted by the requirements"], "chain_not_accepted"],
+  [["GitHub"], "github_credential_verification"],
+  [["revoked", "suspended", "Status list", "status list"], "credential_status_verification"],
+  [["Credential is too old"], "credential_too_old"],
+  [["Credential is too new"], "credential_too_new"],
+  [["Credential issuance time is unknown"], "credential_issuance_unknown"],
+  [["Credential expired", "Credential not yet valid", "Clock skew"], "credential_validity_verification"],
+  [["requirement not met", "Claim predicate", "Credential policy"], "credential_claims_verification"],
+  [["decrypt"], "decryption_error"],
+  [["bound to"], "requirements_binding_error"],
+];
+
+/**
+ * Map a verification failure to the error category reported to the caller
+ */
+export function classifyActionError(message: string): ActionErrorType {
+  for (const [fragments, errorType] of ACTION_ERROR_TYPES) {
+    if (fragments.some((fragment) => message.indexOf(fragment) !== -1)) {
+      return errorType;
+    }
+  }
+  return "general_error";
+}
+
+/**
+ * The holder proof: a VP-JWT embedding the credentials, or the user JWT
+ * presented next to them, but not both
+ */
+async function assertHolderProof(params: EnhancedCredentialActionParams, Lit: EnhancedLitRuntime) {
+  const rpc = litChainRPC(Lit.Actions);
+  if (params.presentationJWT) {
+    if (params.userSignedJWT || params.credentialJWT || params.credentialJWTs) {
+      throw new Error("A presentation replaces credentialJWT(s) and userSignedJWT");
+    }
+    const { payload } = await assertPresentationJWT(params.presentationJWT, params.userAddress, {
+      audience: "lit-protocol-encryption",
+      rpc,
+    });
+    return { payload, credentialJWTs: payload.vp.verifiableCredential };
+  }
+  if (!params.userSignedJWT) {
+    throw new Error("No holder proof: pass a presentationJWT or a userSignedJWT");
+  }
+  const { payload } = await assertES256KJWT(params.userSignedJWT, params.userAddress, { rpc });
+  return { payload, credentialJWTs: undefined };
+}
+
+/**
+ * Verify both the user's ES256K JWT (or VP-JWT) and the credential JWTs,
+ * then decrypt the secret inside the Lit Action
+ */
+export async function runEnhancedCredentialAction(
+  params: EnhancedCredentialActionParams,
+  Lit: EnhancedLitRuntime,
+): Promise<EnhancedCredentialActionResponse> {
+  let response: EnhancedCredentialActionResponse;
+
+  try {
+    console.log("Starting enhanced dual-factor credential verification...");
+
+    // 1. Verify the user JWT or presentation signature for its did:pkh
+    // account: ES256K or a wallet's EIP-191/EIP-712 signature (from a smart
+    // account if the node has an RPC for its chain), Ed25519 for Solana,
+    // BIP-137 for Bitcoin
+    console.log("Verifying ES256K JWT signature...");
+    const { payload: userJWT, credentialJWTs } = await assertHolderProof(params, Lit);
+
+    // 2. The action only decrypts, so only a decryption JWT is accepted
+    if (userJWT.purpose !== "decrypt") {
+      throw new Error(`JWT purpose mismatch. Expected: decrypt, Got: ${userJWT.purpose}`);
+    }
+
+    // 3. Verify the user JWT was signed for the operation's credential requirements
+    const requirementsHash = await hashCredentialRequirements(params.credentialRequirements);
+    if (userJWT.credential_requirements_hash !== requirementsHash) {
+      throw new Error("JWT credential requirements do not match operation requirements");
+    }
+
+    // 4. Verify JWT audience is correct
+    if (userJWT.aud !== "lit-protocol-encryption") {
+      throw new Error(`Invalid JWT audience: ${userJWT.aud}`);
+    }
+
+    // 5. Verify the decryption JWT was signed for this ciphertext
+    if (userJWT.resource !== ciphertextResource(params.dataToEncryptHash)) {
+      throw new Error("JWT resource does not match the ciphertext");
+    }
+
+    // 6. Consume the nonce in the replay service the JWT names, shared by
+    // every execution, so the JWT cannot be replayed. One node consumes it
+    // for the whole network, or every other node would find it used.
+    await runOnce(Lit.Actions, "consumeNonce", () => consumeJWTNonce(jwtReplayStore(userJWT), userJWT));
+
+    // 7. The user JWT names the chain of the user's account
+    const account = parseDIDPkhAccount(userJWT.iss);
+    if (params.userChain && params.userChain !== account.chain) {
+      throw new Error(`JWT chain ${account.chain} does not match the user chain ${params.userChain}`);
+    }
+
+    console.log(`✅ ES256K JWT verified successfully - User proved control of ${KEY_OWNERSHIP_LABELS[account.namespace]} address`);
+
+    // 8-9. Verify credential JWT signatures (EdDSA) and enforce the credential policy
+    console.log("Verifying credential JWTs against the credential policy...");
+    // A presentation's credentials are the ones it embeds
+    const verifiedCredentials = await verifyCredentialPolicy({
+      ...params,
+      ...(credentialJWTs && { credentialJWTs }),
+      userChain: account.chain,
+    });
+    console.log("✅ Credential policy satisfied");
+
+    // 10. If all verification passes, decrypt the secret
+    console.log("All verifications passed - proceeding with decryption...");
+    const sealedSecret = await Lit.Actions.decryptAndCombine({
+      accessControlConditions: params.accessControlConditions,
+      ciphertext: params.ciphertext,
+      dataToEncryptHash: params.dataToEncryptHash,
+      chain: "ethereum",
+    });
+
+    // 11. Refuse to release it if the requirements were altered after encryption
+    const secret = await unsealSecret(sealedSecret, params.credentialRequirements);
+
+    console.log("✅ Secret decrypted successfully with dual-factor authentication");
+
+    // 12. Return the decrypted secret along with verification details
+    response = {
+      success: true,
+      secret,
+      verifiedCredential: verifiedCredentials[0],
+      verifiedCredentials,
+      verifiedUserJWT: {
+        userDID: userJWT.iss,
+        purpose: userJWT.purpose,
+        issuedAt: new Date(userJWT.iat * 1000).toISOString(),
+        expiresAt: new Date(userJWT.exp * 1000).toISOString(),
+        nonce: userJWT.nonce,
+      },
+      authenticationFactors: [
+        "GitHub credential from trusted issuer",
+        `${KEY_OWNERSHIP_LABELS[account.namespace]} key ownership proof`,
+      ],
+    };
+  } catch (e) {
+    const message = (e as Error).message;
+    console.error("Enhanced dual-factor credential verification failed:", message);
+    response = {
+      success: false,
+      error: message,
+      errorType: classifyActionError(message),
+    };
+  }
+
+  Lit.Actions.setResponse({ response });
+  return response;
+}
@@ -0,0 +1,30 @@
+// Lit Action entry point: `jsParams` and the `Lit` runtime are globals
+import { runCredentialAction } from "../credentialAction";
+import type { CredentialActionParams, LitActionsRuntime } from "../runtime";
+
+declare const Lit: { Actions: LitActionsRuntime };
+declare const accessControlConditions: CredentialActionParams["accessControlConditions"];
+declare const ciphertext: string;
+declare const dataToEncryptHash: string;
+declare const credentialJWT: string | undefined;
+declare const credentialJWTs: string[] | undefined;
+declare const credentialRequirements: CredentialActionParams["credentialRequirements"];
+declare const userAddress: string;
+declare const userChain: string | undefined;
+declare const clockSkewSeconds: number | undefined;
+
+runCredentialAction(
+  {
+    accessControlConditions,
+    ciphertext,
+    dataToEncryptHash,
+    // Optional jsParams may be omitted, leaving the global undeclared
+    credentialJWT: typeof credentialJWT !== "undefined" ? credentialJWT : undefined,
+    credentialJWTs: typeof credentialJWTs !== "undefined" ? credentialJWTs : undefined,
+    credentialRequirements,
+    userAddress,
+    userChain: typeof userChain !== "undefined" ? userChain : undefined,
+    clockSkewSeconds: typeof clockSkewSeconds !== "undefined" ? clockSkewSeconds : undefined,
+  },
+  Lit,
+);
@@ -0,0 +1,34 @@
+// Lit Action entry point: `jsParams` and the `Lit` runtime are globals
+import { runEnhancedCredentialAction } from "../enhancedCredentialAction";
+import type { EnhancedCredentialActionParams, EnhancedLitRuntime } from "../runtime";
+
+declare const Lit: EnhancedLitRuntime;
+declare const accessControlConditions: EnhancedCredentialActionParams["accessControlConditions"];
+declare const ciphertext: string;
+declare const dataToEncryptHash: string;
+declare const credentialJWT: string | undefined;
+declare const credentialJWTs: string[] | undefined;
+declare const credentialRequirements: EnhancedCredentialActionParams["credentialRequirements"];
+declare const userAddress: string;
+declare const userChain: string | undefined;
+declare const clockSkewSeconds: number | undefined;
+declare const userSignedJWT: string | undefined;
+declare const presentationJWT: string | undefined;
+
+runEnhancedCredentialAction(
+  {
+    accessControlConditions,
+    ciphertext,
+    dataToEncryptHash,
+    // Optional jsParams may be omitted, leaving the global undeclared
+    credentialJWT: typeof credentialJWT !== "undefined" ? credentialJWT : undefined,
+    credentialJWTs: typeof credentialJWTs !== "undefined" ? credentialJWTs : undefined,
+    credentialRequirements,
+    userAddress,
+    userChain: typeof userChain !== "undefined" ? userChain : undefined,
+    clockSkewSeconds: typeof clockSkewSeconds !== "undefined" ? clockSkewSeconds : undefined,
+    userSignedJWT: typeof userSignedJWT !== "undefined" ? userSignedJWT : undefined,
+    presentationJWT: typeof presentationJWT !== "undefined" ? presentationJWT : undefined,
+  },
+  Lit,
+);
@@ -0,0 +1,28 @@
+// Lit Action entry point: `jsParams` and the `Lit` runtime are globals
+import { runRekeyAction } from "../rekeyAction";
+import type { EnhancedLitRuntime, RekeyActionParams } from "../runtime";
+
+declare const Lit: EnhancedLitRuntime;
+declare const accessControlConditions: RekeyActionParams["accessControlConditions"];
+declare const ciphertext: string;
+declare const dataToEncryptHash: string;
+declare const credentialRequirements: RekeyActionParams["credentialRequirements"];
+declare const newCredentialRequirements: RekeyActionParams["newCredentialRequirements"];
+declare const rekeyJWT: string;
+declare const publisherAddress: string;
+declare const publisherChain: string | undefined;
+
+runRekeyAction(
+  {
+    accessControlConditions,
+    ciphertext,
+    dataToEncryptHash,
+    credentialRequirements,
+    newCredentialRequirements,
+    rekeyJWT,
+    publisherAddress,
+    // Optional jsParams may be omitted, leaving the global undeclared
+    publisherChain: typeof publisherChain !== "undefined" ? publisherChain : undefined,
+  },
+  Lit,
+);
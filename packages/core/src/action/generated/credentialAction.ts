@@ -0,0 +1,2 @@
+// Generated by scripts/build-lit-actions.ts from src/action - do not edit.
+export const credentialActionCode = "\"use strict\";\n(() => {\n  var __create = Object.create;\n  var __defProp = Object.defineProperty;\n  var __getOwnPropDesc = Object.getOwnPropertyDescriptor;\n  var __getOwnPropNames = Object.getOwnPropertyNames;\n  var __getProtoOf = Object.getPrototypeOf;\n  var __hasOwnProp = Object.prototype.hasOwnProperty;\n  var __commonJS = (cb, mod) => function __require() {\n    return mod || (0, cb[__getOwnPropNames(cb)[0]])((mod = { exports: {} }).exports, mod), mod.exports;\n  };\n  var __copyProps = (to, from, except, desc) => {\n    if (from && typeof from === \"object\" || typeof from === \"function\") {\n      for (let key of __getOwnPropNames(from))\n        if (!__hasOwnProp.call(to, key) && key !== except)\n          __defProp(to, key, { get: () => from[key], enumerable: !(desc = __getOwnPropDesc(from, key)) || desc.enumerable });\n    }\n    return to;\n  };\n  var __toESM = (mod, isNodeMode, target) => (target = mod != null ? __create(__getProtoOf(mod)) : {}, __copyProps(\n    // If the importer is in node compatibility mode or this is not an ESM\n    // file that has been converted to a CommonJS file using a Babel-\n    // compatible transform (i.e. \"__esModule\" has not been set), then set\n    // \"default\" to the CommonJS \"module.exports\" for node compatibility.\n    isNodeMode || !mod || !mod.__esModule ? __defProp(target, \"default\", { value: mod, enumerable: true }) : target,\n    mod\n  ));\n\n  // lit-runtime-global:ethers\n  var require_ethers = __commonJS({\n    \"lit-runtime-global:ethers\"(exports, module) {\n      module.exports = ethers;\n    }\n  });\n\n  // src/verification/encoding.ts\n  function base64urlEncode(data) {\n    const bytes = typeof data === \"string\" ? new TextEncoder().encode(data) : data;\n    const base64 = btoa(String.fromCharCode(...bytes));\n    return base64.replace(/\\+/g, \"-\").replace(/\\//g, \"_\").replace(/=/g, \"\");\n  }\n  function base64urlDecode(data) {\n    const base64 = data.replace(/-/g, \"+\").replace(/_/g, \"/\");\n    const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, \"=\");\n    const binary = atob(padded);\n    const bytes = new Uint8Array(binary.length);\n    for (let i = 0; i < binary.length; i++) {\n      bytes[i] = binary.charCodeAt(i);\n    }\n    return bytes;\n  }\n  function bytesToHex(bytes) {\n    return Array.from(bytes).map((b) => b.toString(16).padStart(2, \"0\")).join(\"\");\n  }\n  function decodeJWT(jwt) {\n    const [encodedHeader, encodedPayload, encodedSignature] = jwt.split(\".\");\n    if (!encodedHeader || !encodedPayload || !encodedSignature) {\n      throw new Error(\"Invalid JWT format\");\n    }\n    return {\n      header: JSON.parse(new TextDecoder().decode(base64urlDecode(encodedHeader))),\n      payload: JSON.parse(new TextDecoder().decode(base64urlDecode(encodedPayload))),\n      signingInput: `${encodedHeader}.${encodedPayload}`,\n      signature: base64urlDecode(encodedSignature)\n    };\n  }\n\n  // src/verification/jcs.ts\n  var hasLoneSurrogate = (value) => /[\\uD800-\\uDBFF](?![\\uDC00-\\uDFFF])|(?:^|[^\\uD800-\\uDBFF])[\\uDC00-\\uDFFF]/.test(value);\n  var serializeString = (value) => {\n    if (hasLoneSurrogate(value)) {\n      throw new Error(\"Cannot canonicalize a string with a lone surrogate\");\n    }\n    return JSON.stringify(value);\n  };\n  function canonicalizeJSON(value) {\n    if (value === null) return \"null\";\n    switch (typeof value) {\n      case \"boolean\":\n        return value ? \"true\" : \"false\";\n      case \"number\":\n        if (!isFinite(value)) {\n          throw new Error(`Cannot canonicalize the number ${value}`);\n        }\n        return JSON.stringify(value);\n      case \"string\":\n        return serializeString(value);\n      case \"object\": {\n        if (typeof value.toJSON === \"function\") {\n          return canonicalizeJSON(value.toJSON());\n        }\n        if (Array.isArray(value)) {\n          return `[${value.map((item) => canonicalizeJSON(item === void 0 ? null : item)).join(\",\")}]`;\n        }\n        const members = Object.keys(value).filter((key) => value[key] !== void 0).sort().map((key) => `${serializeString(key)}:${canonicalizeJSON(value[key])}`);\n        return `{${members.join(\",\")}}`;\n      }\n      default:\n        throw new Error(`Cannot canonicalize a value of type ${typeof value}`);\n    }\n  }\n  async function hashCanonicalJSON(value) {\n    const data = new TextEncoder().encode(canonicalizeJSON(value));\n    return bytesToHex(new Uint8Array(await crypto.subtle.digest(\"SHA-256\", data)));\n  }\n\n  // src/verification/requirements.ts\n  var hashCredentialRequirements = (requirements) => hashCanonicalJSON(requirements);\n  var unsealSecret = async (sealedSecret, requirements) => (await openSealedSecret(sealedSecret, requirements)).secret;\n  var openSealedSecret = async (sealedSecret, requirements) => {\n    let sealed;\n    try {\n      sealed = JSON.parse(sealedSecret);\n    } catch {\n      sealed = null;\n    }\n    if (!sealed || typeof sealed.credentialRequirementsHash !== \"string\") {\n      throw new Error(\"Ciphertext is not bound to credential requirements\");\n    }\n    const requirementsHash = await hashCredentialRequirements(requirements);\n    if (sealed.credentialRequirementsHash !== requirementsHash) {\n      throw new Error(\n        \"Credential requirements do not match the requirements bound to the ciphertext\"\n      );\n    }\n    return sealed;\n  };\n\n  // src/verification/credentialAge.ts\n  function credentialIssuedAt(payload) {\n    if (typeof payload.iat === \"number\") return payload.iat;\n    if (typeof payload.nbf === \"number\") return payload.nbf;\n    const issuanceDate = payload.vc?.issuanceDate;\n    if (issuanceDate === void 0) return void 0;\n    const time = Date.parse(issuanceDate);\n    if (isNaN(time)) {\n      throw new Error(`Invalid credential issuanceDate: ${JSON.stringify(issuanceDate)}`);\n    }\n    return Math.floor(time / 1e3);\n  }\n  var isSeconds = (value) => typeof value === \"number\" && isFinite(value) && value >= 0;\n  function validateCredentialAgeRequirements(requirements) {\n    const { maxCredentialAge, minCredentialAge } = requirements;\n    if (maxCredentialAge !== void 0 && !isSeconds(maxCredentialAge)) {\n      throw new Error(`Invalid maxCredentialAge: ${maxCredentialAge}. Ages are non-negative numbers of seconds.`);\n    }\n    if (minCredentialAge !== void 0 && !isSeconds(minCredentialAge)) {\n      throw new Error(`Invalid minCredentialAge: ${minCredentialAge}. Ages are non-negative numbers of seconds.`);\n    }\n    if (maxCredentialAge !== void 0 && minCredentialAge !== void 0 && minCredentialAge > maxCredentialAge) {\n      throw new Error(\"Invalid credential age constraints: minCredentialAge exceeds maxCredentialAge\");\n    }\n  }\n  function assertCredentialAge(payload, requirements, now = Date.now()) {\n    const { maxCredentialAge, minCredentialAge } = requirements;\n    if (maxCredentialAge === void 0 && minCredentialAge === void 0) return;\n    const issuedAt = credentialIssuedAt(payload);\n    if (issuedAt === void 0) {\n      throw new Error(\"Credential issuance time is unknown: no iat, nbf or issuanceDate\");\n    }\n    const age = Math.floor(now / 1e3) - issuedAt;\n    if (maxCredentialAge !== void 0 && age > maxCredentialAge) {\n      throw new Error(`Credential is too old: issued ${age}s ago, maxCredentialAge is ${maxCredentialAge}s`);\n    }\n    if (minCredentialAge !== void 0 && age < minCredentialAge) {\n      throw new Error(`Credential is too new: issued ${age}s ago, minCredentialAge is ${minCredentialAge}s`);\n    }\n  }\n\n  // src/verification/did/pkh.ts\n  var ethers2 = __toESM(require_ethers(), 1);\n\n  // src/verification/did/multibase.ts\n  var BASE58_ALPHABET = \"123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz\";\n  function base58btcDecode(data) {\n    const bytes = [];\n    for (const char of data) {\n      let carry = BASE58_ALPHABET.indexOf(char);\n      if (carry < 0) {\n        throw new Error(`Invalid base58 character: ${char}`);\n      }\n      for (let i = 0; i < bytes.length; i++) {\n        carry += bytes[i] * 58;\n        bytes[i] = carry & 255;\n        carry >>= 8;\n      }\n      while (carry > 0) {\n        bytes.push(carry & 255);\n        carry >>= 8;\n      }\n    }\n    for (let i = 0; i < data.length && data[i] === \"1\"; i++) {\n      bytes.push(0);\n    }\n    return new Uint8Array(bytes.reverse());\n  }\n  function multibaseDecode(value) {\n    if (!value.startsWith(\"z\")) {\n      throw new Error(`Unsupported multibase encoding: ${value.charAt(0)}`);\n    }\n    return base58btcDecode(value.slice(1));\n  }\n  function decodeMulticodec(bytes) {\n    let code = 0;\n    let shift = 0;\n    let offset = 0;\n    while (offset < bytes.length) {\n      const byte = bytes[offset++];\n      code += (byte & 127) * 2 ** shift;\n      if ((byte & 128) === 0) {\n        return { code, data: bytes.slice(offset) };\n      }\n      shift += 7;\n    }\n    throw new Error(\"Invalid multicodec prefix\");\n  }\n\n  // src/verification/did/pkh.ts\n  var sha256d = (data) => ethers2.utils.arrayify(ethers2.utils.sha256(ethers2.utils.sha256(data)));\n  function base58checkDecode(value) {\n    let bytes;\n    try {\n      bytes = base58btcDecode(value);\n    } catch {\n      return null;\n    }\n    if (bytes.length < 5) return null;\n    const body = bytes.slice(0, -4);\n    const checksum = sha256d(body).slice(0, 4);\n    if (checksum.some((byte, i) => byte !== bytes[bytes.length - 4 + i])) return null;\n    return { version: body[0], payload: body.slice(1) };\n  }\n  var BITCOIN_P2PKH_VERSIONS = [0, 111];\n  var BITCOIN_P2SH_VERSIONS = [5, 196];\n  var PKH_NAMESPACES = {\n    eip155: {\n      label: \"Ethereum\",\n      isAddress: (address) => ethers2.utils.isAddress(address),\n      normalizeAddress: (address) => ethers2.utils.getAddress(address),\n      caseInsensitive: true\n    },\n    solana: {\n      label: \"Solana\",\n      // The account's Ed25519 public key, base58 encoded\n      isAddress: (address) => {\n        try {\n          return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address) && base58btcDecode(address).length === 32;\n        } catch {\n          return false;\n        }\n      },\n      normalizeAddress: (address) => address,\n      caseInsensitive: false\n    },\n    bip122: {\n      label: \"Bitcoin\",\n      // Base58check P2PKH and P2SH addresses\n      isAddress: (address) => {\n        const decoded = base58checkDecode(address);\n        return decoded !== null && decoded.payload.length === 20 && BITCOIN_P2PKH_VERSIONS.concat(BITCOIN_P2SH_VERSIONS).indexOf(decoded.version) !== -1;\n      },\n      normalizeAddress: (address) => address,\n      caseInsensitive: false\n    }\n  };\n  var namespaceDefinition = (namespace) => {\n    if (!Object.prototype.hasOwnProperty.call(PKH_NAMESPACES, namespace)) {\n      throw new Error(`Unsupported did:pkh namespace: ${namespace}`);\n    }\n    return PKH_NAMESPACES[namespace];\n  };\n  function parseCAIP2Chain(chain) {\n    const caip2 = typeof chain === \"number\" ? `eip155:${chain}` : chain;\n    const match = /^([-a-z0-9]{3,8}):([-_a-zA-Z0-9]{1,32})$/.exec(caip2);\n    if (!match) {\n      throw new Error(`Invalid CAIP-2 chain id: ${chain}`);\n    }\n    namespaceDefinition(match[1]);\n    return { namespace: match[1], reference: match[2], chain: caip2 };\n  }\n  function isPkhAddress(namespace, address) {\n    return namespaceDefinition(namespace).isAddress(address);\n  }\n  function samePkhAddress(namespace, a, b) {\n    return namespaceDefinition(namespace).caseInsensitive ? a.toLowerCase() === b.toLowerCase() : a === b;\n  }\n  function parseDIDPkhAccount(did) {\n    const match = /^did:pkh:([-a-z0-9]{3,8}):([-_a-zA-Z0-9]{1,32}):([-.%a-zA-Z0-9]{1,128})$/.exec(did);\n    if (!match) {\n      throw new Error(`Invalid did:pkh DID: ${did}`);\n    }\n    const [, namespace, reference, address] = match;\n    return { namespace, reference, chain: `${namespace}:${reference}`, address, accountId: `${namespace}:${reference}:${address}` };\n  }\n  function parseUserAccount(user) {\n    if (user.startsWith(\"did:pkh:\")) {\n      return parseDIDPkhAccount(user);\n    }\n    return { namespace: \"eip155\", chain: \"eip155:1\", address: user };\n  }\n  function pkhSubjectMatchesUser(subject, user) {\n    let subjectAccount;\n    try {\n      subjectAccount = parseDIDPkhAccount(subject);\n    } catch {\n      return false;\n    }\n    const userAccount = parseUserAccount(user);\n    return subjectAccount.namespace === userAccount.namespace && Object.prototype.hasOwnProperty.call(PKH_NAMESPACES, userAccount.namespace) && samePkhAddress(userAccount.namespace, subjectAccount.address, userAccount.address);\n  }\n  function chainAccepted(chains, chain) {\n    if (!chains) return true;\n    const namespace = chain.split(\":\")[0];\n    return chains.some((accepted) => accepted === chain || accepted === namespace);\n  }\n  function validateAcceptedChains(chains) {\n    if (chains === void 0) return;\n    if (!Array.isArray(chains) || chains.length === 0) {\n      throw new Error(\"chains must be a non-empty array of CAIP-2 chain ids or namespaces\");\n    }\n    for (const chain of chains) {\n      if (typeof chain !== \"string\") {\n        throw new Error(\"chains must be a non-empty array of CAIP-2 chain ids or namespaces\");\n      }\n      if (chain.indexOf(\":\") === -1) {\n        namespaceDefinition(chain);\n      } else {\n        parseCAIP2Chain(chain);\n      }\n    }\n  }\n  function resolveDIDPkh(did) {\n    const { namespace, address, accountId } = parseDIDPkhAccount(did);\n    if (!isPkhAddress(namespace, address)) {\n      throw new Error(`Invalid address in did:pkh DID: ${address}`);\n    }\n    const verificationMethodId = `${did}#blockchainAccountId`;\n    const verificationMethod = namespace === \"solana\" ? {\n      id: verificationMethodId,\n      type: \"Ed25519VerificationKey2018\",\n      controller: did,\n      blockchainAccountId: accountId,\n      publicKeyBase58: address\n    } : {\n      id: verificationMethodId,\n      type: \"EcdsaSecp256k1RecoveryMethod2020\",\n      controller: did,\n      blockchainAccountId: accountId\n    };\n    return {\n      \"@context\": [\"https://www.w3.org/ns/did/v1\"],\n      id: did,\n      verificationMethod: [verificationMethod],\n      authentication: [verificationMethodId],\n      assertionMethod: [verificationMethodId]\n    };\n  }\n  var didPkhResolver = {\n    method: \"pkh\",\n    resolve: async (did) => resolveDIDPkh(did)\n  };\n\n  // src/verification/predicates.ts\n  var OPERATORS = [\"eq\", \"in\", \"regex\", \"gte\", \"lte\", \"exists\", \"before\", \"after\"];\n  var hasOwn = (value, key) => Object.prototype.hasOwnProperty.call(value, key);\n  function resolveJSONPointer(document, pointer) {\n    if (pointer === \"\") return document;\n    if (pointer.charAt(0) !== \"/\") {\n      throw new Error(`Invalid JSON pointer: ${pointer}`);\n    }\n    let current = document;\n    for (const segment of pointer.slice(1).split(\"/\")) {\n      const key = segment.replace(/~1/g, \"/\").replace(/~0/g, \"~\");\n      if (Array.isArray(current)) {\n        if (!/^(0|[1-9][0-9]*)$/.test(key)) return void 0;\n        current = current[Number(key)];\n      } else if (current !== null && typeof current === \"object\" && hasOwn(current, key)) {\n        current = current[key];\n      } else {\n        return void 0;\n      }\n    }\n    return current;\n  }\n  function claimValuesEqual(a, b) {\n    if (a === b) return true;\n    if (Array.isArray(a) || Array.isArray(b)) {\n      return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, index) => claimValuesEqual(item, b[index]));\n    }\n    if (a === null || b === null || typeof a !== \"object\" || typeof b !== \"object\") {\n      return false;\n    }\n    const aKeys = Object.keys(a);\n    const bKeys = Object.keys(b);\n    return aKeys.length === bKeys.length && aKeys.every((key) => hasOwn(b, key) && claimValuesEqual(a[key], b[key]));\n  }\n  var toTime = (value) => {\n    if (typeof value === \"number\") return value * 1e3;\n    if (typeof value === \"string\") return Date.parse(value);\n    return NaN;\n  };\n  function describeClaimPredicate(predicate) {\n    switch (predicate.op) {\n      case \"in\":\n        return `${predicate.path} in ${JSON.stringify(predicate.values)}`;\n      case \"regex\":\n        return `${predicate.path} regex /${predicate.pattern}/${predicate.flags || \"\"}`;\n      case \"exists\":\n        return `${predicate.path} ${predicate.value === false ? \"does not exist\" : \"exists\"}`;\n      default:\n        return `${predicate.path} ${predicate.op} ${JSON.stringify(predicate.value)}`;\n    }\n  }\n  function validateClaimPredicates(predicates) {\n    if (predicates === void 0) return;\n    if (!Array.isArray(predicates)) {\n      throw new Error(\"Invalid claim predicates: expected an array\");\n    }\n    for (const predicate of predicates) {\n      if (!predicate || typeof predicate !== \"object\") {\n        throw new Error(`Invalid claim predicate: ${JSON.stringify(predicate)}`);\n      }\n      const { path, op } = predicate;\n      const fail = (reason) => {\n        throw new Error(`Invalid claim predicate ${JSON.stringify(predicate)}: ${reason}`);\n      };\n      if (typeof path !== \"string\" || path !== \"\" && path.charAt(0) !== \"/\") {\n        fail(\"path must be a JSON pointer\");\n      }\n      if (typeof op !== \"string\" || OPERATORS.indexOf(op) === -1) {\n        fail(`unknown operator ${op}`);\n      }\n      const p = predicate;\n      switch (p.op) {\n        case \"eq\":\n          if (!hasOwn(p, \"value\")) fail(\"value is required\");\n          break;\n        case \"in\":\n          if (!Array.isArray(p.values)) fail(\"values must be an array\");\n          break;\n        case \"regex\":\n          if (typeof p.pattern !== \"string\") fail(\"pattern must be a string\");\n          if (p.flags !== void 0 && !/^[imsu]*$/.test(p.flags)) fail(\"flags may only contain i, m, s and u\");\n          try {\n            new RegExp(p.pattern, p.flags);\n          } catch {\n            fail(\"pattern is not a valid regular expression\");\n          }\n          break;\n        case \"gte\":\n        case \"lte\":\n          if (typeof p.value !== \"number\" || !isFinite(p.value)) fail(\"value must be a number\");\n          break;\n        case \"exists\":\n          if (p.value !== void 0 && typeof p.value !== \"boolean\") fail(\"value must be a boolean\");\n          break;\n        case \"before\":\n        case \"after\":\n          if (isNaN(toTime(p.value))) fail(\"value must be an ISO 8601 date or seconds since the epoch\");\n          break;\n      }\n    }\n  }\n  function evaluateClaimPredicate(vc, predicate) {\n    const actual = resolveJSONPointer(vc, predicate.path);\n    switch (predicate.op) {\n      case \"exists\":\n        return actual !== void 0 === (predicate.value !== false);\n      case \"eq\":\n        return actual !== void 0 && claimValuesEqual(actual, predicate.value);\n      case \"in\":\n        return actual !== void 0 && predicate.values.some((value) => claimValuesEqual(actual, value));\n      case \"regex\":\n        return typeof actual === \"string\" && new RegExp(predicate.pattern, predicate.flags).test(actual);\n      case \"gte\":\n        return typeof actual === \"number\" && actual >= predicate.value;\n      case \"lte\":\n        return typeof actual === \"number\" && actual <= predicate.value;\n      case \"before\":\n      case \"after\": {\n        const time = toTime(actual);\n        const bound = toTime(predicate.value);\n        if (isNaN(time) || isNaN(bound)) return false;\n        return predicate.op === \"before\" ? time < bound : time > bound;\n      }\n      default:\n        return false;\n    }\n  }\n  function assertClaimPredicates(vc, predicates = []) {\n    for (const predicate of predicates) {\n      if (!evaluateClaimPredicate(vc, predicate)) {\n        const actual = resolveJSONPointer(vc, predicate.path);\n        throw new Error(\n          `Claim predicate not satisfied: ${describeClaimPredicate(predicate)}, Found: ${actual === void 0 ? \"nothing\" : JSON.stringify(actual)}`\n        );\n      }\n    }\n  }\n\n  // src/verification/credentialTypes.ts\n  var COMMON_CLAIMS = [\"requiredEvidence\"];\n  var toList = (value) => Array.isArray(value) ? value : [value];\n  var matchesAny = (actual, required) => actual !== void 0 && toList(required).indexOf(actual) !== -1;\n  var nonEmptyStrings = (label, hint) => (required) => {\n    const values = toList(required);\n    if (values.length === 0) {\n      throw new Error(`Invalid ${label}: ${hint}`);\n    }\n    for (const value of values) {\n      if (!value || typeof value !== \"string\" || value.trim().length === 0) {\n        throw new Error(`Invalid ${label}: ${value}. ${hint}`);\n      }\n    }\n  };\n  var CredentialTypeRegistry = class {\n    constructor() {\n      this.definitions = /* @__PURE__ */ new Map();\n    }\n    register(definition) {\n      this.definitions.set(definition.type, definition);\n      return this;\n    }\n    supports(type) {\n      return this.definitions.has(type);\n    }\n    get types() {\n      return Array.from(this.definitions.keys());\n    }\n    get(type) {\n      const definition = this.definitions.get(type);\n      if (!definition) {\n        throw new Error(`Invalid credential type: ${type}. Supported types: ${this.types.join(\", \")}`);\n      }\n      return definition;\n    }\n    /**\n     * Whether `issuer` may issue credentials of `type`\n     */\n    allowsIssuer(type, issuer) {\n      const { issuers } = this.get(type);\n      return !issuers || issuers.indexOf(issuer) !== -1;\n    }\n    /**\n     * Check that requirements name a registered type, an issuer allowed for it\n     * and only claims the type defines, with well-formed values, predicates and\n     * age constraints\n     */\n    validateRequirements(requirements) {\n      const definition = this.get(requirements.credentialType);\n      if (!this.allowsIssuer(definition.type, requirements.issuer)) {\n        throw new Error(`Issuer ${requirements.issuer} is not allowed to issue ${definition.type} credentials`);\n      }\n      if (requirements.claims && requirements.claims.minIssuanceAge !== void 0) {\n        throw new Error(\"minIssuanceAge has been replaced by maxCredentialAge and minCredentialAge (seconds since issuance)\");\n      }\n      for (const [name, required] of Object.entries(requirements.claims || {})) {\n        if (COMMON_CLAIMS.indexOf(name) !== -1 || required === void 0) continue;\n        const claim = definition.claims[name];\n        if (!claim) {\n          throw new Error(`Unsupported claim ${name} for ${definition.type} credentials`);\n        }\n        if (claim.validateRequirement) {\n          claim.validateRequirement(required);\n        }\n      }\n      validateClaimPredicates(requirements.predicates);\n      validateCredentialAgeRequirements(requirements);\n      validateAcceptedChains(requirements.chains);\n    }\n    /**\n     * Read a claim from where the credential type keeps it\n     */\n    readClaim(type, source, name) {\n      const definition = this.get(type);\n      const claim = definition.claims[name];\n      const location = source[definition.claimLocation];\n      return location ? location[claim && claim.field || name] : void 0;\n    }\n    /**\n     * Read every claim the credential type defines\n     */\n    readClaims(type, source) {\n      const claims = {};\n      for (const name of Object.keys(this.get(type).claims)) {\n        const value = this.readClaim(type, source, name);\n        if (value !== void 0) claims[name] = value;\n      }\n      return claims;\n    }\n    /**\n     * Check the credential's claims against the requirements, throwing on the\n     * first unmet claim\n     */\n    assertClaims(source, requirements) {\n      const definition = this.get(requirements.credentialType);\n      for (const [name, required] of Object.entries(requirements.claims || {})) {\n        if (COMMON_CLAIMS.indexOf(name) !== -1 || required === void 0) continue;\n        const claim = definition.claims[name];\n        if (!claim) {\n          throw new Error(`Unsupported claim ${name} for ${definition.type} credentials`);\n        }\n        const actual = this.readClaim(definition.type, source, name);\n        const matches = claim.matches || matchesAny;\n        if (!matches(actual, required)) {\n          throw new Error(`${claim.label || name} requirement not met. Required: ${required}, Found: ${actual}`);\n        }\n      }\n    }\n    /**\n     * Whether the credential's claims satisfy the requirements\n     */\n    claimsSatisfied(source, requirements) {\n      try {\n        this.assertClaims(source, requirements);\n        return true;\n      } catch {\n        return false;\n      }\n    }\n  };\n  var githubVerificationType = {\n    type: \"GitHubVerification\",\n    claimLocation: \"evidence\",\n    claims: {\n      githubHandle: {\n        field: \"handle\",\n        label: \"GitHub handle\",\n        validateRequirement: nonEmptyStrings(\"GitHub handle\", \"GitHub handles must be non-empty strings.\")\n      }\n    }\n  };\n  var premiumSubscriptionType = {\n    type: \"PremiumSubscription\",\n    issuers: [\"did:web:issuer.tinycloud.xyz\"],\n    claimLocation: \"credentialSubject\",\n    claims: {\n      tier: {\n        label: \"Subscription tier\",\n        validateRequirement: nonEmptyStrings(\"subscription tier\", \"Tiers must be non-empty strings.\")\n      }\n    }\n  };\n  function createCredentialTypeRegistry() {\n    return new CredentialTypeRegistry().register(githubVerificationType).register(premiumSubscriptionType);\n  }\n  var credentialTypes = createCredentialTypeRegistry();\n\n  // src/verification/claims.ts\n  function validateCredentialClaims(jwtPayload, requirements, userAddress2, registry = credentialTypes) {\n    const vc = jwtPayload.vc;\n    if (!vc) {\n      throw new Error(\"No verifiable credential found in JWT\");\n    }\n    const vcTypes = vc.type || [];\n    if (!vcTypes.includes(requirements.credentialType)) {\n      throw new Error(`Required credential type ${requirements.credentialType} not found`);\n    }\n    if (jwtPayload.iss !== requirements.issuer) {\n      throw new Error(\"Credential issuer does not match requirements\");\n    }\n    const credentialSubject = vc.credentialSubject;\n    if (!credentialSubject || !credentialSubject.id) {\n      throw new Error(\"No credential subject found\");\n    }\n    if (!pkhSubjectMatchesUser(credentialSubject.id, userAddress2)) {\n      throw new Error(\"Credential subject does not match user address\");\n    }\n    const { chain } = parseUserAccount(userAddress2);\n    if (!chainAccepted(requirements.chains, chain)) {\n      throw new Error(`Account chain ${chain} is not accepted by the requirements`);\n    }\n    if (!registry.allowsIssuer(requirements.credentialType, jwtPayload.iss)) {\n      throw new Error(`Issuer ${jwtPayload.iss} is not allowed to issue ${requirements.credentialType} credentials`);\n    }\n    registry.assertClaims(vc, requirements);\n    assertClaimPredicates(vc, requirements.predicates);\n    assertCredentialAge(jwtPayload, requirements);\n    return true;\n  }\n\n  // src/verification/did/registry.ts\n  function getDIDMethod(did) {\n    const match = /^did:([a-z0-9]+):.+$/.exec(did);\n    if (!match) {\n      throw new Error(`Invalid DID: ${did}`);\n    }\n    return match[1];\n  }\n  var DIDResolverRegistry = class {\n    constructor(resolvers = [], options = {}) {\n      this.options = options;\n      this.resolvers = /* @__PURE__ */ new Map();\n      resolvers.forEach((resolver) => this.register(resolver));\n    }\n    /**\n     * Add a resolver, replacing any existing resolver for the same method\n     */\n    register(resolver) {\n      this.resolvers.set(resolver.method, resolver);\n      return this;\n    }\n    supports(did) {\n      try {\n        return this.resolvers.has(getDIDMethod(did));\n      } catch {\n        return false;\n      }\n    }\n    get methods() {\n      return Array.from(this.resolvers.keys());\n    }\n    async resolve(did) {\n      const method = getDIDMethod(did);\n      const resolver = this.resolvers.get(method);\n      if (!resolver) {\n        throw new Error(`Unsupported DID method: did:${method}`);\n      }\n      const didDocument = await resolver.resolve(did, this.options);\n      if (didDocument.id !== void 0 && didDocument.id !== did) {\n        throw new Error(`DID document id ${didDocument.id} does not match ${did}`);\n      }\n      return didDocument;\n    }\n  };\n\n  // src/verification/did/web.ts\n  function didWebToUrl(did) {\n    if (!did.startsWith(\"did:web:\")) {\n      throw new Error(`Not a did:web DID: ${did}`);\n    }\n    const [domain, ...path] = did.slice(\"did:web:\".length).split(\":\").map(decodeURIComponent);\n    if (!domain || path.some((segment) => segment.length === 0)) {\n      throw new Error(`Invalid did:web DID: ${did}`);\n    }\n    if (/[/?#@]/.test(domain) || path.some((segment) => /[/?#]/.test(segment))) {\n      throw new Error(`Invalid did:web DID: ${did}`);\n    }\n    return path.length > 0 ? `https://${domain}/${path.join(\"/\")}/did.json` : `https://${domain}/.well-known/did.json`;\n  }\n  async function resolveDIDWeb(did, fetchImpl = fetch) {\n    const response = await fetchImpl(didWebToUrl(did));\n    if (!response.ok) {\n      throw new Error(`Failed to fetch DID document: ${response.status}`);\n    }\n    return await response.json();\n  }\n  var didWebResolver = {\n    method: \"web\",\n    resolve: (did, options) => resolveDIDWeb(did, options.fetch)\n  };\n\n  // src/verification/did/key.ts\n  var SECP256K1 = {\n    crv: \"secp256k1\",\n    multicodec: 231,\n    p: BigInt(\"0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f\"),\n    a: BigInt(0),\n    b: BigInt(7)\n  };\n  var P256 = {\n    crv: \"P-256\",\n    multicodec: 4608,\n    p: BigInt(\"0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff\"),\n    a: BigInt(\"0xffffffff00000001000000000000000000000000fffffffffffffffffffffffc\"),\n    b: BigInt(\"0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b\")\n  };\n  var ED25519_MULTICODEC = 237;\n  var bytesToBigInt = (bytes) => bytes.reduce((value, byte) => value << BigInt(8) | BigInt(byte), BigInt(0));\n  var bigIntToBytes = (value, length) => {\n    const bytes = new Uint8Array(length);\n    for (let i = length - 1; i >= 0; i--) {\n      bytes[i] = Number(value & BigInt(255));\n      value >>= BigInt(8);\n    }\n    return bytes;\n  };\n  var modPow = (base, exponent, modulus) => {\n    let result = BigInt(1);\n    base %= modulus;\n    while (exponent > BigInt(0)) {\n      if (exponent & BigInt(1)) result = result * base % modulus;\n      base = base * base % modulus;\n      exponent >>= BigInt(1);\n    }\n    return result;\n  };\n  function decompressPoint(curve, compressed) {\n    if (compressed.length !== 33 || compressed[0] !== 2 && compressed[0] !== 3) {\n      throw new Error(`Invalid compressed ${curve.crv} public key`);\n    }\n    const { p, a, b } = curve;\n    const x = bytesToBigInt(compressed.slice(1));\n    const ySquared = (modPow(x, BigInt(3), p) + a * x + b) % p;\n    let y = modPow(ySquared, (p + BigInt(1)) / BigInt(4), p);\n    if (y * y % p !== ySquared) {\n      throw new Error(`Invalid compressed ${curve.crv} public key`);\n    }\n    if ((y & BigInt(1)) !== BigInt(compressed[0] & 1)) {\n      y = p - y;\n    }\n    return { x: compressed.slice(1), y: bigIntToBytes(y, 32) };\n  }\n  function multikeyToJwk(publicKeyMultibase) {\n    const { code, data } = decodeMulticodec(multibaseDecode(publicKeyMultibase));\n    if (code === ED25519_MULTICODEC) {\n      if (data.length !== 32) {\n        throw new Error(\"Invalid Ed25519 public key length\");\n      }\n      return { kty: \"OKP\", crv: \"Ed25519\", x: base64urlEncode(data) };\n    }\n    const curve = [SECP256K1, P256].find((candidate) => candidate.multicodec === code);\n    if (!curve) {\n      throw new Error(`Unsupported multicodec key type: 0x${code.toString(16)}`);\n    }\n    const { x, y } = decompressPoint(curve, data);\n    return { kty: \"EC\", crv: curve.crv, x: base64urlEncode(x), y: base64urlEncode(y) };\n  }\n  function resolveDIDKey(did) {\n    const match = /^did:key:(z[1-9A-HJ-NP-Za-km-z]+)$/.exec(did);\n    if (!match) {\n      throw new Error(`Invalid did:key DID: ${did}`);\n    }\n    const publicKeyMultibase = match[1];\n    const verificationMethodId = `${did}#${publicKeyMultibase}`;\n    return {\n      \"@context\": [\"https://www.w3.org/ns/did/v1\", \"https://w3id.org/security/suites/jws-2020/v1\"],\n      id: did,\n      verificationMethod: [\n        {\n          id: verificationMethodId,\n          type: \"JsonWebKey2020\",\n          controller: did,\n          publicKeyJwk: multikeyToJwk(publicKeyMultibase)\n        }\n      ],\n      authentication: [verificationMethodId],\n      assertionMethod: [verificationMethodId]\n    };\n  }\n  var didKeyResolver = {\n    method: \"key\",\n    resolve: async (did) => resolveDIDKey(did)\n  };\n\n  // src/verification/did/jwk.ts\n  function resolveDIDJwk(did) {\n    const match = /^did:jwk:([A-Za-z0-9_-]+)$/.exec(did);\n    if (!match) {\n      throw new Error(`Invalid did:jwk DID: ${did}`);\n    }\n    let jwk;\n    try {\n      jwk = JSON.parse(new TextDecoder().decode(base64urlDecode(match[1])));\n    } catch {\n      throw new Error(`Invalid did:jwk DID: ${did}`);\n    }\n    if (!jwk || typeof jwk.kty !== \"string\") {\n      throw new Error(`Invalid did:jwk DID: ${did}`);\n    }\n    if (\"d\" in jwk) {\n      throw new Error(\"did:jwk must not contain private key material\");\n    }\n    const verificationMethodId = `${did}#0`;\n    return {\n      \"@context\": [\"https://www.w3.org/ns/did/v1\", \"https://w3id.org/security/suites/jws-2020/v1\"],\n      id: did,\n      verificationMethod: [\n        {\n          id: verificationMethodId,\n          type: \"JsonWebKey2020\",\n          controller: did,\n          publicKeyJwk: jwk\n        }\n      ],\n      authentication: [verificationMethodId],\n      assertionMethod: [verificationMethodId]\n    };\n  }\n  var didJwkResolver = {\n    method: \"jwk\",\n    resolve: async (did) => resolveDIDJwk(did)\n  };\n\n  // src/verification/did/index.ts\n  var createDIDResolver = (options = {}) => new DIDResolverRegistry(\n    [didWebResolver, didKeyResolver, didJwkResolver, didPkhResolver],\n    options\n  );\n\n  // src/verification/validity.ts\n  var DEFAULT_CLOCK_SKEW_SECONDS = 60;\n  var MAX_CLOCK_SKEW_SECONDS = 300;\n  function resolveClockSkew(options = {}) {\n    const skew = options.clockSkewSeconds === void 0 ? DEFAULT_CLOCK_SKEW_SECONDS : options.clockSkewSeconds;\n    if (typeof skew !== \"number\" || !(skew >= 0 && skew <= MAX_CLOCK_SKEW_SECONDS)) {\n      throw new Error(`Clock skew must be between 0 and ${MAX_CLOCK_SKEW_SECONDS} seconds`);\n    }\n    return skew;\n  }\n  var currentTime = (options) => Math.floor((options.now === void 0 ? Date.now() : options.now) / 1e3);\n  var parseDate = (value, field) => {\n    if (value === void 0) return void 0;\n    const time = typeof value === \"string\" ? Date.parse(value) : NaN;\n    if (isNaN(time)) {\n      throw new Error(`Invalid credential ${field}: ${JSON.stringify(value)}`);\n    }\n    return Math.floor(time / 1e3);\n  };\n  var latest = (...times) => times.reduce((a, b) => b === void 0 ? a : a === void 0 ? b : Math.max(a, b), void 0);\n  var earliest = (...times) => times.reduce((a, b) => b === void 0 ? a : a === void 0 ? b : Math.min(a, b), void 0);\n  function credentialValidityPeriod(payload) {\n    const vc = payload.vc || {};\n    return {\n      validFrom: latest(payload.nbf, parseDate(vc.validFrom, \"validFrom\")),\n      validUntil: earliest(\n        payload.exp,\n        parseDate(vc.validUntil, \"validUntil\"),\n        parseDate(vc.expirationDate, \"expirationDate\")\n      )\n    };\n  }\n  function assertCredentialValidity(payload, options = {}) {\n    const skew = resolveClockSkew(options);\n    const now = currentTime(options);\n    const period = credentialValidityPeriod(payload);\n    if (period.validUntil !== void 0 && period.validUntil + skew < now) {\n      throw new Error(\"Credential expired\");\n    }\n    if (period.validFrom !== void 0 && period.validFrom - skew > now) {\n      throw new Error(\"Credential not yet valid\");\n    }\n    return period;\n  }\n\n  // src/verification/verificationMethod.ts\n  function absolutizeDIDUrl(didUrl, did) {\n    return didUrl.startsWith(\"#\") ? `${did}${didUrl}` : didUrl;\n  }\n  function selectVerificationMethod(didDocument, issuerDID, kid, relationship = \"assertionMethod\") {\n    const did = didDocument.id || issuerDID;\n    const methods = /* @__PURE__ */ new Map();\n    for (const method2 of didDocument.verificationMethod || []) {\n      methods.set(absolutizeDIDUrl(method2.id, did), method2);\n    }\n    const authorized = /* @__PURE__ */ new Map();\n    for (const entry of didDocument[relationship] || []) {\n      if (typeof entry === \"string\") {\n        const id = absolutizeDIDUrl(entry, did);\n        authorized.set(id, methods.get(id));\n      } else {\n        authorized.set(absolutizeDIDUrl(entry.id, did), entry);\n      }\n    }\n    if (kid === void 0) {\n      if (authorized.size !== 1) {\n        throw new Error(`JWT kid is required: ${issuerDID} has ${authorized.size} ${relationship} keys`);\n      }\n      kid = Array.from(authorized.keys())[0];\n    }\n    const keyId = absolutizeDIDUrl(kid, issuerDID);\n    if (!keyId.startsWith(`${issuerDID}#`)) {\n      throw new Error(`Key ${kid} is not controlled by ${issuerDID}`);\n    }\n    if (!authorized.has(keyId)) {\n      if (methods.has(keyId)) {\n        throw new Error(`Key ${keyId} is not authorized for ${relationship}`);\n      }\n      throw new Error(`Key ${keyId} not found in DID document`);\n    }\n    const method = authorized.get(keyId);\n    if (!method) {\n      throw new Error(`Key ${keyId} not found in DID document`);\n    }\n    if (method.controller !== void 0 && method.controller !== did) {\n      throw new Error(`Key ${keyId} is not controlled by ${issuerDID}`);\n    }\n    return method;\n  }\n  function verificationMethodToJwk(method) {\n    switch (method.type) {\n      case \"JsonWebKey2020\":\n        if (method.publicKeyJwk) return method.publicKeyJwk;\n        break;\n      case \"Ed25519VerificationKey2018\":\n        if (method.publicKeyJwk) return method.publicKeyJwk;\n        if (typeof method.publicKeyBase58 === \"string\") {\n          return { kty: \"OKP\", crv: \"Ed25519\", x: base64urlEncode(base58btcDecode(method.publicKeyBase58)) };\n        }\n        break;\n      case \"Ed25519VerificationKey2020\":\n      case \"Multikey\":\n        if (method.publicKeyMultibase) return multikeyToJwk(method.publicKeyMultibase);\n        break;\n      default:\n        throw new Error(`Unsupported verification method type: ${method.type}`);\n    }\n    throw new Error(`Verification method ${method.id} has no public key`);\n  }\n\n  // src/verification/eddsa.ts\n  function extractPublicKey(didDocument, issuerDID, kid) {\n    const method = selectVerificationMethod(didDocument, issuerDID, kid, \"assertionMethod\");\n    const publicKeyJwk = verificationMethodToJwk(method);\n    if (publicKeyJwk.kty !== \"OKP\" || publicKeyJwk.crv !== \"Ed25519\") {\n      throw new Error(`Key ${method.id} is not an Ed25519 key`);\n    }\n    return publicKeyJwk;\n  }\n  async function verifyJWTWithEdDSA(jwt, issuerDID, options = {}) {\n    const { header, payload, signingInput, signature } = decodeJWT(jwt);\n    if (header.alg !== \"EdDSA\") {\n      throw new Error(\"Unsupported algorithm\");\n    }\n    const resolver = options.resolver || createDIDResolver({ fetch: options.fetch });\n    const didDocument = await resolver.resolve(issuerDID);\n    const publicKeyJwk = extractPublicKey(didDocument, issuerDID, header.kid);\n    const publicKey = await crypto.subtle.importKey(\n      \"jwk\",\n      publicKeyJwk,\n      {\n        name: \"Ed25519\",\n        namedCurve: \"Ed25519\"\n      },\n      false,\n      [\"verify\"]\n    );\n    const isValid = await crypto.subtle.verify(\n      \"Ed25519\",\n      publicKey,\n      new Uint8Array(signature),\n      new TextEncoder().encode(signingInput)\n    );\n    if (!isValid) {\n      throw new Error(\"Invalid JWT signature\");\n    }\n    const skew = resolveClockSkew(options);\n    const now = Math.floor((options.now === void 0 ? Date.now() : options.now) / 1e3);\n    if (payload.exp && payload.exp + skew < now) {\n      throw new Error(\"JWT expired\");\n    }\n    if (payload.nbf && payload.nbf - skew > now) {\n      throw new Error(\"JWT not yet valid\");\n    }\n    return {\n      valid: true,\n      payload,\n      header,\n      issuer: payload.iss\n    };\n  }\n\n  // src/verification/statusList.ts\n  var STATUS_LIST_TYPES = {\n    BitstringStatusListEntry: \"BitstringStatusListCredential\",\n    StatusList2021Entry: \"StatusList2021Credential\"\n  };\n  var STATUS_FAILURES = {\n    revocation: \"Credential has been revoked\",\n    suspension: \"Credential has been suspended\"\n  };\n  async function gunzip(data) {\n    const stream = new DecompressionStream(\"gzip\");\n    const writer = stream.writable.getWriter();\n    writer.write(new Uint8Array(data)).catch(() => void 0);\n    writer.close().catch(() => void 0);\n    const reader = stream.readable.getReader();\n    const chunks = [];\n    let length = 0;\n    for (; ; ) {\n      const { done, value } = await reader.read();\n      if (done) break;\n      chunks.push(value);\n      length += value.length;\n    }\n    const bytes = new Uint8Array(length);\n    let offset = 0;\n    for (const chunk of chunks) {\n      bytes.set(chunk, offset);\n      offset += chunk.length;\n    }\n    return bytes;\n  }\n  async function decodeStatusList(encodedList) {\n    const encoded = encodedList.startsWith(\"u\") ? encodedList.slice(1) : encodedList;\n    try {\n      return await gunzip(base64urlDecode(encoded));\n    } catch {\n      throw new Error(\"Invalid status list encoding\");\n    }\n  }\n  function statusListBit(bitstring, index) {\n    if (index >= bitstring.length * 8) {\n      throw new Error(`Status list index ${index} is out of range`);\n    }\n    return (bitstring[index >> 3] & 128 >> index % 8) !== 0;\n  }\n  var credentialStatusEntries = (payload) => {\n    const status = payload.vc?.credentialStatus;\n    if (status === void 0) return [];\n    return Array.isArray(status) ? status : [status];\n  };\n  async function fetchStatusList(entry, issuer, options) {\n    const fetchImpl = options.fetch || fetch;\n    const response = await fetchImpl(entry.statusListCredential);\n    if (!response.ok) {\n      throw new Error(`Failed to fetch status list credential: ${response.status}`);\n    }\n    const jwt = (await response.text()).trim();\n    if (decodeJWT(jwt).payload.iss !== issuer) {\n      throw new Error(\"Status list credential issuer does not match credential issuer\");\n    }\n    const { payload } = await verifyJWTWithEdDSA(jwt, issuer, options);\n    const vc = payload.vc;\n    if (!vc || !(vc.type || []).includes(STATUS_LIST_TYPES[entry.type])) {\n      throw new Error(`Status list credential is not a ${STATUS_LIST_TYPES[entry.type]}`);\n    }\n    const subject = vc.credentialSubject;\n    const purposes = subject && subject.statusPurpose !== void 0 ? [].concat(subject.statusPurpose) : [];\n    if (purposes.indexOf(entry.statusPurpose) === -1) {\n      throw new Error(`Status list credential does not cover ${entry.statusPurpose}`);\n    }\n    if (typeof subject?.encodedList !== \"string\") {\n      throw new Error(\"Status list credential has no encodedList\");\n    }\n    return decodeStatusList(subject.encodedList);\n  }\n  async function checkCredentialStatus(payload, options = {}) {\n    for (const entry of credentialStatusEntries(payload)) {\n      if (!entry || !STATUS_LIST_TYPES[entry.type]) {\n        throw new Error(`Unsupported credential status type: ${entry && entry.type}`);\n      }\n      if (!STATUS_FAILURES[entry.statusPurpose]) continue;\n      if (entry.statusSize !== void 0 && entry.statusSize !== 1) {\n        throw new Error(`Unsupported status size: ${entry.statusSize}`);\n      }\n      const index = Number(entry.statusListIndex);\n      if (!Number.isInteger(index) || index < 0 || typeof entry.statusListCredential !== \"string\") {\n        throw new Error(\"Invalid credential status entry\");\n      }\n      const bitstring = await fetchStatusList(entry, payload.iss, options);\n      if (statusListBit(bitstring, index)) {\n        throw new Error(STATUS_FAILURES[entry.statusPurpose]);\n      }\n    }\n  }\n\n  // src/verification/credential.ts\n  async function verifyCredentialJWT(jwt, options = {}) {\n    const { payload: unverified } = decodeJWT(jwt);\n    if (typeof unverified.iss !== \"string\") {\n      throw new Error(\"Credential JWT has no issuer\");\n    }\n    const { payload } = await verifyJWTWithEdDSA(jwt, unverified.iss, options);\n    const vc = payload.vc;\n    if (!vc) {\n      throw new Error(\"No verifiable credential found in JWT\");\n    }\n    const vcIssuer = typeof vc.issuer === \"object\" && vc.issuer !== null ? vc.issuer.id : vc.issuer;\n    if (vcIssuer !== void 0 && vcIssuer !== payload.iss) {\n      throw new Error(\"Credential issuer does not match JWT issuer\");\n    }\n    const subject = vc.credentialSubject?.id || payload.sub;\n    if (!subject) {\n      throw new Error(\"No credential subject found\");\n    }\n    if (payload.sub !== void 0 && payload.sub !== subject) {\n      throw new Error(\"Credential subject does not match JWT subject\");\n    }\n    assertCredentialValidity(payload, options);\n    await checkCredentialStatus(payload, options);\n    return {\n      jwt,\n      issuer: payload.iss,\n      subject,\n      types: vc.type || [],\n      credentialSubject: { ...vc.credentialSubject, id: subject },\n      evidence: vc.evidence,\n      issuanceDate: vc.issuanceDate,\n      handle: vc.evidence?.handle,\n      payload\n    };\n  }\n\n  // src/verification/policy.ts\n  function isCredentialRequirement(policy) {\n    return typeof policy.credentialType === \"string\";\n  }\n  var compositeNode = (policy) => {\n    if (\"allOf\" in policy) return { children: policy.allOf, required: policy.allOf.length };\n    if (\"anyOf\" in policy) return { children: policy.anyOf, required: 1 };\n    return { children: policy.of, required: policy.atLeast };\n  };\n  function policyRequirements(policy) {\n    if (isCredentialRequirement(policy)) return [policy];\n    const requirements = [];\n    for (const child of compositeNode(policy).children) {\n      requirements.push(...policyRequirements(child));\n    }\n    return requirements;\n  }\n  function evaluateCredentialPolicy(policy, checkRequirement) {\n    if (isCredentialRequirement(policy)) {\n      const failure = checkRequirement(policy);\n      return { satisfied: failure === null, failures: failure === null ? [] : [failure] };\n    }\n    const { children, required } = compositeNode(policy);\n    const results = children.map((child) => evaluateCredentialPolicy(child, checkRequirement));\n    const satisfied = results.filter((result) => result.satisfied).length >= required;\n    const failures = [];\n    if (!satisfied) {\n      for (const result of results) failures.push(...result.failures);\n    }\n    return { satisfied, failures };\n  }\n  async function verifyPresentedCredentials(jwts, policy, options = {}) {\n    const issuers = policyRequirements(policy).map((requirements) => requirements.issuer);\n    return Promise.all(jwts.map(async (jwt) => {\n      let issuer;\n      try {\n        issuer = decodeJWT(jwt).payload.iss;\n        if (issuers.indexOf(issuer) === -1) {\n          return { jwt, issuer, error: \"Credential issuer does not match requirements\" };\n        }\n        const { payload } = await verifyCredentialJWT(jwt, options);\n        return { jwt, issuer, payload };\n      } catch (error) {\n        return { jwt, issuer, error: error.message };\n      }\n    }));\n  }\n  function assertCredentialPolicy(policy, presented, userAddress2, registry = credentialTypes) {\n    const matched = [];\n    const evaluation = evaluateCredentialPolicy(policy, (requirements) => {\n      let failure;\n      let fallback;\n      for (const credential of presented) {\n        try {\n          if (!credential.payload) throw new Error(credential.error);\n          validateCredentialClaims(credential.payload, requirements, userAddress2, registry);\n          matched.push({ payload: credential.payload, requirements });\n          return null;\n        } catch (error) {\n          const message = error.message;\n          const issuer = credential.payload ? credential.payload.iss : credential.issuer;\n          if (issuer === requirements.issuer) {\n            failure = failure || message;\n          } else {\n            fallback = fallback || message;\n          }\n        }\n      }\n      return failure || fallback || `No credential presented for ${requirements.credentialType} from ${requirements.issuer}`;\n    });\n    if (!evaluation.satisfied) {\n      if (isCredentialRequirement(policy)) {\n        throw new Error(evaluation.failures[0]);\n      }\n      throw new Error(`Credential policy not satisfied: ${evaluation.failures.join(\"; \")}`);\n    }\n    return matched;\n  }\n\n  // src/action/policy.ts\n  function presentedCredentialJWTs(params) {\n    const jwts = (params.credentialJWTs || []).slice();\n    if (params.credentialJWT && jwts.indexOf(params.credentialJWT) === -1) {\n      jwts.push(params.credentialJWT);\n    }\n    return jwts;\n  }\n  var toDetails = ({ payload, requirements }) => ({\n    issuer: payload.iss,\n    subject: payload.sub,\n    credentialType: requirements.credentialType,\n    claims: credentialTypes.readClaims(requirements.credentialType, payload.vc || {}),\n    githubHandle: payload.vc?.evidence?.handle,\n    issuanceDate: payload.vc?.issuanceDate\n  });\n  function userAccountDID(params) {\n    const { namespace, reference } = parseCAIP2Chain(params.userChain || \"eip155:1\");\n    return `did:pkh:${namespace}:${reference}:${params.userAddress}`;\n  }\n  async function verifyCredentialPolicy(params) {\n    const presented = await verifyPresentedCredentials(\n      presentedCredentialJWTs(params),\n      params.credentialRequirements,\n      { clockSkewSeconds: params.clockSkewSeconds }\n    );\n    return assertCredentialPolicy(params.credentialRequirements, presented, userAccountDID(params)).map(toDetails);\n  }\n\n  // src/action/credentialAction.ts\n  async function runCredentialAction(params, Lit2) {\n    let response;\n    try {\n      console.log(\"Starting credential verification...\");\n      const verifiedCredentials = await verifyCredentialPolicy(params);\n      console.log(\"Credential policy satisfied\");\n      const sealedSecret = await Lit2.Actions.decryptAndCombine({\n        accessControlConditions: params.accessControlConditions,\n        ciphertext: params.ciphertext,\n        dataToEncryptHash: params.dataToEncryptHash,\n        chain: \"ethereum\"\n      });\n      const secret = await unsealSecret(sealedSecret, params.credentialRequirements);\n      console.log(\"Secret decrypted successfully\");\n      response = {\n        success: true,\n        secret,\n        verifiedCredential: verifiedCredentials[0],\n        verifiedCredentials\n      };\n    } catch (e) {\n      const message = e.message;\n      console.error(\"Credential verification failed:\", message);\n      response = {\n        success: false,\n        error: message\n      };\n    }\n    Lit2.Actions.setResponse({ response });\n    return response;\n  }\n\n  // src/action/entries/credentialAction.ts\n  runCredentialAction(\n    {\n      accessControlConditions,\n      ciphertext,\n      dataToEncryptHash,\n      // Optional jsParams may be omitted, leaving the global undeclared\n      credentialJWT: typeof credentialJWT !== \"undefined\" ? credentialJWT : void 0,\n      credentialJWTs: typeof credentialJWTs !== \"undefined\" ? credentialJWTs : void 0,\n      credentialRequirements,\n      userAddress,\n      userChain: typeof userChain !== \"undefined\" ? userChain : void 0,\n      clockSkewSeconds: typeof clockSkewSeconds !== \"undefined\" ? clockSkewSeconds : void 0\n    },\n    Lit\n  );\n})();\n";
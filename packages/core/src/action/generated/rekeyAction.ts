@@ -0,0 +1,2 @@
+// Generated by scripts/build-lit-actions.ts from src/action - do not edit.
+export const rekeyActionCode = "\"use strict\";\n(() => {\n  var __create = Object.create;\n  var __defProp = Object.defineProperty;\n  var __getOwnPropDesc = Object.getOwnPropertyDescriptor;\n  var __getOwnPropNames = Object.getOwnPropertyNames;\n  var __getProtoOf = Object.getPrototypeOf;\n  var __hasOwnProp = Object.prototype.hasOwnProperty;\n  var __commonJS = (cb, mod) => function __require() {\n    return mod || (0, cb[__getOwnPropNames(cb)[0]])((mod = { exports: {} }).exports, mod), mod.exports;\n  };\n  var __copyProps = (to, from, except, desc) => {\n    if (from && typeof from === \"object\" || typeof from === \"function\") {\n      for (let key of __getOwnPropNames(from))\n        if (!__hasOwnProp.call(to, key) && key !== except)\n          __defProp(to, key, { get: () => from[key], enumerable: !(desc = __getOwnPropDesc(from, key)) || desc.enumerable });\n    }\n    return to;\n  };\n  var __toESM = (mod, isNodeMode, target) => (target = mod != null ? __create(__getProtoOf(mod)) : {}, __copyProps(\n    // If the importer is in node compatibility mode or this is not an ESM\n    // file that has been converted to a CommonJS file using a Babel-\n    // compatible transform (i.e. \"__esModule\" has not been set), then set\n    // \"default\" to the CommonJS \"module.exports\" for node compatibility.\n    isNodeMode || !mod || !mod.__esModule ? __defProp(target, \"default\", { value: mod, enumerable: true }) : target,\n    mod\n  ));\n\n  // lit-runtime-global:ethers\n  var require_ethers = __commonJS({\n    \"lit-runtime-global:ethers\"(exports, module) {\n      module.exports = ethers;\n    }\n  });\n\n  // src/verification/did/pkh.ts\n  var ethers2 = __toESM(require_ethers(), 1);\n\n  // src/verification/did/multibase.ts\n  var BASE58_ALPHABET = \"123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz\";\n  function base58btcDecode(data) {\n    const bytes = [];\n    for (const char of data) {\n      let carry = BASE58_ALPHABET.indexOf(char);\n      if (carry < 0) {\n        throw new Error(`Invalid base58 character: ${char}`);\n      }\n      for (let i = 0; i < bytes.length; i++) {\n        carry += bytes[i] * 58;\n        bytes[i] = carry & 255;\n        carry >>= 8;\n      }\n      while (carry > 0) {\n        bytes.push(carry & 255);\n        carry >>= 8;\n      }\n    }\n    for (let i = 0; i < data.length && data[i] === \"1\"; i++) {\n      bytes.push(0);\n    }\n    return new Uint8Array(bytes.reverse());\n  }\n\n  // src/verification/did/pkh.ts\n  var sha256d = (data) => ethers2.utils.arrayify(ethers2.utils.sha256(ethers2.utils.sha256(data)));\n  function base58checkDecode(value) {\n    let bytes;\n    try {\n      bytes = base58btcDecode(value);\n    } catch {\n      return null;\n    }\n    if (bytes.length < 5) return null;\n    const body = bytes.slice(0, -4);\n    const checksum = sha256d(body).slice(0, 4);\n    if (checksum.some((byte, i) => byte !== bytes[bytes.length - 4 + i])) return null;\n    return { version: body[0], payload: body.slice(1) };\n  }\n  var BITCOIN_P2PKH_VERSIONS = [0, 111];\n  var BITCOIN_P2SH_VERSIONS = [5, 196];\n  var PKH_NAMESPACES = {\n    eip155: {\n      label: \"Ethereum\",\n      isAddress: (address) => ethers2.utils.isAddress(address),\n      normalizeAddress: (address) => ethers2.utils.getAddress(address),\n      caseInsensitive: true\n    },\n    solana: {\n      label: \"Solana\",\n      // The account's Ed25519 public key, base58 encoded\n      isAddress: (address) => {\n        try {\n          return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address) && base58btcDecode(address).length === 32;\n        } catch {\n          return false;\n        }\n      },\n      normalizeAddress: (address) => address,\n      caseInsensitive: false\n    },\n    bip122: {\n      label: \"Bitcoin\",\n      // Base58check P2PKH and P2SH addresses\n      isAddress: (address) => {\n        const decoded = base58checkDecode(address);\n        return decoded !== null && decoded.payload.length === 20 && BITCOIN_P2PKH_VERSIONS.concat(BITCOIN_P2SH_VERSIONS).indexOf(decoded.version) !== -1;\n      },\n      normalizeAddress: (address) => address,\n      caseInsensitive: false\n    }\n  };\n  var namespaceDefinition = (namespace) => {\n    if (!Object.prototype.hasOwnProperty.call(PKH_NAMESPACES, namespace)) {\n      throw new Error(`Unsupported did:pkh namespace: ${namespace}`);\n    }\n    return PKH_NAMESPACES[namespace];\n  };\n  function parseCAIP2Chain(chain) {\n    const caip2 = typeof chain === \"number\" ? `eip155:${chain}` : chain;\n    const match = /^([-a-z0-9]{3,8}):([-_a-zA-Z0-9]{1,32})$/.exec(caip2);\n    if (!match) {\n      throw new Error(`Invalid CAIP-2 chain id: ${chain}`);\n    }\n    namespaceDefinition(match[1]);\n    return { namespace: match[1], reference: match[2], chain: caip2 };\n  }\n  function isPkhAddress(namespace, address) {\n    return namespaceDefinition(namespace).isAddress(address);\n  }\n  function samePkhAddress(namespace, a, b) {\n    return namespaceDefinition(namespace).caseInsensitive ? a.toLowerCase() === b.toLowerCase() : a === b;\n  }\n  function parseDIDPkhAccount(did) {\n    const match = /^did:pkh:([-a-z0-9]{3,8}):([-_a-zA-Z0-9]{1,32}):([-.%a-zA-Z0-9]{1,128})$/.exec(did);\n    if (!match) {\n      throw new Error(`Invalid did:pkh DID: ${did}`);\n    }\n    const [, namespace, reference, address] = match;\n    return { namespace, reference, chain: `${namespace}:${reference}`, address, accountId: `${namespace}:${reference}:${address}` };\n  }\n  function validateAcceptedChains(chains) {\n    if (chains === void 0) return;\n    if (!Array.isArray(chains) || chains.length === 0) {\n      throw new Error(\"chains must be a non-empty array of CAIP-2 chain ids or namespaces\");\n    }\n    for (const chain of chains) {\n      if (typeof chain !== \"string\") {\n        throw new Error(\"chains must be a non-empty array of CAIP-2 chain ids or namespaces\");\n      }\n      if (chain.indexOf(\":\") === -1) {\n        namespaceDefinition(chain);\n      } else {\n        parseCAIP2Chain(chain);\n      }\n    }\n  }\n\n  // src/verification/es256k.ts\n  var ethers5 = __toESM(require_ethers(), 1);\n\n  // src/verification/encoding.ts\n  function base64urlDecode(data) {\n    const base64 = data.replace(/-/g, \"+\").replace(/_/g, \"/\");\n    const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, \"=\");\n    const binary = atob(padded);\n    const bytes = new Uint8Array(binary.length);\n    for (let i = 0; i < binary.length; i++) {\n      bytes[i] = binary.charCodeAt(i);\n    }\n    return bytes;\n  }\n  function bytesToHex(bytes) {\n    return Array.from(bytes).map((b) => b.toString(16).padStart(2, \"0\")).join(\"\");\n  }\n  function decodeJWT(jwt) {\n    const [encodedHeader, encodedPayload, encodedSignature] = jwt.split(\".\");\n    if (!encodedHeader || !encodedPayload || !encodedSignature) {\n      throw new Error(\"Invalid JWT format\");\n    }\n    return {\n      header: JSON.parse(new TextDecoder().decode(base64urlDecode(encodedHeader))),\n      payload: JSON.parse(new TextDecoder().decode(base64urlDecode(encodedPayload))),\n      signingInput: `${encodedHeader}.${encodedPayload}`,\n      signature: base64urlDecode(encodedSignature)\n    };\n  }\n\n  // src/verification/userJWT.ts\n  var USER_JWT_EIP712_DOMAIN = {\n    name: \"Lit Credential Encryption\",\n    version: \"1\"\n  };\n  var USER_JWT_EIP712_TYPES = {\n    UserJWT: [{ name: \"signingInput\", type: \"string\" }]\n  };\n\n  // src/verification/smartAccount.ts\n  var ethers3 = __toESM(require_ethers(), 1);\n  var ERC1271_MAGIC_VALUE = \"0x1626ba7e\";\n  var ERC6492_MAGIC_SUFFIX = \"0x6492649264926492649264926492649264926492649264926492649264926492\";\n  var ERC6492_UNIVERSAL_VALIDATOR_BYTECODE = \"0x608060405234801561001057600080fd5b5060405161069438038061069483398101604081905261002f9161051e565b600061003c848484610048565b9050806000526001601ff35b60007f64926492649264926492649264926492649264926492649264926492649264926100748361040c565b036101e7576000606080848060200190518101906100929190610577565b60405192955090935091506000906001600160a01b038516906100b69085906105dd565b6000604051808303816000865af19150503d80600081146100f3576040519150601f19603f3d011682016040523d82523d6000602084013e6100f8565b606091505b50509050876001600160a01b03163b60000361016057806101605760405162461bcd60e51b815260206004820152601e60248201527f5369676e617475726556616c696461746f723a206465706c6f796d656e74000060448201526064015b60405180910390fd5b604051630b135d3f60e11b808252906001600160a01b038a1690631626ba7e90610190908b9087906004016105f9565b602060405180830381865afa1580156101ad573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906101d19190610633565b6001600160e01b03191614945050505050610405565b6001600160a01b0384163b1561027a57604051630b135d3f60e11b808252906001600160a01b03861690631626ba7e9061022790879087906004016105f9565b602060405180830381865afa158015610244573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906102689190610633565b6001600160e01b031916149050610405565b81516041146102df5760405162461bcd60e51b815260206004820152603a602482015260008051602061067483398151915260448201527f3a20696e76616c6964207369676e6174757265206c656e6774680000000000006064820152608401610157565b6102e7610425565b5060208201516040808401518451859392600091859190811061030c5761030c61065d565b016020015160f81c9050601b811480159061032b57508060ff16601c14155b1561038c5760405162461bcd60e51b815260206004820152603b602482015260008051602061067483398151915260448201527f3a20696e76616c6964207369676e617475726520762076616c756500000000006064820152608401610157565b60408051600081526020810180835289905260ff83169181019190915260608101849052608081018390526001600160a01b0389169060019060a0016020604051602081039080840390855afa1580156103ea573d6000803e3d6000fd5b505050602060405103516001600160a01b0316149450505050505b9392505050565b600060208251101561041d57600080fd5b508051015190565b60405180606001604052806003906020820280368337509192915050565b6001600160a01b038116811461045857600080fd5b50565b634e487b7160e01b600052604160045260246000fd5b60005b8381101561048c578181015183820152602001610474565b50506000910152565b600082601f8301126104a657600080fd5b81516001600160401b038111156104bf576104bf61045b565b604051601f8201601f19908116603f011681016001600160401b03811182821017156104ed576104ed61045b565b60405281815283820160200185101561050557600080fd5b610516826020830160208701610471565b949350505050565b60008060006060848603121561053357600080fd5b835161053e81610443565b6020850151604086015191945092506001600160401b0381111561056157600080fd5b61056d86828701610495565b9150509250925092565b60008060006060848603121561058c57600080fd5b835161059781610443565b60208501519093506001600160401b038111156105b357600080fd5b6105bf86828701610495565b604086015190935090506001600160401b0381111561056157600080fd5b600082516105ef818460208701610471565b9190910192915050565b828152604060208201526000825180604084015261061e816060850160208701610471565b601f01601f1916919091016060019392505050565b60006020828403121561064557600080fd5b81516001600160e01b03198116811461040557600080fd5b634e487b7160e01b600052603260045260246000fdfe5369676e617475726556616c696461746f72237265636f7665725369676e6572\";\n  function createJSONRPCProvider(url, fetchImpl = fetch) {\n    let id = 0;\n    return {\n      async request({ method, params = [] }) {\n        const response = await fetchImpl(url, {\n          method: \"POST\",\n          headers: { \"content-type\": \"application/json\" },\n          body: JSON.stringify({ jsonrpc: \"2.0\", id: ++id, method, params })\n        });\n        if (!response.ok) {\n          throw new Error(`RPC request failed: ${response.status}`);\n        }\n        const body = await response.json();\n        if (body.error) {\n          throw new Error(`RPC error: ${body.error.message}`);\n        }\n        return body.result;\n      }\n    };\n  }\n  function isERC6492Signature(signature) {\n    return signature.toLowerCase().endsWith(ERC6492_MAGIC_SUFFIX.slice(2));\n  }\n  function decodeERC6492Signature(signature) {\n    const wrapped = ethers3.utils.hexDataSlice(signature, 0, ethers3.utils.hexDataLength(signature) - 32);\n    const [factory, factoryCalldata, innerSignature] = ethers3.utils.defaultAbiCoder.decode([\"address\", \"bytes\", \"bytes\"], wrapped);\n    return { factory, factoryCalldata, signature: innerSignature };\n  }\n  var erc1271Interface = new ethers3.utils.Interface([\n    \"function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)\"\n  ]);\n  async function isValidERC1271Signature(provider, address, hash, signature) {\n    try {\n      const result = await provider.request({\n        method: \"eth_call\",\n        params: [{ to: address, data: erc1271Interface.encodeFunctionData(\"isValidSignature\", [hash, signature]) }, \"latest\"]\n      });\n      return typeof result === \"string\" && result.slice(0, 10).toLowerCase() === ERC1271_MAGIC_VALUE;\n    } catch {\n      return false;\n    }\n  }\n  async function isValidERC6492Signature(provider, address, hash, signature) {\n    const args = ethers3.utils.defaultAbiCoder.encode([\"address\", \"bytes32\", \"bytes\"], [address, hash, signature]);\n    try {\n      const result = await provider.request({\n        method: \"eth_call\",\n        params: [{ data: ethers3.utils.hexConcat([ERC6492_UNIVERSAL_VALIDATOR_BYTECODE, args]) }, \"latest\"]\n      });\n      return typeof result === \"string\" && result !== \"0x\" && ethers3.BigNumber.from(result).eq(1);\n    } catch {\n      return false;\n    }\n  }\n  async function verifySmartAccountSignature(provider, address, hash, signature) {\n    const code = await provider.request({ method: \"eth_getCode\", params: [address, \"latest\"] });\n    const deployed = typeof code === \"string\" && code !== \"0x\" && code !== \"0x0\";\n    if (isERC6492Signature(signature)) {\n      return deployed ? isValidERC1271Signature(provider, address, hash, decodeERC6492Signature(signature).signature) : isValidERC6492Signature(provider, address, hash, signature);\n    }\n    return deployed && isValidERC1271Signature(provider, address, hash, signature);\n  }\n\n  // src/verification/accountSignatures.ts\n  var ethers4 = __toESM(require_ethers(), 1);\n  async function verifySolanaSignature(message, signature, address) {\n    try {\n      const publicKey = await crypto.subtle.importKey(\n        \"raw\",\n        new Uint8Array(base58btcDecode(address)),\n        { name: \"Ed25519\" },\n        false,\n        [\"verify\"]\n      );\n      return await crypto.subtle.verify(\"Ed25519\", publicKey, new Uint8Array(signature), new TextEncoder().encode(message));\n    } catch {\n      return false;\n    }\n  }\n  var varint = (n) => {\n    if (n < 253) return new Uint8Array([n]);\n    if (n <= 65535) return new Uint8Array([253, n & 255, n >> 8]);\n    return new Uint8Array([254, n & 255, n >> 8 & 255, n >> 16 & 255, n >>> 24]);\n  };\n  function bitcoinMessageHash(message) {\n    const magic = ethers4.utils.toUtf8Bytes(\"Bitcoin Signed Message:\\n\");\n    const body = ethers4.utils.toUtf8Bytes(message);\n    const data = ethers4.utils.concat([varint(magic.length), magic, varint(body.length), body]);\n    return ethers4.utils.sha256(ethers4.utils.sha256(data));\n  }\n  var hash160 = (data) => ethers4.utils.ripemd160(ethers4.utils.sha256(data));\n  function verifyBitcoinSignature(message, signature, address) {\n    const header = signature[0];\n    const decoded = base58checkDecode(address);\n    if (signature.length !== 65 || header < 27 || header > 38 || !decoded) return false;\n    let publicKey;\n    try {\n      publicKey = ethers4.utils.recoverPublicKey(bitcoinMessageHash(message), {\n        r: ethers4.utils.hexlify(signature.slice(1, 33)),\n        s: ethers4.utils.hexlify(signature.slice(33, 65)),\n        recoveryParam: header - 27 & 3\n      });\n    } catch {\n      return false;\n    }\n    const compressedKey = ethers4.utils.computePublicKey(publicKey, true);\n    let expected;\n    let versions;\n    if (header < 31) {\n      expected = hash160(publicKey);\n      versions = BITCOIN_P2PKH_VERSIONS;\n    } else if (header < 35) {\n      expected = hash160(compressedKey);\n      versions = BITCOIN_P2PKH_VERSIONS;\n    } else {\n      expected = hash160(ethers4.utils.concat([\"0x0014\", hash160(compressedKey)]));\n      versions = BITCOIN_P2SH_VERSIONS;\n    }\n    return versions.indexOf(decoded.version) !== -1 && ethers4.utils.hexlify(decoded.payload) === expected;\n  }\n\n  // src/verification/es256k.ts\n  function recoversToAddress(signingInput, rawSignature, address) {\n    const messageHash = ethers5.utils.keccak256(ethers5.utils.toUtf8Bytes(signingInput));\n    const r = \"0x\" + bytesToHex(rawSignature.slice(0, 32));\n    const s = \"0x\" + bytesToHex(rawSignature.slice(32, 64));\n    for (const v of [27, 28]) {\n      try {\n        const recovered = ethers5.utils.recoverAddress(messageHash, { r, s, v });\n        if (recovered.toLowerCase() === address.toLowerCase()) {\n          return true;\n        }\n      } catch {\n      }\n    }\n    return false;\n  }\n  function walletSignatureRecoversToAddress(alg, signingInput, rawSignature, address) {\n    const signature = \"0x\" + bytesToHex(rawSignature);\n    try {\n      const recovered = alg === \"EIP191\" ? ethers5.utils.verifyMessage(signingInput, signature) : ethers5.utils.verifyTypedData(USER_JWT_EIP712_DOMAIN, USER_JWT_EIP712_TYPES, { signingInput }, signature);\n      return recovered.toLowerCase() === address.toLowerCase();\n    } catch {\n      return false;\n    }\n  }\n  function walletSignatureHash(alg, signingInput) {\n    return alg === \"EIP191\" ? ethers5.utils.hashMessage(signingInput) : ethers5.utils._TypedDataEncoder.hash(USER_JWT_EIP712_DOMAIN, USER_JWT_EIP712_TYPES, { signingInput });\n  }\n  var verifyEIP155Signature = async (alg, signingInput, signature, account, options) => {\n    if (alg === \"ES256K\") {\n      if (signature.length !== 64) {\n        throw new Error(\"Invalid signature length\");\n      }\n      return recoversToAddress(signingInput, signature, account.address);\n    }\n    if (signature.length === 0) {\n      throw new Error(\"Invalid signature length\");\n    }\n    const walletAlg = alg;\n    if (signature.length === 65 && walletSignatureRecoversToAddress(walletAlg, signingInput, signature, account.address)) {\n      return true;\n    }\n    const provider = options.rpc && await options.rpc(Number(account.chain.split(\":\")[1]));\n    if (!provider) return false;\n    return verifySmartAccountSignature(\n      provider,\n      account.address,\n      walletSignatureHash(walletAlg, signingInput),\n      \"0x\" + bytesToHex(signature)\n    );\n  };\n  var ACCOUNT_SIGNATURE_VERIFIERS = {\n    eip155: { algorithms: [\"ES256K\", \"EIP191\", \"EIP712\"], verify: verifyEIP155Signature },\n    solana: {\n      algorithms: [\"EdDSA\"],\n      verify: async (_alg, signingInput, signature, account) => {\n        if (signature.length !== 64) {\n          throw new Error(\"Invalid signature length\");\n        }\n        return verifySolanaSignature(signingInput, signature, account.address);\n      }\n    },\n    bip122: {\n      algorithms: [\"BIP137\"],\n      verify: async (_alg, signingInput, signature, account) => {\n        if (signature.length !== 65) {\n          throw new Error(\"Invalid signature length\");\n        }\n        return verifyBitcoinSignature(signingInput, signature, account.address);\n      }\n    }\n  };\n  async function verifyES256KJWT(jwt, options = {}) {\n    const { header, payload, signingInput, signature } = decodeJWT(jwt);\n    let account;\n    try {\n      account = parseDIDPkhAccount(payload.iss);\n    } catch {\n      throw new Error(\"Invalid DID format in JWT\");\n    }\n    if (payload.iss !== payload.sub || !Object.prototype.hasOwnProperty.call(ACCOUNT_SIGNATURE_VERIFIERS, account.namespace)) {\n      throw new Error(\"Invalid DID format in JWT\");\n    }\n    const verifier = ACCOUNT_SIGNATURE_VERIFIERS[account.namespace];\n    if (verifier.algorithms.indexOf(header.alg) === -1) {\n      throw new Error(`Unsupported algorithm: ${header.alg}`);\n    }\n    if (!isPkhAddress(account.namespace, account.address)) {\n      throw new Error(\"Invalid address in JWT DID\");\n    }\n    const now = Math.floor(Date.now() / 1e3);\n    if (payload.exp < now) {\n      return { header, payload, valid: false };\n    }\n    const valid = await verifier.verify(header.alg, signingInput, signature, account, options);\n    return { header, payload, valid };\n  }\n  async function assertES256KJWT(jwt, expectedAddress, options = {}) {\n    const { header, payload, valid } = await verifyES256KJWT(jwt, options);\n    const { namespace, address: signerAddress } = parseDIDPkhAccount(payload.iss);\n    if (!samePkhAddress(namespace, signerAddress, expectedAddress)) {\n      throw new Error(\"JWT signer does not match expected address\");\n    }\n    if (payload.exp < Math.floor(Date.now() / 1e3)) {\n      throw new Error(\"JWT expired\");\n    }\n    if (!valid) {\n      throw new Error(\"Invalid JWT signature\");\n    }\n    return { header, payload };\n  }\n\n  // src/verification/replay.ts\n  function ciphertextResource(dataToEncryptHash2) {\n    return `lit-ciphertext:${dataToEncryptHash2}`;\n  }\n  function jwtReplayKey(payload) {\n    const id = payload.jti || payload.nonce;\n    if (typeof id !== \"string\" || id === \"\") {\n      throw new Error(\"JWT has no nonce or jti\");\n    }\n    return `${payload.iss}#${id}`;\n  }\n  async function consumeJWTNonce(store, payload) {\n    if (!await store.consume(jwtReplayKey(payload), payload.exp)) {\n      throw new Error(\"JWT nonce has already been used\");\n    }\n  }\n  function createHttpReplayStore(url, fetchImpl = fetch) {\n    if (!url.startsWith(\"https://\")) {\n      throw new Error(`Replay service is not an https URL: ${url}`);\n    }\n    return {\n      async consume(key, expiresAt) {\n        const response = await fetchImpl(url, {\n          method: \"POST\",\n          headers: { \"content-type\": \"application/json\" },\n          body: JSON.stringify({ key, expiresAt })\n        });\n        if (response.status === 201) return true;\n        if (response.status === 409) return false;\n        throw new Error(`Replay service request failed: ${response.status}`);\n      }\n    };\n  }\n  function jwtReplayStore(payload, fetchImpl) {\n    if (!payload.replay_service) {\n      throw new Error(\"JWT names no replay service to consume its nonce in\");\n    }\n    return createHttpReplayStore(payload.replay_service, fetchImpl);\n  }\n\n  // src/verification/jcs.ts\n  var hasLoneSurrogate = (value) => /[\\uD800-\\uDBFF](?![\\uDC00-\\uDFFF])|(?:^|[^\\uD800-\\uDBFF])[\\uDC00-\\uDFFF]/.test(value);\n  var serializeString = (value) => {\n    if (hasLoneSurrogate(value)) {\n      throw new Error(\"Cannot canonicalize a string with a lone surrogate\");\n    }\n    return JSON.stringify(value);\n  };\n  function canonicalizeJSON(value) {\n    if (value === null) return \"null\";\n    switch (typeof value) {\n      case \"boolean\":\n        return value ? \"true\" : \"false\";\n      case \"number\":\n        if (!isFinite(value)) {\n          throw new Error(`Cannot canonicalize the number ${value}`);\n        }\n        return JSON.stringify(value);\n      case \"string\":\n        return serializeString(value);\n      case \"object\": {\n        if (typeof value.toJSON === \"function\") {\n          return canonicalizeJSON(value.toJSON());\n        }\n        if (Array.isArray(value)) {\n          return `[${value.map((item) => canonicalizeJSON(item === void 0 ? null : item)).join(\",\")}]`;\n        }\n        const members = Object.keys(value).filter((key) => value[key] !== void 0).sort().map((key) => `${serializeString(key)}:${canonicalizeJSON(value[key])}`);\n        return `{${members.join(\",\")}}`;\n      }\n      default:\n        throw new Error(`Cannot canonicalize a value of type ${typeof value}`);\n    }\n  }\n  async function hashCanonicalJSON(value) {\n    const data = new TextEncoder().encode(canonicalizeJSON(value));\n    return bytesToHex(new Uint8Array(await crypto.subtle.digest(\"SHA-256\", data)));\n  }\n\n  // src/verification/requirements.ts\n  var hashCredentialRequirements = (requirements) => hashCanonicalJSON(requirements);\n  var sealSecret = (secret, credentialRequirementsHash, publisher) => {\n    const sealed = { credentialRequirementsHash, secret };\n    if (publisher) {\n      sealed.publisher = publisher;\n    }\n    return JSON.stringify(sealed);\n  };\n  var openSealedSecret = async (sealedSecret, requirements) => {\n    let sealed;\n    try {\n      sealed = JSON.parse(sealedSecret);\n    } catch {\n      sealed = null;\n    }\n    if (!sealed || typeof sealed.credentialRequirementsHash !== \"string\") {\n      throw new Error(\"Ciphertext is not bound to credential requirements\");\n    }\n    const requirementsHash = await hashCredentialRequirements(requirements);\n    if (sealed.credentialRequirementsHash !== requirementsHash) {\n      throw new Error(\n        \"Credential requirements do not match the requirements bound to the ciphertext\"\n      );\n    }\n    return sealed;\n  };\n\n  // src/verification/credentialAge.ts\n  var isSeconds = (value) => typeof value === \"number\" && isFinite(value) && value >= 0;\n  function validateCredentialAgeRequirements(requirements) {\n    const { maxCredentialAge, minCredentialAge } = requirements;\n    if (maxCredentialAge !== void 0 && !isSeconds(maxCredentialAge)) {\n      throw new Error(`Invalid maxCredentialAge: ${maxCredentialAge}. Ages are non-negative numbers of seconds.`);\n    }\n    if (minCredentialAge !== void 0 && !isSeconds(minCredentialAge)) {\n      throw new Error(`Invalid minCredentialAge: ${minCredentialAge}. Ages are non-negative numbers of seconds.`);\n    }\n    if (maxCredentialAge !== void 0 && minCredentialAge !== void 0 && minCredentialAge > maxCredentialAge) {\n      throw new Error(\"Invalid credential age constraints: minCredentialAge exceeds maxCredentialAge\");\n    }\n  }\n\n  // src/verification/predicates.ts\n  var OPERATORS = [\"eq\", \"in\", \"regex\", \"gte\", \"lte\", \"exists\", \"before\", \"after\"];\n  var hasOwn = (value, key) => Object.prototype.hasOwnProperty.call(value, key);\n  var toTime = (value) => {\n    if (typeof value === \"number\") return value * 1e3;\n    if (typeof value === \"string\") return Date.parse(value);\n    return NaN;\n  };\n  function validateClaimPredicates(predicates) {\n    if (predicates === void 0) return;\n    if (!Array.isArray(predicates)) {\n      throw new Error(\"Invalid claim predicates: expected an array\");\n    }\n    for (const predicate of predicates) {\n      if (!predicate || typeof predicate !== \"object\") {\n        throw new Error(`Invalid claim predicate: ${JSON.stringify(predicate)}`);\n      }\n      const { path, op } = predicate;\n      const fail = (reason) => {\n        throw new Error(`Invalid claim predicate ${JSON.stringify(predicate)}: ${reason}`);\n      };\n      if (typeof path !== \"string\" || path !== \"\" && path.charAt(0) !== \"/\") {\n        fail(\"path must be a JSON pointer\");\n      }\n      if (typeof op !== \"string\" || OPERATORS.indexOf(op) === -1) {\n        fail(`unknown operator ${op}`);\n      }\n      const p = predicate;\n      switch (p.op) {\n        case \"eq\":\n          if (!hasOwn(p, \"value\")) fail(\"value is required\");\n          break;\n        case \"in\":\n          if (!Array.isArray(p.values)) fail(\"values must be an array\");\n          break;\n        case \"regex\":\n          if (typeof p.pattern !== \"string\") fail(\"pattern must be a string\");\n          if (p.flags !== void 0 && !/^[imsu]*$/.test(p.flags)) fail(\"flags may only contain i, m, s and u\");\n          try {\n            new RegExp(p.pattern, p.flags);\n          } catch {\n            fail(\"pattern is not a valid regular expression\");\n          }\n          break;\n        case \"gte\":\n        case \"lte\":\n          if (typeof p.value !== \"number\" || !isFinite(p.value)) fail(\"value must be a number\");\n          break;\n        case \"exists\":\n          if (p.value !== void 0 && typeof p.value !== \"boolean\") fail(\"value must be a boolean\");\n          break;\n        case \"before\":\n        case \"after\":\n          if (isNaN(toTime(p.value))) fail(\"value must be an ISO 8601 date or seconds since the epoch\");\n          break;\n      }\n    }\n  }\n\n  // src/verification/credentialTypes.ts\n  var COMMON_CLAIMS = [\"requiredEvidence\"];\n  var toList = (value) => Array.isArray(value) ? value : [value];\n  var matchesAny = (actual, required) => actual !== void 0 && toList(required).indexOf(actual) !== -1;\n  var nonEmptyStrings = (label, hint) => (required) => {\n    const values = toList(required);\n    if (values.length === 0) {\n      throw new Error(`Invalid ${label}: ${hint}`);\n    }\n    for (const value of values) {\n      if (!value || typeof value !== \"string\" || value.trim().length === 0) {\n        throw new Error(`Invalid ${label}: ${value}. ${hint}`);\n      }\n    }\n  };\n  var CredentialTypeRegistry = class {\n    constructor() {\n      this.definitions = /* @__PURE__ */ new Map();\n    }\n    register(definition) {\n      this.definitions.set(definition.type, definition);\n      return this;\n    }\n    supports(type) {\n      return this.definitions.has(type);\n    }\n    get types() {\n      return Array.from(this.definitions.keys());\n    }\n    get(type) {\n      const definition = this.definitions.get(type);\n      if (!definition) {\n        throw new Error(`Invalid credential type: ${type}. Supported types: ${this.types.join(\", \")}`);\n      }\n      return definition;\n    }\n    /**\n     * Whether `issuer` may issue credentials of `type`\n     */\n    allowsIssuer(type, issuer) {\n      const { issuers } = this.get(type);\n      return !issuers || issuers.indexOf(issuer) !== -1;\n    }\n    /**\n     * Check that requirements name a registered type, an issuer allowed for it\n     * and only claims the type defines, with well-formed values, predicates and\n     * age constraints\n     */\n    validateRequirements(requirements) {\n      const definition = this.get(requirements.credentialType);\n      if (!this.allowsIssuer(definition.type, requirements.issuer)) {\n        throw new Error(`Issuer ${requirements.issuer} is not allowed to issue ${definition.type} credentials`);\n      }\n      if (requirements.claims && requirements.claims.minIssuanceAge !== void 0) {\n        throw new Error(\"minIssuanceAge has been replaced by maxCredentialAge and minCredentialAge (seconds since issuance)\");\n      }\n      for (const [name, required] of Object.entries(requirements.claims || {})) {\n        if (COMMON_CLAIMS.indexOf(name) !== -1 || required === void 0) continue;\n        const claim = definition.claims[name];\n        if (!claim) {\n          throw new Error(`Unsupported claim ${name} for ${definition.type} credentials`);\n        }\n        if (claim.validateRequirement) {\n          claim.validateRequirement(required);\n        }\n      }\n      validateClaimPredicates(requirements.predicates);\n      validateCredentialAgeRequirements(requirements);\n      validateAcceptedChains(requirements.chains);\n    }\n    /**\n     * Read a claim from where the credential type keeps it\n     */\n    readClaim(type, source, name) {\n      const definition = this.get(type);\n      const claim = definition.claims[name];\n      const location = source[definition.claimLocation];\n      return location ? location[claim && claim.field || name] : void 0;\n    }\n    /**\n     * Read every claim the credential type defines\n     */\n    readClaims(type, source) {\n      const claims = {};\n      for (const name of Object.keys(this.get(type).claims)) {\n        const value = this.readClaim(type, source, name);\n        if (value !== void 0) claims[name] = value;\n      }\n      return claims;\n    }\n    /**\n     * Check the credential's claims against the requirements, throwing on the\n     * first unmet claim\n     */\n    assertClaims(source, requirements) {\n      const definition = this.get(requirements.credentialType);\n      for (const [name, required] of Object.entries(requirements.claims || {})) {\n        if (COMMON_CLAIMS.indexOf(name) !== -1 || required === void 0) continue;\n        const claim = definition.claims[name];\n        if (!claim) {\n          throw new Error(`Unsupported claim ${name} for ${definition.type} credentials`);\n        }\n        const actual = this.readClaim(definition.type, source, name);\n        const matches = claim.matches || matchesAny;\n        if (!matches(actual, required)) {\n          throw new Error(`${claim.label || name} requirement not met. Required: ${required}, Found: ${actual}`);\n        }\n      }\n    }\n    /**\n     * Whether the credential's claims satisfy the requirements\n     */\n    claimsSatisfied(source, requirements) {\n      try {\n        this.assertClaims(source, requirements);\n        return true;\n      } catch {\n        return false;\n      }\n    }\n  };\n  var githubVerificationType = {\n    type: \"GitHubVerification\",\n    claimLocation: \"evidence\",\n    claims: {\n      githubHandle: {\n        field: \"handle\",\n        label: \"GitHub handle\",\n        validateRequirement: nonEmptyStrings(\"GitHub handle\", \"GitHub handles must be non-empty strings.\")\n      }\n    }\n  };\n  var premiumSubscriptionType = {\n    type: \"PremiumSubscription\",\n    issuers: [\"did:web:issuer.tinycloud.xyz\"],\n    claimLocation: \"credentialSubject\",\n    claims: {\n      tier: {\n        label: \"Subscription tier\",\n        validateRequirement: nonEmptyStrings(\"subscription tier\", \"Tiers must be non-empty strings.\")\n      }\n    }\n  };\n  function createCredentialTypeRegistry() {\n    return new CredentialTypeRegistry().register(githubVerificationType).register(premiumSubscriptionType);\n  }\n  var credentialTypes = createCredentialTypeRegistry();\n\n  // src/verification/did/key.ts\n  var SECP256K1 = {\n    crv: \"secp256k1\",\n    multicodec: 231,\n    p: BigInt(\"0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f\"),\n    a: BigInt(0),\n    b: BigInt(7)\n  };\n  var P256 = {\n    crv: \"P-256\",\n    multicodec: 4608,\n    p: BigInt(\"0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff\"),\n    a: BigInt(\"0xffffffff00000001000000000000000000000000fffffffffffffffffffffffc\"),\n    b: BigInt(\"0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b\")\n  };\n\n  // src/action/rpc.ts\n  var LIT_CHAIN_NAMES = {\n    1: \"ethereum\",\n    10: \"optimism\",\n    56: \"bsc\",\n    137: \"polygon\",\n    8453: \"base\",\n    42161: \"arbitrum\",\n    11155111: \"sepolia\"\n  };\n  function litChainRPC(actions) {\n    const getRpcUrl = actions.getRpcUrl;\n    if (!getRpcUrl) return void 0;\n    return async (chainId) => {\n      const chain = LIT_CHAIN_NAMES[chainId];\n      if (!chain) return void 0;\n      try {\n        return createJSONRPCProvider(await getRpcUrl({ chain }));\n      } catch {\n        return void 0;\n      }\n    };\n  }\n\n  // src/action/runOnce.ts\n  async function runOnce(actions, name, task) {\n    if (!actions.runOnce) return task();\n    const outcome = JSON.parse(\n      await actions.runOnce({ waitForResponse: true, name }, async () => {\n        try {\n          return JSON.stringify({ result: await task() });\n        } catch (e) {\n          return JSON.stringify({ error: e.message });\n        }\n      })\n    );\n    if (outcome.error !== void 0) {\n      throw new Error(outcome.error);\n    }\n    return outcome.result;\n  }\n\n  // src/action/enhancedCredentialAction.ts\n  var ACTION_ERROR_TYPES = [\n    [[\"publisher to authorize\", \"Only the publisher\"], \"rekey_authorization\"],\n    [[\"Presentation\", \"presentation\"], \"presentation_verification\"],\n    [[\"ES256K\", \"JWT chain\"], \"user_jwt_verification\"],\n    [[\"JWT resource\"], \"jwt_resource_mismatch\"],\n    [[\"JWT nonce\", \"JWT has no nonce\", \"replay service\", \"Replay service\"], \"jwt_replay\"],\n    [[\"is not accepted by the requirements\"], \"chain_not_accepted\"],\n    [[\"GitHub\"], \"github_credential_verification\"],\n    [[\"revoked\", \"suspended\", \"Status list\", \"status list\"], \"credential_status_verification\"],\n    [[\"Credential is too old\"], \"credential_too_old\"],\n    [[\"Credential is too new\"], \"credential_too_new\"],\n    [[\"Credential issuance time is unknown\"], \"credential_issuance_unknown\"],\n    [[\"Credential expired\", \"Credential not yet valid\", \"Clock skew\"], \"credential_validity_verification\"],\n    [[\"requirement not met\", \"Claim predicate\", \"Credential policy\"], \"credential_claims_verification\"],\n    [[\"decrypt\"], \"decryption_error\"],\n    [[\"bound to\"], \"requirements_binding_error\"]\n  ];\n  function classifyActionError(message) {\n    for (const [fragments, errorType] of ACTION_ERROR_TYPES) {\n      if (fragments.some((fragment) => message.indexOf(fragment) !== -1)) {\n        return errorType;\n      }\n    }\n    return \"general_error\";\n  }\n\n  // src/action/rekeyAction.ts\n  async function runRekeyAction(params, Lit2) {\n    let response;\n    try {\n      console.log(\"Starting rekey authorization...\");\n      const encrypt = Lit2.Actions.encrypt;\n      if (!encrypt) {\n        throw new Error(\"The Lit runtime cannot encrypt from inside an action\");\n      }\n      const { payload: rekeyJWT2 } = await assertES256KJWT(params.rekeyJWT, params.publisherAddress, {\n        rpc: litChainRPC(Lit2.Actions)\n      });\n      if (rekeyJWT2.purpose !== \"rekey\") {\n        throw new Error(`JWT purpose mismatch. Expected: rekey, Got: ${rekeyJWT2.purpose}`);\n      }\n      if (rekeyJWT2.aud !== \"lit-protocol-encryption\") {\n        throw new Error(`Invalid JWT audience: ${rekeyJWT2.aud}`);\n      }\n      if (rekeyJWT2.resource !== ciphertextResource(params.dataToEncryptHash)) {\n        throw new Error(\"JWT resource does not match the ciphertext\");\n      }\n      const newRequirementsHash = await hashCredentialRequirements(params.newCredentialRequirements);\n      if (rekeyJWT2.credential_requirements_hash !== newRequirementsHash) {\n        throw new Error(\"JWT credential requirements do not match the new requirements\");\n      }\n      const account = parseDIDPkhAccount(rekeyJWT2.iss);\n      if (params.publisherChain && params.publisherChain !== account.chain) {\n        throw new Error(`JWT chain ${account.chain} does not match the publisher chain ${params.publisherChain}`);\n      }\n      const sealed = await openSealedSecret(\n        await Lit2.Actions.decryptAndCombine({\n          accessControlConditions: params.accessControlConditions,\n          ciphertext: params.ciphertext,\n          dataToEncryptHash: params.dataToEncryptHash,\n          chain: \"ethereum\"\n        }),\n        params.credentialRequirements\n      );\n      if (!sealed.publisher) {\n        throw new Error(\"Ciphertext has no publisher to authorize a rekey\");\n      }\n      if (sealed.publisher.toLowerCase() !== rekeyJWT2.iss.toLowerCase()) {\n        throw new Error(\"Only the publisher can rekey this ciphertext\");\n      }\n      console.log(`✅ Rekey authorized by the publisher ${sealed.publisher}`);\n      const { ciphertext: ciphertext2, dataToEncryptHash: dataToEncryptHash2 } = await runOnce(Lit2.Actions, \"rekey\", async () => {\n        await consumeJWTNonce(jwtReplayStore(rekeyJWT2), rekeyJWT2);\n        return encrypt({\n          accessControlConditions: params.accessControlConditions,\n          to_encrypt: new TextEncoder().encode(sealSecret(sealed.secret, newRequirementsHash, sealed.publisher))\n        });\n      });\n      console.log(\"✅ Secret encrypted under the new requirements\");\n      response = {\n        success: true,\n        ciphertext: ciphertext2,\n        dataToEncryptHash: dataToEncryptHash2,\n        credentialRequirementsHash: newRequirementsHash,\n        publisher: sealed.publisher\n      };\n    } catch (e) {\n      const message = e.message;\n      console.error(\"Rekey failed:\", message);\n      response = {\n        success: false,\n        error: message,\n        errorType: classifyActionError(message)\n      };\n    }\n    Lit2.Actions.setResponse({ response });\n    return response;\n  }\n\n  // src/action/entries/rekeyAction.ts\n  runRekeyAction(\n    {\n      accessControlConditions,\n      ciphertext,\n      dataToEncryptHash,\n      credentialRequirements,\n      newCredentialRequirements,\n      rekeyJWT,\n      publisherAddress,\n      // Optional jsParams may be omitted, leaving the global undeclared\n      publisherChain: typeof publisherChain !== \"undefined\" ? publisherChain : void 0\n    },\n    Lit\n  );\n})();\n";
@@ -0,0 +1,12 @@
+export * from "./runtime";
+export { runCredentialAction } from "./credentialAction";
+export { LIT_CHAIN_NAMES, litChainRPC } from "./rpc";
+export {
+  runEnhancedCredentialAction,
+  classifyActionError,
+} from "./enhancedCredentialAction";
+export { runRekeyAction } from "./rekeyAction";
+export { parseCredentialActionResponse } from "./response";
+export { credentialActionCode } from "./generated/credentialAction";
+export { enhancedCredentialActionCode } from "./generated/enhancedCredentialAction";
+export { rekeyActionCode } from "./generated/rekeyAction";
@@ -0,0 +1,51 @@
+import { credentialTypes } from "../verification/credentialTypes";
+import { parseCAIP2Chain } from "../verification/did/pkh";
+import {
+  assertCredentialPolicy,
+  verifyPresentedCredentials,
+  CredentialPolicyMatch,
+} from "../verification/policy";
+import { CredentialActionParams, VerifiedCredentialDetails } from "./runtime";
+
+/**
+ * Credential JWTs presented in `jsParams`, from `credentialJWTs` and/or the
+ * single `credentialJWT`
+ */
+export function presentedCredentialJWTs(params: CredentialActionParams): string[] {
+  const jwts = (params.credentialJWTs || []).slice();
+  if (params.credentialJWT && jwts.indexOf(params.credentialJWT) === -1) {
+    jwts.push(params.credentialJWT);
+  }
+  return jwts;
+}
+
+const toDetails = ({ payload, requirements }: CredentialPolicyMatch): VerifiedCredentialDetails => ({
+  issuer: payload.iss,
+  subject: payload.sub,
+  credentialType: requirements.credentialType,
+  claims: credentialTypes.readClaims(requirements.credentialType, payload.vc || {}),
+  githubHandle: payload.vc?.evidence?.handle,
+  issuanceDate: payload.vc?.issuanceDate,
+});
+
+/**
+ * The user's account as a `did:pkh` DID, on `userChain` (`eip155:1` by
+ * default)
+ */
+export function userAccountDID(params: CredentialActionParams): string {
+  const { namespace, reference } = parseCAIP2Chain(params.userChain || "eip155:1");
+  return `did:pkh:${namespace}:${reference}:${params.userAddress}`;
+}
+
+/**
+ * Verify the presented credentials and enforce the credential policy,
+ * returning details of the credentials that satisfied it
+ */
+export async function verifyCredentialPolicy(params: CredentialActionParams): Promise<VerifiedCredentialDetails[]> {
+  const presented = await verifyPresentedCredentials(
+    presentedCredentialJWTs(params),
+    params.credentialRequirements,
+    { clockSkewSeconds: params.clockSkewSeconds },
+  );
+  return assertCredentialPolicy(params.credentialRequirements, presented, userAccountDID(params)).map(toDetails);
+}
@@ -0,0 +1,104 @@
+import { parseDIDPkhAccount } from "../verification/did/pkh";
+import { assertES256KJWT } from "../verification/es256k";
+import { ciphertextResource, consumeJWTNonce, jwtReplayStore } from "../verification/replay";
+import { hashCredentialRequirements, openSealedSecret, sealSecret } from "../verification/requirements";
+import { classifyActionError } from "./enhancedCredentialAction";
+import { litChainRPC } from "./rpc";
+import { runOnce } from "./runOnce";
+import { EnhancedLitRuntime, RekeyActionParams, RekeyActionResponse } from "./runtime";
+
+/**
+ * Verify the publisher's rekey JWT, then decrypt the secret and encrypt it
+ * again under the new credential requirements, to the same access control
+ * conditions. The secret never leaves the Lit Action.
+ */
+export async function runRekeyAction(
+  params: RekeyActionParams,
+  Lit: EnhancedLitRuntime,
+): Promise<RekeyActionResponse> {
+  let response: RekeyActionResponse;
+
+  try {
+    console.log("Starting rekey authorization...");
+    const encrypt = Lit.Actions.encrypt;
+    if (!encrypt) {
+      throw new Error("The Lit runtime cannot encrypt from inside an action");
+    }
+
+    // 1. Verify the rekey JWT signature for the publisher's did:pkh account
+    const { payload: rekeyJWT } = await assertES256KJWT(params.rekeyJWT, params.publisherAddress, {
+      rpc: litChainRPC(Lit.Actions),
+    });
+
+    // 2. Verify it was signed to rekey this ciphertext to the new requirements
+    if (rekeyJWT.purpose !== "rekey") {
+      throw new Error(`JWT purpose mismatch. Expected: rekey, Got: ${rekeyJWT.purpose}`);
+    }
+    if (rekeyJWT.aud !== "lit-protocol-encryption") {
+      throw new Error(`Invalid JWT audience: ${rekeyJWT.aud}`);
+    }
+    if (rekeyJWT.resource !== ciphertextResource(params.dataToEncryptHash)) {
+      throw new Error("JWT resource does not match the ciphertext");
+    }
+    const newRequirementsHash = await hashCredentialRequirements(params.newCredentialRequirements);
+    if (rekeyJWT.credential_requirements_hash !== newRequirementsHash) {
+      throw new Error("JWT credential requirements do not match the new requirements");
+    }
+
+    const account = parseDIDPkhAccount(rekeyJWT.iss);
+    if (params.publisherChain && params.publisherChain !== account.chain) {
+      throw new Error(`JWT chain ${account.chain} does not match the publisher chain ${params.publisherChain}`);
+    }
+
+    // 3. Decrypt, refusing requirements altered after encryption
+    const sealed = await openSealedSecret(
+      await Lit.Actions.decryptAndCombine({
+        accessControlConditions: params.accessControlConditions,
+        ciphertext: params.ciphertext,
+        dataToEncryptHash: params.dataToEncryptHash,
+        chain: "ethereum",
+      }),
+      params.credentialRequirements,
+    );
+
+    // 4. Only the publisher sealed into the ciphertext may move it
+    if (!sealed.publisher) {
+      throw new Error("Ciphertext has no publisher to authorize a rekey");
+    }
+    if (sealed.publisher.toLowerCase() !== rekeyJWT.iss.toLowerCase()) {
+      throw new Error("Only the publisher can rekey this ciphertext");
+    }
+    console.log(`✅ Rekey authorized by the publisher ${sealed.publisher}`);
+
+    // 5. On one node, consume the nonce in the replay service the JWT names,
+    // then seal the secret to the new requirements and encrypt it again.
+    // Every node responds with that one ciphertext.
+    const { ciphertext, dataToEncryptHash } = await runOnce(Lit.Actions, "rekey", async () => {
+      await consumeJWTNonce(jwtReplayStore(rekeyJWT), rekeyJWT);
+      return encrypt({
+        accessControlConditions: params.accessControlConditions,
+        to_encrypt: new TextEncoder().encode(sealSecret(sealed.secret, newRequirementsHash, sealed.publisher)),
+      });
+    });
+    console.log("✅ Secret encrypted under the new requirements");
+
+    response = {
+      success: true,
+      ciphertext,
+      dataToEncryptHash,
+      credentialRequirementsHash: newRequirementsHash,
+      publisher: sealed.publisher,
+    };
+  } catch (e) {
+    const message = (e as Error).message;
+    console.error("Rekey failed:", message);
+    response = {
+      success: false,
+      error: message,
+      errorType: classifyActionError(message),
+    };
+  }
+
+  Lit.Actions.setResponse({ response });
+  return response;
+}
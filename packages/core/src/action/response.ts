@@ -0,0 +1,19 @@
+import { CredentialActionResponse } from "./runtime";
+
+/**
+ * Check an `executeJs` response from the credential actions is a
+ * `CredentialActionResponse`: a released secret or a failure's error
+ */
+export function parseCredentialActionResponse(response: unknown): CredentialActionResponse {
+  const value = (typeof response === "object" && response !== null ? response : {}) as Record<string, unknown>;
+  if (typeof value.success !== "boolean") {
+    throw new Error("Lit Action response has no success flag");
+  }
+  if (value.success && typeof value.secret !== "string") {
+    throw new Error("Lit Action response has no secret");
+  }
+  if (!value.success && typeof value.error !== "string") {
+    throw new Error("Lit Action response has no error");
+  }
+  return value as CredentialActionResponse;
+}
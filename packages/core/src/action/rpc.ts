@@ -0,0 +1,35 @@
+import { ChainRPC, createJSONRPCProvider } from "../verification/smartAccount";
+import { LitActionsRuntime } from "./runtime";
+
+/**
+ * Lit chain names for the `did:pkh` chain ids whose smart accounts the
+ * actions can check
+ */
+export const LIT_CHAIN_NAMES: Record<number, string> = {
+  1: "ethereum",
+  10: "optimism",
+  56: "bsc",
+  137: "polygon",
+  8453: "base",
+  42161: "arbitrum",
+  11155111: "sepolia",
+};
+
+/**
+ * Chain RPC through the Lit node's own RPC URLs. RPC URLs in `jsParams` are
+ * not trusted, since whoever runs the action could answer for any account.
+ */
+export function litChainRPC(actions: LitActionsRuntime): ChainRPC | undefined {
+  const getRpcUrl = actions.getRpcUrl;
+  if (!getRpcUrl) return undefined;
+
+  return async (chainId) => {
+    const chain = LIT_CHAIN_NAMES[chainId];
+    if (!chain) return undefined;
+    try {
+      return createJSONRPCProvider(await getRpcUrl({ chain }));
+    } catch {
+      return undefined;
+    }
+  };
+}
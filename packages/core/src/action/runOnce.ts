@@ -0,0 +1,28 @@
+import { LitActionsRuntime } from "./runtime";
+
+/**
+ * Run `task` on a single node and give every node its result, or throw its
+ * error on every node, so all nodes respond alike. A runtime without
+ * `runOnce` (a single node) runs the task itself.
+ */
+export async function runOnce<T>(
+  actions: LitActionsRuntime,
+  name: string,
+  task: () => Promise<T>,
+): Promise<T> {
+  if (!actions.runOnce) return task();
+
+  const outcome = JSON.parse(
+    await actions.runOnce({ waitForResponse: true, name }, async () => {
+      try {
+        return JSON.stringify({ result: await task() });
+      } catch (e) {
+        return JSON.stringify({ error: (e as Error).message });
+      }
+    }),
+  ) as { result?: T; error?: string };
+  if (outcome.error !== undefined) {
+    throw new Error(outcome.error);
+  }
+  return outcome.result as T;
+}
@@ -0,0 +1,163 @@
+import type { AccessControlConditions } from "@lit-protocol/types";
+import type { CredentialPolicy } from "../verification/types";
+
+/**
+ * The parts of the `Lit.Actions` runtime API the credential actions use
+ */
+export interface LitActionsRuntime {
+  decryptAndCombine(params: {
+    accessControlConditions: AccessControlConditions;
+    ciphertext: string;
+    dataToEncryptHash: string;
+    chain: string;
+    authSig?: unknown;
+  }): Promise<string>;
+  /** Encrypt to access control conditions from inside the action, used by the rekey action */
+  encrypt?(params: {
+    accessControlConditions: AccessControlConditions;
+    to_encrypt: Uint8Array;
+  }): Promise<{ ciphertext: string; dataToEncryptHash: string }>;
+  setResponse(params: { response: unknown }): void;
+  /** The node's RPC URL for a Lit chain name, used to check smart account signatures */
+  getRpcUrl?(params: { chain: string }): Promise<string>;
+  /** Run `fn` on one node and hand its result to every node, for side effects such as consuming a nonce */
+  runOnce?(params: { waitForResponse?: boolean; name?: string }, fn: () => Promise<string>): Promise<string>;
+}
+
+/**
+ * The `Lit` global as the enhanced and rekey actions see it. Used nonces are
+ * kept in the replay service each user JWT names, not in the runtime.
+ */
+export interface EnhancedLitRuntime {
+  Actions: LitActionsRuntime;
+}
+
+/**
+ * `jsParams` passed to the credential Lit Action
+ */
+export interface CredentialActionParams {
+  accessControlConditions: AccessControlConditions;
+  ciphertext: string;
+  dataToEncryptHash: string;
+  /** A single credential, for policies with one requirement */
+  credentialJWT?: string;
+  /** Every credential presented against the policy */
+  credentialJWTs?: string[];
+  credentialRequirements: CredentialPolicy;
+  userAddress: string;
+  /** CAIP-2 chain of the user's account, `eip155:1` by default */
+  userChain?: string;
+  /** Clock skew tolerated on credential validity dates, capped at `MAX_CLOCK_SKEW_SECONDS` */
+  clockSkewSeconds?: number;
+}
+
+/**
+ * `jsParams` passed to the enhanced (dual-factor) credential Lit Action. The
+ * holder proves control of their account either with `userSignedJWT` next to
+ * the credential JWTs, or with a `presentationJWT` that embeds them, signed
+ * to decrypt this ciphertext.
+ */
+export interface EnhancedCredentialActionParams extends CredentialActionParams {
+  userSignedJWT?: string;
+  /** A VP-JWT from `createDecryptionPresentation`, in place of the credential JWTs and `userSignedJWT` */
+  presentationJWT?: string;
+}
+
+/**
+ * `jsParams` passed to the rekey Lit Action. The ciphertext is re-encrypted
+ * to the same access control conditions under `newCredentialRequirements`.
+ */
+export interface RekeyActionParams {
+  accessControlConditions: AccessControlConditions;
+  ciphertext: string;
+  dataToEncryptHash: string;
+  /** The requirements the ciphertext is sealed under */
+  credentialRequirements: CredentialPolicy;
+  newCredentialRequirements: CredentialPolicy;
+  /** From `createRekeyJWT`, signed by the publisher sealed into the ciphertext */
+  rekeyJWT: string;
+  publisherAddress: string;
+  /** CAIP-2 chain of the publisher's account, taken from the JWT if absent */
+  publisherChain?: string;
+}
+
+export interface VerifiedCredentialDetails {
+  issuer: string;
+  subject?: string;
+  credentialType: string;
+  /** Claims the credential type defines, read from where the type keeps them */
+  claims: Record<string, unknown>;
+  githubHandle?: string;
+  issuanceDate?: string;
+}
+
+export type CredentialActionResponse =
+  | {
+      success: true;
+      secret: string;
+      verifiedCredential: VerifiedCredentialDetails;
+      /** One entry per requirement the presented credentials satisfied */
+      verifiedCredentials: VerifiedCredentialDetails[];
+    }
+  | {
+      success: false;
+      error: string;
+    };
+
+/**
+ * Category of a failed enhanced action, reported as `errorType`
+ */
+export type ActionErrorType =
+  | "user_jwt_verification"
+  | "github_credential_verification"
+  | "credential_claims_verification"
+  | "credential_status_verification"
+  | "credential_validity_verification"
+  | "credential_too_old"
+  | "credential_too_new"
+  | "credential_issuance_unknown"
+  | "decryption_error"
+  | "requirements_binding_error"
+  | "jwt_resource_mismatch"
+  | "jwt_replay"
+  | "chain_not_accepted"
+  | "presentation_verification"
+  | "rekey_authorization"
+  | "general_error";
+
+export type EnhancedCredentialActionResponse =
+  | {
+      success: true;
+      secret: string;
+      verifiedCredential: VerifiedCredentialDetails;
+      /** One entry per requirement the presented credentials satisfied */
+      verifiedCredentials: VerifiedCredentialDetails[];
+      verifiedUserJWT: {
+        userDID: string;
+        purpose: string;
+        issuedAt: string;
+        expiresAt: string;
+        nonce: string;
+      };
+      authenticationFactors: string[];
+    }
+  | {
+      success: false;
+      error: string;
+      errorType: ActionErrorType;
+    };
+
+export type RekeyActionResponse =
+  | {
+      success: true;
+      ciphertext: string;
+      dataToEncryptHash: string;
+      credentialRequirementsHash: string;
+      /** `did:pkh` of the publisher that authorized the rekey */
+      publisher: string;
+    }
+  | {
+      success: false;
+      error: string;
+      errorType: ActionErrorType;
+    };
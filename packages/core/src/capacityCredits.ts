@@ -0,0 +1,313 @@
+import fs from "fs";
+import path from "path";
+import * as ethers from "ethers";
+
+import type { CredentialEncryptionLogger } from "./client";
+import { LitClientFactory } from "./litClients";
+
+/**
+ * A capacity credits NFT minted by the manager
+ */
+export interface CapacityCreditRecord {
+  tokenId: string;
+  /** Address of the payer that minted and owns it */
+  owner: string;
+  requestsPerKilosecond: number;
+  /** Milliseconds since the epoch */
+  mintedAt: number;
+  /** Milliseconds since the epoch, always a UTC midnight */
+  expiresAt: number;
+  /** Times the token was handed out for a delegation */
+  uses: number;
+}
+
+/**
+ * Where minted capacity credits are kept between runs
+ */
+export interface CapacityCreditStore {
+  load(): Promise<CapacityCreditRecord[]>;
+  save(records: CapacityCreditRecord[]): Promise<void>;
+}
+
+/**
+ * Keep capacity credits in memory, for the life of the process
+ */
+export function createMemoryCapacityCreditStore(): CapacityCreditStore {
+  let stored: CapacityCreditRecord[] = [];
+
+  return {
+    async load() {
+      return stored.map((record) => ({ ...record }));
+    },
+    async save(records) {
+      stored = records.map((record) => ({ ...record }));
+    },
+  };
+}
+
+/**
+ * Keep capacity credits in a JSON file, so a daemon or CI run reuses the
+ * tokens earlier runs minted. Processes sharing the file are not
+ * coordinated.
+ */
+export function createFileCapacityCreditStore(filePath: string): CapacityCreditStore {
+  return {
+    async load() {
+      if (!fs.existsSync(filePath)) return [];
+      return JSON.parse(fs.readFileSync(filePath, "utf8"));
+    },
+    async save(records) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(records, null, 2));
+    },
+  };
+}
+
+/**
+ * The UTC midnight `days` after `now`, when a token minted with
+ * `daysUntilUTCMidnightExpiration: days` expires
+ */
+export const utcMidnightAfter = (now: number, days: number): number => {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+};
+
+export interface CapacityCreditManagerOptions {
+  litClients: LitClientFactory;
+  /** `createMemoryCapacityCreditStore()` by default */
+  store?: CapacityCreditStore;
+  requestsPerKilosecond: number;
+  daysUntilUTCMidnightExpiration: number;
+  /** Tokens kept in rotation, each with its own rate limit; 1 by default */
+  poolSize?: number;
+  /** Tokens expiring within this many milliseconds are replaced; 1 hour by default */
+  renewBeforeMs?: number;
+  /** How long a failed background renewal waits to retry; 5 minutes by default */
+  renewalRetryMs?: number;
+  logger: CredentialEncryptionLogger;
+  now?: () => number;
+}
+
+export interface CapacityCreditStats {
+  /** Unexpired tokens of the payer in the store */
+  tokens: CapacityCreditRecord[];
+  /** Tokens this manager minted */
+  minted: number;
+  /** Tokens this manager handed out */
+  acquired: number;
+  /** When the pool is next renewed in the background, while renewing */
+  nextRenewalAt?: number;
+  /** Renewals of this manager that failed */
+  renewalFailures: number;
+  /** The last failed renewal, until a renewal succeeds */
+  lastRenewalFailure?: { message: string; at: number };
+}
+
+/**
+ * Background renewal of one payer's pool
+ */
+interface CapacityCreditRenewal {
+  payer: ethers.Wallet;
+  timer?: ReturnType<typeof setTimeout>;
+  nextAt?: number;
+}
+
+const DEFAULT_RENEW_BEFORE_MS = 1000 * 60 * 60; // 1 hour
+const DEFAULT_RENEWAL_RETRY_MS = 1000 * 60 * 5; // 5 minutes
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Hands out capacity credits of a payer from a pool kept in a
+ * `CapacityCreditStore`. Tokens are minted only to fill the pool, and
+ * replaced when they come within `renewBeforeMs` of their UTC midnight
+ * expiry: on `acquire`, or ahead of it in the background after
+ * `startRenewal`. The least used token is handed out first.
+ */
+export class CapacityCreditManager {
+  private readonly store: CapacityCreditStore;
+  private readonly poolSize: number;
+  private readonly renewBeforeMs: number;
+  private readonly renewalRetryMs: number;
+  private readonly now: () => number;
+  private queue: Promise<unknown> = Promise.resolve();
+  private renewal?: CapacityCreditRenewal;
+  private minted = 0;
+  private acquired = 0;
+  private renewalFailures = 0;
+  private lastRenewalFailure?: { message: string; at: number };
+
+  constructor(private readonly options: CapacityCreditManagerOptions) {
+    this.store = options.store || createMemoryCapacityCreditStore();
+    this.poolSize = options.poolSize ?? 1;
+    this.renewBeforeMs = options.renewBeforeMs ?? DEFAULT_RENEW_BEFORE_MS;
+    this.renewalRetryMs = options.renewalRetryMs ?? DEFAULT_RENEWAL_RETRY_MS;
+    this.now = options.now || (() => Date.now());
+    if (!Number.isInteger(this.poolSize) || this.poolSize < 1) {
+      throw new Error(`Invalid capacity credit pool size: ${this.poolSize}`);
+    }
+  }
+
+  /**
+   * A capacity credit token of `payer` valid for at least `renewBeforeMs`,
+   * minting one if the pool is short
+   */
+  acquire(payer: ethers.Wallet): Promise<string> {
+    return this.serialize(async () => {
+      const { pool, kept } = await this.fill(payer);
+
+      const chosen = pool.reduce((least, record) => (record.uses < least.uses ? record : least));
+      chosen.uses++;
+      this.acquired++;
+
+      await this.store.save(kept);
+      return chosen.tokenId;
+    });
+  }
+
+  /**
+   * Keep renewing the pool of `payer` in the background, so tokens are
+   * replaced `renewBeforeMs` ahead of expiry even while nothing acquires
+   * them. A failed renewal is retried every `renewalRetryMs`, and shows in
+   * `stats`. Timers do not keep the process running.
+   */
+  startRenewal(payer: ethers.Wallet): void {
+    if (this.renewal && sameAddress(this.renewal.payer.address, payer.address)) return;
+    this.stopRenewal();
+    const renewal: CapacityCreditRenewal = { payer };
+    this.renewal = renewal;
+    this.scheduleRenewal(renewal, 0);
+  }
+
+  /**
+   * Stop renewing in the background
+   */
+  stopRenewal(): void {
+    if (this.renewal?.timer) {
+      clearTimeout(this.renewal.timer);
+    }
+    this.renewal = undefined;
+  }
+
+  /**
+   * Usage of the tokens of `owner`, and the state of their renewal
+   */
+  async stats(owner: string): Promise<CapacityCreditStats> {
+    const now = this.now();
+    const records = await this.store.load();
+    const renewing = this.renewal && sameAddress(this.renewal.payer.address, owner);
+    return {
+      tokens: records.filter((record) => sameAddress(record.owner, owner) && record.expiresAt > now),
+      minted: this.minted,
+      acquired: this.acquired,
+      nextRenewalAt: renewing ? this.renewal?.nextAt : undefined,
+      renewalFailures: this.renewalFailures,
+      lastRenewalFailure: this.lastRenewalFailure,
+    };
+  }
+
+  /**
+   * Mint tokens for `payer` until it has `poolSize` tokens not due for
+   * renewal, and drop expired ones. Returns those tokens and every record
+   * to keep.
+   */
+  private async fill(payer: ethers.Wallet): Promise<{ pool: CapacityCreditRecord[]; kept: CapacityCreditRecord[] }> {
+    const now = this.now();
+    try {
+      const records = await this.store.load();
+      const pool = records.filter(
+        (record) => sameAddress(record.owner, payer.address) && record.expiresAt - this.renewBeforeMs > now,
+      );
+
+      const kept = records.filter((record) => record.expiresAt > now);
+      while (pool.length < this.poolSize) {
+        const record = await this.mint(payer, now);
+        pool.push(record);
+        kept.push(record);
+        // Saved right away, so a failed mint for the rest of the pool
+        // does not lose it
+        await this.store.save(kept);
+      }
+
+      this.lastRenewalFailure = undefined;
+      return { pool, kept };
+    } catch (error) {
+      this.renewalFailures++;
+      this.lastRenewalFailure = { message: (error as Error).message, at: now };
+      this.options.logger.error("❌ Capacity credit renewal failed:", (error as Error).message);
+      throw error;
+    }
+  }
+
+  /**
+   * Renew after `delayMs`, unless renewal was stopped or restarted since
+   */
+  private scheduleRenewal(renewal: CapacityCreditRenewal, delayMs: number): void {
+    if (this.renewal !== renewal) return;
+    renewal.nextAt = this.now() + delayMs;
+    renewal.timer = setTimeout(() => void this.runRenewal(renewal), delayMs);
+    renewal.timer.unref?.();
+  }
+
+  /**
+   * Renew now, then again when the first token of the pool is due
+   */
+  private async runRenewal(renewal: CapacityCreditRenewal): Promise<void> {
+    let delayMs = this.renewalRetryMs;
+    try {
+      const { pool } = await this.serialize(() => this.fill(renewal.payer));
+      const dueAt = Math.min(...pool.map((record) => record.expiresAt - this.renewBeforeMs));
+      // Timers fire at once past their maximum; waking early only reschedules
+      delayMs = Math.min(Math.max(0, dueAt - this.now()), MAX_TIMER_DELAY_MS);
+    } catch {
+      // Recorded by `fill`, retried after `renewalRetryMs`
+    }
+    this.scheduleRenewal(renewal, delayMs);
+  }
+
+  /**
+   * Mint a token for `payer`, lasting a day longer if it would otherwise
+   * be due for renewal right away
+   */
+  private async mint(payer: ethers.Wallet, now: number): Promise<CapacityCreditRecord> {
+    const { logger, requestsPerKilosecond } = this.options;
+    let { daysUntilUTCMidnightExpiration } = this.options;
+    if (utcMidnightAfter(now, daysUntilUTCMidnightExpiration) - this.renewBeforeMs <= now) {
+      daysUntilUTCMidnightExpiration++;
+    }
+
+    logger.log("🔄 Connecting LitContracts client to network...");
+    const litContracts = this.options.litClients.createLitContracts(payer);
+    await litContracts.connect();
+    logger.log("✅ Connected LitContracts client to network");
+
+    logger.log("🔄 Minting a new Capacity Credit...");
+    const { capacityTokenIdStr } = await litContracts.mintCapacityCreditsNFT({
+      requestsPerKilosecond,
+      daysUntilUTCMidnightExpiration,
+    });
+    this.minted++;
+    const expiresAt = utcMidnightAfter(now, daysUntilUTCMidnightExpiration);
+    logger.log(`✅ Minted new Capacity Credit with ID: ${capacityTokenIdStr}, expiring ${new Date(expiresAt).toISOString()}`);
+
+    return {
+      tokenId: capacityTokenIdStr,
+      owner: payer.address,
+      requestsPerKilosecond,
+      mintedAt: now,
+      expiresAt,
+      uses: 0,
+    };
+  }
+
+  /**
+   * Run acquisitions one at a time, so concurrent sessions never mint for
+   * the same gap in the pool
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
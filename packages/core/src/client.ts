@@ -0,0 +1,704 @@
+import type { LitNodeClient } from "@lit-protocol/lit-node-client";
+import { encryptString } from "@lit-protocol/encryption";
+import { LIT_NETWORK, LIT_RPC } from "@lit-protocol/constants";
+import { LitAccessControlConditionResource } from "@lit-protocol/auth-helpers";
+import { AccessControlConditions, LIT_NETWORKS_KEYS } from "@lit-protocol/types";
+import * as ethers from "ethers";
+
+import { litActionCode } from "./litAction";
+import { litActionCode as enhancedLitActionCode } from "./litActionEnhanced";
+import { parseCredentialActionResponse, rekeyActionCode, RekeyActionResponse } from "./action";
+import { createDIDPKH } from "./did";
+import {
+  computeLitActionIpfsCid,
+  createLitActionAccessControlConditions,
+  assertLitActionPinned,
+} from "./ipfs";
+import {
+  createEncryptionJWT,
+  createDecryptionPresentation,
+  createRekeyJWT,
+  validateJWTUserAddress,
+} from "./jwt";
+import { CapacityCreditStats, CapacityCreditStore } from "./capacityCredits";
+import {
+  ContentEnvelope as PayloadContentEnvelope,
+  ContentEnvelopeOptions,
+  DecryptedContent,
+  EnvelopeContent,
+  decryptContentStream,
+  encryptContentStream,
+  generateContentKey,
+  readContent,
+} from "./envelope";
+import { createLitClientFactory, LitClientFactory } from "./litClients";
+import {
+  ENCRYPTED_PAYLOAD_FORMAT_VERSION,
+  EncryptedPayload,
+  validateEncryptedPayload,
+} from "./payload";
+import {
+  CapacityCreditPolicy,
+  DEFAULT_CAPACITY_CREDIT_POLICY,
+  LitSessionManager,
+} from "./litSession";
+import {
+  loadCredentials,
+  ParsedCredential,
+  validateCredentialRequirements,
+} from "./utils";
+import {
+  CredentialPolicy,
+  hashCredentialRequirements,
+  policyRequirements,
+  sealSecret,
+  selectCredentialsForPolicy,
+  verifyCredentials,
+  VerifiedCredential,
+} from "./verification";
+
+/**
+ * The Lit network to encrypt on and the RPC of the chain its capacity
+ * credits live on
+ */
+export interface LitNetworkConfig {
+  litNetwork: LIT_NETWORKS_KEYS;
+  rpcUrl: string;
+}
+
+export const DATIL_TEST_NETWORK: LitNetworkConfig = {
+  litNetwork: LIT_NETWORK.DatilTest,
+  rpcUrl: LIT_RPC.CHRONICLE_YELLOWSTONE,
+};
+
+/**
+ * Where the holder's credentials are read from when decrypting
+ */
+export interface CredentialStore {
+  load(): Promise<ParsedCredential[]>;
+}
+
+/**
+ * Credentials in a JSON file, `CREDENTIALS_PATH` or `data/credentials.json`
+ * by default, read on each load
+ */
+export const createFileCredentialStore = (credentialsPath?: string): CredentialStore => ({
+  load: async () => loadCredentials(credentialsPath),
+});
+
+/**
+ * Receives the client's progress messages and errors; `console` by default
+ */
+export interface CredentialEncryptionLogger {
+  log(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+/**
+ * Code of the Lit Actions ciphertexts are pinned to
+ */
+export interface LitActionSource {
+  /** Checks the credentials alone */
+  credentialAction: string;
+  /** Also checks the holder's signed JWT or presentation */
+  enhancedCredentialAction: string;
+  /** Moves an enhanced action's ciphertext to new requirements for its publisher */
+  rekeyAction: string;
+}
+
+export const BUNDLED_LIT_ACTIONS: LitActionSource = {
+  credentialAction: litActionCode,
+  enhancedCredentialAction: enhancedLitActionCode,
+  rekeyAction: rekeyActionCode,
+};
+
+export interface CredentialEncryptionClientConfig {
+  /** `DATIL_TEST_NETWORK` by default */
+  network?: LitNetworkConfig;
+  /**
+   * Pays for Lit usage with its capacity credits and signs session
+   * signatures. A function is called when a Lit connection is first needed.
+   */
+  payer: ethers.Wallet | (() => ethers.Wallet);
+  capacityCredits?: Partial<CapacityCreditPolicy>;
+  /** Where minted capacity credits are kept between runs; in memory by default */
+  capacityCreditStore?: CapacityCreditStore;
+  /** How long session signatures are reused; `DEFAULT_SESSION_DURATION_MS` by default */
+  sessionDurationMs?: number;
+  /** `createFileCredentialStore()` by default */
+  credentials?: CredentialStore;
+  logger?: CredentialEncryptionLogger;
+  /** `BUNDLED_LIT_ACTIONS` by default */
+  actions?: LitActionSource;
+  /** Issuers requirements may name; `TRUSTED_ISSUERS` by default */
+  trustedIssuers?: string[];
+  /** Creates the Lit clients, e.g. the mock from `./testing`; built from `network` by default */
+  litClients?: LitClientFactory;
+  /**
+   * HTTPS URL of the replay service the Lit Actions consume user JWT nonces
+   * in, e.g. one serving `createReplayServiceHandler`. Required to decrypt
+   * with JWTs and to rekey.
+   */
+  replayService?: string;
+}
+
+/**
+ * Ciphertext pinned to a credential Lit Action, as returned by `encrypt`
+ */
+export interface EncryptedCredentialData extends EncryptedPayload {
+  encryption: "lit";
+  credentialRequirementsHash: string;
+  litActionIpfsCid: string;
+}
+
+/**
+ * Ciphertext pinned to the enhanced Lit Action, as returned by
+ * `encryptWithJWT`
+ */
+export interface EncryptedCredentialDataWithJWT extends EncryptedCredentialData {
+  userSignedJWT: string;
+  userAddress: string;
+}
+
+/**
+ * An envelope whose DEK is pinned to the credential Lit Action, as returned
+ * by `encryptContentEnvelope`
+ */
+export type ContentEnvelope<C = Uint8Array> = PayloadContentEnvelope<C, EncryptedCredentialData>;
+
+/**
+ * Encrypts secrets to credential requirements and decrypts them through the
+ * pinned Lit Actions. Everything environment specific comes from the config.
+ *
+ * The Lit connection and session signatures are kept between operations;
+ * call `disconnect` when done.
+ */
+export class CredentialEncryptionClient {
+  private readonly network: LitNetworkConfig;
+  private readonly credentials: CredentialStore;
+  private readonly logger: CredentialEncryptionLogger;
+  private readonly actions: LitActionSource;
+  private readonly session: LitSessionManager;
+  private payerWallet?: ethers.Wallet;
+
+  constructor(private readonly config: CredentialEncryptionClientConfig) {
+    this.network = config.network || DATIL_TEST_NETWORK;
+    this.credentials = config.credentials || createFileCredentialStore();
+    this.logger = config.logger || console;
+    this.actions = config.actions || BUNDLED_LIT_ACTIONS;
+    this.session = new LitSessionManager({
+      litClients: config.litClients || createLitClientFactory(this.network.litNetwork),
+      payer: () => this.payer(),
+      litActionIpfsCids: () =>
+        Promise.all(
+          [this.actions.credentialAction, this.actions.enhancedCredentialAction, this.actions.rekeyAction].map(
+            computeLitActionIpfsCid,
+          ),
+        ),
+      capacityCredits: { ...DEFAULT_CAPACITY_CREDIT_POLICY, ...config.capacityCredits },
+      capacityCreditStore: config.capacityCreditStore,
+      logger: this.logger,
+      sessionDurationMs: config.sessionDurationMs,
+    });
+  }
+
+  /**
+   * Encrypt `secret` so only the credential Lit Action can decrypt it, for
+   * holders of credentials satisfying the requirements
+   */
+  async encrypt<P extends CredentialPolicy>(secret: string, credentialRequirements: P) {
+    return this.run(
+      async () => this.validateRequirements(credentialRequirements),
+      async () =>
+        this.encryptToAction(
+          await this.session.litNodeClient(),
+          secret,
+          credentialRequirements,
+          this.actions.credentialAction,
+        ),
+    );
+  }
+
+  /**
+   * Decrypt through the credential Lit Action with the stored credentials
+   * issued to `userAddress` on `userChain`
+   */
+  async decrypt(
+    encryptedData: EncryptedCredentialData,
+    userAddress: string,
+    userChain: string = "eip155:1",
+  ) {
+    return this.run(
+      () => this.prepareDecryption(
+        encryptedData,
+        this.actions.credentialAction,
+        createDIDPKH(userAddress, userChain),
+      ),
+      async ({ litActionIpfsCid, matchingCredentials }) => {
+        const litNodeClient = await this.session.litNodeClient();
+        const sessionSigs = await this.session.sessionSigs();
+
+        this.logger.log("🔄 Executing the Lit Action...");
+        const litActionResult = await litNodeClient.executeJs({
+          sessionSigs,
+          ipfsId: litActionIpfsCid,
+          jsParams: {
+            accessControlConditions: encryptedData.accessControlConditions,
+            ciphertext: encryptedData.ciphertext,
+            dataToEncryptHash: encryptedData.dataToEncryptHash,
+            credentialJWTs: matchingCredentials.map((credential) => credential.jwt),
+            credentialRequirements: encryptedData.credentialRequirements,
+            userAddress: userAddress,
+            userChain,
+          },
+        });
+        this.logger.log("✅ Executed the Lit Action");
+
+        return litActionResult;
+      },
+    );
+  }
+
+  /**
+   * Encrypt `secret` to the enhanced Lit Action, which also requires the
+   * holder's signed JWT. The user signs an encryption JWT for their account
+   * on EVM chain `userChainId`, and as its publisher may `rekey` it.
+   */
+  async encryptWithJWT<P extends CredentialPolicy>(
+    secret: string,
+    credentialRequirements: P,
+    userWallet: ethers.Wallet,
+    userChainId: number = 1,
+  ) {
+    const userChain = `eip155:${userChainId}`;
+    const publisher = createDIDPKH(userWallet.address, userChain);
+
+    return this.run(
+      async () => {
+        this.validateRequirements(credentialRequirements);
+
+        this.logger.log("🔑 Generating user ES256K JWT for encryption...");
+        const userSignedJWT = await createEncryptionJWT(userWallet, credentialRequirements, userChain);
+        this.logger.log(`✅ User JWT signed with DID: ${publisher}`);
+        return userSignedJWT;
+      },
+      async (userSignedJWT) => ({
+        ...(await this.encryptToAction(
+          await this.session.litNodeClient(),
+          secret,
+          credentialRequirements,
+          this.actions.enhancedCredentialAction,
+          publisher,
+        )),
+        userSignedJWT,
+        userAddress: userWallet.address,
+        userChain,
+      }),
+    );
+  }
+
+  /**
+   * Decrypt through the enhanced Lit Action, presenting the stored
+   * credentials in a fresh VP-JWT signed by `userWallet`
+   */
+  async decryptWithJWT(encryptedData: EncryptedCredentialDataWithJWT, userWallet: ethers.Wallet) {
+    const userChain = encryptedData.userChain || "eip155:1";
+
+    return this.run(
+      async () => {
+        // Validate that the wallet matches the encrypted data's user
+        if (userWallet.address.toLowerCase() !== encryptedData.userAddress.toLowerCase()) {
+          throw new Error("User wallet does not match the encrypted data owner");
+        }
+
+        // Validate the stored user JWT is for the correct address
+        if (!validateJWTUserAddress(encryptedData.userSignedJWT, userWallet.address)) {
+          throw new Error("Stored user JWT does not match user address");
+        }
+
+        const { litActionIpfsCid, matchingCredentials } = await this.prepareDecryption(
+          encryptedData,
+          this.actions.enhancedCredentialAction,
+          createDIDPKH(userWallet.address, userChain),
+        );
+
+        // One VP-JWT carries both the credentials and the proof of key ownership
+        this.logger.log("🔑 Presenting the credentials for decryption...");
+        const presentationJWT = await createDecryptionPresentation(
+          userWallet,
+          matchingCredentials.map((credential) => credential.jwt),
+          encryptedData.credentialRequirements,
+          encryptedData.dataToEncryptHash,
+          userChain,
+          this.replayService(),
+        );
+        this.logger.log(`✅ Presentation signed with DID: ${createDIDPKH(userWallet.address, userChain)}`);
+
+        return { litActionIpfsCid, presentationJWT };
+      },
+      async ({ litActionIpfsCid, presentationJWT }) => {
+        const litNodeClient = await this.session.litNodeClient();
+        const sessionSigs = await this.session.sessionSigs();
+
+        this.logger.log("🔄 Executing enhanced Lit Action with dual-factor authentication...");
+        const litActionResult = await litNodeClient.executeJs({
+          sessionSigs,
+          ipfsId: litActionIpfsCid,
+          jsParams: {
+            accessControlConditions: encryptedData.accessControlConditions,
+            ciphertext: encryptedData.ciphertext,
+            dataToEncryptHash: encryptedData.dataToEncryptHash,
+            credentialRequirements: encryptedData.credentialRequirements,
+            userAddress: userWallet.address,
+            userChain,
+            presentationJWT, // Fresh presentation for decryption
+          },
+        });
+        this.logger.log("✅ Executed enhanced Lit Action");
+
+        return litActionResult;
+      },
+    );
+  }
+
+  /**
+   * Move a ciphertext from `encryptWithJWT` to new credential requirements.
+   * The rekey Lit Action checks `publisher` sealed it, then decrypts it and
+   * encrypts it again under the new requirements; the secret never leaves
+   * the action. The result is the next revision, linking to this one.
+   */
+  async rekey<P extends CredentialPolicy>(
+    encryptedData: EncryptedCredentialDataWithJWT,
+    newCredentialRequirements: P,
+    publisher: ethers.Wallet,
+  ) {
+    const userChain = encryptedData.userChain || "eip155:1";
+
+    return this.run(
+      async () => {
+        this.validateRequirements(newCredentialRequirements);
+        validateEncryptedPayload(encryptedData);
+        if (encryptedData.encryption !== "lit") {
+          throw new Error("Mock payloads cannot be rekeyed through Lit");
+        }
+        if (publisher.address.toLowerCase() !== encryptedData.userAddress.toLowerCase()) {
+          throw new Error("Only the publisher can rekey this ciphertext");
+        }
+
+        this.logger.log("🔍 Verifying the pinned Lit Actions...");
+        const rekeyActionIpfsCid = await computeLitActionIpfsCid(this.actions.rekeyAction);
+        const litActionIpfsCid = await assertLitActionPinned(
+          this.actions.enhancedCredentialAction,
+          encryptedData,
+          rekeyActionIpfsCid,
+        );
+        // The new ciphertext keeps these conditions, so they must pin nothing else
+        if (
+          JSON.stringify(encryptedData.accessControlConditions) !==
+          JSON.stringify(createLitActionAccessControlConditions(litActionIpfsCid, rekeyActionIpfsCid))
+        ) {
+          throw new Error(`Access control conditions do not let Lit Action ${rekeyActionIpfsCid} rekey the ciphertext`);
+        }
+        this.logger.log(`✅ Rekey Lit Action IPFS CID: ${rekeyActionIpfsCid}`);
+
+        if (
+          (await hashCredentialRequirements(encryptedData.credentialRequirements)) !==
+          encryptedData.credentialRequirementsHash
+        ) {
+          throw new Error("Credential requirements do not match the hash stored with the ciphertext");
+        }
+
+        this.logger.log("🔑 Signing the rekey JWT...");
+        const rekeyJWT = await createRekeyJWT(
+          publisher,
+          newCredentialRequirements,
+          encryptedData.dataToEncryptHash,
+          userChain,
+          this.replayService(),
+        );
+        const userSignedJWT = await createEncryptionJWT(publisher, newCredentialRequirements, userChain);
+        this.logger.log(`✅ Rekey JWT signed with DID: ${createDIDPKH(publisher.address, userChain)}`);
+
+        return { rekeyActionIpfsCid, rekeyJWT, userSignedJWT };
+      },
+      async ({ rekeyActionIpfsCid, rekeyJWT, userSignedJWT }) => {
+        const litNodeClient = await this.session.litNodeClient();
+        const sessionSigs = await this.session.sessionSigs();
+
+        this.logger.log("🔄 Executing the rekey Lit Action...");
+        const { response } = await litNodeClient.executeJs({
+          sessionSigs,
+          ipfsId: rekeyActionIpfsCid,
+          jsParams: {
+            accessControlConditions: encryptedData.accessControlConditions,
+            ciphertext: encryptedData.ciphertext,
+            dataToEncryptHash: encryptedData.dataToEncryptHash,
+            credentialRequirements: encryptedData.credentialRequirements,
+            newCredentialRequirements,
+            rekeyJWT,
+            publisherAddress: publisher.address,
+            publisherChain: userChain,
+          },
+        });
+        const result = response as RekeyActionResponse;
+        if (!result.success) {
+          throw new Error(`Rekey failed: ${result.error}`);
+        }
+        this.logger.log("✅ Encrypted the secret under the new requirements");
+
+        const revision = encryptedData.revision ?? 1;
+        return {
+          ...encryptedData,
+          ciphertext: result.ciphertext,
+          dataToEncryptHash: result.dataToEncryptHash,
+          accsResourceString: await LitAccessControlConditionResource.generateResourceString(
+            encryptedData.accessControlConditions as any,
+            result.dataToEncryptHash,
+          ),
+          credentialRequirements: newCredentialRequirements,
+          credentialRequirementsHash: result.credentialRequirementsHash,
+          userSignedJWT,
+          revision: revision + 1,
+          previous: {
+            dataToEncryptHash: encryptedData.dataToEncryptHash,
+            credentialRequirementsHash: encryptedData.credentialRequirementsHash,
+            revision,
+          },
+        };
+      },
+    );
+  }
+
+  /**
+   * Encrypt `content` locally under a fresh DEK, and the DEK so only
+   * holders of credentials satisfying the requirements can decrypt it
+   */
+  async encryptContentEnvelope<P extends CredentialPolicy>(
+    content: Uint8Array | Blob,
+    credentialRequirements: P,
+    options: ContentEnvelopeOptions = {},
+  ): Promise<ContentEnvelope> {
+    const envelope = await this.encryptContentEnvelopeStream(content, credentialRequirements, options);
+    return { ...envelope, ciphertext: await readContent(envelope.ciphertext) };
+  }
+
+  /**
+   * `encryptContentEnvelope` for content too large to hold in memory: the
+   * ciphertext is encrypted chunk by chunk as the stream is read
+   */
+  async encryptContentEnvelopeStream<P extends CredentialPolicy>(
+    content: EnvelopeContent,
+    credentialRequirements: P,
+    options: ContentEnvelopeOptions = {},
+  ): Promise<ContentEnvelope<ReadableStream<Uint8Array>>> {
+    const contentKey = generateContentKey();
+    const { metadata, ciphertext } = encryptContentStream(content, contentKey, options);
+    const encryptedKey = await this.encrypt(contentKey, credentialRequirements);
+    return { encryptedKey, metadata, ciphertext };
+  }
+
+  /**
+   * Have the credential Lit Action release the DEK for the stored
+   * credentials issued to `userAddress`, then decrypt the content locally
+   */
+  async decryptContentEnvelope(
+    envelope: ContentEnvelope<EnvelopeContent>,
+    userAddress: string,
+    userChain: string = "eip155:1",
+  ): Promise<DecryptedContent> {
+    const { content, mimeType } = await this.decryptContentEnvelopeStream(envelope, userAddress, userChain);
+    return { content: await readContent(content), mimeType };
+  }
+
+  /**
+   * `decryptContentEnvelope` for content too large to hold in memory. The
+   * stream errors if the ciphertext was altered or cut short.
+   */
+  async decryptContentEnvelopeStream(
+    envelope: ContentEnvelope<EnvelopeContent>,
+    userAddress: string,
+    userChain: string = "eip155:1",
+  ): Promise<DecryptedContent<ReadableStream<Uint8Array>>> {
+    const { response } = await this.decrypt(envelope.encryptedKey, userAddress, userChain);
+    const result = parseCredentialActionResponse(response);
+    if (!result.success) {
+      throw new Error(`The Lit Action did not release the content key: ${result.error}`);
+    }
+
+    return {
+      content: decryptContentStream(envelope.ciphertext, result.secret, envelope.metadata),
+      mimeType: envelope.metadata.mimeType,
+    };
+  }
+
+  /**
+   * Usage and renewal of the payer's managed capacity credits
+   */
+  async capacityCreditStats(): Promise<CapacityCreditStats> {
+    return this.session.capacityCreditStats();
+  }
+
+  /**
+   * Disconnect from the Lit network. The next operation reconnects and
+   * signs new session signatures.
+   */
+  async disconnect(): Promise<void> {
+    await this.session.disconnect();
+  }
+
+  /**
+   * Run the checks in `prepare`, which need no Lit connection, then
+   * `operation`. Errors are logged and rethrown.
+   */
+  private async run<P, T>(
+    prepare: () => Promise<P>,
+    operation: (prepared: P) => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await operation(await prepare());
+    } catch (error) {
+      this.logger.error(error);
+      throw error;
+    }
+  }
+
+  /**
+   * The payer wallet, connected to the network's RPC
+   */
+  private payer(): ethers.Wallet {
+    if (!this.payerWallet) {
+      const wallet = typeof this.config.payer === "function" ? this.config.payer() : this.config.payer;
+      this.payerWallet = wallet.provider
+        ? wallet
+        : wallet.connect(new ethers.providers.JsonRpcProvider(this.network.rpcUrl));
+    }
+    return this.payerWallet;
+  }
+
+  /**
+   * The replay service the Lit Actions consume user JWT nonces in
+   */
+  private replayService(): string {
+    if (!this.config.replayService) {
+      throw new Error("No replay service is configured to consume user JWT nonces in");
+    }
+    return this.config.replayService;
+  }
+
+  private validateRequirements(credentialRequirements: CredentialPolicy): void {
+    this.logger.log("🔒 Validating credential requirements...");
+    validateCredentialRequirements(credentialRequirements, undefined, this.config.trustedIssuers);
+    this.logger.log(
+      `✅ Credential requirements validated for trusted issuers: ${policyRequirements(credentialRequirements).map((requirements) => requirements.issuer).join(", ")}`,
+    );
+  }
+
+  /**
+   * Seal the secret to the requirements and encrypt it so only the Lit
+   * Action `actionCode` can decrypt it. A `publisher` is sealed with it, and
+   * the rekey Lit Action may decrypt it too on their behalf.
+   */
+  private async encryptToAction<P extends CredentialPolicy>(
+    litNodeClient: LitNodeClient,
+    secret: string,
+    credentialRequirements: P,
+    actionCode: string,
+    publisher?: string,
+  ) {
+    // Only the pinned Lit Action can decrypt - authorization happens
+    // inside it
+    this.logger.log("🔄 Computing the Lit Action IPFS CID...");
+    const litActionIpfsCid = await computeLitActionIpfsCid(actionCode);
+    this.logger.log(`✅ Pinned Lit Action IPFS CID: ${litActionIpfsCid}`);
+    const accessControlConditions: AccessControlConditions =
+      createLitActionAccessControlConditions(
+        litActionIpfsCid,
+        publisher ? await computeLitActionIpfsCid(this.actions.rekeyAction) : undefined,
+      );
+
+    // Commit the requirements into the ciphertext so the Lit Action can
+    // refuse to release the secret under relaxed requirements
+    const credentialRequirementsHash = await hashCredentialRequirements(credentialRequirements);
+    this.logger.log(`ℹ️  Credential requirements hash: ${credentialRequirementsHash}`);
+
+    this.logger.log("🔐 Encrypting the secret...");
+    const { ciphertext, dataToEncryptHash } = await encryptString(
+      {
+        accessControlConditions,
+        dataToEncrypt: sealSecret(secret, credentialRequirementsHash, publisher),
+      },
+      litNodeClient,
+    );
+    this.logger.log("✅ Encrypted the secret");
+    this.logger.log("ℹ️  The base64-encoded ciphertext:", ciphertext);
+    this.logger.log("ℹ️  The hash of the data that was encrypted:", dataToEncryptHash);
+
+    this.logger.log("🔄 Generating the Resource String...");
+    const accsResourceString =
+      await LitAccessControlConditionResource.generateResourceString(
+        accessControlConditions as any,
+        dataToEncryptHash,
+      );
+    this.logger.log("✅ Generated the Resource String");
+
+    return {
+      formatVersion: ENCRYPTED_PAYLOAD_FORMAT_VERSION,
+      encryption: "lit" as const,
+      ciphertext,
+      dataToEncryptHash,
+      accessControlConditions,
+      accsResourceString,
+      credentialRequirements,
+      credentialRequirementsHash,
+      litActionIpfsCid,
+    };
+  }
+
+  /**
+   * Check the ciphertext is pinned to `actionCode` under its stored
+   * requirements, and pick stored credentials of `userDID` satisfying them
+   */
+  private async prepareDecryption(
+    encryptedData: EncryptedCredentialData,
+    actionCode: string,
+    userDID: string,
+  ): Promise<{ litActionIpfsCid: string; matchingCredentials: VerifiedCredential[] }> {
+    validateEncryptedPayload(encryptedData);
+    if (encryptedData.encryption !== "lit") {
+      throw new Error("Mock payloads cannot be decrypted through Lit");
+    }
+
+    this.logger.log("🔍 Verifying the pinned Lit Action...");
+    const litActionIpfsCid = await assertLitActionPinned(
+      actionCode,
+      encryptedData,
+      await computeLitActionIpfsCid(this.actions.rekeyAction),
+    );
+    this.logger.log(`✅ Local Lit Action matches pinned IPFS CID: ${litActionIpfsCid}`);
+
+    if (
+      (await hashCredentialRequirements(encryptedData.credentialRequirements)) !==
+      encryptedData.credentialRequirementsHash
+    ) {
+      throw new Error("Credential requirements do not match the hash stored with the ciphertext");
+    }
+
+    // Load and find matching credential
+    this.logger.log("🔍 Loading credentials...");
+    const credentials = await verifyCredentials(await this.credentials.load());
+    const matchingCredentials = selectCredentialsForPolicy(
+      credentials,
+      encryptedData.credentialRequirements,
+      userDID,
+    );
+
+    if (!matchingCredentials) {
+      throw new Error("No matching credential found for the specified requirements");
+    }
+    this.logger.log(
+      `✅ Found ${matchingCredentials.length} matching credential(s) from ${matchingCredentials.map((credential) => credential.issuer).join(", ")}`,
+    );
+
+    return { litActionIpfsCid, matchingCredentials };
+  }
+}
@@ -0,0 +1,278 @@
+import type { EncryptedPayload } from "./payload";
+import { base64urlDecode, base64urlEncode } from "./verification/encoding";
+
+/**
+ * Content encrypted locally, or an input to encrypt: bytes, a file or a
+ * stream of bytes
+ */
+export type EnvelopeContent = Uint8Array | Blob | ReadableStream<Uint8Array>;
+
+export const CONTENT_ENVELOPE_ALGORITHM = "AES-256-GCM";
+
+/** 1 MiB */
+export const DEFAULT_CONTENT_CHUNK_SIZE = 1024 * 1024;
+
+const KEY_BYTES = 32;
+const NONCE_PREFIX_BYTES = 8;
+const TAG_BYTES = 16;
+
+/**
+ * How content was encrypted, stored in the clear next to its ciphertext
+ */
+export interface ContentEnvelopeMetadata {
+  algorithm: typeof CONTENT_ENVELOPE_ALGORITHM;
+  /** Plaintext bytes per chunk; each encrypted chunk is 16 bytes longer */
+  chunkSize: number;
+  /** base64url, the first 8 bytes of every chunk's IV */
+  noncePrefix: string;
+  /** Authenticated with every chunk */
+  mimeType: string;
+  /** Plaintext length, when known before streaming */
+  size?: number;
+}
+
+/**
+ * Content encrypted locally under a data encryption key (DEK), with only the
+ * DEK encrypted through Lit as `encryptedKey`
+ */
+export interface ContentEnvelope<C = Uint8Array, K extends EncryptedPayload = EncryptedPayload> {
+  /** The DEK, released by the credential Lit Action */
+  encryptedKey: K;
+  metadata: ContentEnvelopeMetadata;
+  ciphertext: C;
+}
+
+export interface DecryptedContent<C = Uint8Array> {
+  content: C;
+  mimeType: string;
+}
+
+export interface ContentEnvelopeOptions {
+  /** The input Blob's type, else `application/octet-stream` by default */
+  mimeType?: string;
+  /** `DEFAULT_CONTENT_CHUNK_SIZE` by default */
+  chunkSize?: number;
+}
+
+/**
+ * A random 256-bit data encryption key (DEK), base64url encoded so it can be
+ * sealed and encrypted through Lit like any secret
+ */
+export function generateContentKey(): string {
+  return base64urlEncode(crypto.getRandomValues(new Uint8Array(KEY_BYTES)));
+}
+
+/**
+ * Import a content key, rejecting malformed keys before any content is read
+ */
+const importContentKey = (contentKey: string): Promise<CryptoKey> => {
+  const raw = base64urlDecode(contentKey);
+  if (raw.length !== KEY_BYTES) {
+    throw new Error("Content key must be 256 bits");
+  }
+  return crypto.subtle.importKey("raw", new Uint8Array(raw), "AES-GCM", false, ["encrypt", "decrypt"]);
+};
+
+const concatBytes = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  if (a.length === 0) return b;
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a, 0);
+  joined.set(b, a.length);
+  return joined;
+};
+
+/**
+ * The IV of chunk `index`: the envelope's nonce prefix and the big-endian
+ * chunk index. The additional data marks the final chunk, so a ciphertext
+ * cut at a chunk boundary fails to decrypt, and authenticates the MIME type.
+ */
+const chunkParams = (noncePrefix: Uint8Array, mimeType: string, index: number, final: boolean) => {
+  if (index > 0xffffffff) {
+    throw new Error("Content has too many chunks");
+  }
+  const iv = new Uint8Array(NONCE_PREFIX_BYTES + 4);
+  iv.set(noncePrefix, 0);
+  new DataView(iv.buffer).setUint32(NONCE_PREFIX_BYTES, index);
+  return {
+    name: "AES-GCM",
+    iv,
+    additionalData: concatBytes(Uint8Array.of(final ? 1 : 0), new TextEncoder().encode(mimeType)),
+  };
+};
+
+const toStream = (content: EnvelopeContent): ReadableStream<Uint8Array> => {
+  if (content instanceof ReadableStream) return content;
+  if (content instanceof Uint8Array) {
+    return new ReadableStream({
+      start(controller) {
+        controller.enqueue(content);
+        controller.close();
+      },
+    });
+  }
+  return content.stream() as ReadableStream<Uint8Array>;
+};
+
+/**
+ * Split `input` into chunks of `size` bytes, transformed by `chunk`. The
+ * last chunk (possibly short or empty) is only known once the input ends,
+ * so a full chunk is held back until more bytes follow it.
+ */
+const rechunk = (
+  input: ReadableStream<Uint8Array>,
+  size: number,
+  chunk: (bytes: Uint8Array, index: number, final: boolean) => Promise<Uint8Array>,
+): ReadableStream<Uint8Array> => {
+  const reader = input.getReader();
+  let buffered: Uint8Array = new Uint8Array(0);
+  let index = 0;
+  let done = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        while (!done && buffered.length <= size) {
+          const read = await reader.read();
+          if (read.done) {
+            done = true;
+          } else {
+            buffered = concatBytes(buffered, read.value);
+          }
+        }
+
+        if (buffered.length > size) {
+          controller.enqueue(await chunk(buffered.slice(0, size), index++, false));
+          buffered = buffered.slice(size);
+        } else {
+          controller.enqueue(await chunk(buffered, index++, true));
+          controller.close();
+        }
+      } catch (error) {
+        controller.error(error);
+        await reader.cancel(error).catch(() => undefined);
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  });
+};
+
+/**
+ * Encrypt `content` under `contentKey` in chunks, so multi-MB files are
+ * never held in memory as a whole. The ciphertext is read from the stream.
+ */
+export function encryptContentStream(
+  content: EnvelopeContent,
+  contentKey: string,
+  options: ContentEnvelopeOptions = {},
+): { metadata: ContentEnvelopeMetadata; ciphertext: ReadableStream<Uint8Array> } {
+  const chunkSize = options.chunkSize ?? DEFAULT_CONTENT_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new Error(`Invalid content chunk size: ${chunkSize}`);
+  }
+  const noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_BYTES));
+  const key = importContentKey(contentKey);
+
+  const metadata: ContentEnvelopeMetadata = {
+    algorithm: CONTENT_ENVELOPE_ALGORITHM,
+    chunkSize,
+    noncePrefix: base64urlEncode(noncePrefix),
+    mimeType: options.mimeType || (content instanceof Blob && content.type) || "application/octet-stream",
+  };
+  if (content instanceof Uint8Array) metadata.size = content.length;
+  if (content instanceof Blob) metadata.size = content.size;
+
+  const ciphertext = rechunk(toStream(content), chunkSize, async (bytes, index, final) =>
+    new Uint8Array(
+      await crypto.subtle.encrypt(
+        chunkParams(noncePrefix, metadata.mimeType, index, final),
+        await key,
+        new Uint8Array(bytes),
+      ),
+    ),
+  );
+  return { metadata, ciphertext };
+}
+
+/**
+ * Decrypt a ciphertext from `encryptContentStream`, chunk by chunk. The
+ * stream errors if any chunk was altered, reordered or dropped.
+ */
+export function decryptContentStream(
+  ciphertext: EnvelopeContent,
+  contentKey: string,
+  metadata: ContentEnvelopeMetadata,
+): ReadableStream<Uint8Array> {
+  if (metadata.algorithm !== CONTENT_ENVELOPE_ALGORITHM) {
+    throw new Error(`Unsupported content algorithm: ${metadata.algorithm}`);
+  }
+  const noncePrefix = base64urlDecode(metadata.noncePrefix);
+  const key = importContentKey(contentKey);
+  let decrypted = 0;
+
+  return rechunk(toStream(ciphertext), metadata.chunkSize + TAG_BYTES, async (bytes, index, final) => {
+    let plaintext: Uint8Array;
+    try {
+      plaintext = new Uint8Array(
+        await crypto.subtle.decrypt(
+          chunkParams(noncePrefix, metadata.mimeType, index, final),
+          await key,
+          new Uint8Array(bytes),
+        ),
+      );
+    } catch {
+      throw new Error(`Content chunk ${index} failed to decrypt`);
+    }
+    decrypted += plaintext.length;
+    if (final && metadata.size !== undefined && decrypted !== metadata.size) {
+      throw new Error("Decrypted content does not match its size");
+    }
+    return plaintext;
+  });
+}
+
+/**
+ * Read a stream to its end
+ */
+export async function readContent(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+  const content = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    content.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return content;
+}
+
+/**
+ * Encrypt `content` under `contentKey` into one buffer
+ */
+export async function encryptContent(
+  content: Uint8Array | Blob,
+  contentKey: string,
+  options: ContentEnvelopeOptions = {},
+): Promise<{ metadata: ContentEnvelopeMetadata; ciphertext: Uint8Array }> {
+  const { metadata, ciphertext } = encryptContentStream(content, contentKey, options);
+  return { metadata, ciphertext: await readContent(ciphertext) };
+}
+
+/**
+ * Decrypt a ciphertext from `encryptContent` into one buffer
+ */
+export async function decryptContent(
+  ciphertext: EnvelopeContent,
+  contentKey: string,
+  metadata: ContentEnvelopeMetadata,
+): Promise<Uint8Array> {
+  return readContent(decryptContentStream(ciphertext, contentKey, metadata));
+}
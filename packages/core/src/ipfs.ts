@@ -0,0 +1,70 @@
+import * as Hash from "typestub-ipfs-only-hash";
+import { AccessControlConditions } from "@lit-protocol/types";
+
+/**
+ * Compute the IPFS CID (v0) of a Lit Action's source code.
+ * This is the same value Lit nodes expose as `:currentActionIpfsId`.
+ */
+export const computeLitActionIpfsCid = async (code: string): Promise<string> => {
+  return Hash.of(code);
+};
+
+const pinLitAction = (litActionIpfsCid: string): AccessControlConditions[number] => ({
+  contractAddress: "",
+  standardContractType: "",
+  chain: "ethereum",
+  method: "",
+  parameters: [":currentActionIpfsId"],
+  returnValueTest: {
+    comparator: "=",
+    value: litActionIpfsCid,
+  },
+});
+
+/**
+ * Access control conditions that can only be satisfied by the Lit Action
+ * pinned at the given IPFS CID, or also by the rekey Lit Action at
+ * `rekeyActionIpfsCid`
+ */
+export const createLitActionAccessControlConditions = (
+  litActionIpfsCid: string,
+  rekeyActionIpfsCid?: string,
+): AccessControlConditions =>
+  rekeyActionIpfsCid
+    ? [pinLitAction(litActionIpfsCid), { operator: "or" }, pinLitAction(rekeyActionIpfsCid)]
+    : [pinLitAction(litActionIpfsCid)];
+
+/**
+ * Ensure the local Lit Action code hashes to the CID stored with the
+ * ciphertext and that the access control conditions are exactly those pinning
+ * that CID, alone or with the rekey Lit Action at `rekeyActionIpfsCid`.
+ */
+export const assertLitActionPinned = async (
+  litActionCode: string,
+  encryptedData: {
+    litActionIpfsCid: string;
+    accessControlConditions: AccessControlConditions;
+  },
+  rekeyActionIpfsCid?: string,
+): Promise<string> => {
+  const localCid = await computeLitActionIpfsCid(litActionCode);
+  if (localCid !== encryptedData.litActionIpfsCid) {
+    throw new Error(
+      `Lit Action code does not match pinned IPFS CID. Expected: ${encryptedData.litActionIpfsCid}, Got: ${localCid}`,
+    );
+  }
+
+  // Any further condition could let other code decrypt the ciphertext
+  const pinnedConditions: AccessControlConditions[] = [createLitActionAccessControlConditions(localCid)];
+  if (rekeyActionIpfsCid) {
+    pinnedConditions.push(createLitActionAccessControlConditions(localCid, rekeyActionIpfsCid));
+  }
+  const conditions = JSON.stringify(encryptedData.accessControlConditions);
+  if (!pinnedConditions.some((pinned) => JSON.stringify(pinned) === conditions)) {
+    throw new Error(
+      `Access control conditions are not bound to Lit Action ${localCid}`,
+    );
+  }
+
+  return localCid;
+};
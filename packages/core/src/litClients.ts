@@ -0,0 +1,45 @@
+import { LitNodeClient } from "@lit-protocol/lit-node-client";
+import { LitContracts } from "@lit-protocol/contracts-sdk";
+import { LIT_NETWORK } from "@lit-protocol/constants";
+import { LIT_NETWORKS_KEYS } from "@lit-protocol/types";
+import * as ethers from "ethers";
+
+/**
+ * Creates the Lit network clients used by the encrypt/decrypt functions.
+ * Swap it out (e.g. for the in-process mock in `./testing`) to run offline.
+ */
+export interface LitClientFactory {
+  createLitNodeClient(): LitNodeClient;
+  createLitContracts(signer: ethers.Wallet): LitContracts;
+}
+
+/**
+ * Clients for the Lit network `litNetwork`
+ */
+export const createLitClientFactory = (litNetwork: LIT_NETWORKS_KEYS): LitClientFactory => ({
+  createLitNodeClient: () =>
+    new LitNodeClient({
+      litNetwork,
+      debug: false,
+    }),
+  createLitContracts: (signer) =>
+    new LitContracts({
+      signer,
+      network: litNetwork,
+      debug: false,
+    }),
+});
+
+export const datilTestClientFactory: LitClientFactory = createLitClientFactory(LIT_NETWORK.DatilTest);
+
+let litClientFactory: LitClientFactory = datilTestClientFactory;
+
+export const getLitClientFactory = (): LitClientFactory => litClientFactory;
+
+export const setLitClientFactory = (factory: LitClientFactory): void => {
+  litClientFactory = factory;
+};
+
+export const resetLitClientFactory = (): void => {
+  litClientFactory = datilTestClientFactory;
+};
@@ -0,0 +1,265 @@
+import type { LitNodeClient } from "@lit-protocol/lit-node-client";
+import { LIT_ABILITY } from "@lit-protocol/constants";
+import {
+  createSiweMessage,
+  LitAccessControlConditionResource,
+  LitActionResource,
+  generateAuthSig,
+} from "@lit-protocol/auth-helpers";
+import { SessionSigsMap } from "@lit-protocol/types";
+import * as ethers from "ethers";
+
+import {
+  CapacityCreditManager,
+  CapacityCreditStats,
+  CapacityCreditStore,
+} from "./capacityCredits";
+import type { CredentialEncryptionLogger } from "./client";
+import { LitClientFactory } from "./litClients";
+
+/**
+ * How the payer's capacity credits are used: an existing token, or a pool
+ * of tokens minted with these parameters
+ */
+export interface CapacityCreditPolicy {
+  /** Managed tokens are minted when absent */
+  tokenId?: string;
+  requestsPerKilosecond: number;
+  daysUntilUTCMidnightExpiration: number;
+  /** Managed tokens kept in rotation */
+  poolSize: number;
+  /** Managed tokens expiring within this many milliseconds are replaced; 1 hour by default */
+  renewBeforeMs?: number;
+  /** How long a failed background renewal waits to retry; 5 minutes by default */
+  renewalRetryMs?: number;
+  /**
+   * Uses of each capacity delegation; session signatures are renewed with a
+   * new delegation once they are spent
+   */
+  delegationUses: string;
+}
+
+export const DEFAULT_CAPACITY_CREDIT_POLICY: CapacityCreditPolicy = {
+  requestsPerKilosecond: 10,
+  daysUntilUTCMidnightExpiration: 1,
+  poolSize: 1,
+  delegationUses: "10",
+};
+
+export const DEFAULT_SESSION_DURATION_MS = 1000 * 60 * 10; // 10 minutes
+
+/**
+ * Session signatures are renewed this long before they expire, so an
+ * operation never starts with signatures about to lapse
+ */
+const SESSION_RENEWAL_MARGIN_MS = 1000 * 30;
+
+export interface LitSessionOptions {
+  litClients: LitClientFactory;
+  /** Called when the session first needs the payer */
+  payer: () => ethers.Wallet;
+  /** IPFS CIDs of the only Lit Actions session signatures may execute */
+  litActionIpfsCids: () => Promise<string[]>;
+  capacityCredits: CapacityCreditPolicy;
+  /** Where managed tokens are kept; in memory by default */
+  capacityCreditStore?: CapacityCreditStore;
+  logger: CredentialEncryptionLogger;
+  /** `DEFAULT_SESSION_DURATION_MS` by default */
+  sessionDurationMs?: number;
+}
+
+/**
+ * Session signatures backed by one capacity delegation
+ */
+interface LitSession {
+  sessionSigs: SessionSigsMap;
+  expiresAt: number;
+  usesLeft: number;
+}
+
+/**
+ * A long-lived Lit node connection paid for by one payer. Session
+ * signatures are reused until they expire or their delegation's uses are
+ * spent, and each new one delegates a token from the capacity credit pool
+ * (unless a token is configured).
+ */
+export class LitSessionManager {
+  private readonly sessionDurationMs: number;
+  private readonly capacityCreditManager: CapacityCreditManager;
+  private connection?: Promise<LitNodeClient>;
+  private session?: Promise<LitSession>;
+
+  constructor(private readonly options: LitSessionOptions) {
+    this.sessionDurationMs = options.sessionDurationMs ?? DEFAULT_SESSION_DURATION_MS;
+    this.capacityCreditManager = new CapacityCreditManager({
+      litClients: options.litClients,
+      store: options.capacityCreditStore,
+      requestsPerKilosecond: options.capacityCredits.requestsPerKilosecond,
+      daysUntilUTCMidnightExpiration: options.capacityCredits.daysUntilUTCMidnightExpiration,
+      poolSize: options.capacityCredits.poolSize,
+      renewBeforeMs: options.capacityCredits.renewBeforeMs,
+      renewalRetryMs: options.capacityCredits.renewalRetryMs,
+      logger: options.logger,
+    });
+    if (!(parseInt(options.capacityCredits.delegationUses, 10) > 0)) {
+      throw new Error(`Invalid capacity delegation uses: ${options.capacityCredits.delegationUses}`);
+    }
+  }
+
+  /**
+   * The connected Lit node client, connecting on first use
+   */
+  async litNodeClient(): Promise<LitNodeClient> {
+    if (!this.connection) {
+      this.connection = this.connect();
+      this.connection.catch(() => {
+        this.connection = undefined;
+      });
+    }
+    return this.connection;
+  }
+
+  /**
+   * Session signatures for one operation: decrypting any ciphertext
+   * through the Lit Actions at `litActionIpfsCids`. The access control
+   * conditions still pin each ciphertext to its Lit Action.
+   */
+  async sessionSigs(): Promise<SessionSigsMap> {
+    for (;;) {
+      const pending = this.session || this.createSession();
+      this.session = pending;
+
+      let session: LitSession;
+      try {
+        session = await pending;
+      } catch (error) {
+        if (this.session === pending) {
+          this.session = undefined;
+        }
+        throw error;
+      }
+
+      if (session.usesLeft > 0 && session.expiresAt - SESSION_RENEWAL_MARGIN_MS > Date.now()) {
+        session.usesLeft--;
+        return session.sessionSigs;
+      }
+      if (this.session === pending) {
+        this.session = undefined;
+      }
+    }
+  }
+
+  /**
+   * Usage and renewal of the payer's managed capacity credits
+   */
+  async capacityCreditStats(): Promise<CapacityCreditStats> {
+    return this.capacityCreditManager.stats(this.options.payer().address);
+  }
+
+  /**
+   * Disconnect from the Lit network, drop the session and stop renewing
+   * capacity credits; the next operation reconnects
+   */
+  async disconnect(): Promise<void> {
+    this.capacityCreditManager.stopRenewal();
+    const connection = this.connection;
+    this.connection = undefined;
+    this.session = undefined;
+    const litNodeClient = await connection?.catch(() => undefined);
+    if (litNodeClient) {
+      await litNodeClient.disconnect();
+    }
+  }
+
+  private async connect(): Promise<LitNodeClient> {
+    this.options.logger.log("🔄 Connecting to the Lit network...");
+    const litNodeClient = this.options.litClients.createLitNodeClient();
+    await litNodeClient.connect();
+    this.options.logger.log("✅ Connected to the Lit network");
+    return litNodeClient;
+  }
+
+  /**
+   * The configured capacity credit token, or one from the pool, which is
+   * then renewed in the background
+   */
+  private async capacityTokenId(payer: ethers.Wallet): Promise<string> {
+    const { tokenId } = this.options.capacityCredits;
+    if (tokenId) {
+      this.options.logger.log(`ℹ️  Using provided Capacity Credit with ID: ${tokenId}`);
+      return tokenId;
+    }
+    const poolTokenId = await this.capacityCreditManager.acquire(payer);
+    this.capacityCreditManager.startRenewal(payer);
+    return poolTokenId;
+  }
+
+  /**
+   * Delegate `delegationUses` of the capacity credit to the payer and sign
+   * session signatures carrying the delegation
+   */
+  private async createSession(): Promise<LitSession> {
+    const { logger, capacityCredits } = this.options;
+    const litNodeClient = await this.litNodeClient();
+    const payer = this.options.payer();
+    const capacityTokenId = await this.capacityTokenId(payer);
+    const litActionIpfsCids = await this.options.litActionIpfsCids();
+    const expiresAt = Date.now() + this.sessionDurationMs;
+    const expiration = new Date(expiresAt).toISOString();
+
+    logger.log("🔄 Creating capacityDelegationAuthSig...");
+    const { capacityDelegationAuthSig } =
+      await litNodeClient.createCapacityDelegationAuthSig({
+        dAppOwnerWallet: payer,
+        capacityTokenId,
+        delegateeAddresses: [payer.address],
+        uses: capacityCredits.delegationUses,
+        expiration,
+      });
+    logger.log("✅ Capacity Delegation Auth Sig created");
+
+    logger.log("🔄 Getting the Session Signatures...");
+    const sessionSigs = await litNodeClient.getSessionSigs({
+      chain: "ethereum",
+      capabilityAuthSigs: [capacityDelegationAuthSig],
+      expiration,
+      resourceAbilityRequests: [
+        {
+          resource: new LitAccessControlConditionResource("*"),
+          ability: LIT_ABILITY.AccessControlConditionDecryption,
+        },
+        ...litActionIpfsCids.map((litActionIpfsCid) => ({
+          resource: new LitActionResource(litActionIpfsCid),
+          ability: LIT_ABILITY.LitActionExecution,
+        })),
+      ],
+      authNeededCallback: async ({
+        uri,
+        expiration,
+        resourceAbilityRequests,
+      }) => {
+        const toSign = await createSiweMessage({
+          uri,
+          expiration,
+          resources: resourceAbilityRequests,
+          walletAddress: payer.address,
+          nonce: await litNodeClient.getLatestBlockhash(),
+          litNodeClient,
+        });
+
+        logger.log(toSign);
+        return await generateAuthSig({
+          signer: payer,
+          toSign,
+        });
+      },
+    });
+    logger.log("✅ Generated the Session Signatures");
+
+    return {
+      sessionSigs,
+      expiresAt,
+      usesLeft: parseInt(capacityCredits.delegationUses, 10),
+    };
+  }
+}
@@ -0,0 +1,338 @@
+import type { AccessControlConditions } from "@lit-protocol/types";
+
+import type { CredentialPolicy } from "./verification/types";
+
+export const ENCRYPTED_PAYLOAD_FORMAT_VERSION = 2 as const;
+
+/**
+ * The JWT placeholder that marked mock payloads in format version 1
+ */
+const MOCK_JWT = "mock.jwt.token";
+
+/**
+ * Describes the encrypted content, for display; never authenticated
+ */
+export interface EncryptedPayloadMetadata {
+  flowId?: string;
+  flowTitle?: string;
+  /** ISO 8601 */
+  encryptedAt?: string;
+  contentLength?: number;
+}
+
+/**
+ * The payload a rekeyed payload replaces
+ */
+export interface EncryptedPayloadLink {
+  dataToEncryptHash: string;
+  credentialRequirementsHash: string;
+  revision?: number;
+}
+
+/**
+ * A secret encrypted to credential requirements, as stored in files,
+ * `localStorage` or JSON responses
+ */
+export interface EncryptedPayload {
+  formatVersion: typeof ENCRYPTED_PAYLOAD_FORMAT_VERSION;
+  /**
+   * `mock` payloads hold the base64url encoded UTF-8 plaintext as their
+   * ciphertext, for demos and tests without the Lit network
+   */
+  encryption: "lit" | "mock";
+  ciphertext: string;
+  dataToEncryptHash: string;
+  accessControlConditions: AccessControlConditions;
+  accsResourceString: string;
+  credentialRequirements: CredentialPolicy;
+  /** Required for `lit` payloads */
+  credentialRequirementsHash?: string;
+  /** Required for `lit` payloads */
+  litActionIpfsCid?: string;
+  userSignedJWT?: string;
+  userAddress?: string;
+  /** CAIP-2 chain of the user's account, `eip155:1` if absent */
+  userChain?: string;
+  /** Incremented by each rekey, 1 if absent */
+  revision?: number;
+  /** Set by a rekey */
+  previous?: EncryptedPayloadLink;
+  metadata?: EncryptedPayloadMetadata;
+}
+
+/**
+ * Payloads before `formatVersion`: mock payloads were marked with
+ * `metadata.mock` or the placeholder `userSignedJWT` "mock.jwt.token"
+ */
+export interface EncryptedPayloadV1 {
+  ciphertext: string;
+  dataToEncryptHash: string;
+  accessControlConditions: AccessControlConditions;
+  accsResourceString: string;
+  credentialRequirements: CredentialPolicy;
+  credentialRequirementsHash?: string;
+  litActionIpfsCid?: string;
+  userSignedJWT?: string;
+  userAddress?: string;
+  userChain?: string;
+  metadata?: EncryptedPayloadMetadata & { mock?: boolean };
+}
+
+/**
+ * The subset of JSON Schema (draft-04) `validateEncryptedPayload` enforces.
+ * Other keywords are not supported.
+ */
+export interface JSONSchema {
+  $schema?: string;
+  title?: string;
+  type?: "object" | "array" | "string" | "integer" | "number" | "boolean";
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, JSONSchema>;
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+  anyOf?: JSONSchema[];
+}
+
+const nonEmptyString: JSONSchema = { type: "string", minLength: 1 };
+
+export const ENCRYPTED_PAYLOAD_SCHEMA: JSONSchema = {
+  $schema: "http://json-schema.org/draft-04/schema#",
+  title: "EncryptedPayload",
+  type: "object",
+  required: [
+    "formatVersion",
+    "encryption",
+    "ciphertext",
+    "dataToEncryptHash",
+    "accessControlConditions",
+    "accsResourceString",
+    "credentialRequirements",
+  ],
+  properties: {
+    formatVersion: { enum: [ENCRYPTED_PAYLOAD_FORMAT_VERSION] },
+    encryption: { enum: ["lit", "mock"] },
+    ciphertext: nonEmptyString,
+    dataToEncryptHash: nonEmptyString,
+    accessControlConditions: { type: "array", minItems: 1, items: { type: "object" } },
+    accsResourceString: { type: "string" },
+    credentialRequirements: { type: "object" },
+    credentialRequirementsHash: nonEmptyString,
+    litActionIpfsCid: nonEmptyString,
+    userSignedJWT: nonEmptyString,
+    userAddress: nonEmptyString,
+    userChain: { type: "string", pattern: "^[-a-z0-9]{3,8}:[-_a-zA-Z0-9]{1,32}$" },
+    revision: { type: "integer", minimum: 1 },
+    previous: {
+      type: "object",
+      required: ["dataToEncryptHash", "credentialRequirementsHash"],
+      properties: {
+        dataToEncryptHash: nonEmptyString,
+        credentialRequirementsHash: nonEmptyString,
+        revision: { type: "integer", minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+    metadata: {
+      type: "object",
+      properties: {
+        flowId: { type: "string" },
+        flowTitle: { type: "string" },
+        encryptedAt: { type: "string" },
+        contentLength: { type: "integer", minimum: 0 },
+      },
+    },
+  },
+  additionalProperties: false,
+  // Only a Lit payload bound to its requirements and action can be decrypted
+  anyOf: [
+    { properties: { encryption: { enum: ["mock"] } } },
+    { required: ["credentialRequirementsHash", "litActionIpfsCid"] },
+  ],
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const hasType = (value: unknown, type: NonNullable<JSONSchema["type"]>): boolean => {
+  switch (type) {
+    case "object":
+      return isObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+/**
+ * Where `value` breaks `schema`, as messages prefixed with the JSON pointer
+ * of the offending value. When no alternative of an `anyOf` matches, the
+ * last alternative's errors are reported.
+ *
+ * A structural check of the keywords in `JSONSchema`, not a general JSON
+ * Schema validator: it checks a payload has the fields and types a client
+ * needs before decrypting it. What the fields hold, such as the access
+ * control conditions or the credential policy, is checked where they are
+ * used.
+ */
+const schemaErrors = (schema: JSONSchema, value: unknown, pointer: string): string[] => {
+  const at = pointer || "/";
+  if (schema.type && !hasType(value, schema.type)) {
+    return [`${at} must be ${/^[aeiou]/.test(schema.type) ? "an" : "a"} ${schema.type}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${at} must be one of ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(", ")}`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${at} must not be empty`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${at} must match ${schema.pattern}`);
+    }
+  }
+  if (typeof value === "number" && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${at} must be at least ${schema.minimum}`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at} must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...schemaErrors(schema.items!, item, `${pointer}/${index}`)));
+    }
+  }
+  if (isObject(value)) {
+    for (const property of schema.required || []) {
+      if (value[property] === undefined) {
+        errors.push(`${at} must have ${property}`);
+      }
+    }
+    for (const [property, propertyValue] of Object.entries(value)) {
+      // Absent once encoded as JSON
+      if (propertyValue === undefined) continue;
+      const propertySchema = schema.properties?.[property];
+      if (propertySchema) {
+        errors.push(...schemaErrors(propertySchema, propertyValue, `${pointer}/${property}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${at} must not have ${property}`);
+      }
+    }
+  }
+  if (schema.anyOf && errors.length === 0) {
+    const alternatives = schema.anyOf.map((alternative) => schemaErrors(alternative, value, pointer));
+    if (alternatives.every((alternativeErrors) => alternativeErrors.length > 0)) {
+      errors.push(...alternatives[alternatives.length - 1]);
+    }
+  }
+  return errors;
+};
+
+/**
+ * Check the structure of `value` against `ENCRYPTED_PAYLOAD_SCHEMA`
+ */
+export function validateEncryptedPayload(value: unknown): asserts value is EncryptedPayload {
+  const errors = schemaErrors(ENCRYPTED_PAYLOAD_SCHEMA, value, "");
+  if (errors.length > 0) {
+    throw new Error(`Invalid encrypted payload: ${errors.join("; ")}`);
+  }
+}
+
+/**
+ * Add `formatVersion`, and turn the `metadata.mock` convention into
+ * `encryption: "mock"`. Lit payloads written before they were bound to
+ * their requirements and Lit Action cannot be migrated.
+ */
+export function migrateEncryptedPayloadV1(payload: EncryptedPayloadV1): EncryptedPayload {
+  const { metadata, userSignedJWT, ...fields } = payload;
+  const mock = metadata?.mock === true || userSignedJWT === MOCK_JWT;
+  if (!mock && (!fields.credentialRequirementsHash || !fields.litActionIpfsCid)) {
+    throw new Error("Version 1 Lit payloads are not bound to their requirements and must be re-encrypted");
+  }
+
+  const migrated: EncryptedPayload = {
+    formatVersion: ENCRYPTED_PAYLOAD_FORMAT_VERSION,
+    encryption: mock ? "mock" : "lit",
+    ...fields,
+  };
+  if (userSignedJWT !== undefined && userSignedJWT !== MOCK_JWT) {
+    migrated.userSignedJWT = userSignedJWT;
+  }
+  if (metadata) {
+    const { mock: _mock, ...rest } = metadata;
+    migrated.metadata = rest;
+  }
+  return migrated;
+}
+
+/**
+ * Payloads by the format version they were written in
+ */
+interface EncryptedPayloadVersions {
+  1: EncryptedPayloadV1;
+  2: EncryptedPayload;
+}
+
+type PreviousFormatVersion = Exclude<keyof EncryptedPayloadVersions, typeof ENCRYPTED_PAYLOAD_FORMAT_VERSION>;
+
+/**
+ * Migrations to the next format version, by the version they migrate from.
+ * Every version after 1 carries its `formatVersion`.
+ */
+const MIGRATIONS: {
+  [V in PreviousFormatVersion]: (
+    payload: EncryptedPayloadVersions[V],
+  ) => EncryptedPayloadVersions[Exclude<keyof EncryptedPayloadVersions, 1>];
+} = {
+  1: migrateEncryptedPayloadV1,
+};
+
+const isPreviousFormatVersion = (version: unknown): version is PreviousFormatVersion =>
+  typeof version === "number" && Object.prototype.hasOwnProperty.call(MIGRATIONS, version);
+
+/**
+ * Bring a decoded payload of any known format version to the current one,
+ * and validate it. Payloads without `formatVersion` are version 1.
+ */
+export function migrateEncryptedPayload(value: unknown): EncryptedPayload {
+  if (!isObject(value)) {
+    throw new Error("Invalid encrypted payload: / must be an object");
+  }
+  let payload: { formatVersion?: unknown } = value;
+  let version: unknown = payload.formatVersion ?? 1;
+  while (version !== ENCRYPTED_PAYLOAD_FORMAT_VERSION) {
+    if (!isPreviousFormatVersion(version)) {
+      throw new Error(`Unsupported encrypted payload format version: ${version}`);
+    }
+    // Only the fully migrated payload is validated, below
+    payload = MIGRATIONS[version](payload as EncryptedPayloadVersions[typeof version]);
+    version = payload.formatVersion;
+  }
+  validateEncryptedPayload(payload);
+  return payload;
+}
+
+/**
+ * Validate `payload` and encode it as JSON
+ */
+export function serializeEncryptedPayload(payload: EncryptedPayload, space?: number): string {
+  validateEncryptedPayload(payload);
+  return JSON.stringify(payload, null, space);
+}
+
+/**
+ * Decode a payload serialized in any known format version, migrated to the
+ * current one
+ */
+export function parseEncryptedPayload(json: string): EncryptedPayload {
+  return migrateEncryptedPayload(JSON.parse(json));
+}
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+
+import { ReplayStore } from './verification/replay';
+
+/**
+ * Keep used nonces in a JSON file mapping each key to its expiry, so they
+ * survive restarts. Each use is read and written synchronously; processes
+ * sharing the file are not coordinated.
+ */
+export function createFileReplayStore(
+  filePath: string,
+  now: () => number = () => Math.floor(Date.now() / 1000),
+): ReplayStore {
+  const read = (): Record<string, number> => {
+    if (!fs.existsSync(filePath)) return {};
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  };
+
+  return {
+    async consume(key, expiresAt) {
+      const current = now();
+      const used: Record<string, number> = {};
+      for (const [usedKey, usedUntil] of Object.entries(read())) {
+        if (usedUntil >= current) used[usedKey] = usedUntil;
+      }
+      if (key in used) return false;
+
+      used[key] = expiresAt;
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(used, null, 2));
+      return true;
+    },
+  };
+}
+
+/**
+ * Serve `store` to `createHttpReplayStore` from any server that handles
+ * `Request`s (Node, Bun, Deno, workers): `POST { key, expiresAt }` answers
+ * 201 when the key is first used and 409 after.
+ */
+export function createReplayServiceHandler(store: ReplayStore): (request: Request) => Promise<Response> {
+  return async (request) => {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+    let body: { key?: unknown; expiresAt?: unknown };
+    try {
+      body = ((await request.json()) || {}) as typeof body;
+    } catch {
+      body = {};
+    }
+    if (typeof body.key !== 'string' || body.key === '' || typeof body.expiresAt !== 'number') {
+      return new Response('Expected { key, expiresAt }', { status: 400 });
+    }
+    return new Response(null, { status: (await store.consume(body.key, body.expiresAt)) ? 201 : 409 });
+  };
+}
@@ -0,0 +1,3 @@
+export * from "./mockLitNodeClient";
+export * from "./testIssuer";
+export * from "./localEVM";
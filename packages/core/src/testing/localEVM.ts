@@ -0,0 +1,129 @@
+import * as ethers from "ethers";
+
+import {
+  ERC1271_MAGIC_VALUE,
+  ERC6492_UNIVERSAL_VALIDATOR_BYTECODE,
+  EthereumProvider,
+  decodeERC6492Signature,
+  isERC6492Signature,
+} from "../verification/smartAccount";
+
+/**
+ * A smart account's signature check, standing in for its `isValidSignature`
+ */
+export interface LocalSmartAccount {
+  isValidSignature(hash: string, signature: string): boolean;
+}
+
+/**
+ * A smart account that accepts signatures by its owner key over the hash
+ */
+export const ownerSmartAccount = (owner: string): LocalSmartAccount => ({
+  isValidSignature(hash, signature) {
+    try {
+      return ethers.utils.recoverAddress(hash, signature).toLowerCase() === owner.toLowerCase();
+    } catch {
+      return false;
+    }
+  },
+});
+
+/** Stand-in runtime code for deployed accounts */
+const ACCOUNT_CODE = "0x600160005260206000f3";
+
+const erc1271Interface = new ethers.utils.Interface([
+  "function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)",
+]);
+
+/**
+ * In-process stand-in for an EVM chain's JSON-RPC, enough to check smart
+ * account signatures offline. Accounts and factories are JavaScript rather
+ * than bytecode: `eth_call` answers ERC-1271 `isValidSignature` calls to
+ * deployed accounts, and runs the ERC-6492 universal validator by simulating
+ * the factory deployment without keeping it.
+ */
+export class LocalEVM implements EthereumProvider {
+  private readonly accounts = new Map<string, LocalSmartAccount>();
+  private readonly factories = new Map<string, (calldata: string) => { address: string; account: LocalSmartAccount }>();
+
+  constructor(
+    readonly chainId: number = 1,
+    readonly url: string = `http://evm.local/${chainId}`,
+  ) {}
+
+  /** Deploy a smart account at `address` */
+  deploy(address: string, account: LocalSmartAccount): void {
+    this.accounts.set(address.toLowerCase(), account);
+  }
+
+  /** Register a factory that deploys an account for the given calldata */
+  registerFactory(factory: string, deploy: (calldata: string) => { address: string; account: LocalSmartAccount }): void {
+    this.factories.set(factory.toLowerCase(), deploy);
+  }
+
+  async request({ method, params = [] }: { method: string; params?: unknown[] }): Promise<unknown> {
+    switch (method) {
+      case "eth_chainId":
+        return ethers.utils.hexValue(this.chainId);
+      case "eth_getCode":
+        return this.accounts.has(String(params[0]).toLowerCase()) ? ACCOUNT_CODE : "0x";
+      case "eth_call":
+        return this.call(params[0] as { to?: string; data: string });
+      default:
+        throw new Error(`LocalEVM: unsupported method ${method}`);
+    }
+  }
+
+  /**
+   * Serve JSON-RPC over HTTP at `url`, for code that only has `fetch`
+   */
+  fetch = async (url: string, init?: { body?: unknown }): Promise<Response> => {
+    if (url !== this.url) {
+      return new Response("Not Found", { status: 404 });
+    }
+    const { id, method, params } = JSON.parse(String(init?.body));
+    try {
+      const result = await this.request({ method, params });
+      return Response.json({ jsonrpc: "2.0", id, result });
+    } catch (error) {
+      return Response.json({ jsonrpc: "2.0", id, error: { code: 3, message: (error as Error).message } });
+    }
+  };
+
+  private call({ to, data }: { to?: string; data: string }): string {
+    if (to === undefined) {
+      if (!data.startsWith(ERC6492_UNIVERSAL_VALIDATOR_BYTECODE)) {
+        throw new Error("LocalEVM: only the ERC-6492 validator can be run without a target");
+      }
+      const [signer, hash, signature] = ethers.utils.defaultAbiCoder.decode(
+        ["address", "bytes32", "bytes"],
+        "0x" + data.slice(ERC6492_UNIVERSAL_VALIDATOR_BYTECODE.length),
+      );
+      return this.universalValidator(signer, hash, signature) ? "0x01" : "0x00";
+    }
+
+    const account = this.accounts.get(to.toLowerCase());
+    if (!account) return "0x";
+    const { hash, signature } = erc1271Interface.decodeFunctionData("isValidSignature", data);
+    if (!account.isValidSignature(hash, signature)) {
+      throw new Error("execution reverted");
+    }
+    return erc1271Interface.encodeFunctionResult("isValidSignature", [ERC1271_MAGIC_VALUE]);
+  }
+
+  private universalValidator(signer: string, hash: string, signature: string): boolean {
+    let account = this.accounts.get(signer.toLowerCase());
+    if (isERC6492Signature(signature)) {
+      const unwrapped = decodeERC6492Signature(signature);
+      if (!account) {
+        const deploy = this.factories.get(unwrapped.factory.toLowerCase());
+        const deployed = deploy?.(unwrapped.factoryCalldata);
+        if (!deployed || deployed.address.toLowerCase() !== signer.toLowerCase()) return false;
+        account = deployed.account;
+      }
+      return account.isValidSignature(hash, unwrapped.signature);
+    }
+    if (account) return account.isValidSignature(hash, signature);
+    return ownerSmartAccount(signer).isValidSignature(hash, signature);
+  }
+}
@@ -0,0 +1,476 @@
+import vm from "vm";
+import { webcrypto } from "crypto";
+import * as ethers from "ethers";
+import { LIT_ABILITY } from "@lit-protocol/constants";
+import { LitActionResource } from "@lit-protocol/auth-helpers";
+import type { LitNodeClient } from "@lit-protocol/lit-node-client";
+import type { LitContracts } from "@lit-protocol/contracts-sdk";
+import type {
+  AccessControlConditions,
+  ExecuteJsResponse,
+} from "@lit-protocol/types";
+
+import { computeLitActionIpfsCid } from "../ipfs";
+import { LitClientFactory } from "../litClients";
+import { createReplayServiceHandler } from "../replayStore";
+import { createMemoryReplayStore } from "../verification/replay";
+
+export interface MockLitNodeClientOptions {
+  /** Lit Action sources that can be executed by `ipfsId`, as if pinned */
+  pinnedActions?: string[];
+  /** Handles `fetch` calls made from inside Lit Actions (DID documents, the replay service) */
+  fetch?: (url: string, init?: RequestInit) => Promise<Response>;
+  /** RPC URLs by Lit chain name, served by `Lit.Actions.getRpcUrl` */
+  rpcUrls?: Record<string, string>;
+  /** Nodes that each run the action in `executeJs`, 1 by default. Their responses must agree. */
+  nodes?: number;
+}
+
+interface MockSessionSig {
+  sig: string;
+  derivedVia: string;
+  signedMessage: string;
+  address: string;
+}
+
+const EXECUTION_TIMEOUT_MS = 30_000;
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+
+const sha256Hex = async (data: Uint8Array): Promise<string> =>
+  toHex(new Uint8Array(await webcrypto.subtle.digest("SHA-256", data)));
+
+/**
+ * Responds to `fetch` calls with fixed bodies keyed by URL. Strings are
+ * served as VC-JWTs (e.g. status list credentials), functions handle the
+ * request themselves (e.g. a replay service), anything else is JSON.
+ */
+export const createMockFetch =
+  (routes: Record<string, unknown>) =>
+  async (url: string, init?: RequestInit): Promise<Response> => {
+    if (!(url in routes)) {
+      return new Response("Not Found", { status: 404 });
+    }
+    const body = routes[url];
+    if (typeof body === "function") {
+      return (body as (request: Request) => Promise<Response>)(new Request(url, init));
+    }
+    if (typeof body === "string") {
+      return new Response(body, {
+        status: 200,
+        headers: { "content-type": "application/vc+jwt" },
+      });
+    }
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { "content-type": "application/json" },
+    });
+  };
+
+/**
+ * The replay service test user JWTs name, served by `mockReplayServiceRoute`
+ */
+export const MOCK_REPLAY_SERVICE_URL = "https://replay.test/nonces";
+
+/**
+ * A `createMockFetch` route serving a fresh in-memory replay service at
+ * `MOCK_REPLAY_SERVICE_URL`. Share one between the test's `fetch` and the
+ * mock Lit nodes' so every execution sees the same used nonces.
+ */
+export const mockReplayServiceRoute = (): Record<string, unknown> => ({
+  [MOCK_REPLAY_SERVICE_URL]: createReplayServiceHandler(createMemoryReplayStore()),
+});
+
+/**
+ * In-process stand-in for `LitNodeClient`.
+ *
+ * Encryption is done locally with AES-256-GCM under a per-instance network
+ * key (no threshold shares). The ciphertext is bound to its access control
+ * conditions, and `executeJs` runs the Lit Action in a sandboxed VM per node
+ * with `Lit.Actions.decryptAndCombine`/`encrypt`/`runOnce`/`setResponse`
+ * stubs that enforce `:currentActionIpfsId` conditions. Like on the Lit
+ * network, nodes share only `runOnce` results within an execution, and
+ * nothing is shared between executions except what the action fetches.
+ */
+export class MockLitNodeClient {
+  ready = false;
+
+  private readonly networkKey: Promise<CryptoKey>;
+  private readonly pinnedActions = new Map<string, string>();
+  private readonly pendingPins: Promise<string>[];
+  private readonly fetchHandler: (url: string, init?: RequestInit) => Promise<Response>;
+  private readonly rpcUrls: Record<string, string>;
+  private readonly nodes: number;
+
+  constructor(options: MockLitNodeClientOptions = {}) {
+    this.networkKey = webcrypto.subtle.generateKey(
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    ) as Promise<CryptoKey>;
+    this.pendingPins = (options.pinnedActions || []).map((code) =>
+      this.pinLitAction(code),
+    );
+    this.fetchHandler =
+      options.fetch ||
+      (async (url: string) => {
+        throw new Error(`MockLitNodeClient: no fetch handler for ${url}`);
+      });
+    this.rpcUrls = options.rpcUrls || {};
+    this.nodes = options.nodes || 1;
+  }
+
+  async connect(): Promise<void> {
+    await Promise.all(this.pendingPins);
+    this.ready = true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.ready = false;
+  }
+
+  /**
+   * Make Lit Action code available by its IPFS CID
+   */
+  async pinLitAction(code: string): Promise<string> {
+    const ipfsId = await computeLitActionIpfsCid(code);
+    this.pinnedActions.set(ipfsId, code);
+    return ipfsId;
+  }
+
+  async getLatestBlockhash(): Promise<string> {
+    return ethers.constants.HashZero;
+  }
+
+  async createCapacityDelegationAuthSig(params: {
+    dAppOwnerWallet: ethers.Wallet;
+    capacityTokenId?: string;
+    delegateeAddresses?: string[];
+    uses?: string;
+  }) {
+    return {
+      capacityDelegationAuthSig: {
+        sig: "0x",
+        derivedVia: "mock.capacity-delegation",
+        signedMessage: JSON.stringify({
+          capacityTokenId: params.capacityTokenId,
+          delegateeAddresses: params.delegateeAddresses,
+          uses: params.uses,
+        }),
+        address: params.dAppOwnerWallet.address,
+      },
+    };
+  }
+
+  async getSessionSigs(params: {
+    expiration?: string;
+    resourceAbilityRequests: {
+      resource: { getResourceKey(): string };
+      ability: string;
+    }[];
+  }): Promise<Record<string, MockSessionSig>> {
+    return {
+      "mock-node": {
+        sig: "0x",
+        derivedVia: "mock.session",
+        signedMessage: JSON.stringify({
+          expiration: params.expiration,
+          resourceAbilityRequests: params.resourceAbilityRequests.map(
+            (request) => ({
+              resource: request.resource.getResourceKey(),
+              ability: request.ability,
+            }),
+          ),
+        }),
+        address: "",
+      },
+    };
+  }
+
+  async encrypt(params: {
+    accessControlConditions: AccessControlConditions;
+    dataToEncrypt: Uint8Array;
+  }): Promise<{ ciphertext: string; dataToEncryptHash: string }> {
+    const dataToEncryptHash = await sha256Hex(params.dataToEncrypt);
+    const iv = webcrypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await webcrypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: this.identity(
+          params.accessControlConditions,
+          dataToEncryptHash,
+        ),
+      },
+      await this.networkKey,
+      params.dataToEncrypt,
+    );
+
+    const combined = new Uint8Array(iv.length + encrypted.byteLength);
+    combined.set(iv, 0);
+    combined.set(new Uint8Array(encrypted), iv.length);
+    return {
+      ciphertext: Buffer.from(combined).toString("base64"),
+      dataToEncryptHash,
+    };
+  }
+
+  async executeJs(params: {
+    sessionSigs: Record<string, MockSessionSig>;
+    code?: string;
+    ipfsId?: string;
+    jsParams?: Record<string, unknown>;
+  }): Promise<ExecuteJsResponse> {
+    const ipfsId = params.ipfsId || (await computeLitActionIpfsCid(params.code || ""));
+    const code = params.code || this.pinnedActions.get(ipfsId);
+    if (!code) {
+      throw new Error(`MockLitNodeClient: no Lit Action pinned at ${ipfsId}`);
+    }
+    this.assertSessionAllowsAction(params.sessionSigs, ipfsId);
+
+    // `runOnce` tasks by name: the first node to reach one runs it, the
+    // others wait for its result
+    const runOnceResults = new Map<string, Promise<string>>();
+    const results = await Promise.all(
+      Array.from({ length: this.nodes }, () =>
+        this.runOnNode(code, ipfsId, params.jsParams, runOnceResults),
+      ),
+    );
+    const [{ response, logs }] = results;
+    if (results.some((result) => JSON.stringify(result.response) !== JSON.stringify(response))) {
+      throw new Error(`MockLitNodeClient: nodes returned different responses for Lit Action ${ipfsId}`);
+    }
+
+    return {
+      success: true,
+      signatures: {},
+      response: response as string | object,
+      logs,
+      claims: {},
+    };
+  }
+
+  private async runOnNode(
+    code: string,
+    ipfsId: string,
+    jsParams: Record<string, unknown> | undefined,
+    runOnceResults: Map<string, Promise<string>>,
+  ): Promise<{ response: unknown; logs: string }> {
+    const logs: string[] = [];
+    const log = (...args: unknown[]) =>
+      logs.push(args.map((arg) => (typeof arg === "string" ? arg : JSON.stringify(arg))).join(" "));
+    let response: unknown = "";
+    let responseSet!: () => void;
+    const responded = new Promise<void>((resolve) => {
+      responseSet = resolve;
+    });
+
+    const context = vm.createContext({
+      ...jsParams,
+      Lit: {
+        Actions: {
+          decryptAndCombine: (decryptParams: {
+            accessControlConditions: AccessControlConditions;
+            ciphertext: string;
+            dataToEncryptHash: string;
+          }) => this.decryptAndCombine(decryptParams, ipfsId),
+          encrypt: ({
+            accessControlConditions,
+            to_encrypt,
+          }: {
+            accessControlConditions: AccessControlConditions;
+            to_encrypt: Uint8Array;
+          }) => this.encrypt({ accessControlConditions, dataToEncrypt: to_encrypt }),
+          runOnce: ({ name = "" }: { name?: string }, fn: () => Promise<string>) => {
+            if (!runOnceResults.has(name)) {
+              runOnceResults.set(name, fn());
+            }
+            return runOnceResults.get(name);
+          },
+          setResponse: ({ response: value }: { response: unknown }) => {
+            response = value;
+            responseSet();
+          },
+          getRpcUrl: async ({ chain }: { chain: string }) => {
+            if (!this.rpcUrls[chain]) {
+              throw new Error(`MockLitNodeClient: no RPC URL for ${chain}`);
+            }
+            return this.rpcUrls[chain];
+          },
+        },
+      },
+      ethers,
+      crypto: webcrypto,
+      fetch: (url: string, init?: RequestInit) => this.fetchHandler(url, init),
+      atob,
+      btoa,
+      TextEncoder,
+      TextDecoder,
+      DecompressionStream,
+      console: { log, info: log, warn: log, error: log },
+    });
+
+    // Like the Lit runtime, keep waiting on the action's async work after the
+    // script body returns; bundled actions do not hand back a promise
+    const completion = new vm.Script(code, { filename: `${ipfsId}.js` }).runInContext(
+      context,
+      { timeout: EXECUTION_TIMEOUT_MS },
+    );
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        responded,
+        ...(typeof completion?.then === "function" ? [completion] : []),
+        new Promise((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Lit Action ${ipfsId} did not set a response`)),
+            EXECUTION_TIMEOUT_MS,
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (typeof response === "string") {
+      try {
+        response = JSON.parse(response);
+      } catch {
+        // Plain string responses are returned as-is
+      }
+    }
+
+    return { response, logs: logs.join("\n") };
+  }
+
+  private identity(
+    accessControlConditions: AccessControlConditions,
+    dataToEncryptHash: string,
+  ): Uint8Array {
+    return new TextEncoder().encode(
+      `${JSON.stringify(accessControlConditions)}/${dataToEncryptHash}`,
+    );
+  }
+
+  private assertSessionAllowsAction(
+    sessionSigs: Record<string, MockSessionSig>,
+    ipfsId: string,
+  ): void {
+    const allowed = new Set([
+      new LitActionResource(ipfsId).getResourceKey(),
+      new LitActionResource("*").getResourceKey(),
+    ]);
+    const permitted = Object.values(sessionSigs || {}).some((sessionSig) => {
+      const { resourceAbilityRequests = [] } = JSON.parse(sessionSig.signedMessage);
+      return resourceAbilityRequests.some(
+        (request: { resource: string; ability: string }) =>
+          request.ability === LIT_ABILITY.LitActionExecution &&
+          allowed.has(request.resource),
+      );
+    });
+    if (!permitted) {
+      throw new Error(`Session signatures do not permit executing Lit Action ${ipfsId}`);
+    }
+  }
+
+  private evaluateConditions(
+    accessControlConditions: AccessControlConditions,
+    currentActionIpfsId: string,
+  ): boolean {
+    let result: boolean | null = null;
+    let operator = "and";
+
+    for (const entry of accessControlConditions as any[]) {
+      if (entry.operator) {
+        operator = entry.operator;
+        continue;
+      }
+      if (entry.parameters?.[0] !== ":currentActionIpfsId") {
+        throw new Error(
+          `MockLitNodeClient only evaluates :currentActionIpfsId conditions, got ${JSON.stringify(entry)}`,
+        );
+      }
+
+      const { comparator, value } = entry.returnValueTest;
+      const passes =
+        comparator === "="
+          ? currentActionIpfsId === value
+          : comparator === ">=" && value === "0";
+
+      result = result === null ? passes : operator === "or" ? result || passes : result && passes;
+    }
+
+    return result === true;
+  }
+
+  private async decryptAndCombine(
+    params: {
+      accessControlConditions: AccessControlConditions;
+      ciphertext: string;
+      dataToEncryptHash: string;
+    },
+    currentActionIpfsId: string,
+  ): Promise<string> {
+    if (!this.evaluateConditions(params.accessControlConditions, currentActionIpfsId)) {
+      throw new Error("Access control conditions check failed");
+    }
+
+    const combined = new Uint8Array(Buffer.from(params.ciphertext, "base64"));
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await webcrypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: combined.slice(0, 12),
+          additionalData: this.identity(
+            params.accessControlConditions,
+            params.dataToEncryptHash,
+          ),
+        },
+        await this.networkKey,
+        combined.slice(12),
+      );
+    } catch {
+      throw new Error("Failed to decrypt: ciphertext does not match its access control conditions");
+    }
+
+    return new TextDecoder().decode(plaintext);
+  }
+}
+
+/**
+ * In-process stand-in for `LitContracts`
+ */
+export class MockLitContracts {
+  connected = false;
+  readonly mintedCapacityTokenIds: string[] = [];
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async mintCapacityCreditsNFT(params: {
+    requestsPerKilosecond?: number;
+    daysUntilUTCMidnightExpiration: number;
+  }) {
+    const capacityTokenIdStr = String(this.mintedCapacityTokenIds.length + 1);
+    this.mintedCapacityTokenIds.push(capacityTokenIdStr);
+    return {
+      rliTxHash: ethers.constants.HashZero,
+      capacityTokenId: ethers.BigNumber.from(capacityTokenIdStr),
+      capacityTokenIdStr,
+    };
+  }
+}
+
+/**
+ * A `LitClientFactory` that hands out the given mocks instead of network clients
+ */
+export const createMockLitClientFactory = (
+  litNodeClient: MockLitNodeClient,
+  litContracts: MockLitContracts = new MockLitContracts(),
+): LitClientFactory => ({
+  createLitNodeClient: () => litNodeClient as unknown as LitNodeClient,
+  createLitContracts: () => litContracts as unknown as LitContracts,
+});
@@ -0,0 +1,178 @@
+import { generateKeyPairSync, sign, randomUUID, KeyObject, KeyPairKeyObjectResult } from "crypto";
+import { gzipSync } from "zlib";
+
+import { createDIDKey } from "../verification/did/key";
+import { didWebToUrl } from "../verification/did/web";
+import { CredentialStatusEntry, PublicKeyJwk } from "../verification/types";
+
+export interface TestIssuerOptions {
+  keyPair?: KeyPairKeyObjectResult;
+  keyId?: string;
+}
+
+export interface TestCredentialOptions {
+  subject: string;
+  credentialType?: string;
+  credentialSubject?: Record<string, unknown>;
+  evidence?: Record<string, unknown>;
+  issuanceDate?: string;
+  nbf?: number;
+  exp?: number;
+  validFrom?: string;
+  validUntil?: string;
+  expirationDate?: string;
+  credentialStatus?: CredentialStatusEntry | CredentialStatusEntry[];
+}
+
+export interface TestStatusListOptions {
+  /** URL the status list credential is served from */
+  id: string;
+  statusPurpose?: string;
+  /** Indexes whose bit is set (revoked or suspended) */
+  setIndexes?: number[];
+  /** Length of the list in bits, 131072 (16KB) by default */
+  length?: number;
+  /** `StatusList2021` lists are encoded without the multibase prefix */
+  format?: "BitstringStatusList" | "StatusList2021";
+}
+
+const base64url = (data: string | Buffer): string =>
+  Buffer.from(data).toString("base64url");
+
+/**
+ * Builds the `did:web` URL a resolver fetches the DID document from
+ */
+export const didWebDocumentUrl = (did: string): string => didWebToUrl(did);
+
+/**
+ * An Ed25519 issuer (`did:web` unless created with `withDIDKey`) that signs
+ * credential JWTs locally
+ */
+export class TestIssuer {
+  readonly did: string;
+  readonly keyId: string;
+  readonly publicKeyJwk: PublicKeyJwk;
+  private readonly privateKey: KeyObject;
+
+  constructor(did: string, options: TestIssuerOptions = {}) {
+    const { publicKey, privateKey } = options.keyPair || generateKeyPairSync("ed25519");
+    this.did = did;
+    this.keyId = options.keyId || `${did}#controller`;
+    this.privateKey = privateKey;
+    this.publicKeyJwk = publicKey.export({ format: "jwk" }) as PublicKeyJwk;
+  }
+
+  /**
+   * An issuer identified by the `did:key` of a fresh Ed25519 key
+   */
+  static withDIDKey(): TestIssuer {
+    const keyPair = generateKeyPairSync("ed25519");
+    const did = createDIDKey(keyPair.publicKey.export({ format: "jwk" }) as PublicKeyJwk);
+    return new TestIssuer(did, { keyPair, keyId: `${did}#${did.slice("did:key:".length)}` });
+  }
+
+  get didDocument() {
+    return {
+      "@context": ["https://www.w3.org/ns/did/v1"],
+      id: this.did,
+      verificationMethod: [
+        {
+          id: this.keyId,
+          type: "Ed25519VerificationKey2018",
+          controller: this.did,
+          publicKeyJwk: this.publicKeyJwk,
+        },
+      ],
+      assertionMethod: [this.keyId],
+    };
+  }
+
+  /**
+   * Sign a JWT from an arbitrary payload with the issuer key
+   */
+  signJWT(payload: Record<string, unknown>, header: Record<string, unknown> = {}): string {
+    const signingInput = `${base64url(JSON.stringify({ alg: "EdDSA", kid: this.keyId, ...header }))}.${base64url(JSON.stringify(payload))}`;
+    const signature = sign(null, Buffer.from(signingInput), this.privateKey);
+    return `${signingInput}.${base64url(signature)}`;
+  }
+
+  /**
+   * Issue a VC-JWT in the shape produced by the GitHub verification issuer
+   */
+  issueCredentialJWT(options: TestCredentialOptions): string {
+    const id = `urn:uuid:${randomUUID()}`;
+    const issuanceDate = options.issuanceDate || new Date().toISOString();
+    return this.signJWT({
+      iss: this.did,
+      nbf: options.nbf ?? Math.floor(new Date(issuanceDate).getTime() / 1000),
+      ...(options.exp !== undefined && { exp: options.exp }),
+      jti: id,
+      sub: options.subject,
+      vc: {
+        "@context": ["https://www.w3.org/2018/credentials/v1"],
+        id,
+        type: ["VerifiableCredential", options.credentialType || "GitHubVerification"],
+        credentialSubject: { id: options.subject, ...options.credentialSubject },
+        issuer: this.did,
+        issuanceDate,
+        ...(options.validFrom && { validFrom: options.validFrom }),
+        ...(options.validUntil && { validUntil: options.validUntil }),
+        ...(options.expirationDate && { expirationDate: options.expirationDate }),
+        ...(options.evidence && { evidence: options.evidence }),
+        ...(options.credentialStatus && { credentialStatus: options.credentialStatus }),
+      },
+    });
+  }
+
+  /**
+   * Issue a status list credential (as a VC-JWT) with the given bits set
+   */
+  issueStatusListCredential(options: TestStatusListOptions): string {
+    const format = options.format || "BitstringStatusList";
+    const bitstring = Buffer.alloc((options.length || 131072) / 8);
+    for (const index of options.setIndexes || []) {
+      bitstring[index >> 3] |= 0x80 >> (index % 8);
+    }
+    const encodedList = gzipSync(bitstring).toString("base64url");
+
+    return this.signJWT({
+      iss: this.did,
+      nbf: Math.floor(Date.now() / 1000),
+      vc: {
+        "@context": ["https://www.w3.org/ns/credentials/v2"],
+        id: options.id,
+        type: ["VerifiableCredential", `${format}Credential`],
+        issuer: this.did,
+        credentialSubject: {
+          id: `${options.id}#list`,
+          type: format,
+          statusPurpose: options.statusPurpose || "revocation",
+          encodedList: format === "BitstringStatusList" ? `u${encodedList}` : encodedList,
+        },
+      },
+    });
+  }
+
+  /**
+   * Issue a credential wrapped in the `data/credentials.json` record format
+   */
+  issueCredentialRecord(options: TestCredentialOptions) {
+    const jwt = this.issueCredentialJWT(options);
+    const { vc } = JSON.parse(Buffer.from(jwt.split(".")[1], "base64url").toString());
+    return {
+      id: `credential-${Date.now()}`,
+      subject: options.subject,
+      jwt,
+      issuedAt: vc.issuanceDate,
+      verified: true,
+      parsed: {
+        type: vc.type,
+        issuer: vc.issuer,
+        credentialSubject: vc.credentialSubject,
+        evidence: vc.evidence,
+        issuanceDate: vc.issuanceDate,
+        handle: vc.evidence?.handle,
+      },
+    };
+  }
+}
@@ -1,5 +1,8 @@
 import fs from 'fs';
 import path from 'path';
+import type { CredentialPolicy, CredentialRequirements } from './verification/types';
+import { credentialTypes, CredentialTypeRegistry } from './verification/credentialTypes';
+import { validateCredentialPolicy } from './verification/policy';
 
 export const getEnv = (name: string): string => {
   // Browser environment
@@ -37,41 +40,29 @@ export const validateTrustedIssuer = (issuer: string): boolean => {
   return trustedIssuers.includes(issuer);
 };
 
-export const validateGithubCredentialRequirements = (requirements: CredentialRequirements): void => {
-  // Check if issuer is trusted
-  if (!validateTrustedIssuer(requirements.issuer)) {
-    const trustedIssuers = getTrustedIssuers();
-    throw new Error(`Untrusted issuer: ${requirements.issuer}. Trusted issuers: ${trustedIssuers.join(', ')}`);
-  }
-
-  // Check if credential type is GitHub verification
-  if (requirements.credentialType !== "GitHubVerification") {
-    throw new Error(`Invalid credential type: ${requirements.credentialType}. Only GitHubVerification is supported.`);
-  }
-
-  // Validate that GitHub handle claims are present (if specified)
-  if (requirements.claims?.githubHandle !== undefined) {
-    const handles = Array.isArray(requirements.claims.githubHandle) 
-      ? requirements.claims.githubHandle 
-      : [requirements.claims.githubHandle];
-    
-    for (const handle of handles) {
-      if (!handle || typeof handle !== 'string' || handle.trim().length === 0) {
-        throw new Error(`Invalid GitHub handle: ${handle}. GitHub handles must be non-empty strings.`);
-      }
+export const validateCredentialRequirements = (
+  policy: CredentialPolicy,
+  registry: CredentialTypeRegistry = credentialTypes,
+  trustedIssuers?: string[],
+): void => {
+  validateCredentialPolicy(policy, (requirements: CredentialRequirements) => {
+    // Check if issuer is trusted, by `TRUSTED_ISSUERS` unless given
+    const trusted = trustedIssuers || getTrustedIssuers();
+    if (!trusted.includes(requirements.issuer)) {
+      throw new Error(`Untrusted issuer: ${requirements.issuer}. Trusted issuers: ${trusted.join(', ')}`);
     }
-  }
+
+    // Check the credential type, its issuers and claims
+    registry.validateRequirements(requirements);
+  });
 };
 
-export interface CredentialRequirements {
-  issuer: string;
-  credentialType: string;
-  claims?: {
-    githubHandle?: string | string[];
-    minIssuanceAge?: number;
-    requiredEvidence?: string[];
-  };
-}
+/**
+ * @deprecated Use `validateCredentialRequirements`, which accepts every registered credential type
+ */
+export const validateGithubCredentialRequirements = validateCredentialRequirements;
+
+export type { CredentialRequirements } from './verification/types';
 
 export interface ParsedCredential {
   jwt: string;
@@ -83,9 +74,10 @@ export interface ParsedCredential {
   handle?: string;
 }
 
-export const loadCredentials = (): ParsedCredential[] => {
+export const loadCredentials = (
+  credentialsPath: string = process.env['CREDENTIALS_PATH'] || path.join(process.cwd(), 'data', 'credentials.json'),
+): ParsedCredential[] => {
   try {
-    const credentialsPath = path.join(process.cwd(), 'data', 'credentials.json');
     const credentialsData = JSON.parse(fs.readFileSync(credentialsPath, 'utf8'));
     
     return credentialsData.data.map((cred: any) => ({
@@ -101,39 +93,3 @@ export const loadCredentials = (): ParsedCredential[] => {
     throw new Error(`Failed to load credentials: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 };
-
-export const findMatchingCredential = (
-  credentials: ParsedCredential[], 
-  requirements: CredentialRequirements,
-  userAddress: string
-): ParsedCredential | null => {
-  return credentials.find(cred => {
-    // Check issuer
-    if (cred.issuer !== requirements.issuer) return false;
-    
-    // Check credential type
-    if (!cred.credentialSubject || 
-        !cred.credentialSubject.id || 
-        !cred.credentialSubject.id.includes(userAddress.toLowerCase())) {
-      return false;
-    }
-    
-    // Check GitHub handle if specified
-    if (requirements.claims?.githubHandle) {
-      const requiredHandles = Array.isArray(requirements.claims.githubHandle) 
-        ? requirements.claims.githubHandle 
-        : [requirements.claims.githubHandle];
-      
-      if (!cred.handle || !requiredHandles.includes(cred.handle)) return false;
-    }
-    
-    // Check issuance age if specified
-    if (requirements.claims?.minIssuanceAge) {
-      const issuanceTime = new Date(cred.issuanceDate).getTime();
-      const minTime = Date.now() - (requirements.claims.minIssuanceAge * 1000);
-      if (issuanceTime < minTime) return false;
-    }
-    
-    return true;
-  }) || null;
-};
\ No newline at end of file
@@ -0,0 +1,80 @@
+import * as ethers from "ethers";
+import { base58btcDecode } from "./did/multibase";
+import { base58checkDecode, BITCOIN_P2PKH_VERSIONS, BITCOIN_P2SH_VERSIONS } from "./did/pkh";
+
+/**
+ * Verify a Solana wallet's Ed25519 signature of `message` (its UTF-8 bytes,
+ * as `signMessage` signs them). A Solana address is the base58 public key.
+ */
+export async function verifySolanaSignature(message: string, signature: Uint8Array, address: string): Promise<boolean> {
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      'raw',
+      new Uint8Array(base58btcDecode(address)),
+      { name: 'Ed25519' },
+      false,
+      ['verify'],
+    );
+    return await crypto.subtle.verify('Ed25519', publicKey, new Uint8Array(signature), new TextEncoder().encode(message));
+  } catch {
+    return false;
+  }
+}
+
+const varint = (n: number): Uint8Array => {
+  if (n < 0xfd) return new Uint8Array([n]);
+  if (n <= 0xffff) return new Uint8Array([0xfd, n & 0xff, n >> 8]);
+  return new Uint8Array([0xfe, n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24]);
+};
+
+/**
+ * The digest Bitcoin's `signmessage` signs: double SHA-256 of the
+ * length-prefixed magic and message
+ */
+export function bitcoinMessageHash(message: string): string {
+  const magic = ethers.utils.toUtf8Bytes('Bitcoin Signed Message:\n');
+  const body = ethers.utils.toUtf8Bytes(message);
+  const data = ethers.utils.concat([varint(magic.length), magic, varint(body.length), body]);
+  return ethers.utils.sha256(ethers.utils.sha256(data));
+}
+
+const hash160 = (data: ethers.utils.BytesLike): string => ethers.utils.ripemd160(ethers.utils.sha256(data));
+
+/**
+ * Verify a BIP-137 signed message: 65 bytes, a header byte then `r || s`.
+ * The header says which key recovers and how the address derives from it:
+ * 27-30 uncompressed P2PKH, 31-34 compressed P2PKH, 35-38 P2SH-P2WPKH.
+ * Native segwit (bech32) addresses are not supported.
+ */
+export function verifyBitcoinSignature(message: string, signature: Uint8Array, address: string): boolean {
+  const header = signature[0];
+  const decoded = base58checkDecode(address);
+  if (signature.length !== 65 || header < 27 || header > 38 || !decoded) return false;
+
+  let publicKey: string;
+  try {
+    publicKey = ethers.utils.recoverPublicKey(bitcoinMessageHash(message), {
+      r: ethers.utils.hexlify(signature.slice(1, 33)),
+      s: ethers.utils.hexlify(signature.slice(33, 65)),
+      recoveryParam: (header - 27) & 3,
+    });
+  } catch {
+    return false;
+  }
+
+  const compressedKey = ethers.utils.computePublicKey(publicKey, true);
+  let expected: string;
+  let versions: number[];
+  if (header < 31) {
+    expected = hash160(publicKey);
+    versions = BITCOIN_P2PKH_VERSIONS;
+  } else if (header < 35) {
+    expected = hash160(compressedKey);
+    versions = BITCOIN_P2PKH_VERSIONS;
+  } else {
+    // The P2SH script wraps a version 0 witness program of the key hash
+    expected = hash160(ethers.utils.concat(['0x0014', hash160(compressedKey)]));
+    versions = BITCOIN_P2SH_VERSIONS;
+  }
+  return versions.indexOf(decoded.version) !== -1 && ethers.utils.hexlify(decoded.payload) === expected;
+}
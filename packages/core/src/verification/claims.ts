@@ -0,0 +1,60 @@
+import { assertCredentialAge } from "./credentialAge";
+import { credentialTypes, CredentialTypeRegistry } from "./credentialTypes";
+import { chainAccepted, parseUserAccount, pkhSubjectMatchesUser } from "./did/pkh";
+import { assertClaimPredicates } from "./predicates";
+import { CredentialJWTPayload, CredentialRequirements } from "./types";
+
+/**
+ * Validate verified credential claims against the requirements and the
+ * account of the user asking for decryption: a `did:pkh` DID, or a bare EVM
+ * address on `eip155:1`
+ */
+export function validateCredentialClaims(
+  jwtPayload: CredentialJWTPayload,
+  requirements: CredentialRequirements,
+  userAddress: string,
+  registry: CredentialTypeRegistry = credentialTypes,
+): true {
+  const vc = jwtPayload.vc;
+  if (!vc) {
+    throw new Error('No verifiable credential found in JWT');
+  }
+
+  // Check credential type
+  const vcTypes = vc.type || [];
+  if (!vcTypes.includes(requirements.credentialType)) {
+    throw new Error(`Required credential type ${requirements.credentialType} not found`);
+  }
+
+  // Check issuer matches requirements
+  if (jwtPayload.iss !== requirements.issuer) {
+    throw new Error('Credential issuer does not match requirements');
+  }
+
+  // Check subject matches user address
+  const credentialSubject = vc.credentialSubject;
+  if (!credentialSubject || !credentialSubject.id) {
+    throw new Error('No credential subject found');
+  }
+
+  // The subject DID (did:pkh:<namespace>:<chain>:<address>) must name the user's account
+  if (!pkhSubjectMatchesUser(credentialSubject.id, userAddress)) {
+    throw new Error('Credential subject does not match user address');
+  }
+
+  // Check the user's account is on a chain the requirements accept
+  const { chain } = parseUserAccount(userAddress);
+  if (!chainAccepted(requirements.chains, chain)) {
+    throw new Error(`Account chain ${chain} is not accepted by the requirements`);
+  }
+
+  // Check the type's issuer allow-list and claims
+  if (!registry.allowsIssuer(requirements.credentialType, jwtPayload.iss)) {
+    throw new Error(`Issuer ${jwtPayload.iss} is not allowed to issue ${requirements.credentialType} credentials`);
+  }
+  registry.assertClaims(vc, requirements);
+  assertClaimPredicates(vc, requirements.predicates);
+  assertCredentialAge(jwtPayload, requirements);
+
+  return true;
+}
@@ -0,0 +1,144 @@
+import { credentialAgeSatisfied } from "./credentialAge";
+import { credentialTypes, CredentialTypeRegistry } from "./credentialTypes";
+import { chainAccepted, parseUserAccount, pkhSubjectMatchesUser } from "./did/pkh";
+import { decodeJWT } from "./encoding";
+import { claimPredicatesSatisfied } from "./predicates";
+import { verifyJWTWithEdDSA, VerifyCredentialJWTOptions } from "./eddsa";
+import { checkCredentialStatus } from "./statusList";
+import { assertCredentialValidity } from "./validity";
+import {
+  CredentialJWTHeader,
+  CredentialJWTPayload,
+  CredentialRequirements,
+} from "./types";
+
+/**
+ * A credential whose JWT signature was checked against the issuer's DID
+ * document. Every field is taken from the signed payload.
+ */
+export interface VerifiedCredential {
+  jwt: string;
+  issuer: string;
+  subject: string;
+  types: string[];
+  credentialSubject: { id: string; [claim: string]: unknown };
+  evidence?: { handle?: string; [claim: string]: unknown };
+  issuanceDate?: string;
+  handle?: string;
+  payload: CredentialJWTPayload;
+}
+
+/**
+ * Check that a subject DID (`did:pkh:<namespace>:<chain>:<address>`) names
+ * the user's account: a `did:pkh` DID, or a bare EVM address. EVM addresses
+ * ignore case (EIP-55 checksums); base58 addresses do not.
+ */
+export function credentialSubjectMatchesAddress(subject: string, address: string): boolean {
+  return pkhSubjectMatchesUser(subject, address);
+}
+
+/**
+ * Verify a VC-JWT against its issuer's DID document, check its validity
+ * period and status list entries, and read the credential from the verified
+ * payload
+ */
+export async function verifyCredentialJWT(
+  jwt: string,
+  options: VerifyCredentialJWTOptions = {},
+): Promise<VerifiedCredential> {
+  const { payload: unverified } = decodeJWT<CredentialJWTHeader, CredentialJWTPayload>(jwt);
+  if (typeof unverified.iss !== 'string') {
+    throw new Error('Credential JWT has no issuer');
+  }
+
+  const { payload } = await verifyJWTWithEdDSA(jwt, unverified.iss, options);
+
+  const vc = payload.vc;
+  if (!vc) {
+    throw new Error('No verifiable credential found in JWT');
+  }
+
+  const vcIssuer = typeof vc.issuer === 'object' && vc.issuer !== null
+    ? (vc.issuer as { id?: string }).id
+    : vc.issuer;
+  if (vcIssuer !== undefined && vcIssuer !== payload.iss) {
+    throw new Error('Credential issuer does not match JWT issuer');
+  }
+
+  const subject = vc.credentialSubject?.id || payload.sub;
+  if (!subject) {
+    throw new Error('No credential subject found');
+  }
+  if (payload.sub !== undefined && payload.sub !== subject) {
+    throw new Error('Credential subject does not match JWT subject');
+  }
+
+  assertCredentialValidity(payload, options);
+  await checkCredentialStatus(payload, options);
+
+  return {
+    jwt,
+    issuer: payload.iss,
+    subject,
+    types: vc.type || [],
+    credentialSubject: { ...vc.credentialSubject, id: subject },
+    evidence: vc.evidence,
+    issuanceDate: vc.issuanceDate,
+    handle: vc.evidence?.handle,
+    payload,
+  };
+}
+
+/**
+ * Verify a batch of credentials, dropping (and logging) any that fail
+ */
+export async function verifyCredentials(
+  credentials: { jwt: string }[],
+  options: VerifyCredentialJWTOptions = {},
+): Promise<VerifiedCredential[]> {
+  const results = await Promise.all(
+    credentials.map(async ({ jwt }) => {
+      try {
+        return await verifyCredentialJWT(jwt, options);
+      } catch (error) {
+        console.warn(`⚠️  Skipping unverifiable credential: ${error instanceof Error ? error.message : error}`);
+        return null;
+      }
+    }),
+  );
+  return results.filter((credential): credential is VerifiedCredential => credential !== null);
+}
+
+/**
+ * Find a verified credential for `userAddress` that satisfies the requirements
+ */
+export const findMatchingCredential = (
+  credentials: VerifiedCredential[],
+  requirements: CredentialRequirements,
+  userAddress: string,
+  registry: CredentialTypeRegistry = credentialTypes,
+): VerifiedCredential | null => {
+  if (!registry.supports(requirements.credentialType)) return null;
+
+  return credentials.find(cred => {
+    // Check issuer
+    if (cred.issuer !== requirements.issuer) return false;
+    if (!registry.allowsIssuer(requirements.credentialType, cred.issuer)) return false;
+
+    // Check credential type
+    if (!cred.types.includes(requirements.credentialType)) return false;
+
+    // Check subject and the chain of the user's account
+    if (!credentialSubjectMatchesAddress(cred.subject, userAddress)) return false;
+    if (!chainAccepted(requirements.chains, parseUserAccount(userAddress).chain)) return false;
+
+    // Check the claims where the credential type keeps them
+    if (!registry.claimsSatisfied(cred, requirements)) return false;
+    if (!claimPredicatesSatisfied(cred.payload.vc, requirements.predicates)) return false;
+
+    // Check age constraints against the signed payload, as the Lit Action does
+    if (!credentialAgeSatisfied(cred.payload, requirements)) return false;
+
+    return true;
+  }) || null;
+};
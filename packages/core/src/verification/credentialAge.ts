@@ -0,0 +1,80 @@
+import { CredentialJWTPayload, CredentialRequirements } from "./types";
+
+/**
+ * When the credential was issued, in seconds since the epoch. The JWT's
+ * `iat` takes precedence, then `nbf`, then the VC's `issuanceDate`.
+ */
+export function credentialIssuedAt(payload: CredentialJWTPayload): number | undefined {
+  if (typeof payload.iat === 'number') return payload.iat;
+  if (typeof payload.nbf === 'number') return payload.nbf;
+
+  const issuanceDate = payload.vc?.issuanceDate;
+  if (issuanceDate === undefined) return undefined;
+  const time = Date.parse(issuanceDate);
+  if (isNaN(time)) {
+    throw new Error(`Invalid credential issuanceDate: ${JSON.stringify(issuanceDate)}`);
+  }
+  return Math.floor(time / 1000);
+}
+
+const isSeconds = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value >= 0;
+
+/**
+ * Check that age constraints are non-negative numbers of seconds and that
+ * `minCredentialAge` does not exceed `maxCredentialAge`
+ */
+export function validateCredentialAgeRequirements(requirements: CredentialRequirements): void {
+  const { maxCredentialAge, minCredentialAge } = requirements;
+  if (maxCredentialAge !== undefined && !isSeconds(maxCredentialAge)) {
+    throw new Error(`Invalid maxCredentialAge: ${maxCredentialAge}. Ages are non-negative numbers of seconds.`);
+  }
+  if (minCredentialAge !== undefined && !isSeconds(minCredentialAge)) {
+    throw new Error(`Invalid minCredentialAge: ${minCredentialAge}. Ages are non-negative numbers of seconds.`);
+  }
+  if (maxCredentialAge !== undefined && minCredentialAge !== undefined && minCredentialAge > maxCredentialAge) {
+    throw new Error('Invalid credential age constraints: minCredentialAge exceeds maxCredentialAge');
+  }
+}
+
+/**
+ * Enforce `maxCredentialAge` (freshness) and `minCredentialAge` (maturity),
+ * both in seconds since issuance
+ */
+export function assertCredentialAge(
+  payload: CredentialJWTPayload,
+  requirements: CredentialRequirements,
+  now: number = Date.now(),
+): void {
+  const { maxCredentialAge, minCredentialAge } = requirements;
+  if (maxCredentialAge === undefined && minCredentialAge === undefined) return;
+
+  const issuedAt = credentialIssuedAt(payload);
+  if (issuedAt === undefined) {
+    throw new Error('Credential issuance time is unknown: no iat, nbf or issuanceDate');
+  }
+
+  const age = Math.floor(now / 1000) - issuedAt;
+  if (maxCredentialAge !== undefined && age > maxCredentialAge) {
+    throw new Error(`Credential is too old: issued ${age}s ago, maxCredentialAge is ${maxCredentialAge}s`);
+  }
+  if (minCredentialAge !== undefined && age < minCredentialAge) {
+    throw new Error(`Credential is too new: issued ${age}s ago, minCredentialAge is ${minCredentialAge}s`);
+  }
+}
+
+/**
+ * Whether the credential meets the requirements' age constraints
+ */
+export function credentialAgeSatisfied(
+  payload: CredentialJWTPayload,
+  requirements: CredentialRequirements,
+  now?: number,
+): boolean {
+  try {
+    assertCredentialAge(payload, requirements, now);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,230 @@
+import { validateCredentialAgeRequirements } from "./credentialAge";
+import { validateAcceptedChains } from "./did/pkh";
+import { validateClaimPredicates } from "./predicates";
+import { CredentialRequirements } from "./types";
+
+/**
+ * Where a credential type keeps its claims
+ */
+export type CredentialClaimLocation = 'credentialSubject' | 'evidence';
+
+/**
+ * A claim that requirements may constrain for a credential type
+ */
+export interface CredentialClaimDefinition {
+  /** Field holding the claim at the type's claim location (defaults to the claim name) */
+  field?: string;
+  /** Name used in error messages (defaults to the claim name) */
+  label?: string;
+  /** Reject malformed required values when requirements are created */
+  validateRequirement?(required: unknown): void;
+  /** Whether the credential's value satisfies the required value */
+  matches?(actual: unknown, required: unknown): boolean;
+}
+
+export interface CredentialTypeDefinition {
+  type: string;
+  /** Issuers allowed to issue this type; any trusted issuer when omitted */
+  issuers?: string[];
+  claimLocation: CredentialClaimLocation;
+  claims: Record<string, CredentialClaimDefinition>;
+}
+
+/**
+ * The credential parts claims are read from, as found in `vc`
+ */
+export interface CredentialClaimSource {
+  credentialSubject?: { [claim: string]: unknown };
+  evidence?: { [claim: string]: unknown };
+}
+
+/**
+ * Requirement claims that apply to every credential type
+ */
+const COMMON_CLAIMS = ['requiredEvidence'];
+
+const toList = (value: unknown): unknown[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * A required value matches if it, or any value in a required list, equals the
+ * credential's value
+ */
+const matchesAny = (actual: unknown, required: unknown): boolean =>
+  actual !== undefined && toList(required).indexOf(actual) !== -1;
+
+const nonEmptyStrings = (label: string, hint: string) => (required: unknown): void => {
+  const values = toList(required);
+  if (values.length === 0) {
+    throw new Error(`Invalid ${label}: ${hint}`);
+  }
+  for (const value of values) {
+    if (!value || typeof value !== 'string' || value.trim().length === 0) {
+      throw new Error(`Invalid ${label}: ${value}. ${hint}`);
+    }
+  }
+};
+
+/**
+ * Credential types with their allowed issuers, claim location and claim
+ * validators. Requirements, host-side matching and the Lit Actions all
+ * dispatch through a registry so new types don't need code in each of them.
+ */
+export class CredentialTypeRegistry {
+  private definitions = new Map<string, CredentialTypeDefinition>();
+
+  register(definition: CredentialTypeDefinition): this {
+    this.definitions.set(definition.type, definition);
+    return this;
+  }
+
+  supports(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  get types(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  get(type: string): CredentialTypeDefinition {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new Error(`Invalid credential type: ${type}. Supported types: ${this.types.join(', ')}`);
+    }
+    return definition;
+  }
+
+  /**
+   * Whether `issuer` may issue credentials of `type`
+   */
+  allowsIssuer(type: string, issuer: string): boolean {
+    const { issuers } = this.get(type);
+    return !issuers || issuers.indexOf(issuer) !== -1;
+  }
+
+  /**
+   * Check that requirements name a registered type, an issuer allowed for it
+   * and only claims the type defines, with well-formed values, predicates and
+   * age constraints
+   */
+  validateRequirements(requirements: CredentialRequirements): void {
+    const definition = this.get(requirements.credentialType);
+
+    if (!this.allowsIssuer(definition.type, requirements.issuer)) {
+      throw new Error(`Issuer ${requirements.issuer} is not allowed to issue ${definition.type} credentials`);
+    }
+    if (requirements.claims && requirements.claims.minIssuanceAge !== undefined) {
+      throw new Error('minIssuanceAge has been replaced by maxCredentialAge and minCredentialAge (seconds since issuance)');
+    }
+
+    for (const [name, required] of Object.entries(requirements.claims || {})) {
+      if (COMMON_CLAIMS.indexOf(name) !== -1 || required === undefined) continue;
+
+      const claim = definition.claims[name];
+      if (!claim) {
+        throw new Error(`Unsupported claim ${name} for ${definition.type} credentials`);
+      }
+      if (claim.validateRequirement) {
+        claim.validateRequirement(required);
+      }
+    }
+
+    validateClaimPredicates(requirements.predicates);
+    validateCredentialAgeRequirements(requirements);
+    validateAcceptedChains(requirements.chains);
+  }
+
+  /**
+   * Read a claim from where the credential type keeps it
+   */
+  readClaim(type: string, source: CredentialClaimSource, name: string): unknown {
+    const definition = this.get(type);
+    const claim = definition.claims[name];
+    const location = source[definition.claimLocation];
+    return location ? location[(claim && claim.field) || name] : undefined;
+  }
+
+  /**
+   * Read every claim the credential type defines
+   */
+  readClaims(type: string, source: CredentialClaimSource): Record<string, unknown> {
+    const claims: Record<string, unknown> = {};
+    for (const name of Object.keys(this.get(type).claims)) {
+      const value = this.readClaim(type, source, name);
+      if (value !== undefined) claims[name] = value;
+    }
+    return claims;
+  }
+
+  /**
+   * Check the credential's claims against the requirements, throwing on the
+   * first unmet claim
+   */
+  assertClaims(source: CredentialClaimSource, requirements: CredentialRequirements): void {
+    const definition = this.get(requirements.credentialType);
+
+    for (const [name, required] of Object.entries(requirements.claims || {})) {
+      if (COMMON_CLAIMS.indexOf(name) !== -1 || required === undefined) continue;
+
+      const claim = definition.claims[name];
+      if (!claim) {
+        throw new Error(`Unsupported claim ${name} for ${definition.type} credentials`);
+      }
+
+      const actual = this.readClaim(definition.type, source, name);
+      const matches = claim.matches || matchesAny;
+      if (!matches(actual, required)) {
+        throw new Error(`${claim.label || name} requirement not met. Required: ${required}, Found: ${actual}`);
+      }
+    }
+  }
+
+  /**
+   * Whether the credential's claims satisfy the requirements
+   */
+  claimsSatisfied(source: CredentialClaimSource, requirements: CredentialRequirements): boolean {
+    try {
+      this.assertClaims(source, requirements);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export const githubVerificationType: CredentialTypeDefinition = {
+  type: 'GitHubVerification',
+  claimLocation: 'evidence',
+  claims: {
+    githubHandle: {
+      field: 'handle',
+      label: 'GitHub handle',
+      validateRequirement: nonEmptyStrings('GitHub handle', 'GitHub handles must be non-empty strings.'),
+    },
+  },
+};
+
+export const premiumSubscriptionType: CredentialTypeDefinition = {
+  type: 'PremiumSubscription',
+  issuers: ['did:web:issuer.tinycloud.xyz'],
+  claimLocation: 'credentialSubject',
+  claims: {
+    tier: {
+      label: 'Subscription tier',
+      validateRequirement: nonEmptyStrings('subscription tier', 'Tiers must be non-empty strings.'),
+    },
+  },
+};
+
+/**
+ * Create a registry with the built-in credential types
+ */
+export function createCredentialTypeRegistry(): CredentialTypeRegistry {
+  return new CredentialTypeRegistry()
+    .register(githubVerificationType)
+    .register(premiumSubscriptionType);
+}
+
+/**
+ * The registry used when none is passed explicitly
+ */
+export const credentialTypes = createCredentialTypeRegistry();
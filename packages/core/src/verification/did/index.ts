@@ -0,0 +1,22 @@
+import { DIDResolutionOptions, DIDResolverRegistry } from "./registry";
+import { didWebResolver } from "./web";
+import { didKeyResolver } from "./key";
+import { didJwkResolver } from "./jwk";
+import { didPkhResolver } from "./pkh";
+
+export * from "./registry";
+export * from "./multibase";
+export * from "./web";
+export * from "./key";
+export * from "./jwk";
+export * from "./pkh";
+
+/**
+ * A registry with the built-in `did:web`, `did:key`, `did:jwk` and `did:pkh`
+ * resolvers. Register additional resolvers on the returned instance.
+ */
+export const createDIDResolver = (options: DIDResolutionOptions = {}): DIDResolverRegistry =>
+  new DIDResolverRegistry(
+    [didWebResolver, didKeyResolver, didJwkResolver, didPkhResolver],
+    options,
+  );
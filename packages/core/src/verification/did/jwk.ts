@@ -0,0 +1,54 @@
+import { base64urlDecode, base64urlEncode } from "../encoding";
+import { DIDDocument, PublicKeyJwk } from "../types";
+import { DIDResolver } from "./registry";
+
+/**
+ * Create the `did:jwk` identifier for a public key
+ */
+export function createDIDJwk(jwk: PublicKeyJwk): string {
+  return `did:jwk:${base64urlEncode(JSON.stringify(jwk))}`;
+}
+
+/**
+ * Expand a `did:jwk` identifier into its DID document
+ */
+export function resolveDIDJwk(did: string): DIDDocument {
+  const match = /^did:jwk:([A-Za-z0-9_-]+)$/.exec(did);
+  if (!match) {
+    throw new Error(`Invalid did:jwk DID: ${did}`);
+  }
+
+  let jwk: PublicKeyJwk;
+  try {
+    jwk = JSON.parse(new TextDecoder().decode(base64urlDecode(match[1])));
+  } catch {
+    throw new Error(`Invalid did:jwk DID: ${did}`);
+  }
+  if (!jwk || typeof jwk.kty !== 'string') {
+    throw new Error(`Invalid did:jwk DID: ${did}`);
+  }
+  if ('d' in jwk) {
+    throw new Error('did:jwk must not contain private key material');
+  }
+
+  const verificationMethodId = `${did}#0`;
+  return {
+    '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/jws-2020/v1'],
+    id: did,
+    verificationMethod: [
+      {
+        id: verificationMethodId,
+        type: 'JsonWebKey2020',
+        controller: did,
+        publicKeyJwk: jwk,
+      },
+    ],
+    authentication: [verificationMethodId],
+    assertionMethod: [verificationMethodId],
+  };
+}
+
+export const didJwkResolver: DIDResolver = {
+  method: 'jwk',
+  resolve: async (did) => resolveDIDJwk(did),
+};
@@ -0,0 +1,158 @@
+import { base64urlDecode, base64urlEncode } from "../encoding";
+import { DIDDocument, PublicKeyJwk } from "../types";
+import {
+  decodeMulticodec,
+  encodeMulticodec,
+  multibaseDecode,
+  multibaseEncode,
+} from "./multibase";
+import { DIDResolver } from "./registry";
+
+interface WeierstrassCurve {
+  crv: 'secp256k1' | 'P-256';
+  multicodec: number;
+  p: bigint;
+  a: bigint;
+  b: bigint;
+}
+
+const SECP256K1: WeierstrassCurve = {
+  crv: 'secp256k1',
+  multicodec: 0xe7,
+  p: BigInt('0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f'),
+  a: BigInt(0),
+  b: BigInt(7),
+};
+
+const P256: WeierstrassCurve = {
+  crv: 'P-256',
+  multicodec: 0x1200,
+  p: BigInt('0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff'),
+  a: BigInt('0xffffffff00000001000000000000000000000000fffffffffffffffffffffffc'),
+  b: BigInt('0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b'),
+};
+
+const ED25519_MULTICODEC = 0xed;
+
+const bytesToBigInt = (bytes: Uint8Array): bigint =>
+  bytes.reduce((value, byte) => (value << BigInt(8)) | BigInt(byte), BigInt(0));
+
+const bigIntToBytes = (value: bigint, length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(value & BigInt(0xff));
+    value >>= BigInt(8);
+  }
+  return bytes;
+};
+
+const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = BigInt(1);
+  base %= modulus;
+  while (exponent > BigInt(0)) {
+    if (exponent & BigInt(1)) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+    exponent >>= BigInt(1);
+  }
+  return result;
+};
+
+/**
+ * Recover the y coordinate of a compressed (33-byte) point on a curve with
+ * p = 3 mod 4, which holds for both secp256k1 and P-256
+ */
+function decompressPoint(curve: WeierstrassCurve, compressed: Uint8Array): { x: Uint8Array; y: Uint8Array } {
+  if (compressed.length !== 33 || (compressed[0] !== 0x02 && compressed[0] !== 0x03)) {
+    throw new Error(`Invalid compressed ${curve.crv} public key`);
+  }
+  const { p, a, b } = curve;
+  const x = bytesToBigInt(compressed.slice(1));
+  const ySquared = (modPow(x, BigInt(3), p) + a * x + b) % p;
+  let y = modPow(ySquared, (p + BigInt(1)) / BigInt(4), p);
+  if ((y * y) % p !== ySquared) {
+    throw new Error(`Invalid compressed ${curve.crv} public key`);
+  }
+  if ((y & BigInt(1)) !== BigInt(compressed[0] & 1)) {
+    y = p - y;
+  }
+  return { x: compressed.slice(1), y: bigIntToBytes(y, 32) };
+}
+
+/**
+ * Convert a multibase multicodec public key to a JWK
+ */
+export function multikeyToJwk(publicKeyMultibase: string): PublicKeyJwk {
+  const { code, data } = decodeMulticodec(multibaseDecode(publicKeyMultibase));
+
+  if (code === ED25519_MULTICODEC) {
+    if (data.length !== 32) {
+      throw new Error('Invalid Ed25519 public key length');
+    }
+    return { kty: 'OKP', crv: 'Ed25519', x: base64urlEncode(data) };
+  }
+
+  const curve = [SECP256K1, P256].find((candidate) => candidate.multicodec === code);
+  if (!curve) {
+    throw new Error(`Unsupported multicodec key type: 0x${code.toString(16)}`);
+  }
+  const { x, y } = decompressPoint(curve, data);
+  return { kty: 'EC', crv: curve.crv, x: base64urlEncode(x), y: base64urlEncode(y) };
+}
+
+/**
+ * Convert a JWK public key to its multibase multicodec form
+ */
+export function jwkToMultikey(jwk: PublicKeyJwk): string {
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+    return multibaseEncode(encodeMulticodec(ED25519_MULTICODEC, base64urlDecode(jwk.x)));
+  }
+
+  const curve = [SECP256K1, P256].find((candidate) => candidate.crv === jwk.crv);
+  if (jwk.kty !== 'EC' || !curve || !jwk.y) {
+    throw new Error(`Unsupported JWK key type: ${jwk.kty} ${jwk.crv}`);
+  }
+  const y = base64urlDecode(jwk.y);
+  const compressed = new Uint8Array(33);
+  compressed[0] = 0x02 | (y[y.length - 1] & 1);
+  compressed.set(base64urlDecode(jwk.x), 1);
+  return multibaseEncode(encodeMulticodec(curve.multicodec, compressed));
+}
+
+/**
+ * Create the `did:key` identifier for a public key
+ */
+export function createDIDKey(jwk: PublicKeyJwk): string {
+  return `did:key:${jwkToMultikey(jwk)}`;
+}
+
+/**
+ * Expand a `did:key` identifier into its DID document
+ */
+export function resolveDIDKey(did: string): DIDDocument {
+  const match = /^did:key:(z[1-9A-HJ-NP-Za-km-z]+)$/.exec(did);
+  if (!match) {
+    throw new Error(`Invalid did:key DID: ${did}`);
+  }
+  const publicKeyMultibase = match[1];
+  const verificationMethodId = `${did}#${publicKeyMultibase}`;
+
+  return {
+    '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/jws-2020/v1'],
+    id: did,
+    verificationMethod: [
+      {
+        id: verificationMethodId,
+        type: 'JsonWebKey2020',
+        controller: did,
+        publicKeyJwk: multikeyToJwk(publicKeyMultibase),
+      },
+    ],
+    authentication: [verificationMethodId],
+    assertionMethod: [verificationMethodId],
+  };
+}
+
+export const didKeyResolver: DIDResolver = {
+  method: 'key',
+  resolve: async (did) => resolveDIDKey(did),
+};
@@ -0,0 +1,102 @@
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Base58 (bitcoin alphabet) decode
+ */
+export function base58btcDecode(data: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of data) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // Leading '1's encode leading zero bytes
+  for (let i = 0; i < data.length && data[i] === '1'; i++) {
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+}
+
+/**
+ * Base58 (bitcoin alphabet) encode
+ */
+export function base58btcEncode(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+  let result = '';
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    result += '1';
+  }
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result += BASE58_ALPHABET[digits[i]];
+  }
+  return result;
+}
+
+/**
+ * Decode a base58btc (`z` prefixed) multibase string
+ */
+export function multibaseDecode(value: string): Uint8Array {
+  if (!value.startsWith('z')) {
+    throw new Error(`Unsupported multibase encoding: ${value.charAt(0)}`);
+  }
+  return base58btcDecode(value.slice(1));
+}
+
+export function multibaseEncode(bytes: Uint8Array): string {
+  return `z${base58btcEncode(bytes)}`;
+}
+
+/**
+ * Split an unsigned-varint multicodec prefix from the data it tags
+ */
+export function decodeMulticodec(bytes: Uint8Array): { code: number; data: Uint8Array } {
+  let code = 0;
+  let shift = 0;
+  let offset = 0;
+  while (offset < bytes.length) {
+    const byte = bytes[offset++];
+    code += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) {
+      return { code, data: bytes.slice(offset) };
+    }
+    shift += 7;
+  }
+  throw new Error('Invalid multicodec prefix');
+}
+
+export function encodeMulticodec(code: number, data: Uint8Array): Uint8Array {
+  const prefix: number[] = [];
+  let remaining = code;
+  while (remaining >= 0x80) {
+    prefix.push((remaining & 0x7f) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  prefix.push(remaining);
+
+  const bytes = new Uint8Array(prefix.length + data.length);
+  bytes.set(prefix, 0);
+  bytes.set(data, prefix.length);
+  return bytes;
+}
@@ -0,0 +1,254 @@
+import * as ethers from "ethers";
+import { DIDDocument, VerificationMethod } from "../types";
+import { base58btcDecode } from "./multibase";
+import { DIDResolver } from "./registry";
+
+/**
+ * CAIP-2 namespaces of the `did:pkh` accounts users can hold
+ */
+export type DIDPkhNamespace = 'eip155' | 'solana' | 'bip122';
+
+/** CAIP-2 chain id of Solana mainnet */
+export const SOLANA_MAINNET = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp';
+
+/** CAIP-2 chain id of Bitcoin mainnet */
+export const BITCOIN_MAINNET = 'bip122:000000000019d6689c085ae165831e93';
+
+const sha256d = (data: Uint8Array): Uint8Array =>
+  ethers.utils.arrayify(ethers.utils.sha256(ethers.utils.sha256(data)));
+
+/**
+ * Decode a base58check string into its version byte and payload, or null if
+ * the checksum does not match
+ */
+export function base58checkDecode(value: string): { version: number; payload: Uint8Array } | null {
+  let bytes: Uint8Array;
+  try {
+    bytes = base58btcDecode(value);
+  } catch {
+    return null;
+  }
+  if (bytes.length < 5) return null;
+  const body = bytes.slice(0, -4);
+  const checksum = sha256d(body).slice(0, 4);
+  if (checksum.some((byte, i) => byte !== bytes[bytes.length - 4 + i])) return null;
+  return { version: body[0], payload: body.slice(1) };
+}
+
+/** Version bytes of base58check P2PKH and P2SH addresses, mainnet and testnet */
+export const BITCOIN_P2PKH_VERSIONS = [0x00, 0x6f];
+export const BITCOIN_P2SH_VERSIONS = [0x05, 0xc4];
+
+interface PkhNamespaceDefinition {
+  /** Names the chain in errors */
+  label: string;
+  isAddress(address: string): boolean;
+  /** Canonical form of a valid address */
+  normalizeAddress(address: string): string;
+  /** Whether addresses compare case-insensitively (EIP-55 checksums) */
+  caseInsensitive: boolean;
+}
+
+const PKH_NAMESPACES: Record<DIDPkhNamespace, PkhNamespaceDefinition> = {
+  eip155: {
+    label: 'Ethereum',
+    isAddress: (address) => ethers.utils.isAddress(address),
+    normalizeAddress: (address) => ethers.utils.getAddress(address),
+    caseInsensitive: true,
+  },
+  solana: {
+    label: 'Solana',
+    // The account's Ed25519 public key, base58 encoded
+    isAddress: (address) => {
+      try {
+        return /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address) && base58btcDecode(address).length === 32;
+      } catch {
+        return false;
+      }
+    },
+    normalizeAddress: (address) => address,
+    caseInsensitive: false,
+  },
+  bip122: {
+    label: 'Bitcoin',
+    // Base58check P2PKH and P2SH addresses
+    isAddress: (address) => {
+      const decoded = base58checkDecode(address);
+      return decoded !== null &&
+        decoded.payload.length === 20 &&
+        BITCOIN_P2PKH_VERSIONS.concat(BITCOIN_P2SH_VERSIONS).indexOf(decoded.version) !== -1;
+    },
+    normalizeAddress: (address) => address,
+    caseInsensitive: false,
+  },
+};
+
+const namespaceDefinition = (namespace: string): PkhNamespaceDefinition => {
+  if (!Object.prototype.hasOwnProperty.call(PKH_NAMESPACES, namespace)) {
+    throw new Error(`Unsupported did:pkh namespace: ${namespace}`);
+  }
+  return PKH_NAMESPACES[namespace as DIDPkhNamespace];
+};
+
+/**
+ * Split a CAIP-2 chain id (`eip155:137`, `solana:<genesis hash>`), or an EVM
+ * chain id number, into its namespace and reference
+ */
+export function parseCAIP2Chain(chain: number | string): {
+  namespace: DIDPkhNamespace;
+  reference: string;
+  chain: string;
+} {
+  const caip2 = typeof chain === 'number' ? `eip155:${chain}` : chain;
+  const match = /^([-a-z0-9]{3,8}):([-_a-zA-Z0-9]{1,32})$/.exec(caip2);
+  if (!match) {
+    throw new Error(`Invalid CAIP-2 chain id: ${chain}`);
+  }
+  namespaceDefinition(match[1]);
+  return { namespace: match[1] as DIDPkhNamespace, reference: match[2], chain: caip2 };
+}
+
+/**
+ * Whether `address` is a valid account address in the namespace
+ */
+export function isPkhAddress(namespace: string, address: string): boolean {
+  return namespaceDefinition(namespace).isAddress(address);
+}
+
+/**
+ * Check and normalize an account address (EIP-55 checksum for eip155)
+ */
+export function normalizePkhAddress(namespace: string, address: string): string {
+  const definition = namespaceDefinition(namespace);
+  if (!definition.isAddress(address)) {
+    throw new Error(`Invalid ${definition.label} address: ${address}`);
+  }
+  return definition.normalizeAddress(address);
+}
+
+/**
+ * Whether two addresses name the same account in the namespace. Only EVM
+ * addresses are compared case-insensitively; base58 is case-sensitive.
+ */
+export function samePkhAddress(namespace: string, a: string, b: string): boolean {
+  return namespaceDefinition(namespace).caseInsensitive ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+/**
+ * Split a `did:pkh` identifier into its CAIP-10 account id parts
+ */
+export function parseDIDPkhAccount(did: string): {
+  namespace: string;
+  reference: string;
+  /** CAIP-2 chain id */
+  chain: string;
+  address: string;
+  accountId: string;
+} {
+  const match = /^did:pkh:([-a-z0-9]{3,8}):([-_a-zA-Z0-9]{1,32}):([-.%a-zA-Z0-9]{1,128})$/.exec(did);
+  if (!match) {
+    throw new Error(`Invalid did:pkh DID: ${did}`);
+  }
+  const [, namespace, reference, address] = match;
+  return { namespace, reference, chain: `${namespace}:${reference}`, address, accountId: `${namespace}:${reference}:${address}` };
+}
+
+/**
+ * The account a user is identified by: a `did:pkh` DID, or a bare EVM address
+ * on `eip155:1`
+ */
+export function parseUserAccount(user: string): { namespace: string; chain: string; address: string } {
+  if (user.startsWith('did:pkh:')) {
+    return parseDIDPkhAccount(user);
+  }
+  return { namespace: 'eip155', chain: 'eip155:1', address: user };
+}
+
+/**
+ * Whether a credential subject `did:pkh` names the user's account: the same
+ * namespace and address. EVM accounts match across chains, since the same key
+ * controls the address on every chain.
+ */
+export function pkhSubjectMatchesUser(subject: string, user: string): boolean {
+  let subjectAccount: { namespace: string; address: string };
+  try {
+    subjectAccount = parseDIDPkhAccount(subject);
+  } catch {
+    return false;
+  }
+  const userAccount = parseUserAccount(user);
+  return subjectAccount.namespace === userAccount.namespace &&
+    Object.prototype.hasOwnProperty.call(PKH_NAMESPACES, userAccount.namespace) &&
+    samePkhAddress(userAccount.namespace, subjectAccount.address, userAccount.address);
+}
+
+/**
+ * Whether requirements naming `chains` (CAIP-2 ids or whole namespaces)
+ * accept an account on `chain`. Requirements without `chains` accept any.
+ */
+export function chainAccepted(chains: string[] | undefined, chain: string): boolean {
+  if (!chains) return true;
+  const namespace = chain.split(':')[0];
+  return chains.some((accepted) => accepted === chain || accepted === namespace);
+}
+
+/**
+ * Check the `chains` of credential requirements
+ */
+export function validateAcceptedChains(chains: unknown): void {
+  if (chains === undefined) return;
+  if (!Array.isArray(chains) || chains.length === 0) {
+    throw new Error('chains must be a non-empty array of CAIP-2 chain ids or namespaces');
+  }
+  for (const chain of chains) {
+    if (typeof chain !== 'string') {
+      throw new Error('chains must be a non-empty array of CAIP-2 chain ids or namespaces');
+    }
+    if (chain.indexOf(':') === -1) {
+      namespaceDefinition(chain);
+    } else {
+      parseCAIP2Chain(chain);
+    }
+  }
+}
+
+/**
+ * Expand a `did:pkh` identifier into its DID document. The document only
+ * names the blockchain account; signatures are checked by recovering the
+ * signer address, or against the Ed25519 key a Solana address is.
+ */
+export function resolveDIDPkh(did: string): DIDDocument {
+  const { namespace, address, accountId } = parseDIDPkhAccount(did);
+
+  if (!isPkhAddress(namespace, address)) {
+    throw new Error(`Invalid address in did:pkh DID: ${address}`);
+  }
+
+  const verificationMethodId = `${did}#blockchainAccountId`;
+  const verificationMethod: VerificationMethod = namespace === 'solana'
+    ? {
+        id: verificationMethodId,
+        type: 'Ed25519VerificationKey2018',
+        controller: did,
+        blockchainAccountId: accountId,
+        publicKeyBase58: address,
+      }
+    : {
+        id: verificationMethodId,
+        type: 'EcdsaSecp256k1RecoveryMethod2020',
+        controller: did,
+        blockchainAccountId: accountId,
+      };
+  return {
+    '@context': ['https://www.w3.org/ns/did/v1'],
+    id: did,
+    verificationMethod: [verificationMethod],
+    authentication: [verificationMethodId],
+    assertionMethod: [verificationMethodId],
+  };
+}
+
+export const didPkhResolver: DIDResolver = {
+  method: 'pkh',
+  resolve: async (did) => resolveDIDPkh(did),
+};
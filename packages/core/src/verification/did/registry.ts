@@ -0,0 +1,70 @@
+import { DIDDocument, FetchLike } from "../types";
+
+export interface DIDResolutionOptions {
+  /** Used by network-backed methods such as `did:web`, defaults to the global `fetch` */
+  fetch?: FetchLike;
+}
+
+/**
+ * Resolves DIDs of a single method (the part after `did:`) to DID documents
+ */
+export interface DIDResolver {
+  method: string;
+  resolve(did: string, options: DIDResolutionOptions): Promise<DIDDocument>;
+}
+
+/**
+ * Extract the method name from a DID
+ */
+export function getDIDMethod(did: string): string {
+  const match = /^did:([a-z0-9]+):.+$/.exec(did);
+  if (!match) {
+    throw new Error(`Invalid DID: ${did}`);
+  }
+  return match[1];
+}
+
+/**
+ * Dispatches DID resolution to the resolver registered for the DID's method
+ */
+export class DIDResolverRegistry {
+  private readonly resolvers = new Map<string, DIDResolver>();
+
+  constructor(resolvers: DIDResolver[] = [], private readonly options: DIDResolutionOptions = {}) {
+    resolvers.forEach((resolver) => this.register(resolver));
+  }
+
+  /**
+   * Add a resolver, replacing any existing resolver for the same method
+   */
+  register(resolver: DIDResolver): this {
+    this.resolvers.set(resolver.method, resolver);
+    return this;
+  }
+
+  supports(did: string): boolean {
+    try {
+      return this.resolvers.has(getDIDMethod(did));
+    } catch {
+      return false;
+    }
+  }
+
+  get methods(): string[] {
+    return Array.from(this.resolvers.keys());
+  }
+
+  async resolve(did: string): Promise<DIDDocument> {
+    const method = getDIDMethod(did);
+    const resolver = this.resolvers.get(method);
+    if (!resolver) {
+      throw new Error(`Unsupported DID method: did:${method}`);
+    }
+
+    const didDocument = await resolver.resolve(did, this.options);
+    if (didDocument.id !== undefined && didDocument.id !== did) {
+      throw new Error(`DID document id ${didDocument.id} does not match ${did}`);
+    }
+    return didDocument;
+  }
+}
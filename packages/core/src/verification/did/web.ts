@@ -0,0 +1,46 @@
+import { DIDDocument, FetchLike } from "../types";
+import { DIDResolver } from "./registry";
+
+/**
+ * Build the HTTPS URL of a `did:web` DID document.
+ *
+ * `did:web:example.com` maps to `https://example.com/.well-known/did.json`,
+ * `did:web:example.com:users:alice` to `https://example.com/users/alice/did.json`
+ * and a port is percent-encoded in the domain (`did:web:localhost%3A8443`).
+ */
+export function didWebToUrl(did: string): string {
+  if (!did.startsWith('did:web:')) {
+    throw new Error(`Not a did:web DID: ${did}`);
+  }
+
+  const [domain, ...path] = did.slice('did:web:'.length).split(':').map(decodeURIComponent);
+  if (!domain || path.some((segment) => segment.length === 0)) {
+    throw new Error(`Invalid did:web DID: ${did}`);
+  }
+  if (/[/?#@]/.test(domain) || path.some((segment) => /[/?#]/.test(segment))) {
+    throw new Error(`Invalid did:web DID: ${did}`);
+  }
+
+  return path.length > 0
+    ? `https://${domain}/${path.join('/')}/did.json`
+    : `https://${domain}/.well-known/did.json`;
+}
+
+/**
+ * Resolve a `did:web` identifier to its DID document
+ */
+export async function resolveDIDWeb(
+  did: string,
+  fetchImpl: FetchLike = fetch,
+): Promise<DIDDocument> {
+  const response = await fetchImpl(didWebToUrl(did));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch DID document: ${response.status}`);
+  }
+  return await response.json();
+}
+
+export const didWebResolver: DIDResolver = {
+  method: 'web',
+  resolve: (did, options) => resolveDIDWeb(did, options.fetch),
+};
@@ -0,0 +1,95 @@
+import { decodeJWT } from "./encoding";
+import { createDIDResolver, DIDResolverRegistry } from "./did";
+import {
+  CredentialJWTHeader,
+  CredentialJWTPayload,
+  DIDDocument,
+  FetchLike,
+  PublicKeyJwk,
+} from "./types";
+import { resolveClockSkew, CredentialValidityOptions } from "./validity";
+import { selectVerificationMethod, verificationMethodToJwk } from "./verificationMethod";
+
+export interface VerifyCredentialJWTOptions extends CredentialValidityOptions {
+  /** Used to fetch DID documents, defaults to the global `fetch` */
+  fetch?: FetchLike;
+  /** Resolves the issuer DID, defaults to the built-in resolvers */
+  resolver?: DIDResolverRegistry;
+}
+
+/**
+ * The Ed25519 public key (JWK) the JWT `kid` selects from the issuer's
+ * assertion methods
+ */
+export function extractPublicKey(didDocument: DIDDocument, issuerDID: string, kid?: string): PublicKeyJwk {
+  const method = selectVerificationMethod(didDocument, issuerDID, kid, 'assertionMethod');
+  const publicKeyJwk = verificationMethodToJwk(method);
+  if (publicKeyJwk.kty !== 'OKP' || publicKeyJwk.crv !== 'Ed25519') {
+    throw new Error(`Key ${method.id} is not an Ed25519 key`);
+  }
+  return publicKeyJwk;
+}
+
+/**
+ * Verify an EdDSA-signed credential JWT against the issuer's DID document
+ */
+export async function verifyJWTWithEdDSA(
+  jwt: string,
+  issuerDID: string,
+  options: VerifyCredentialJWTOptions = {},
+): Promise<{
+  valid: true;
+  payload: CredentialJWTPayload;
+  header: CredentialJWTHeader;
+  issuer: string;
+}> {
+  const { header, payload, signingInput, signature } =
+    decodeJWT<CredentialJWTHeader, CredentialJWTPayload>(jwt);
+
+  if (header.alg !== 'EdDSA') {
+    throw new Error('Unsupported algorithm');
+  }
+
+  const resolver = options.resolver || createDIDResolver({ fetch: options.fetch });
+  const didDocument = await resolver.resolve(issuerDID);
+
+  const publicKeyJwk = extractPublicKey(didDocument, issuerDID, header.kid);
+
+  const publicKey = await crypto.subtle.importKey(
+    'jwk',
+    publicKeyJwk,
+    {
+      name: 'Ed25519',
+      namedCurve: 'Ed25519',
+    },
+    false,
+    ['verify']
+  );
+
+  const isValid = await crypto.subtle.verify(
+    'Ed25519',
+    publicKey,
+    new Uint8Array(signature),
+    new TextEncoder().encode(signingInput)
+  );
+
+  if (!isValid) {
+    throw new Error('Invalid JWT signature');
+  }
+
+  const skew = resolveClockSkew(options);
+  const now = Math.floor((options.now === undefined ? Date.now() : options.now) / 1000);
+  if (payload.exp && payload.exp + skew < now) {
+    throw new Error('JWT expired');
+  }
+  if (payload.nbf && payload.nbf - skew > now) {
+    throw new Error('JWT not yet valid');
+  }
+
+  return {
+    valid: true,
+    payload,
+    header,
+    issuer: payload.iss
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Base64URL encode (without padding)
+ */
+export function base64urlEncode(data: string | Uint8Array): string {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+}
+
+/**
+ * Base64URL decode
+ */
+export function base64urlDecode(data: string): Uint8Array {
+  const base64 = data.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '=');
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Split a compact JWS and decode its header and payload (no verification)
+ */
+export function decodeJWT<Header, Payload>(jwt: string): {
+  header: Header;
+  payload: Payload;
+  signingInput: string;
+  signature: Uint8Array;
+} {
+  const [encodedHeader, encodedPayload, encodedSignature] = jwt.split('.');
+
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw new Error('Invalid JWT format');
+  }
+
+  return {
+    header: JSON.parse(new TextDecoder().decode(base64urlDecode(encodedHeader))) as Header,
+    payload: JSON.parse(new TextDecoder().decode(base64urlDecode(encodedPayload))) as Payload,
+    signingInput: `${encodedHeader}.${encodedPayload}`,
+    signature: base64urlDecode(encodedSignature),
+  };
+}
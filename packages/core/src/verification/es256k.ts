@@ -0,0 +1,217 @@
+import * as ethers from "ethers";
+import { bytesToHex, decodeJWT } from "./encoding";
+import { ES256KJWTHeader, ES256KJWTPayload, UserJWTAlgorithm } from "./types";
+import { USER_JWT_EIP712_DOMAIN, USER_JWT_EIP712_TYPES } from "./userJWT";
+import { ChainRPC, verifySmartAccountSignature } from "./smartAccount";
+import { verifyBitcoinSignature, verifySolanaSignature } from "./accountSignatures";
+import { DIDPkhNamespace, isPkhAddress, parseDIDPkhAccount, samePkhAddress } from "./did/pkh";
+
+export interface UserJWTVerificationOptions {
+  /**
+   * RPC per `did:pkh` chain id. Wallet signatures that do not recover to the
+   * address are then checked with ERC-1271 / ERC-6492, for smart accounts.
+   */
+  rpc?: ChainRPC;
+}
+
+/**
+ * Check a raw 64-byte (r || s) signature over the keccak256 of the signing
+ * input against an address, trying both recovery ids
+ */
+function recoversToAddress(signingInput: string, rawSignature: Uint8Array, address: string): boolean {
+  const messageHash = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(signingInput));
+  const r = '0x' + bytesToHex(rawSignature.slice(0, 32));
+  const s = '0x' + bytesToHex(rawSignature.slice(32, 64));
+
+  for (const v of [27, 28]) {
+    try {
+      const recovered = ethers.utils.recoverAddress(messageHash, { r, s, v });
+      if (recovered.toLowerCase() === address.toLowerCase()) {
+        return true;
+      }
+    } catch {
+      // Continue to next recovery ID
+    }
+  }
+  return false;
+}
+
+/**
+ * Check a wallet's 65-byte (r || s || v) EIP-191 or EIP-712 signature of the
+ * signing input against an address
+ */
+function walletSignatureRecoversToAddress(
+  alg: 'EIP191' | 'EIP712',
+  signingInput: string,
+  rawSignature: Uint8Array,
+  address: string,
+): boolean {
+  const signature = '0x' + bytesToHex(rawSignature);
+  try {
+    const recovered = alg === 'EIP191'
+      ? ethers.utils.verifyMessage(signingInput, signature)
+      : ethers.utils.verifyTypedData(USER_JWT_EIP712_DOMAIN, USER_JWT_EIP712_TYPES, { signingInput }, signature);
+    return recovered.toLowerCase() === address.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The digest a wallet signs for an `EIP191` or `EIP712` user JWT, which is
+ * what a smart account's `isValidSignature` is asked about
+ */
+function walletSignatureHash(alg: 'EIP191' | 'EIP712', signingInput: string): string {
+  return alg === 'EIP191'
+    ? ethers.utils.hashMessage(signingInput)
+    : ethers.utils._TypedDataEncoder.hash(USER_JWT_EIP712_DOMAIN, USER_JWT_EIP712_TYPES, { signingInput });
+}
+
+/**
+ * Verify the signature of an unexpired user JWT for the account its
+ * `did:pkh` names. Malformed signatures throw.
+ */
+type AccountSignatureVerifier = (
+  alg: UserJWTAlgorithm,
+  signingInput: string,
+  signature: Uint8Array,
+  account: { chain: string; address: string },
+  options: UserJWTVerificationOptions,
+) => Promise<boolean>;
+
+const verifyEIP155Signature: AccountSignatureVerifier = async (alg, signingInput, signature, account, options) => {
+  if (alg === 'ES256K') {
+    if (signature.length !== 64) {
+      throw new Error('Invalid signature length');
+    }
+    return recoversToAddress(signingInput, signature, account.address);
+  }
+
+  // Smart account signatures have no fixed length
+  if (signature.length === 0) {
+    throw new Error('Invalid signature length');
+  }
+  const walletAlg = alg as 'EIP191' | 'EIP712';
+  if (signature.length === 65 && walletSignatureRecoversToAddress(walletAlg, signingInput, signature, account.address)) {
+    return true;
+  }
+
+  const provider = options.rpc && await options.rpc(Number(account.chain.split(':')[1]));
+  if (!provider) return false;
+  return verifySmartAccountSignature(
+    provider,
+    account.address,
+    walletSignatureHash(walletAlg, signingInput),
+    '0x' + bytesToHex(signature),
+  );
+};
+
+/**
+ * The algorithms that can sign for each `did:pkh` namespace, and how their
+ * signatures are checked
+ */
+const ACCOUNT_SIGNATURE_VERIFIERS: Record<DIDPkhNamespace, {
+  algorithms: UserJWTAlgorithm[];
+  verify: AccountSignatureVerifier;
+}> = {
+  eip155: { algorithms: ['ES256K', 'EIP191', 'EIP712'], verify: verifyEIP155Signature },
+  solana: {
+    algorithms: ['EdDSA'],
+    verify: async (_alg, signingInput, signature, account) => {
+      if (signature.length !== 64) {
+        throw new Error('Invalid signature length');
+      }
+      return verifySolanaSignature(signingInput, signature, account.address);
+    },
+  },
+  bip122: {
+    algorithms: ['BIP137'],
+    verify: async (_alg, signingInput, signature, account) => {
+      if (signature.length !== 65) {
+        throw new Error('Invalid signature length');
+      }
+      return verifyBitcoinSignature(signingInput, signature, account.address);
+    },
+  },
+};
+
+/**
+ * Verify a user JWT signature for the account its `did:pkh` names: `ES256K`
+ * or a wallet's `EIP191` (`personal_sign`) or `EIP712` signature for
+ * `eip155` accounts, an Ed25519 (`EdDSA`) signature for `solana` and a
+ * BIP-137 signed message (`BIP137`) for `bip122`, each over the signing
+ * input. With `rpc`, EVM wallet signatures may also come from smart accounts
+ * (ERC-1271, ERC-6492).
+ *
+ * Malformed tokens throw; an expired token or a signature that does not
+ * verify for the `did:pkh` account is reported with `valid: false`.
+ */
+export async function verifyES256KJWT(jwt: string, options: UserJWTVerificationOptions = {}): Promise<{
+  header: ES256KJWTHeader;
+  payload: ES256KJWTPayload;
+  valid: boolean;
+}> {
+  const { header, payload, signingInput, signature } =
+    decodeJWT<ES256KJWTHeader, ES256KJWTPayload>(jwt);
+
+  // Verify DID format and consistency
+  let account: ReturnType<typeof parseDIDPkhAccount>;
+  try {
+    account = parseDIDPkhAccount(payload.iss);
+  } catch {
+    throw new Error('Invalid DID format in JWT');
+  }
+  if (payload.iss !== payload.sub || !Object.prototype.hasOwnProperty.call(ACCOUNT_SIGNATURE_VERIFIERS, account.namespace)) {
+    throw new Error('Invalid DID format in JWT');
+  }
+  const verifier = ACCOUNT_SIGNATURE_VERIFIERS[account.namespace as DIDPkhNamespace];
+
+  // Verify algorithm
+  if (verifier.algorithms.indexOf(header.alg) === -1) {
+    throw new Error(`Unsupported algorithm: ${header.alg}`);
+  }
+
+  // Verify the address the DID names
+  if (!isPkhAddress(account.namespace, account.address)) {
+    throw new Error('Invalid address in JWT DID');
+  }
+
+  // Verify expiration
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.exp < now) {
+    return { header, payload, valid: false };
+  }
+
+  const valid = await verifier.verify(header.alg, signingInput, signature, account, options);
+  return { header, payload, valid };
+}
+
+/**
+ * Verify a user JWT was signed by `expectedAddress` and is unexpired,
+ * throwing a descriptive error otherwise
+ */
+export async function assertES256KJWT(
+  jwt: string,
+  expectedAddress: string,
+  options: UserJWTVerificationOptions = {},
+): Promise<{
+  header: ES256KJWTHeader;
+  payload: ES256KJWTPayload;
+}> {
+  const { header, payload, valid } = await verifyES256KJWT(jwt, options);
+
+  const { namespace, address: signerAddress } = parseDIDPkhAccount(payload.iss);
+  if (!samePkhAddress(namespace, signerAddress, expectedAddress)) {
+    throw new Error('JWT signer does not match expected address');
+  }
+
+  if (payload.exp < Math.floor(Date.now() / 1000)) {
+    throw new Error('JWT expired');
+  }
+
+  if (!valid) {
+    throw new Error('Invalid JWT signature');
+  }
+
+  return { header, payload };
+}
@@ -0,0 +1,21 @@
+export * from "./types";
+export * from "./encoding";
+export * from "./jcs";
+export * from "./es256k";
+export * from "./userJWT";
+export * from "./smartAccount";
+export * from "./accountSignatures";
+export * from "./verificationMethod";
+export * from "./eddsa";
+export * from "./predicates";
+export * from "./credentialAge";
+export * from "./credentialTypes";
+export * from "./claims";
+export * from "./validity";
+export * from "./statusList";
+export * from "./credential";
+export * from "./policy";
+export * from "./presentation";
+export * from "./replay";
+export * from "./requirements";
+export * from "./did";
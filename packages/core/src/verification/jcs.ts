@@ -0,0 +1,59 @@
+import { bytesToHex } from "./encoding";
+
+const hasLoneSurrogate = (value: string): boolean =>
+  /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?:^|[^\uD800-\uDBFF])[\uDC00-\uDFFF]/.test(value);
+
+const serializeString = (value: string): string => {
+  if (hasLoneSurrogate(value)) {
+    throw new Error('Cannot canonicalize a string with a lone surrogate');
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Serialize a JSON value per RFC 8785 (JSON Canonicalization Scheme):
+ * object members sorted by the UTF-16 code units of their names, numbers in
+ * their shortest ECMAScript form and no insignificant whitespace. As with
+ * `JSON.stringify`, undefined object members are dropped and undefined array
+ * items become `null`. Values JSON cannot represent throw.
+ */
+export function canonicalizeJSON(value: unknown): string {
+  if (value === null) return 'null';
+
+  switch (typeof value) {
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'number':
+      if (!isFinite(value)) {
+        throw new Error(`Cannot canonicalize the number ${value}`);
+      }
+      // ECMAScript number serialization is the one RFC 8785 prescribes
+      return JSON.stringify(value);
+    case 'string':
+      return serializeString(value);
+    case 'object': {
+      if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+        return canonicalizeJSON((value as { toJSON: () => unknown }).toJSON());
+      }
+      if (Array.isArray(value)) {
+        return `[${value.map((item) => canonicalizeJSON(item === undefined ? null : item)).join(',')}]`;
+      }
+      const members = Object.keys(value)
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        // Default string ordering compares UTF-16 code units, as RFC 8785 requires
+        .sort()
+        .map((key) => `${serializeString(key)}:${canonicalizeJSON((value as Record<string, unknown>)[key])}`);
+      return `{${members.join(',')}}`;
+    }
+    default:
+      throw new Error(`Cannot canonicalize a value of type ${typeof value}`);
+  }
+}
+
+/**
+ * SHA-256 (hex) of the RFC 8785 canonical form of a JSON value
+ */
+export async function hashCanonicalJSON(value: unknown): Promise<string> {
+  const data = new TextEncoder().encode(canonicalizeJSON(value));
+  return bytesToHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
+}
@@ -0,0 +1,236 @@
+import { validateCredentialClaims } from "./claims";
+import {
+  findMatchingCredential,
+  verifyCredentialJWT,
+  VerifiedCredential,
+} from "./credential";
+import { credentialTypes, CredentialTypeRegistry } from "./credentialTypes";
+import { VerifyCredentialJWTOptions } from "./eddsa";
+import { decodeJWT } from "./encoding";
+import {
+  CredentialJWTHeader,
+  CredentialJWTPayload,
+  CredentialPolicy,
+  CredentialRequirements,
+} from "./types";
+
+/**
+ * Whether a policy node is a single requirement (a leaf)
+ */
+export function isCredentialRequirement(policy: CredentialPolicy): policy is CredentialRequirements {
+  return typeof (policy as CredentialRequirements).credentialType === 'string';
+}
+
+/**
+ * Children of a composite node and how many of them must be satisfied
+ */
+const compositeNode = (policy: Exclude<CredentialPolicy, CredentialRequirements>) => {
+  if ('allOf' in policy) return { children: policy.allOf, required: policy.allOf.length };
+  if ('anyOf' in policy) return { children: policy.anyOf, required: 1 };
+  return { children: policy.of, required: policy.atLeast };
+};
+
+/**
+ * Every requirement in the policy, depth first
+ */
+export function policyRequirements(policy: CredentialPolicy): CredentialRequirements[] {
+  if (isCredentialRequirement(policy)) return [policy];
+  const requirements: CredentialRequirements[] = [];
+  for (const child of compositeNode(policy).children) {
+    requirements.push(...policyRequirements(child));
+  }
+  return requirements;
+}
+
+/**
+ * Check the shape of a policy tree, validating each requirement with
+ * `validateRequirement`
+ */
+export function validateCredentialPolicy(
+  policy: unknown,
+  validateRequirement: (requirements: CredentialRequirements) => void,
+): void {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    throw new Error('Invalid credential policy: expected a requirement or an allOf, anyOf or atLeast node');
+  }
+  if (isCredentialRequirement(policy as CredentialPolicy)) {
+    validateRequirement(policy as CredentialRequirements);
+    return;
+  }
+
+  const node = policy as Record<string, unknown>;
+  const operators = ['allOf', 'anyOf', 'atLeast'].filter((key) => key in node);
+  if (operators.length !== 1) {
+    throw new Error('Invalid credential policy: expected a requirement or an allOf, anyOf or atLeast node');
+  }
+
+  const key = operators[0] === 'atLeast' ? 'of' : operators[0];
+  const children = node[key];
+  if (!Array.isArray(children) || children.length === 0) {
+    throw new Error(`Invalid credential policy: ${key} must be a non-empty array`);
+  }
+  if (operators[0] === 'atLeast') {
+    const atLeast = node.atLeast;
+    if (typeof atLeast !== 'number' || atLeast % 1 !== 0 || atLeast < 1 || atLeast > children.length) {
+      throw new Error(`Invalid credential policy: atLeast must be an integer between 1 and ${children.length}`);
+    }
+  }
+
+  for (const child of children) {
+    validateCredentialPolicy(child, validateRequirement);
+  }
+}
+
+export interface PolicyEvaluation {
+  satisfied: boolean;
+  /** Why the requirements that were not met failed */
+  failures: string[];
+}
+
+/**
+ * Evaluate a policy tree. `checkRequirement` returns null for a satisfied
+ * requirement and the reason otherwise.
+ */
+export function evaluateCredentialPolicy(
+  policy: CredentialPolicy,
+  checkRequirement: (requirements: CredentialRequirements) => string | null,
+): PolicyEvaluation {
+  if (isCredentialRequirement(policy)) {
+    const failure = checkRequirement(policy);
+    return { satisfied: failure === null, failures: failure === null ? [] : [failure] };
+  }
+
+  const { children, required } = compositeNode(policy);
+  const results = children.map((child) => evaluateCredentialPolicy(child, checkRequirement));
+  const satisfied = results.filter((result) => result.satisfied).length >= required;
+  const failures: string[] = [];
+  if (!satisfied) {
+    for (const result of results) failures.push(...result.failures);
+  }
+  return { satisfied, failures };
+}
+
+/**
+ * A credential JWT presented to the Lit Action: its verified payload, or the
+ * (unverified) issuer and why verification failed
+ */
+export interface PresentedCredential {
+  jwt: string;
+  issuer?: string;
+  payload?: CredentialJWTPayload;
+  error?: string;
+}
+
+/**
+ * Verify presented credential JWTs. Only JWTs naming an issuer the policy
+ * accepts are resolved, so a caller cannot make the action fetch arbitrary
+ * DID documents.
+ */
+export async function verifyPresentedCredentials(
+  jwts: string[],
+  policy: CredentialPolicy,
+  options: VerifyCredentialJWTOptions = {},
+): Promise<PresentedCredential[]> {
+  const issuers = policyRequirements(policy).map((requirements) => requirements.issuer);
+
+  return Promise.all(jwts.map(async (jwt): Promise<PresentedCredential> => {
+    let issuer: string | undefined;
+    try {
+      issuer = decodeJWT<CredentialJWTHeader, CredentialJWTPayload>(jwt).payload.iss;
+      if (issuers.indexOf(issuer) === -1) {
+        return { jwt, issuer, error: 'Credential issuer does not match requirements' };
+      }
+      const { payload } = await verifyCredentialJWT(jwt, options);
+      return { jwt, issuer, payload };
+    } catch (error) {
+      return { jwt, issuer, error: (error as Error).message };
+    }
+  }));
+}
+
+/**
+ * A verified credential and the requirement it satisfied
+ */
+export interface CredentialPolicyMatch {
+  payload: CredentialJWTPayload;
+  requirements: CredentialRequirements;
+}
+
+/**
+ * Enforce a policy against presented credentials, returning which verified
+ * credential satisfied each met requirement. A credential may satisfy more
+ * than one requirement. When the policy is a single requirement its own
+ * failure is thrown, otherwise the failures of every unmet requirement.
+ */
+export function assertCredentialPolicy(
+  policy: CredentialPolicy,
+  presented: PresentedCredential[],
+  userAddress: string,
+  registry: CredentialTypeRegistry = credentialTypes,
+): CredentialPolicyMatch[] {
+  const matched: CredentialPolicyMatch[] = [];
+
+  const evaluation = evaluateCredentialPolicy(policy, (requirements) => {
+    // Prefer the failure of a credential from the required issuer
+    let failure: string | undefined;
+    let fallback: string | undefined;
+    for (const credential of presented) {
+      try {
+        if (!credential.payload) throw new Error(credential.error);
+        validateCredentialClaims(credential.payload, requirements, userAddress, registry);
+        matched.push({ payload: credential.payload, requirements });
+        return null;
+      } catch (error) {
+        const message = (error as Error).message;
+        const issuer = credential.payload ? credential.payload.iss : credential.issuer;
+        if (issuer === requirements.issuer) {
+          failure = failure || message;
+        } else {
+          fallback = fallback || message;
+        }
+      }
+    }
+    return failure || fallback || `No credential presented for ${requirements.credentialType} from ${requirements.issuer}`;
+  });
+
+  if (!evaluation.satisfied) {
+    if (isCredentialRequirement(policy)) {
+      throw new Error(evaluation.failures[0]);
+    }
+    throw new Error(`Credential policy not satisfied: ${evaluation.failures.join('; ')}`);
+  }
+  return matched;
+}
+
+/**
+ * Pick verified credentials that together satisfy the policy, or null if
+ * the holder's credentials cannot satisfy it
+ */
+export function selectCredentialsForPolicy(
+  credentials: VerifiedCredential[],
+  policy: CredentialPolicy,
+  userAddress: string,
+  registry: CredentialTypeRegistry = credentialTypes,
+): VerifiedCredential[] | null {
+  const select = (node: CredentialPolicy): VerifiedCredential[] | null => {
+    if (isCredentialRequirement(node)) {
+      const match = findMatchingCredential(credentials, node, userAddress, registry);
+      return match ? [match] : null;
+    }
+
+    const { children, required } = compositeNode(node);
+    const picked: VerifiedCredential[] = [];
+    let satisfied = 0;
+    for (const child of children) {
+      const selection = select(child);
+      if (selection) {
+        picked.push(...selection);
+        if (++satisfied === required) return picked;
+      }
+    }
+    return null;
+  };
+
+  const selection = select(policy);
+  return selection && selection.filter((credential, index) => selection.indexOf(credential) === index);
+}
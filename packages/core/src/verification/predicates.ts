@@ -0,0 +1,185 @@
+import { ClaimPredicate } from "./types";
+
+const OPERATORS = ['eq', 'in', 'regex', 'gte', 'lte', 'exists', 'before', 'after'];
+
+const hasOwn = (value: object, key: string): boolean => Object.prototype.hasOwnProperty.call(value, key);
+
+/**
+ * Resolve a JSON pointer (RFC 6901) against a document, returning undefined
+ * when any segment is missing
+ */
+export function resolveJSONPointer(document: unknown, pointer: string): unknown {
+  if (pointer === '') return document;
+  if (pointer.charAt(0) !== '/') {
+    throw new Error(`Invalid JSON pointer: ${pointer}`);
+  }
+
+  let current = document;
+  for (const segment of pointer.slice(1).split('/')) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (Array.isArray(current)) {
+      if (!/^(0|[1-9][0-9]*)$/.test(key)) return undefined;
+      current = current[Number(key)];
+    } else if (current !== null && typeof current === 'object' && hasOwn(current, key)) {
+      current = (current as Record<string, unknown>)[key];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * Structural equality for JSON values
+ */
+export function claimValuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length
+      && a.every((item, index) => claimValuesEqual(item, b[index]));
+  }
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length
+    && aKeys.every((key) => hasOwn(b, key)
+      && claimValuesEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/**
+ * Milliseconds since the epoch for an ISO 8601 date or a NumericDate (seconds)
+ */
+const toTime = (value: unknown): number => {
+  if (typeof value === 'number') return value * 1000;
+  if (typeof value === 'string') return Date.parse(value);
+  return NaN;
+};
+
+/**
+ * Human-readable form of a predicate for error messages
+ */
+export function describeClaimPredicate(predicate: ClaimPredicate): string {
+  switch (predicate.op) {
+    case 'in':
+      return `${predicate.path} in ${JSON.stringify(predicate.values)}`;
+    case 'regex':
+      return `${predicate.path} regex /${predicate.pattern}/${predicate.flags || ''}`;
+    case 'exists':
+      return `${predicate.path} ${predicate.value === false ? 'does not exist' : 'exists'}`;
+    default:
+      return `${predicate.path} ${predicate.op} ${JSON.stringify(predicate.value)}`;
+  }
+}
+
+/**
+ * Check that predicates are well formed, so malformed requirements are
+ * rejected before anything is encrypted under them
+ */
+export function validateClaimPredicates(predicates: unknown): void {
+  if (predicates === undefined) return;
+  if (!Array.isArray(predicates)) {
+    throw new Error('Invalid claim predicates: expected an array');
+  }
+
+  for (const predicate of predicates) {
+    if (!predicate || typeof predicate !== 'object') {
+      throw new Error(`Invalid claim predicate: ${JSON.stringify(predicate)}`);
+    }
+    const { path, op } = predicate as { path?: unknown; op?: unknown };
+    const fail = (reason: string) => {
+      throw new Error(`Invalid claim predicate ${JSON.stringify(predicate)}: ${reason}`);
+    };
+
+    if (typeof path !== 'string' || (path !== '' && path.charAt(0) !== '/')) {
+      fail('path must be a JSON pointer');
+    }
+    if (typeof op !== 'string' || OPERATORS.indexOf(op) === -1) {
+      fail(`unknown operator ${op}`);
+    }
+
+    const p = predicate as ClaimPredicate;
+    switch (p.op) {
+      case 'eq':
+        if (!hasOwn(p, 'value')) fail('value is required');
+        break;
+      case 'in':
+        if (!Array.isArray(p.values)) fail('values must be an array');
+        break;
+      case 'regex':
+        if (typeof p.pattern !== 'string') fail('pattern must be a string');
+        if (p.flags !== undefined && !/^[imsu]*$/.test(p.flags)) fail('flags may only contain i, m, s and u');
+        try {
+          new RegExp(p.pattern, p.flags);
+        } catch {
+          fail('pattern is not a valid regular expression');
+        }
+        break;
+      case 'gte':
+      case 'lte':
+        if (typeof p.value !== 'number' || !isFinite(p.value)) fail('value must be a number');
+        break;
+      case 'exists':
+        if (p.value !== undefined && typeof p.value !== 'boolean') fail('value must be a boolean');
+        break;
+      case 'before':
+      case 'after':
+        if (isNaN(toTime(p.value))) fail('value must be an ISO 8601 date or seconds since the epoch');
+        break;
+    }
+  }
+}
+
+/**
+ * Evaluate one predicate against the `vc` claim of a credential. Missing
+ * values fail every operator except `exists: false`.
+ */
+export function evaluateClaimPredicate(vc: unknown, predicate: ClaimPredicate): boolean {
+  const actual = resolveJSONPointer(vc, predicate.path);
+
+  switch (predicate.op) {
+    case 'exists':
+      return (actual !== undefined) === (predicate.value !== false);
+    case 'eq':
+      return actual !== undefined && claimValuesEqual(actual, predicate.value);
+    case 'in':
+      return actual !== undefined && predicate.values.some((value) => claimValuesEqual(actual, value));
+    case 'regex':
+      return typeof actual === 'string' && new RegExp(predicate.pattern, predicate.flags).test(actual);
+    case 'gte':
+      return typeof actual === 'number' && actual >= predicate.value;
+    case 'lte':
+      return typeof actual === 'number' && actual <= predicate.value;
+    case 'before':
+    case 'after': {
+      const time = toTime(actual);
+      const bound = toTime(predicate.value);
+      if (isNaN(time) || isNaN(bound)) return false;
+      return predicate.op === 'before' ? time < bound : time > bound;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Throw on the first predicate the credential does not satisfy
+ */
+export function assertClaimPredicates(vc: unknown, predicates: ClaimPredicate[] = []): void {
+  for (const predicate of predicates) {
+    if (!evaluateClaimPredicate(vc, predicate)) {
+      const actual = resolveJSONPointer(vc, predicate.path);
+      throw new Error(
+        `Claim predicate not satisfied: ${describeClaimPredicate(predicate)}, Found: ${actual === undefined ? 'nothing' : JSON.stringify(actual)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Whether the credential satisfies every predicate
+ */
+export function claimPredicatesSatisfied(vc: unknown, predicates: ClaimPredicate[] = []): boolean {
+  return predicates.every((predicate) => evaluateClaimPredicate(vc, predicate));
+}
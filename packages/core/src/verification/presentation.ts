@@ -0,0 +1,102 @@
+import { verifyCredentialJWT, VerifiedCredential } from "./credential";
+import { pkhSubjectMatchesUser, parseDIDPkhAccount } from "./did/pkh";
+import { VerifyCredentialJWTOptions } from "./eddsa";
+import { decodeJWT } from "./encoding";
+import { assertES256KJWT, UserJWTVerificationOptions } from "./es256k";
+import { ES256KJWTHeader, PresentationJWTPayload } from "./types";
+
+export const VERIFIABLE_PRESENTATION_CONTEXT = "https://www.w3.org/2018/credentials/v1";
+
+export interface PresentationJWTOptions extends UserJWTVerificationOptions {
+  /** The verifier's identifier, which `aud` must equal */
+  audience: string;
+  /** The challenge the verifier issued. Without it any nonce is accepted. */
+  nonce?: string;
+}
+
+export interface VerifyPresentationOptions extends PresentationJWTOptions, VerifyCredentialJWTOptions {}
+
+/**
+ * A VP-JWT whose holder signature, audience and nonce were checked, and whose
+ * credentials were verified and issued to the holder
+ */
+export interface VerifiedPresentation {
+  /** The holder's `did:pkh` DID */
+  holder: string;
+  header: ES256KJWTHeader;
+  payload: PresentationJWTPayload;
+  credentials: VerifiedCredential[];
+}
+
+/**
+ * Verify a VP-JWT was signed by `expectedAddress` for this verifier, throwing
+ * a descriptive error otherwise. The embedded credentials are not verified.
+ */
+export async function assertPresentationJWT(
+  jwt: string,
+  expectedAddress: string,
+  options: PresentationJWTOptions,
+): Promise<{
+  header: ES256KJWTHeader;
+  payload: PresentationJWTPayload;
+}> {
+  const { header, payload } = await assertES256KJWT(jwt, expectedAddress, options);
+  const { vp } = payload as PresentationJWTPayload;
+
+  if (!vp || typeof vp !== 'object' || !Array.isArray(vp.type) || vp.type.indexOf('VerifiablePresentation') === -1) {
+    throw new Error('Presentation JWT has no VerifiablePresentation');
+  }
+  if (!Array.isArray(vp['@context']) || vp['@context'][0] !== VERIFIABLE_PRESENTATION_CONTEXT) {
+    throw new Error('Invalid presentation context');
+  }
+  if (vp.holder !== undefined && vp.holder !== payload.iss) {
+    throw new Error('Presentation holder does not match its signer');
+  }
+  if (
+    !Array.isArray(vp.verifiableCredential) ||
+    vp.verifiableCredential.length === 0 ||
+    vp.verifiableCredential.some((credential) => typeof credential !== 'string')
+  ) {
+    throw new Error('Presentation must embed credential JWTs');
+  }
+
+  if (payload.aud !== options.audience) {
+    throw new Error(`Invalid presentation audience: ${payload.aud}`);
+  }
+  if (options.nonce !== undefined && payload.nonce !== options.nonce) {
+    throw new Error('Presentation nonce does not match the challenge');
+  }
+
+  return { header, payload: payload as PresentationJWTPayload };
+}
+
+/**
+ * Verify a VP-JWT and the credentials it embeds: the holder's signature, the
+ * verifier's `aud` and `nonce`, each credential's issuer signature, validity
+ * and status, and that every credential was issued to the holder
+ */
+export async function verifyPresentation(
+  jwt: string,
+  options: VerifyPresentationOptions,
+): Promise<VerifiedPresentation> {
+  const { payload: unverified } = decodeJWT<ES256KJWTHeader, PresentationJWTPayload>(jwt);
+  let holderAddress: string;
+  try {
+    holderAddress = parseDIDPkhAccount(unverified.iss).address;
+  } catch {
+    throw new Error('Invalid DID format in JWT');
+  }
+
+  const { header, payload } = await assertPresentationJWT(jwt, holderAddress, options);
+
+  const credentials = await Promise.all(
+    payload.vp.verifiableCredential.map((credentialJWT) => verifyCredentialJWT(credentialJWT, options)),
+  );
+  for (const credential of credentials) {
+    if (!pkhSubjectMatchesUser(credential.subject, payload.iss)) {
+      throw new Error(`Presentation credential subject ${credential.subject} is not the holder`);
+    }
+  }
+
+  return { holder: payload.iss, header, payload, credentials };
+}
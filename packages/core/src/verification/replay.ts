@@ -0,0 +1,146 @@
+import { ES256KJWTPayload } from "./types";
+
+/**
+ * Records used JWT nonces so each one is accepted once
+ */
+export interface ReplayStore {
+  /**
+   * Mark `key` as used. Resolves to `false` if it was already used. Entries
+   * may be forgotten after `expiresAt` (seconds since the epoch), once the
+   * JWT carrying them has expired anyway.
+   */
+  consume(key: string, expiresAt: number): Promise<boolean>;
+}
+
+/**
+ * The subset of TinyCloud's `tcw.storage` API the replay store needs
+ */
+export interface TinyCloudReplayStorage {
+  get(key: string): Promise<{ data?: unknown }>;
+  put(key: string, value: string): Promise<unknown>;
+}
+
+/**
+ * The subset of `fetch` the HTTP replay store uses. Inside a Lit Action this
+ * is the runtime's global `fetch`.
+ */
+export type ReplayServiceFetch = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string },
+) => Promise<{ status: number }>;
+
+/**
+ * The `resource` a decryption JWT carries, binding it to one ciphertext
+ */
+export function ciphertextResource(dataToEncryptHash: string): string {
+  return `lit-ciphertext:${dataToEncryptHash}`;
+}
+
+/**
+ * The replay key of a JWT: its `jti` if present, else its `nonce`, scoped to
+ * the signer
+ */
+export function jwtReplayKey(payload: Pick<ES256KJWTPayload, 'iss' | 'nonce' | 'jti'>): string {
+  const id = payload.jti || payload.nonce;
+  if (typeof id !== 'string' || id === '') {
+    throw new Error('JWT has no nonce or jti');
+  }
+  return `${payload.iss}#${id}`;
+}
+
+/**
+ * Consume the JWT's nonce, throwing if it has been used before
+ */
+export async function consumeJWTNonce(
+  store: ReplayStore,
+  payload: Pick<ES256KJWTPayload, 'iss' | 'nonce' | 'jti' | 'exp'>,
+): Promise<void> {
+  if (!(await store.consume(jwtReplayKey(payload), payload.exp))) {
+    throw new Error('JWT nonce has already been used');
+  }
+}
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Keep used nonces in memory, pruning expired entries as new ones arrive.
+ * Only effective within one process.
+ */
+export function createMemoryReplayStore(now: () => number = nowSeconds): ReplayStore {
+  const used = new Map<string, number>();
+
+  return {
+    async consume(key, expiresAt) {
+      const current = now();
+      for (const [usedKey, usedUntil] of used) {
+        if (usedUntil < current) used.delete(usedKey);
+      }
+      if (used.has(key)) return false;
+      used.set(key, expiresAt);
+      return true;
+    },
+  };
+}
+
+/**
+ * Keep used nonces in TinyCloud under `prefix`, so they are shared by every
+ * session of the storage owner. The check and the write are separate
+ * requests: two racing uses of the same nonce may both be accepted.
+ */
+export function createTinyCloudReplayStore(
+  storage: TinyCloudReplayStorage,
+  prefix: string = 'replay/',
+): ReplayStore {
+  return {
+    async consume(key, expiresAt) {
+      const storageKey = `${prefix}${encodeURIComponent(key)}`;
+      const existing = await storage.get(storageKey);
+      if (existing.data !== undefined && existing.data !== null) return false;
+      await storage.put(storageKey, JSON.stringify({ expiresAt }));
+      return true;
+    },
+  };
+}
+
+/**
+ * Keep used nonces in the replay service at `url`, shared by every Lit node
+ * and execution. Each use is a `POST` of `{ key, expiresAt }`, answered with
+ * 201 the first time and 409 after; `createReplayServiceHandler` serves any
+ * store this way.
+ */
+export function createHttpReplayStore(
+  url: string,
+  fetchImpl: ReplayServiceFetch = fetch as unknown as ReplayServiceFetch,
+): ReplayStore {
+  // A plain HTTP answer could be forged to accept a replayed nonce
+  if (!url.startsWith('https://')) {
+    throw new Error(`Replay service is not an https URL: ${url}`);
+  }
+
+  return {
+    async consume(key, expiresAt) {
+      const response = await fetchImpl(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ key, expiresAt }),
+      });
+      if (response.status === 201) return true;
+      if (response.status === 409) return false;
+      throw new Error(`Replay service request failed: ${response.status}`);
+    },
+  };
+}
+
+/**
+ * The store of the replay service a user JWT names in `replay_service`. The
+ * claim is signed, so whoever replays the JWT cannot point it elsewhere.
+ */
+export function jwtReplayStore(
+  payload: Pick<ES256KJWTPayload, 'replay_service'>,
+  fetchImpl?: ReplayServiceFetch,
+): ReplayStore {
+  if (!payload.replay_service) {
+    throw new Error('JWT names no replay service to consume its nonce in');
+  }
+  return createHttpReplayStore(payload.replay_service, fetchImpl);
+}
@@ -0,0 +1,74 @@
+import { canonicalizeJSON, hashCanonicalJSON } from "./jcs";
+import { CredentialPolicy } from "./types";
+
+/**
+ * The plaintext that is actually encrypted: the secret together with the
+ * hash of the credential requirements it was published under
+ */
+export interface SealedSecret {
+  credentialRequirementsHash: string;
+  secret: string;
+  /** `did:pkh` of the publisher allowed to rekey it, if any */
+  publisher?: string;
+}
+
+/**
+ * Canonical JSON form of credential requirements (RFC 8785)
+ */
+export const canonicalizeCredentialRequirements = (
+  requirements: CredentialPolicy,
+): string => canonicalizeJSON(requirements);
+
+/**
+ * SHA-256 (hex) of the canonical credential requirements
+ */
+export const hashCredentialRequirements = (
+  requirements: CredentialPolicy,
+): Promise<string> => hashCanonicalJSON(requirements);
+
+/**
+ * Commit the credential requirements hash, and the publisher if the secret
+ * may be rekeyed, into the data that gets encrypted
+ */
+export const sealSecret = (secret: string, credentialRequirementsHash: string, publisher?: string): string => {
+  const sealed: SealedSecret = { credentialRequirementsHash, secret };
+  if (publisher) {
+    sealed.publisher = publisher;
+  }
+  return JSON.stringify(sealed);
+};
+
+/**
+ * Recover the secret from decrypted data, refusing to release it unless it
+ * was sealed under these exact requirements
+ */
+export const unsealSecret = async (
+  sealedSecret: string,
+  requirements: CredentialPolicy,
+): Promise<string> => (await openSealedSecret(sealedSecret, requirements)).secret;
+
+/**
+ * `unsealSecret`, keeping the publisher it was sealed with
+ */
+export const openSealedSecret = async (
+  sealedSecret: string,
+  requirements: CredentialPolicy,
+): Promise<SealedSecret> => {
+  let sealed: SealedSecret | null;
+  try {
+    sealed = JSON.parse(sealedSecret);
+  } catch {
+    sealed = null;
+  }
+  if (!sealed || typeof sealed.credentialRequirementsHash !== "string") {
+    throw new Error("Ciphertext is not bound to credential requirements");
+  }
+
+  const requirementsHash = await hashCredentialRequirements(requirements);
+  if (sealed.credentialRequirementsHash !== requirementsHash) {
+    throw new Error(
+      "Credential requirements do not match the requirements bound to the ciphertext",
+    );
+  }
+  return sealed;
+};
@@ -0,0 +1,145 @@
+import { VerifyCredentialJWTOptions, verifyJWTWithEdDSA } from "./eddsa";
+import { base64urlDecode, decodeJWT } from "./encoding";
+import { CredentialJWTHeader, CredentialJWTPayload, CredentialStatusEntry } from "./types";
+
+/**
+ * Status entry types and the status list credential type each points to
+ */
+const STATUS_LIST_TYPES: Record<string, string> = {
+  BitstringStatusListEntry: 'BitstringStatusListCredential',
+  StatusList2021Entry: 'StatusList2021Credential',
+};
+
+/**
+ * Purposes that make a credential unusable when their bit is set
+ */
+const STATUS_FAILURES: Record<string, string> = {
+  revocation: 'Credential has been revoked',
+  suspension: 'Credential has been suspended',
+};
+
+/**
+ * Gunzip with the runtime's `DecompressionStream` (browsers, Node and the
+ * Lit Action runtime all provide it)
+ */
+async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new DecompressionStream('gzip');
+  const writer = stream.writable.getWriter();
+  writer.write(new Uint8Array(data)).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Decode a status list's `encodedList`: GZIP-compressed, base64url encoded,
+ * with a multibase `u` prefix for Bitstring Status Lists
+ */
+export async function decodeStatusList(encodedList: string): Promise<Uint8Array> {
+  const encoded = encodedList.startsWith('u') ? encodedList.slice(1) : encodedList;
+  try {
+    return await gunzip(base64urlDecode(encoded));
+  } catch {
+    throw new Error('Invalid status list encoding');
+  }
+}
+
+/**
+ * Read the bit at `index`, counting from the most significant bit of the
+ * first byte
+ */
+export function statusListBit(bitstring: Uint8Array, index: number): boolean {
+  if (index >= bitstring.length * 8) {
+    throw new Error(`Status list index ${index} is out of range`);
+  }
+  return (bitstring[index >> 3] & (0x80 >> (index % 8))) !== 0;
+}
+
+const credentialStatusEntries = (payload: CredentialJWTPayload): CredentialStatusEntry[] => {
+  const status = payload.vc?.credentialStatus;
+  if (status === undefined) return [];
+  return (Array.isArray(status) ? status : [status]) as CredentialStatusEntry[];
+};
+
+/**
+ * Fetch a status list credential (served as a VC-JWT) and verify it was
+ * signed by the credential's issuer for the entry's purpose
+ */
+async function fetchStatusList(
+  entry: CredentialStatusEntry,
+  issuer: string,
+  options: VerifyCredentialJWTOptions,
+): Promise<Uint8Array> {
+  const fetchImpl = options.fetch || fetch;
+  const response = await fetchImpl(entry.statusListCredential);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch status list credential: ${response.status}`);
+  }
+
+  const jwt = (await response.text()).trim();
+  if (decodeJWT<CredentialJWTHeader, CredentialJWTPayload>(jwt).payload.iss !== issuer) {
+    throw new Error('Status list credential issuer does not match credential issuer');
+  }
+  const { payload } = await verifyJWTWithEdDSA(jwt, issuer, options);
+
+  const vc = payload.vc;
+  if (!vc || !(vc.type || []).includes(STATUS_LIST_TYPES[entry.type])) {
+    throw new Error(`Status list credential is not a ${STATUS_LIST_TYPES[entry.type]}`);
+  }
+  const subject = vc.credentialSubject as { statusPurpose?: string | string[]; encodedList?: unknown } | undefined;
+  const purposes = subject && subject.statusPurpose !== undefined ? ([] as string[]).concat(subject.statusPurpose) : [];
+  if (purposes.indexOf(entry.statusPurpose) === -1) {
+    throw new Error(`Status list credential does not cover ${entry.statusPurpose}`);
+  }
+  if (typeof subject?.encodedList !== 'string') {
+    throw new Error('Status list credential has no encodedList');
+  }
+
+  return decodeStatusList(subject.encodedList);
+}
+
+/**
+ * Reject a verified credential whose `credentialStatus` marks it revoked or
+ * suspended. Only `BitstringStatusListEntry` and `StatusList2021Entry`
+ * entries are supported; other purposes (e.g. `message`) are not checked.
+ */
+export async function checkCredentialStatus(
+  payload: CredentialJWTPayload,
+  options: VerifyCredentialJWTOptions = {},
+): Promise<void> {
+  for (const entry of credentialStatusEntries(payload)) {
+    if (!entry || !STATUS_LIST_TYPES[entry.type]) {
+      throw new Error(`Unsupported credential status type: ${entry && entry.type}`);
+    }
+    if (!STATUS_FAILURES[entry.statusPurpose]) continue;
+    if (entry.statusSize !== undefined && entry.statusSize !== 1) {
+      throw new Error(`Unsupported status size: ${entry.statusSize}`);
+    }
+
+    const index = Number(entry.statusListIndex);
+    if (!Number.isInteger(index) || index < 0 || typeof entry.statusListCredential !== 'string') {
+      throw new Error('Invalid credential status entry');
+    }
+
+    const bitstring = await fetchStatusList(entry, payload.iss, options);
+    if (statusListBit(bitstring, index)) {
+      throw new Error(STATUS_FAILURES[entry.statusPurpose]);
+    }
+  }
+}
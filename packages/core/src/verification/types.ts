@@ -0,0 +1,179 @@
+export interface CredentialRequirements {
+  issuer: string;
+  credentialType: string;
+  claims?: {
+    githubHandle?: string | string[];
+    requiredEvidence?: string[];
+    [claim: string]: unknown;
+  };
+  /** Conditions on the credential, all of which must hold */
+  predicates?: ClaimPredicate[];
+  /** Reject credentials issued more than this many seconds ago */
+  maxCredentialAge?: number;
+  /** Reject credentials issued less than this many seconds ago */
+  minCredentialAge?: number;
+  /**
+   * Chains the user's account may be on: CAIP-2 chain ids (`eip155:137`) or
+   * whole namespaces (`solana`). Any chain if omitted.
+   */
+  chains?: string[];
+}
+
+/**
+ * Composition of credential requirements: a single requirement, or `allOf`,
+ * `anyOf` and `atLeast` (n of) nodes over nested policies
+ */
+export type CredentialPolicy =
+  | CredentialRequirements
+  | { allOf: CredentialPolicy[] }
+  | { anyOf: CredentialPolicy[] }
+  | { atLeast: number; of: CredentialPolicy[] };
+
+/**
+ * JSON value a claim predicate compares against
+ */
+export type ClaimValue = string | number | boolean | null | ClaimValue[] | { [key: string]: ClaimValue };
+
+/**
+ * A condition on the value at a JSON pointer (RFC 6901) into the `vc` claim,
+ * e.g. `/credentialSubject/tier` or `/evidence/handle`
+ */
+export type ClaimPredicate =
+  | { path: string; op: 'eq'; value: ClaimValue }
+  | { path: string; op: 'in'; values: ClaimValue[] }
+  | { path: string; op: 'regex'; pattern: string; flags?: string }
+  | { path: string; op: 'gte' | 'lte'; value: number }
+  | { path: string; op: 'exists'; value?: boolean }
+  /** Dates as ISO 8601 strings or seconds since the epoch */
+  | { path: string; op: 'before' | 'after'; value: string | number };
+
+/**
+ * How a user JWT is signed: a raw secp256k1 signature over the keccak256 of
+ * the signing input, or a wallet's EIP-191 / EIP-712 signature of it for EVM
+ * accounts; a Solana wallet's Ed25519 signature (`EdDSA`) or a Bitcoin
+ * wallet's BIP-137 signed message of it for other `did:pkh` accounts
+ */
+export type UserJWTAlgorithm = "ES256K" | "EIP191" | "EIP712" | "EdDSA" | "BIP137";
+
+export interface ES256KJWTHeader {
+  alg: UserJWTAlgorithm;
+  typ: "JWT";
+  kid: string;
+}
+
+export interface ES256KJWTPayload {
+  iss: string;
+  sub: string;
+  aud: string;
+  exp: number;
+  iat: number;
+  nonce: string;
+  jti?: string;
+  purpose: "encrypt" | "decrypt" | "rekey";
+  /** `ciphertextResource(dataToEncryptHash)` for decryption and rekey JWTs */
+  resource: string;
+  /** `hashCredentialRequirements` of the policy the JWT was signed for */
+  credential_requirements_hash?: string;
+  /** HTTPS URL of the replay service the Lit Actions consume the nonce in */
+  replay_service?: string;
+}
+
+/**
+ * A W3C `VerifiablePresentation` of credential JWTs
+ */
+export interface VerifiablePresentation {
+  '@context': string[];
+  type: string[];
+  /** The holder's DID, the JWT `iss` if absent */
+  holder?: string;
+  verifiableCredential: string[];
+}
+
+/**
+ * A VP-JWT: a user JWT signed by the holder's `did:pkh` key that embeds the
+ * credentials it presents. `aud` and `nonce` are the verifier's.
+ */
+export interface PresentationJWTPayload extends ES256KJWTPayload {
+  vp: VerifiablePresentation;
+}
+
+export interface CredentialJWTHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+export interface CredentialJWTPayload {
+  iss: string;
+  sub?: string;
+  iat?: number;
+  nbf?: number;
+  exp?: number;
+  jti?: string;
+  vc?: {
+    type?: string[];
+    issuer?: string;
+    issuanceDate?: string;
+    validFrom?: string;
+    validUntil?: string;
+    expirationDate?: string;
+    credentialSubject?: { id?: string; [claim: string]: unknown };
+    evidence?: { handle?: string; [claim: string]: unknown };
+    credentialStatus?: CredentialStatusEntry | CredentialStatusEntry[];
+    [member: string]: unknown;
+  };
+  [claim: string]: unknown;
+}
+
+/**
+ * A `credentialStatus` entry pointing into a status list credential
+ */
+export interface CredentialStatusEntry {
+  id?: string;
+  type: 'BitstringStatusListEntry' | 'StatusList2021Entry';
+  statusPurpose: 'revocation' | 'suspension' | string;
+  /** Bit position in the list, as a decimal string */
+  statusListIndex: string;
+  /** URL of the status list credential */
+  statusListCredential: string;
+  statusSize?: number;
+}
+
+export interface PublicKeyJwk {
+  kty: string;
+  crv?: string;
+  x: string;
+  y?: string;
+  kid?: string;
+  [member: string]: unknown;
+}
+
+export interface VerificationMethod {
+  id: string;
+  type: string;
+  controller?: string;
+  publicKeyJwk?: PublicKeyJwk;
+  publicKeyMultibase?: string;
+  blockchainAccountId?: string;
+  [member: string]: unknown;
+}
+
+export interface DIDDocument {
+  id?: string;
+  controller?: string | string[];
+  verificationMethod?: VerificationMethod[];
+  authentication?: (string | VerificationMethod)[];
+  assertionMethod?: (string | VerificationMethod)[];
+  [member: string]: unknown;
+}
+
+/**
+ * The subset of `fetch` used to resolve DID documents and status lists.
+ * Inside a Lit Action this is the runtime's global `fetch`.
+ */
+export type FetchLike = (url: string) => Promise<{
+  ok: boolean;
+  status: number;
+  json(): Promise<any>;
+  text(): Promise<string>;
+}>;
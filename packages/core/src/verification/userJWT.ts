@@ -0,0 +1,124 @@
+import { base64urlDecode, base64urlEncode } from "./encoding";
+import { parseDIDPkhAccount } from "./did/pkh";
+import { ES256KJWTHeader, ES256KJWTPayload, UserJWTAlgorithm } from "./types";
+
+/**
+ * Wallet signature schemes for user JWTs, all over the JWS signing input:
+ * EIP-191 `personal_sign` or EIP-712 typed data for EVM accounts, Ed25519 for
+ * Solana accounts and a BIP-137 signed message for Bitcoin accounts
+ */
+export type WalletSignatureScheme = "eip191" | "eip712" | "ed25519" | "bip137";
+
+export const USER_JWT_EIP712_DOMAIN = {
+  name: "Lit Credential Encryption",
+  version: "1",
+};
+
+export const USER_JWT_EIP712_TYPES = {
+  UserJWT: [{ name: "signingInput", type: "string" }],
+};
+
+/**
+ * EIP-712 typed data a wallet signs for a user JWT
+ */
+export interface UserJWTTypedData {
+  domain: typeof USER_JWT_EIP712_DOMAIN;
+  types: typeof USER_JWT_EIP712_TYPES;
+  primaryType: "UserJWT";
+  message: { signingInput: string };
+}
+
+/**
+ * A browser wallet that can sign user JWTs, e.g.
+ * `{ address, signMessage: (message) => signMessageAsync({ message }) }` with
+ * wagmi or `walletClient.signMessage` with viem. It needs `signMessage` for
+ * EIP-191 and `signTypedData` for EIP-712. A Solana wallet sets `chain` and
+ * `signBytes`; a Bitcoin wallet sets `chain` and a `signMessage` returning a
+ * base64 BIP-137 signature.
+ */
+export interface UserJWTSigner {
+  address: string;
+  /** CAIP-2 chain id of the account, `eip155:1` by default */
+  chain?: string;
+  signMessage?(message: string): Promise<string>;
+  signTypedData?(typedData: UserJWTTypedData): Promise<string>;
+  /** An Ed25519 signature of the message bytes, as Solana wallets' `signMessage` returns */
+  signBytes?(message: Uint8Array): Promise<Uint8Array>;
+}
+
+const SCHEME_ALGORITHMS: Record<WalletSignatureScheme, UserJWTAlgorithm> = {
+  eip191: "EIP191",
+  eip712: "EIP712",
+  ed25519: "EdDSA",
+  bip137: "BIP137",
+};
+
+/**
+ * The scheme a signer uses when none is asked for
+ */
+const defaultScheme = (signer: UserJWTSigner, namespace: string): WalletSignatureScheme => {
+  if (namespace === "solana") return "ed25519";
+  if (namespace === "bip122") return "bip137";
+  return signer.signMessage ? "eip191" : "eip712";
+};
+
+export function userJWTTypedData(signingInput: string): UserJWTTypedData {
+  return {
+    domain: USER_JWT_EIP712_DOMAIN,
+    types: USER_JWT_EIP712_TYPES,
+    primaryType: "UserJWT",
+    message: { signingInput },
+  };
+}
+
+const hexToBytes = (hex: string): Uint8Array => {
+  const digits = hex.startsWith("0x") ? hex.slice(2) : hex;
+  if (!/^[0-9a-fA-F]*$/.test(digits) || digits.length % 2 !== 0) {
+    throw new Error("Wallet signature is not hex encoded");
+  }
+  const bytes = new Uint8Array(digits.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+/**
+ * Sign a complete user JWT payload with a browser wallet. The signature is
+ * the wallet's signature bytes, base64url encoded.
+ */
+export async function signUserJWTWithWallet(
+  signer: UserJWTSigner,
+  payload: ES256KJWTPayload,
+  scheme: WalletSignatureScheme = defaultScheme(signer, parseDIDPkhAccount(payload.iss).namespace),
+): Promise<string> {
+  const header: ES256KJWTHeader = {
+    alg: SCHEME_ALGORITHMS[scheme],
+    typ: "JWT",
+    kid: `${payload.iss}#controller`,
+  };
+  const signingInput = `${base64urlEncode(JSON.stringify(header))}.${base64urlEncode(JSON.stringify(payload))}`;
+
+  let signatureBytes: Uint8Array;
+  if (scheme === "eip191") {
+    if (!signer.signMessage) throw new Error("Signer cannot sign EIP-191 messages");
+    signatureBytes = hexToBytes(await signer.signMessage(signingInput));
+  } else if (scheme === "eip712") {
+    if (!signer.signTypedData) throw new Error("Signer cannot sign EIP-712 typed data");
+    signatureBytes = hexToBytes(await signer.signTypedData(userJWTTypedData(signingInput)));
+  } else if (scheme === "ed25519") {
+    if (!signer.signBytes) throw new Error("Signer cannot sign Ed25519 messages");
+    signatureBytes = await signer.signBytes(new TextEncoder().encode(signingInput));
+  } else {
+    if (!signer.signMessage) throw new Error("Signer cannot sign BIP-137 messages");
+    // Bitcoin wallets return standard base64, which base64urlDecode also reads
+    signatureBytes = base64urlDecode(await signer.signMessage(signingInput));
+  }
+
+  // 65 bytes from an externally owned EVM account; smart accounts (ERC-1271,
+  // ERC-6492) return signatures of their own format
+  if (signatureBytes.length === 0) {
+    throw new Error("Wallet signature is empty");
+  }
+  return `${signingInput}.${base64urlEncode(signatureBytes)}`;
+}
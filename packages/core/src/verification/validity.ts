@@ -0,0 +1,110 @@
+import { CredentialJWTPayload } from "./types";
+
+/** Clock skew tolerated on validity dates unless configured otherwise */
+export const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+
+/** Upper bound on the configurable skew, so callers cannot disable expiry */
+export const MAX_CLOCK_SKEW_SECONDS = 300;
+
+export interface CredentialValidityOptions {
+  /** Seconds of clock skew tolerated on both ends of the validity period */
+  clockSkewSeconds?: number;
+  /** Current time in milliseconds, defaults to `Date.now()` */
+  now?: number;
+}
+
+/**
+ * When a credential is valid, in seconds since the epoch. Either end may be
+ * open.
+ */
+export interface CredentialValidityPeriod {
+  validFrom?: number;
+  validUntil?: number;
+}
+
+export type CredentialValidityStatus = 'valid' | 'expiring' | 'expired' | 'not-yet-valid';
+
+/**
+ * The configured clock skew, checked against `MAX_CLOCK_SKEW_SECONDS`
+ */
+export function resolveClockSkew(options: CredentialValidityOptions = {}): number {
+  const skew = options.clockSkewSeconds === undefined ? DEFAULT_CLOCK_SKEW_SECONDS : options.clockSkewSeconds;
+  if (typeof skew !== 'number' || !(skew >= 0 && skew <= MAX_CLOCK_SKEW_SECONDS)) {
+    throw new Error(`Clock skew must be between 0 and ${MAX_CLOCK_SKEW_SECONDS} seconds`);
+  }
+  return skew;
+}
+
+const currentTime = (options: CredentialValidityOptions): number =>
+  Math.floor((options.now === undefined ? Date.now() : options.now) / 1000);
+
+const parseDate = (value: unknown, field: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (isNaN(time)) {
+    throw new Error(`Invalid credential ${field}: ${JSON.stringify(value)}`);
+  }
+  return Math.floor(time / 1000);
+};
+
+const latest = (...times: (number | undefined)[]) =>
+  times.reduce<number | undefined>((a, b) => (b === undefined ? a : a === undefined ? b : Math.max(a, b)), undefined);
+
+const earliest = (...times: (number | undefined)[]) =>
+  times.reduce<number | undefined>((a, b) => (b === undefined ? a : a === undefined ? b : Math.min(a, b)), undefined);
+
+/**
+ * The validity period of a credential: the narrowest of the JWT's `nbf`/`exp`
+ * and the VC's `validFrom` and `validUntil` (VC 2.0) or `expirationDate`
+ * (VC 1.1)
+ */
+export function credentialValidityPeriod(payload: CredentialJWTPayload): CredentialValidityPeriod {
+  const vc = payload.vc || {};
+  return {
+    validFrom: latest(payload.nbf, parseDate(vc.validFrom, 'validFrom')),
+    validUntil: earliest(
+      payload.exp,
+      parseDate(vc.validUntil, 'validUntil'),
+      parseDate(vc.expirationDate, 'expirationDate'),
+    ),
+  };
+}
+
+/**
+ * Reject a credential outside its validity period, allowing for clock skew
+ */
+export function assertCredentialValidity(
+  payload: CredentialJWTPayload,
+  options: CredentialValidityOptions = {},
+): CredentialValidityPeriod {
+  const skew = resolveClockSkew(options);
+  const now = currentTime(options);
+  const period = credentialValidityPeriod(payload);
+
+  if (period.validUntil !== undefined && period.validUntil + skew < now) {
+    throw new Error('Credential expired');
+  }
+  if (period.validFrom !== undefined && period.validFrom - skew > now) {
+    throw new Error('Credential not yet valid');
+  }
+  return period;
+}
+
+/**
+ * Where `now` falls in a credential's validity period. Clock skew only
+ * widens what `assertCredentialValidity` accepts: a credential past its
+ * `validUntil` is `expired` all the same. Credentials expiring within
+ * `expiringWithinSeconds` (7 days by default) are `expiring`.
+ */
+export function credentialValidityStatus(
+  payload: CredentialJWTPayload,
+  options: CredentialValidityOptions & { expiringWithinSeconds?: number } = {},
+): CredentialValidityStatus {
+  const now = currentTime(options);
+  const { validFrom, validUntil } = credentialValidityPeriod(payload);
+  if (validUntil !== undefined && validUntil < now) return 'expired';
+  if (validFrom !== undefined && validFrom > now) return 'not-yet-valid';
+
+  const expiringWithin = options.expiringWithinSeconds === undefined ? 7 * 24 * 60 * 60 : options.expiringWithinSeconds;
+  return validUntil !== undefined && validUntil - now <= expiringWithin ? 'expiring' : 'valid';
+}
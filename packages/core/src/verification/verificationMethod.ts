@@ -0,0 +1,98 @@
+import { base64urlEncode } from "./encoding";
+import { base58btcDecode } from "./did/multibase";
+import { multikeyToJwk } from "./did/key";
+import { DIDDocument, PublicKeyJwk, VerificationMethod } from "./types";
+
+export type VerificationRelationship = 'assertionMethod' | 'authentication';
+
+/**
+ * Expand a relative DID URL (`#key-1`) against the DID it belongs to
+ */
+export function absolutizeDIDUrl(didUrl: string, did: string): string {
+  return didUrl.startsWith('#') ? `${did}${didUrl}` : didUrl;
+}
+
+/**
+ * Select the verification method a JWT `kid` refers to.
+ *
+ * The kid must name exactly one method of the issuer's DID document, either
+ * as an absolute DID URL or a `#fragment` relative to the issuer DID, and that
+ * method must be listed under the given verification relationship. Every
+ * method listed there is accepted, so an issuer can keep several keys active
+ * while rotating. Without a kid the issuer must have a single such key.
+ */
+export function selectVerificationMethod(
+  didDocument: DIDDocument,
+  issuerDID: string,
+  kid: string | undefined,
+  relationship: VerificationRelationship = 'assertionMethod',
+): VerificationMethod {
+  const did = didDocument.id || issuerDID;
+
+  const methods = new Map<string, VerificationMethod>();
+  for (const method of didDocument.verificationMethod || []) {
+    methods.set(absolutizeDIDUrl(method.id, did), method);
+  }
+
+  // Relationships may reference methods by id or embed them
+  const authorized = new Map<string, VerificationMethod | undefined>();
+  for (const entry of didDocument[relationship] || []) {
+    if (typeof entry === 'string') {
+      const id = absolutizeDIDUrl(entry, did);
+      authorized.set(id, methods.get(id));
+    } else {
+      authorized.set(absolutizeDIDUrl(entry.id, did), entry);
+    }
+  }
+
+  if (kid === undefined) {
+    if (authorized.size !== 1) {
+      throw new Error(`JWT kid is required: ${issuerDID} has ${authorized.size} ${relationship} keys`);
+    }
+    kid = Array.from(authorized.keys())[0];
+  }
+
+  const keyId = absolutizeDIDUrl(kid, issuerDID);
+  if (!keyId.startsWith(`${issuerDID}#`)) {
+    throw new Error(`Key ${kid} is not controlled by ${issuerDID}`);
+  }
+  if (!authorized.has(keyId)) {
+    if (methods.has(keyId)) {
+      throw new Error(`Key ${keyId} is not authorized for ${relationship}`);
+    }
+    throw new Error(`Key ${keyId} not found in DID document`);
+  }
+
+  const method = authorized.get(keyId);
+  if (!method) {
+    throw new Error(`Key ${keyId} not found in DID document`);
+  }
+  if (method.controller !== undefined && method.controller !== did) {
+    throw new Error(`Key ${keyId} is not controlled by ${issuerDID}`);
+  }
+  return method;
+}
+
+/**
+ * Public key of a verification method as a JWK
+ */
+export function verificationMethodToJwk(method: VerificationMethod): PublicKeyJwk {
+  switch (method.type) {
+    case 'JsonWebKey2020':
+      if (method.publicKeyJwk) return method.publicKeyJwk;
+      break;
+    case 'Ed25519VerificationKey2018':
+      if (method.publicKeyJwk) return method.publicKeyJwk;
+      if (typeof method.publicKeyBase58 === 'string') {
+        return { kty: 'OKP', crv: 'Ed25519', x: base64urlEncode(base58btcDecode(method.publicKeyBase58)) };
+      }
+      break;
+    case 'Ed25519VerificationKey2020':
+    case 'Multikey':
+      if (method.publicKeyMultibase) return multikeyToJwk(method.publicKeyMultibase);
+      break;
+    default:
+      throw new Error(`Unsupported verification method type: ${method.type}`);
+  }
+  throw new Error(`Verification method ${method.id} has no public key`);
+}
@@ -0,0 +1,135 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import { runEnhancedCredentialAction, LitActionsRuntime } from "../src/action/index.js";
+import {
+  canonicalizeJSON,
+  hashCanonicalJSON,
+  hashCredentialRequirements,
+  sealSecret,
+  CredentialRequirements,
+} from "../src/verification/index.js";
+import { createDecryptionJWT, parseJWT } from "../src/jwt.js";
+import {
+  TestIssuer,
+  createMockFetch,
+  didWebDocumentUrl,
+  mockReplayServiceRoute,
+  MOCK_REPLAY_SERVICE_URL,
+} from "../src/testing/index.js";
+
+describe("Canonical JSON (RFC 8785)", () => {
+  describe("Serialization", () => {
+    it("should serialize numbers in their shortest ECMAScript form", () => {
+      expect(canonicalizeJSON([333333333.33333329, 1e30, 4.5, 2e-3, 0.000000000000000000000000001, -0]))
+        .to.equal("[333333333.3333333,1e+30,4.5,0.002,1e-27,0]");
+    });
+
+    it("should sort members by UTF-16 code units", () => {
+      const value = {
+        "\u20ac": "Euro Sign",
+        "\r": "Carriage Return",
+        "\ufb33": "Hebrew Letter Dalet With Dagesh",
+        "1": "One",
+        "\ud83d\ude00": "Emoji: Grinning Face",
+        "\u0080": "Control",
+        "\u00f6": "Latin Small Letter O With Diaeresis",
+      };
+
+      const order = ["\r", "1", "\u0080", "\u00f6", "\u20ac", "\ud83d\ude00", "\ufb33"] as const;
+
+      expect(canonicalizeJSON(value)).to.equal(
+        `{${order.map((key) => `${JSON.stringify(key)}:${JSON.stringify(value[key])}`).join(",")}}`,
+      );
+    });
+
+    it("should escape strings as RFC 8785 requires", () => {
+      expect(canonicalizeJSON({ literals: [null, true, false], string: "\u20ac$\u000f\nA'B\"\\\\\"/" }))
+        .to.equal('{"literals":[null,true,false],"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}');
+    });
+
+    it("should drop undefined members and ignore key order", () => {
+      expect(canonicalizeJSON({ b: 1, a: { d: undefined, c: [undefined] } })).to.equal('{"a":{"c":[null]},"b":1}');
+    });
+
+    for (const [label, value, error] of [
+      ["non-finite numbers", { n: Infinity }, "Cannot canonicalize the number Infinity"],
+      ["lone surrogates", { s: "\ud800" }, "Cannot canonicalize a string with a lone surrogate"],
+      ["bigints", { n: BigInt(1) }, "Cannot canonicalize a value of type bigint"],
+    ] as const) {
+      it(`should reject ${label}`, () => {
+        expect(() => canonicalizeJSON(value)).to.throw(error);
+      });
+    }
+
+    it("should hash the canonical form", async () => {
+      expect(await hashCanonicalJSON({ b: 2, a: 1 })).to.equal(await hashCanonicalJSON({ a: 1, b: 2 }));
+    });
+  });
+
+  describe("Credential requirements in the user JWT", () => {
+    const issuer = new TestIssuer("did:web:issuer.test");
+    const userWallet = ethers.Wallet.createRandom();
+    const userAddress = userWallet.address;
+    const fetch = createMockFetch({ [didWebDocumentUrl(issuer.did)]: issuer.didDocument, ...mockReplayServiceRoute() });
+    const credentialJWT = issuer.issueCredentialJWT({
+      subject: `did:pkh:eip155:1:${userAddress.toLowerCase()}`,
+      evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+    });
+    const signed: CredentialRequirements = {
+      issuer: issuer.did,
+      credentialType: "GitHubVerification",
+      claims: undefined,
+    };
+    let savedFetch: typeof globalThis.fetch;
+
+    before(() => {
+      savedFetch = globalThis.fetch;
+      globalThis.fetch = fetch as typeof globalThis.fetch;
+    });
+
+    after(() => {
+      globalThis.fetch = savedFetch;
+    });
+
+    const run = async (credentialRequirements: CredentialRequirements) => {
+      const sealed = sealSecret("canonical", await hashCredentialRequirements(credentialRequirements));
+      return runEnhancedCredentialAction({
+        accessControlConditions: [],
+        ciphertext: "ciphertext",
+        dataToEncryptHash: "hash",
+        credentialJWT,
+        credentialRequirements,
+        userAddress,
+        userSignedJWT: await createDecryptionJWT(userWallet, signed, "hash", undefined, MOCK_REPLAY_SERVICE_URL),
+      }, {
+        Actions: {
+          decryptAndCombine: async () => sealed,
+          setResponse: () => undefined,
+        } as LitActionsRuntime,
+      });
+    };
+
+    it("should carry the requirements hash instead of the requirements", async () => {
+      const { payload } = parseJWT(await createDecryptionJWT(userWallet, signed, "hash"));
+
+      expect(payload.credential_requirements_hash).to.equal(await hashCredentialRequirements(signed));
+      expect(payload).to.not.have.property("credential_requirements");
+    });
+
+    it("should accept the same requirements in another key order without claims", async () => {
+      const response = await run({ credentialType: "GitHubVerification", issuer: issuer.did });
+
+      expect(response.success).to.be.true;
+    });
+
+    it("should reject different requirements", async () => {
+      const response = await run({ issuer: issuer.did, credentialType: "GitHubVerification", claims: { githubHandle: "octocat" } });
+
+      expect(response.success).to.be.false;
+      if (!response.success) {
+        expect(response.error).to.equal("JWT credential requirements do not match operation requirements");
+      }
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  CapacityCreditManager,
+  CapacityCreditManagerOptions,
+  CapacityCreditStore,
+  CredentialEncryptionClient,
+  createFileCapacityCreditStore,
+  createMemoryCapacityCreditStore,
+} from "../src/index.js";
+import { utcMidnightAfter } from "../src/capacityCredits.js";
+import { litActionCode } from "../src/litAction.js";
+import { CredentialRequirements, ParsedCredential } from "../src/utils.js";
+import {
+  MockLitNodeClient,
+  MockLitContracts,
+  createMockLitClientFactory,
+  createMockFetch,
+  TestIssuer,
+  didWebDocumentUrl,
+} from "../src/testing/index.js";
+
+describe("Capacity Credits", () => {
+  const payer = ethers.Wallet.createRandom();
+  const silent = { log: () => undefined, error: () => undefined };
+  const noon = Date.UTC(2026, 9, 19, 12);
+  let litContracts: MockLitContracts;
+  let now: number;
+  let store: CapacityCreditStore;
+
+  const createManager = (options: Partial<CapacityCreditManagerOptions> = {}) =>
+    new CapacityCreditManager({
+      litClients: createMockLitClientFactory(new MockLitNodeClient(), litContracts),
+      store,
+      requestsPerKilosecond: 10,
+      daysUntilUTCMidnightExpiration: 1,
+      logger: silent,
+      now: () => now,
+      ...options,
+    });
+
+  const eventually = async (condition: () => Promise<boolean>) => {
+    for (let attempt = 0; attempt < 200; attempt++) {
+      if (await condition()) return;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    throw new Error("Condition not met in time");
+  };
+
+  beforeEach(() => {
+    litContracts = new MockLitContracts();
+    now = noon;
+    store = createMemoryCapacityCreditStore();
+  });
+
+  describe("utcMidnightAfter", () => {
+    it("should expire at the UTC midnight after the given days", () => {
+      expect(utcMidnightAfter(noon, 1)).to.equal(Date.UTC(2026, 9, 20));
+      expect(utcMidnightAfter(Date.UTC(2026, 11, 31, 23, 59), 2)).to.equal(Date.UTC(2027, 0, 2));
+    });
+  });
+
+  describe("CapacityCreditManager", () => {
+    it("should mint once and reuse the token", async () => {
+      const manager = createManager();
+
+      const tokenIds = await Promise.all([manager.acquire(payer), manager.acquire(payer), manager.acquire(payer)]);
+
+      expect(tokenIds).to.deep.equal(["1", "1", "1"]);
+      expect(litContracts.mintedCapacityTokenIds).to.deep.equal(["1"]);
+      const stats = await manager.stats(payer.address);
+      expect(stats.minted).to.equal(1);
+      expect(stats.acquired).to.equal(3);
+      expect(stats.tokens).to.deep.equal([
+        {
+          tokenId: "1",
+          owner: payer.address,
+          requestsPerKilosecond: 10,
+          mintedAt: noon,
+          expiresAt: Date.UTC(2026, 9, 20),
+          uses: 3,
+        },
+      ]);
+    });
+
+    it("should rotate through a pool of tokens", async () => {
+      const manager = createManager({ poolSize: 3 });
+
+      const tokenIds = [];
+      for (let i = 0; i < 6; i++) {
+        tokenIds.push(await manager.acquire(payer));
+      }
+
+      expect(tokenIds).to.deep.equal(["1", "2", "3", "1", "2", "3"]);
+      expect(litContracts.mintedCapacityTokenIds).to.have.length(3);
+    });
+
+    it("should renew a token before it expires at midnight", async () => {
+      const manager = createManager();
+
+      expect(await manager.acquire(payer)).to.equal("1");
+      now = Date.UTC(2026, 9, 19, 22, 59);
+      expect(await manager.acquire(payer)).to.equal("1");
+
+      now = Date.UTC(2026, 9, 19, 23, 30);
+      expect(await manager.acquire(payer)).to.equal("2");
+      const [, renewed] = (await manager.stats(payer.address)).tokens;
+      expect(renewed.expiresAt).to.equal(Date.UTC(2026, 9, 21));
+
+      now = Date.UTC(2026, 9, 20, 0, 1);
+      expect((await manager.stats(payer.address)).tokens.map((record) => record.tokenId)).to.deep.equal(["2"]);
+      expect((await store.load()).map((record) => record.tokenId)).to.deep.equal(["1", "2"]);
+      await manager.acquire(payer);
+      expect((await store.load()).map((record) => record.tokenId)).to.deep.equal(["2"]);
+    });
+
+    it("should renew tokens ahead of expiry in the background", async () => {
+      const manager = createManager();
+      expect(await manager.acquire(payer)).to.equal("1");
+
+      try {
+        manager.startRenewal(payer);
+        await eventually(async () => (await manager.stats(payer.address)).nextRenewalAt === Date.UTC(2026, 9, 19, 23));
+        manager.stopRenewal();
+        expect((await manager.stats(payer.address)).nextRenewalAt).to.be.undefined;
+
+        // Idle until the token is due, with nothing acquiring it
+        now = Date.UTC(2026, 9, 19, 23, 30);
+        manager.startRenewal(payer);
+        await eventually(async () => litContracts.mintedCapacityTokenIds.length === 2);
+        await eventually(async () => (await manager.stats(payer.address)).nextRenewalAt === Date.UTC(2026, 9, 20, 23));
+      } finally {
+        manager.stopRenewal();
+      }
+
+      const stats = await manager.stats(payer.address);
+      expect(stats.tokens.map((record) => record.tokenId)).to.deep.equal(["1", "2"]);
+      expect(stats.acquired).to.equal(1);
+      expect(await manager.acquire(payer)).to.equal("2");
+    });
+
+    it("should report failed renewals and retry them", async () => {
+      const manager = createManager({ renewalRetryMs: 10 });
+      const mint = litContracts.mintCapacityCreditsNFT.bind(litContracts);
+      litContracts.mintCapacityCreditsNFT = async () => {
+        throw new Error("Insufficient funds");
+      };
+
+      try {
+        manager.startRenewal(payer);
+        await eventually(async () => (await manager.stats(payer.address)).renewalFailures > 0);
+        const failed = await manager.stats(payer.address);
+        expect(failed.lastRenewalFailure).to.deep.equal({ message: "Insufficient funds", at: noon });
+        expect(failed.nextRenewalAt).to.equal(noon + 10);
+        expect(failed.tokens).to.deep.equal([]);
+
+        litContracts.mintCapacityCreditsNFT = mint;
+        await eventually(async () => (await manager.stats(payer.address)).tokens.length === 1);
+      } finally {
+        manager.stopRenewal();
+      }
+
+      const renewed = await manager.stats(payer.address);
+      expect(renewed.lastRenewalFailure).to.be.undefined;
+      expect(renewed.renewalFailures).to.be.at.least(1);
+      expect(renewed.minted).to.equal(1);
+    });
+
+    it("should report a failed renewal when acquiring", async () => {
+      const manager = createManager();
+      litContracts.mintCapacityCreditsNFT = async () => {
+        throw new Error("Insufficient funds");
+      };
+
+      try {
+        await manager.acquire(payer);
+        expect.fail("Should have thrown an error");
+      } catch (error: any) {
+        expect(error.message).to.equal("Insufficient funds");
+      }
+      const stats = await manager.stats(payer.address);
+      expect(stats.renewalFailures).to.equal(1);
+      expect(stats.lastRenewalFailure).to.deep.equal({ message: "Insufficient funds", at: noon });
+    });
+
+    it("should only hand out the payer's own tokens", async () => {
+      const manager = createManager();
+      const otherPayer = ethers.Wallet.createRandom();
+
+      expect(await manager.acquire(payer)).to.equal("1");
+      expect(await manager.acquire(otherPayer)).to.equal("2");
+      expect((await manager.stats(otherPayer.address)).tokens.map((record) => record.tokenId)).to.deep.equal(["2"]);
+    });
+
+    it("should keep minted tokens across runs in a file", async () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "capacity-credits-"));
+      try {
+        store = createFileCapacityCreditStore(path.join(tmpDir, "credits", "capacity.json"));
+
+        expect(await createManager().acquire(payer)).to.equal("1");
+        expect(await createManager().acquire(payer)).to.equal("1");
+        expect(litContracts.mintedCapacityTokenIds).to.have.length(1);
+        expect((await store.load())[0].uses).to.equal(2);
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should refuse an empty pool", () => {
+      expect(() => createManager({ poolSize: 0 })).to.throw("Invalid capacity credit pool size: 0");
+    });
+  });
+
+  describe("In a client", () => {
+    const issuer = new TestIssuer("did:web:issuer.test");
+    const userWallet = ethers.Wallet.createRandom();
+    const routes = { [didWebDocumentUrl(issuer.did)]: issuer.didDocument };
+    const credentialRequirements: CredentialRequirements = { issuer: issuer.did, credentialType: "GitHubVerification" };
+    const savedFetch = globalThis.fetch;
+
+    before(() => {
+      globalThis.fetch = createMockFetch(routes) as typeof globalThis.fetch;
+    });
+
+    after(() => {
+      globalThis.fetch = savedFetch;
+    });
+
+    const storedCredentials: ParsedCredential[] = [
+      issuer.issueCredentialRecord({
+        subject: `did:pkh:eip155:1:${userWallet.address.toLowerCase()}`,
+        evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+      }),
+    ].map(({ jwt, subject, parsed }) => ({ jwt, subject, ...parsed }));
+
+    it("should reuse stored tokens across clients", async () => {
+      const litNodeClient = new MockLitNodeClient({ pinnedActions: [litActionCode], fetch: createMockFetch(routes) });
+      const createClient = () =>
+        new CredentialEncryptionClient({
+          payer,
+          capacityCredits: { delegationUses: "1" },
+          capacityCreditStore: store,
+          credentials: { load: async () => storedCredentials },
+          trustedIssuers: [issuer.did],
+          logger: silent,
+          litClients: createMockLitClientFactory(litNodeClient, litContracts),
+        });
+
+      for (let i = 0; i < 3; i++) {
+        const client = createClient();
+        const encryptedData = await client.encrypt("secret", credentialRequirements);
+        expect(((await client.decrypt(encryptedData, userWallet.address)).response as any).secret).to.equal("secret");
+        await client.disconnect();
+      }
+
+      expect(litContracts.mintedCapacityTokenIds).to.have.length(1);
+      expect((await createClient().capacityCreditStats()).tokens[0].uses).to.equal(3);
+    });
+
+    it("should renew the pool while connected", async () => {
+      const litNodeClient = new MockLitNodeClient({ pinnedActions: [litActionCode], fetch: createMockFetch(routes) });
+      const client = new CredentialEncryptionClient({
+        payer,
+        capacityCreditStore: store,
+        credentials: { load: async () => storedCredentials },
+        trustedIssuers: [issuer.did],
+        logger: silent,
+        litClients: createMockLitClientFactory(litNodeClient, litContracts),
+      });
+
+      await client.decrypt(await client.encrypt("secret", credentialRequirements), userWallet.address);
+      expect((await client.capacityCreditStats()).nextRenewalAt).to.be.a("number");
+
+      await client.disconnect();
+      expect((await client.capacityCreditStats()).nextRenewalAt).to.be.undefined;
+    });
+  });
+});
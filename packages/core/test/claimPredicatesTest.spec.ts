@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import {
+  assertClaimPredicates,
+  createCredentialTypeRegistry,
+  createDIDResolver,
+  evaluateClaimPredicate,
+  findMatchingCredential,
+  resolveJSONPointer,
+  validateClaimPredicates,
+  validateCredentialClaims,
+  verifyCredentials,
+  ClaimPredicate,
+  CredentialRequirements,
+} from "../src/verification/index.js";
+import { TestIssuer, createMockFetch, didWebDocumentUrl } from "../src/testing/index.js";
+
+describe("Claim Predicates", () => {
+  const vc = {
+    type: ["VerifiableCredential", "GitHubVerification"],
+    issuanceDate: "2025-01-15T00:00:00.000Z",
+    credentialSubject: { id: "did:pkh:eip155:1:0xabc", "a/b": 1, "m~n": 2, followers: 42 },
+    evidence: { handle: "octocat", orgs: ["github", "tinycloud"] },
+  };
+
+  const holds = (predicate: ClaimPredicate) => evaluateClaimPredicate(vc, predicate);
+
+  describe("JSON pointers", () => {
+    it("should resolve RFC 6901 pointers", () => {
+      expect(resolveJSONPointer(vc, "")).to.equal(vc);
+      expect(resolveJSONPointer(vc, "/evidence/handle")).to.equal("octocat");
+      expect(resolveJSONPointer(vc, "/evidence/orgs/1")).to.equal("tinycloud");
+      expect(resolveJSONPointer(vc, "/credentialSubject/a~1b")).to.equal(1);
+      expect(resolveJSONPointer(vc, "/credentialSubject/m~0n")).to.equal(2);
+    });
+
+    it("should return undefined for missing or inherited members", () => {
+      expect(resolveJSONPointer(vc, "/evidence/missing")).to.be.undefined;
+      expect(resolveJSONPointer(vc, "/evidence/orgs/01")).to.be.undefined;
+      expect(resolveJSONPointer(vc, "/evidence/toString")).to.be.undefined;
+    });
+
+    it("should reject pointers without a leading slash", () => {
+      expect(() => resolveJSONPointer(vc, "evidence/handle")).to.throw("Invalid JSON pointer: evidence/handle");
+    });
+  });
+
+  describe("Operators", () => {
+    it("eq", () => {
+      expect(holds({ path: "/evidence/handle", op: "eq", value: "octocat" })).to.be.true;
+      expect(holds({ path: "/evidence/orgs", op: "eq", value: ["github", "tinycloud"] })).to.be.true;
+      expect(holds({ path: "/evidence/handle", op: "eq", value: "hubot" })).to.be.false;
+    });
+
+    it("in", () => {
+      expect(holds({ path: "/evidence/handle", op: "in", values: ["hubot", "octocat"] })).to.be.true;
+      expect(holds({ path: "/evidence/handle", op: "in", values: ["hubot"] })).to.be.false;
+    });
+
+    it("regex", () => {
+      expect(holds({ path: "/evidence/handle", op: "regex", pattern: "^OCTO", flags: "i" })).to.be.true;
+      expect(holds({ path: "/evidence/handle", op: "regex", pattern: "^hub" })).to.be.false;
+      expect(holds({ path: "/credentialSubject/followers", op: "regex", pattern: "42" })).to.be.false;
+    });
+
+    it("gte and lte", () => {
+      expect(holds({ path: "/credentialSubject/followers", op: "gte", value: 42 })).to.be.true;
+      expect(holds({ path: "/credentialSubject/followers", op: "lte", value: 41 })).to.be.false;
+      expect(holds({ path: "/evidence/handle", op: "gte", value: 0 })).to.be.false;
+    });
+
+    it("exists", () => {
+      expect(holds({ path: "/evidence/handle", op: "exists" })).to.be.true;
+      expect(holds({ path: "/evidence/email", op: "exists" })).to.be.false;
+      expect(holds({ path: "/evidence/email", op: "exists", value: false })).to.be.true;
+    });
+
+    it("before and after", () => {
+      expect(holds({ path: "/issuanceDate", op: "after", value: "2025-01-01T00:00:00Z" })).to.be.true;
+      expect(holds({ path: "/issuanceDate", op: "before", value: "2025-01-01T00:00:00Z" })).to.be.false;
+      expect(holds({ path: "/issuanceDate", op: "before", value: Date.parse("2025-02-01") / 1000 })).to.be.true;
+    });
+
+    it("should fail every operator on missing values", () => {
+      expect(holds({ path: "/missing", op: "eq", value: null })).to.be.false;
+      expect(holds({ path: "/missing", op: "in", values: [null] })).to.be.false;
+      expect(holds({ path: "/missing", op: "after", value: 0 })).to.be.false;
+    });
+  });
+
+  describe("Validation", () => {
+    it("should accept well-formed predicates", () => {
+      expect(() => validateClaimPredicates([
+        { path: "/evidence/handle", op: "regex", pattern: "^[a-z]+$" },
+        { path: "/issuanceDate", op: "after", value: "2025-01-01" },
+      ])).to.not.throw();
+    });
+
+    for (const [label, predicate, reason] of [
+      ["relative paths", { path: "evidence", op: "exists" }, "path must be a JSON pointer"],
+      ["unknown operators", { path: "/a", op: "contains", value: 1 }, "unknown operator contains"],
+      ["invalid patterns", { path: "/a", op: "regex", pattern: "(" }, "pattern is not a valid regular expression"],
+      ["stateful regex flags", { path: "/a", op: "regex", pattern: "a", flags: "g" }, "flags may only contain i, m, s and u"],
+      ["non-numeric bounds", { path: "/a", op: "gte", value: "1" }, "value must be a number"],
+      ["invalid dates", { path: "/a", op: "before", value: "yesterday" }, "value must be an ISO 8601 date or seconds since the epoch"],
+    ] as const) {
+      it(`should reject ${label}`, () => {
+        expect(() => validateClaimPredicates([predicate])).to.throw(reason);
+      });
+    }
+
+    it("should validate predicates with the rest of the requirements", () => {
+      expect(() => createCredentialTypeRegistry().validateRequirements({
+        issuer: "did:web:issuer.test",
+        credentialType: "GitHubVerification",
+        predicates: [{ path: "/evidence/handle", op: "regex", pattern: "[" }],
+      })).to.throw("pattern is not a valid regular expression");
+    });
+
+    it("should report the unmet predicate", () => {
+      expect(() => assertClaimPredicates(vc, [{ path: "/evidence/handle", op: "in", values: ["hubot"] }]))
+        .to.throw('Claim predicate not satisfied: /evidence/handle in ["hubot"], Found: "octocat"');
+    });
+  });
+
+  describe("Shared evaluation", () => {
+    const issuer = new TestIssuer("did:web:issuer.test");
+    const userAddress = ethers.Wallet.createRandom().address;
+    const subject = `did:pkh:eip155:1:${userAddress.toLowerCase()}`;
+    const requirements: CredentialRequirements = {
+      issuer: issuer.did,
+      credentialType: "GitHubVerification",
+      predicates: [
+        { path: "/evidence/handle", op: "regex", pattern: "^octo" },
+        { path: "/credentialSubject/followers", op: "gte", value: 10 },
+      ],
+    };
+
+    const issue = (followers: number) => issuer.issueCredentialRecord({
+      subject,
+      credentialSubject: { followers },
+      evidence: { handle: "octocat" },
+    });
+
+    it("should filter matches host-side", async () => {
+      const credentials = await verifyCredentials([issue(3), issue(12)], {
+        resolver: createDIDResolver({ fetch: createMockFetch({ [didWebDocumentUrl(issuer.did)]: issuer.didDocument }) }),
+      });
+
+      expect(findMatchingCredential(credentials, requirements, userAddress)?.credentialSubject.followers).to.equal(12);
+    });
+
+    it("should enforce predicates in the Lit Action claim checks", () => {
+      const payload = (followers: number) => JSON.parse(Buffer.from(issue(followers).jwt.split(".")[1], "base64url").toString());
+
+      expect(validateCredentialClaims(payload(12), requirements, userAddress)).to.be.true;
+      expect(() => validateCredentialClaims(payload(3), requirements, userAddress))
+        .to.throw("Claim predicate not satisfied: /credentialSubject/followers gte 10, Found: 3");
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import { classifyActionError } from "../src/action/index.js";
+import {
+  assertCredentialAge,
+  createCredentialTypeRegistry,
+  createDIDResolver,
+  credentialIssuedAt,
+  findMatchingCredential,
+  validateCredentialClaims,
+  verifyCredentials,
+  CredentialJWTPayload,
+  CredentialRequirements,
+} from "../src/verification/index.js";
+import { TestIssuer, createMockFetch, didWebDocumentUrl } from "../src/testing/index.js";
+
+describe("Credential Age", () => {
+  const now = Date.parse("2025-06-01T12:00:00Z");
+  const secondsAgo = (seconds: number) => Math.floor(now / 1000) - seconds;
+  const dateAgo = (seconds: number) => new Date(now - seconds * 1000).toISOString();
+
+  const requirements = (constraints: Partial<CredentialRequirements>): CredentialRequirements => ({
+    issuer: "did:web:issuer.test",
+    credentialType: "GitHubVerification",
+    ...constraints,
+  });
+
+  describe("Issuance time", () => {
+    it("should prefer iat, then nbf, then issuanceDate", () => {
+      const vc = { issuanceDate: dateAgo(300) };
+
+      expect(credentialIssuedAt({ iss: "did:web:issuer.test", iat: secondsAgo(100), nbf: secondsAgo(200), vc }))
+        .to.equal(secondsAgo(100));
+      expect(credentialIssuedAt({ iss: "did:web:issuer.test", nbf: secondsAgo(200), vc })).to.equal(secondsAgo(200));
+      expect(credentialIssuedAt({ iss: "did:web:issuer.test", vc })).to.equal(secondsAgo(300));
+      expect(credentialIssuedAt({ iss: "did:web:issuer.test", vc: {} })).to.be.undefined;
+    });
+
+    it("should reject an unparseable issuanceDate", () => {
+      expect(() => credentialIssuedAt({ iss: "did:web:issuer.test", vc: { issuanceDate: "last year" } }))
+        .to.throw('Invalid credential issuanceDate: "last year"');
+    });
+  });
+
+  describe("Constraints", () => {
+    const payload = (issuedSecondsAgo: number): CredentialJWTPayload =>
+      ({ iss: "did:web:issuer.test", iat: secondsAgo(issuedSecondsAgo), vc: {} });
+
+    it("should reject credentials older than maxCredentialAge", () => {
+      expect(() => assertCredentialAge(payload(3600), requirements({ maxCredentialAge: 600 }), now))
+        .to.throw("Credential is too old: issued 3600s ago, maxCredentialAge is 600s");
+      expect(() => assertCredentialAge(payload(600), requirements({ maxCredentialAge: 600 }), now)).to.not.throw();
+    });
+
+    it("should reject credentials newer than minCredentialAge", () => {
+      expect(() => assertCredentialAge(payload(60), requirements({ minCredentialAge: 86400 }), now))
+        .to.throw("Credential is too new: issued 60s ago, minCredentialAge is 86400s");
+      expect(() => assertCredentialAge(payload(90000), requirements({ minCredentialAge: 86400 }), now)).to.not.throw();
+    });
+
+    it("should accept a credential inside a freshness and maturity window", () => {
+      expect(() => assertCredentialAge(payload(7200), requirements({ minCredentialAge: 3600, maxCredentialAge: 86400 }), now))
+        .to.not.throw();
+    });
+
+    it("should reject credentials without an issuance time when an age is required", () => {
+      expect(() => assertCredentialAge({ iss: "did:web:issuer.test", vc: {} }, requirements({ maxCredentialAge: 600 }), now))
+        .to.throw("Credential issuance time is unknown: no iat, nbf or issuanceDate");
+      expect(() => assertCredentialAge({ iss: "did:web:issuer.test", vc: {} }, requirements({}), now)).to.not.throw();
+    });
+
+    it("should classify age failures with their own error types", () => {
+      expect(classifyActionError("Credential is too old: issued 3600s ago, maxCredentialAge is 600s")).to.equal("credential_too_old");
+      expect(classifyActionError("Credential is too new: issued 60s ago, minCredentialAge is 86400s")).to.equal("credential_too_new");
+      expect(classifyActionError("Credential issuance time is unknown: no iat, nbf or issuanceDate"))
+        .to.equal("credential_issuance_unknown");
+    });
+  });
+
+  describe("Validation", () => {
+    const registry = createCredentialTypeRegistry();
+
+    for (const [label, constraints, error] of [
+      ["negative ages", { maxCredentialAge: -1 }, "Invalid maxCredentialAge: -1. Ages are non-negative numbers of seconds."],
+      ["non-numeric ages", { minCredentialAge: "1d" as unknown as number }, "Invalid minCredentialAge: 1d."],
+      ["empty windows", { minCredentialAge: 600, maxCredentialAge: 60 }, "minCredentialAge exceeds maxCredentialAge"],
+      ["the replaced minIssuanceAge claim", { claims: { minIssuanceAge: 600 } }, "minIssuanceAge has been replaced by maxCredentialAge and minCredentialAge"],
+    ] as const) {
+      it(`should reject ${label}`, () => {
+        expect(() => registry.validateRequirements(requirements(constraints))).to.throw(error);
+      });
+    }
+  });
+
+  describe("Host and Lit Action agreement", () => {
+    const issuer = new TestIssuer("did:web:issuer.test");
+    const userAddress = ethers.Wallet.createRandom().address;
+    const subject = `did:pkh:eip155:1:${userAddress.toLowerCase()}`;
+    const fetch = createMockFetch({ [didWebDocumentUrl(issuer.did)]: issuer.didDocument });
+
+    // Issued two hours ago: nbf and issuanceDate agree, as the TestIssuer derives one from the other
+    const record = issuer.issueCredentialRecord({
+      subject,
+      issuanceDate: new Date(Date.now() - 2 * 3600 * 1000).toISOString(),
+      evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+    });
+
+    for (const [label, constraints, accepted] of [
+      ["a fresh enough credential", { maxCredentialAge: 3 * 3600 }, true],
+      ["a stale credential", { maxCredentialAge: 3600 }, false],
+      ["a mature enough credential", { minCredentialAge: 3600 }, true],
+      ["an immature credential", { minCredentialAge: 3 * 3600 }, false],
+    ] as const) {
+      it(`should agree on ${label}`, async () => {
+        const required = { ...requirements(constraints), issuer: issuer.did };
+        const [credential] = await verifyCredentials([record], { resolver: createDIDResolver({ fetch }) });
+
+        const hostAccepted = findMatchingCredential([credential], required, userAddress) !== null;
+        let actionAccepted = true;
+        try {
+          validateCredentialClaims(credential.payload, required, userAddress);
+        } catch {
+          actionAccepted = false;
+        }
+
+        expect(hostAccepted).to.equal(accepted);
+        expect(actionAccepted).to.equal(accepted);
+      });
+    }
+  });
+});
@@ -0,0 +1,182 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import {
+  CredentialEncryptionClient,
+  CredentialEncryptionClientConfig,
+  disconnectEnvironmentClient,
+  encryptToCredential,
+} from "../src/index.js";
+import { litActionCode } from "../src/litAction.js";
+import { litActionCode as enhancedLitActionCode } from "../src/litActionEnhanced.js";
+import { CredentialRequirements, ParsedCredential } from "../src/utils.js";
+import {
+  MockLitNodeClient,
+  MockLitContracts,
+  createMockLitClientFactory,
+  createMockFetch,
+  TestIssuer,
+  didWebDocumentUrl,
+  mockReplayServiceRoute,
+  MOCK_REPLAY_SERVICE_URL,
+} from "../src/testing/index.js";
+
+describe("CredentialEncryptionClient", () => {
+  const testSecret = "Configured, not read from the environment";
+  const issuer = new TestIssuer("did:web:issuer.test");
+  const userWallet = ethers.Wallet.createRandom();
+  const routes = { [didWebDocumentUrl(issuer.did)]: issuer.didDocument, ...mockReplayServiceRoute() };
+
+  const credentialRequirements: CredentialRequirements = {
+    issuer: issuer.did,
+    credentialType: "GitHubVerification",
+    claims: { githubHandle: "octocat" },
+  };
+
+  const storedCredentials: ParsedCredential[] = [
+    issuer.issueCredentialRecord({
+      subject: `did:pkh:eip155:1:${userWallet.address.toLowerCase()}`,
+      evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+    }),
+  ].map(({ jwt, subject, parsed }) => ({ jwt, subject, ...parsed }));
+
+  const savedEnv = { ...process.env };
+  const savedFetch = globalThis.fetch;
+  let litNodeClient: MockLitNodeClient;
+  let litContracts: MockLitContracts;
+  let errors: unknown[];
+
+  const createClient = (config: Partial<CredentialEncryptionClientConfig> = {}) =>
+    new CredentialEncryptionClient({
+      payer: ethers.Wallet.createRandom(),
+      credentials: { load: async () => storedCredentials },
+      trustedIssuers: [issuer.did],
+      logger: { log: () => undefined, error: (error) => errors.push(error) },
+      litClients: createMockLitClientFactory(litNodeClient, litContracts),
+      replayService: MOCK_REPLAY_SERVICE_URL,
+      ...config,
+    });
+
+  before(() => {
+    globalThis.fetch = createMockFetch(routes) as typeof globalThis.fetch;
+    for (const name of ["ETHEREUM_PRIVATE_KEY", "LIT_CAPACITY_CREDIT_TOKEN_ID", "CREDENTIALS_PATH", "TRUSTED_ISSUERS"]) {
+      delete process.env[name];
+    }
+  });
+
+  beforeEach(() => {
+    litNodeClient = new MockLitNodeClient({
+      pinnedActions: [litActionCode, enhancedLitActionCode],
+      fetch: createMockFetch(routes),
+    });
+    litContracts = new MockLitContracts();
+    errors = [];
+  });
+
+  after(async () => {
+    await disconnectEnvironmentClient();
+    globalThis.fetch = savedFetch;
+    process.env = savedEnv;
+  });
+
+  it("should encrypt and decrypt with no environment variables", async () => {
+    const client = createClient();
+    const encryptedData = await client.encrypt(testSecret, credentialRequirements);
+    const result = await client.decrypt(encryptedData, userWallet.address);
+    const response = result.response as any;
+    await client.disconnect();
+
+    expect(response.success).to.be.true;
+    expect(response.secret).to.equal(testSecret);
+    expect(litNodeClient.ready).to.be.false;
+  });
+
+  it("should present the stored credentials with a user JWT", async () => {
+    const client = createClient();
+    const encryptedData = await client.encryptWithJWT(testSecret, credentialRequirements, userWallet);
+    const result = await client.decryptWithJWT(encryptedData, userWallet);
+    const response = result.response as any;
+
+    expect(encryptedData.userChain).to.equal("eip155:1");
+    expect(response.success).to.be.true;
+    expect(response.secret).to.equal(testSecret);
+  });
+
+  it("should decrypt with one user JWT on every node of the network", async () => {
+    litNodeClient = new MockLitNodeClient({
+      pinnedActions: [litActionCode, enhancedLitActionCode],
+      fetch: createMockFetch(routes),
+      nodes: 3,
+    });
+    const client = createClient();
+    const encryptedData = await client.encryptWithJWT(testSecret, credentialRequirements, userWallet);
+    const result = await client.decryptWithJWT(encryptedData, userWallet);
+    const response = result.response as any;
+
+    expect(response.success).to.be.true;
+    expect(response.secret).to.equal(testSecret);
+  });
+
+  it("should not sign a decryption JWT without a replay service", async () => {
+    const encryptedData = await createClient().encryptWithJWT(testSecret, credentialRequirements, userWallet);
+
+    try {
+      await createClient({ replayService: undefined }).decryptWithJWT(encryptedData, userWallet);
+      expect.fail("Should have thrown an error");
+    } catch (error: any) {
+      expect(error.message).to.equal("No replay service is configured to consume user JWT nonces in");
+    }
+  });
+
+  it("should use the configured capacity credit instead of minting one", async () => {
+    await createClient({ capacityCredits: { tokenId: "42" } }).encrypt(testSecret, credentialRequirements);
+
+    expect(litContracts.mintedCapacityTokenIds).to.be.empty;
+  });
+
+  it("should only ask for the payer when signing a session", async () => {
+    let payerRequests = 0;
+    const client = createClient({
+      payer: () => {
+        payerRequests++;
+        return ethers.Wallet.createRandom();
+      },
+      trustedIssuers: ["did:web:other.test"],
+    });
+
+    try {
+      await client.encrypt(testSecret, credentialRequirements);
+      expect.fail("Should have thrown an error");
+    } catch (error: any) {
+      expect(error.message).to.equal(`Untrusted issuer: ${issuer.did}. Trusted issuers: did:web:other.test`);
+    }
+    expect(payerRequests).to.equal(0);
+    expect(errors).to.have.length(1);
+
+    const encryptedData = await createClient().encrypt(testSecret, credentialRequirements);
+    await client.decrypt(encryptedData, userWallet.address);
+    await client.decrypt(encryptedData, userWallet.address);
+    expect(payerRequests).to.equal(1);
+  });
+
+  it("should refuse credentials missing from the configured store", async () => {
+    const client = createClient();
+    const encryptedData = await client.encrypt(testSecret, credentialRequirements);
+
+    try {
+      await createClient({ credentials: { load: async () => [] } }).decrypt(encryptedData, userWallet.address);
+      expect.fail("Should have thrown an error");
+    } catch (error: any) {
+      expect(error.message).to.equal("No matching credential found for the specified requirements");
+    }
+  });
+
+  it("should keep the module-level functions reading the environment at call time", async () => {
+    try {
+      await encryptToCredential(testSecret, credentialRequirements, userWallet.address);
+      expect.fail("Should have thrown an error");
+    } catch (error: any) {
+      expect(error.message).to.include("TRUSTED_ISSUERS");
+    }
+  });
+});
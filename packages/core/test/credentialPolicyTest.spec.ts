@@ -0,0 +1,202 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import { runCredentialAction, LitActionsRuntime } from "../src/action/index.js";
+import {
+  createDIDResolver,
+  evaluateCredentialPolicy,
+  hashCredentialRequirements,
+  policyRequirements,
+  sealSecret,
+  selectCredentialsForPolicy,
+  validateCredentialPolicy,
+  verifyCredentials,
+  CredentialPolicy,
+  CredentialRequirements,
+} from "../src/verification/index.js";
+import { TestIssuer, createMockFetch, didWebDocumentUrl } from "../src/testing/index.js";
+
+describe("Credential Policies", () => {
+  const testSecret = "Released only when the whole policy holds";
+  const githubIssuer = new TestIssuer("did:web:github-issuer.test");
+  const premiumIssuer = new TestIssuer("did:web:issuer.tinycloud.xyz");
+  const userAddress = ethers.Wallet.createRandom().address;
+  const subject = `did:pkh:eip155:1:${userAddress.toLowerCase()}`;
+  const fetch = createMockFetch({
+    [didWebDocumentUrl(githubIssuer.did)]: githubIssuer.didDocument,
+    [didWebDocumentUrl(premiumIssuer.did)]: premiumIssuer.didDocument,
+  });
+
+  const github: CredentialRequirements = {
+    issuer: githubIssuer.did,
+    credentialType: "GitHubVerification",
+    claims: {},
+  };
+  const premium: CredentialRequirements = {
+    issuer: premiumIssuer.did,
+    credentialType: "PremiumSubscription",
+    claims: { tier: "pro" },
+  };
+  const premiumPolicy: CredentialPolicy = { allOf: [github, premium] };
+
+  const githubRecord = githubIssuer.issueCredentialRecord({
+    subject,
+    evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+  });
+  const premiumRecord = premiumIssuer.issueCredentialRecord({
+    subject,
+    credentialType: "PremiumSubscription",
+    credentialSubject: { tier: "pro" },
+  });
+
+  describe("Validation", () => {
+    const accept = () => undefined;
+
+    it("should accept nested policies", () => {
+      const seen: string[] = [];
+      validateCredentialPolicy(
+        { anyOf: [premiumPolicy, { atLeast: 1, of: [github] }] },
+        (requirements) => { seen.push(requirements.credentialType); },
+      );
+
+      expect(seen).to.deep.equal(["GitHubVerification", "PremiumSubscription", "GitHubVerification"]);
+    });
+
+    for (const [label, policy, reason] of [
+      ["unknown nodes", { oneOf: [] }, "expected a requirement or an allOf, anyOf or atLeast node"],
+      ["several operators in one node", { allOf: [{}], anyOf: [{}] }, "expected a requirement or an allOf, anyOf or atLeast node"],
+      ["empty children", { anyOf: [] }, "anyOf must be a non-empty array"],
+      ["thresholds above the number of children", { atLeast: 3, of: [{}, {}] }, "atLeast must be an integer between 1 and 2"],
+      ["fractional thresholds", { atLeast: 1.5, of: [{}, {}] }, "atLeast must be an integer between 1 and 2"],
+    ] as const) {
+      it(`should reject ${label}`, () => {
+        expect(() => validateCredentialPolicy(policy, accept)).to.throw(reason);
+      });
+    }
+  });
+
+  describe("Evaluation", () => {
+    const check = (held: string[]) => (requirements: CredentialRequirements) =>
+      held.indexOf(requirements.credentialType) === -1 ? `missing ${requirements.credentialType}` : null;
+
+    const third: CredentialRequirements = { issuer: "did:web:other.test", credentialType: "Other" };
+
+    it("should require every child of allOf", () => {
+      expect(evaluateCredentialPolicy(premiumPolicy, check(["GitHubVerification", "PremiumSubscription"])).satisfied).to.be.true;
+      expect(evaluateCredentialPolicy(premiumPolicy, check(["GitHubVerification"]))).to.deep.equal({
+        satisfied: false,
+        failures: ["missing PremiumSubscription"],
+      });
+    });
+
+    it("should require one child of anyOf", () => {
+      expect(evaluateCredentialPolicy({ anyOf: [github, premium] }, check(["PremiumSubscription"])).satisfied).to.be.true;
+      expect(evaluateCredentialPolicy({ anyOf: [github, premium] }, check([])).failures).to.have.length(2);
+    });
+
+    it("should count satisfied children for atLeast", () => {
+      const policy: CredentialPolicy = { atLeast: 2, of: [github, premium, third] };
+
+      expect(evaluateCredentialPolicy(policy, check(["GitHubVerification", "Other"])).satisfied).to.be.true;
+      expect(evaluateCredentialPolicy(policy, check(["Other"])).satisfied).to.be.false;
+    });
+
+    it("should list requirements depth first", () => {
+      expect(policyRequirements({ anyOf: [premiumPolicy, third] })).to.deep.equal([github, premium, third]);
+    });
+  });
+
+  describe("Selecting credentials", () => {
+    const verify = (records: typeof githubRecord[]) =>
+      verifyCredentials(records, { resolver: createDIDResolver({ fetch }) });
+
+    it("should pick one credential per required leaf", async () => {
+      const credentials = await verify([githubRecord, premiumRecord]);
+      const selection = selectCredentialsForPolicy(credentials, premiumPolicy, userAddress);
+
+      expect(selection?.map((credential) => credential.issuer)).to.deep.equal([githubIssuer.did, premiumIssuer.did]);
+    });
+
+    it("should return null when the holder cannot satisfy the policy", async () => {
+      const credentials = await verify([githubRecord]);
+
+      expect(selectCredentialsForPolicy(credentials, premiumPolicy, userAddress)).to.be.null;
+      expect(selectCredentialsForPolicy(credentials, { anyOf: [premium, github] }, userAddress)).to.have.length(1);
+    });
+  });
+
+  describe("Lit Action", () => {
+    let savedFetch: typeof globalThis.fetch;
+
+    before(() => {
+      savedFetch = globalThis.fetch;
+      globalThis.fetch = fetch as typeof globalThis.fetch;
+    });
+
+    after(() => {
+      globalThis.fetch = savedFetch;
+    });
+
+    const run = async (credentialJWTs: string[]) => {
+      const sealed = sealSecret(testSecret, await hashCredentialRequirements(premiumPolicy));
+      const runtime = {
+        decryptCalls: 0,
+        Actions: {
+          decryptAndCombine: async () => {
+            runtime.decryptCalls++;
+            return sealed;
+          },
+          setResponse: () => undefined,
+        } as LitActionsRuntime,
+      };
+      const response = await runCredentialAction({
+        accessControlConditions: [],
+        ciphertext: "ciphertext",
+        dataToEncryptHash: "hash",
+        credentialJWTs,
+        credentialRequirements: premiumPolicy,
+        userAddress,
+      }, runtime);
+      return { response, decryptCalls: runtime.decryptCalls };
+    };
+
+    it("should release the secret when every credential is presented", async () => {
+      const { response } = await run([githubRecord.jwt, premiumRecord.jwt]);
+
+      expect(response.success).to.be.true;
+      if (response.success) {
+        expect(response.secret).to.equal(testSecret);
+        expect(response.verifiedCredentials.map((credential) => credential.credentialType))
+          .to.deep.equal(["GitHubVerification", "PremiumSubscription"]);
+        expect(response.verifiedCredentials[1].claims).to.deep.equal({ tier: "pro" });
+      }
+    });
+
+    it("should not decrypt when a required credential is missing", async () => {
+      const { response, decryptCalls } = await run([githubRecord.jwt]);
+
+      expect(response.success).to.be.false;
+      expect(decryptCalls).to.equal(0);
+      if (!response.success) {
+        expect(response.error).to.equal(
+          "Credential policy not satisfied: Required credential type PremiumSubscription not found",
+        );
+      }
+    });
+
+    it("should not count a credential from an issuer outside the policy", async () => {
+      const outsider = new TestIssuer("did:web:outsider.test").issueCredentialJWT({
+        subject,
+        credentialType: "PremiumSubscription",
+        credentialSubject: { tier: "pro" },
+      });
+      const { response, decryptCalls } = await run([outsider, githubRecord.jwt]);
+
+      expect(response.success).to.be.false;
+      expect(decryptCalls).to.equal(0);
+      if (!response.success) {
+        expect(response.error).to.include("Credential issuer does not match requirements");
+      }
+    });
+  });
+});
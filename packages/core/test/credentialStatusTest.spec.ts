@@ -0,0 +1,213 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+import { gzipSync } from "zlib";
+
+import { runCredentialAction, classifyActionError, LitActionsRuntime } from "../src/action/index.js";
+import {
+  createDIDResolver,
+  decodeStatusList,
+  findMatchingCredential,
+  hashCredentialRequirements,
+  sealSecret,
+  statusListBit,
+  verifyCredentialJWT,
+  verifyCredentials,
+  CredentialRequirements,
+  CredentialStatusEntry,
+} from "../src/verification/index.js";
+import { TestIssuer, createMockFetch, didWebDocumentUrl } from "../src/testing/index.js";
+
+describe("Credential Status", () => {
+  const issuer = new TestIssuer("did:web:issuer.test");
+  const otherIssuer = new TestIssuer("did:web:other-issuer.test");
+  const userAddress = ethers.Wallet.createRandom().address;
+  const subject = `did:pkh:eip155:1:${userAddress.toLowerCase()}`;
+
+  const revocationList = "https://issuer.test/status/revocation";
+  const suspensionList = "https://issuer.test/status/suspension";
+  const legacyList = "https://issuer.test/status/2021";
+  const foreignList = "https://other-issuer.test/status/revocation";
+
+  // The status lists are served from the same local route table as the DID documents
+  const fetch = createMockFetch({
+    [didWebDocumentUrl(issuer.did)]: issuer.didDocument,
+    [didWebDocumentUrl(otherIssuer.did)]: otherIssuer.didDocument,
+    [revocationList]: issuer.issueStatusListCredential({ id: revocationList, setIndexes: [3, 94567] }),
+    [suspensionList]: issuer.issueStatusListCredential({ id: suspensionList, statusPurpose: "suspension", setIndexes: [5] }),
+    [legacyList]: issuer.issueStatusListCredential({ id: legacyList, format: "StatusList2021", setIndexes: [8] }),
+    [foreignList]: otherIssuer.issueStatusListCredential({ id: foreignList }),
+  });
+  const options = { resolver: createDIDResolver({ fetch }), fetch };
+
+  const entry = (statusListCredential: string, statusListIndex: number, statusPurpose = "revocation"): CredentialStatusEntry => ({
+    id: `${statusListCredential}#${statusListIndex}`,
+    type: statusListCredential === legacyList ? "StatusList2021Entry" : "BitstringStatusListEntry",
+    statusPurpose,
+    statusListIndex: String(statusListIndex),
+    statusListCredential,
+  });
+
+  const issue = (credentialStatus?: CredentialStatusEntry | CredentialStatusEntry[]) => issuer.issueCredentialJWT({
+    subject,
+    evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+    credentialStatus,
+  });
+
+  describe("Status lists", () => {
+    it("should decode a multibase bitstring and read bits from the left", async () => {
+      const bitstring = Buffer.from([0b10000001, 0b00100000]);
+      const decoded = await decodeStatusList(`u${gzipSync(bitstring).toString("base64url")}`);
+
+      expect([0, 1, 7, 8, 10].map((index) => statusListBit(decoded, index))).to.deep.equal([true, false, true, false, true]);
+    });
+
+    it("should decode StatusList2021 lists without a multibase prefix", async () => {
+      const decoded = await decodeStatusList(gzipSync(Buffer.from([0x40])).toString("base64"));
+
+      expect(statusListBit(decoded, 1)).to.be.true;
+    });
+
+    it("should reject indexes past the end of the list", () => {
+      expect(() => statusListBit(new Uint8Array(2), 16)).to.throw("Status list index 16 is out of range");
+    });
+
+    it("should reject lists that are not gzipped", async () => {
+      let error: Error | undefined;
+      try {
+        await decodeStatusList("unot-gzip");
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal("Invalid status list encoding");
+    });
+  });
+
+  describe("Verification", () => {
+    const rejection = async (jwt: string) => {
+      try {
+        await verifyCredentialJWT(jwt, options);
+      } catch (error) {
+        return (error as Error).message;
+      }
+      return undefined;
+    };
+
+    it("should accept credentials whose bit is clear", async () => {
+      const credential = await verifyCredentialJWT(issue([entry(revocationList, 4), entry(suspensionList, 4, "suspension")]), options);
+
+      expect(credential.handle).to.equal("octocat");
+    });
+
+    it("should reject revoked credentials", async () => {
+      expect(await rejection(issue(entry(revocationList, 3)))).to.equal("Credential has been revoked");
+      expect(await rejection(issue(entry(revocationList, 94567)))).to.equal("Credential has been revoked");
+    });
+
+    it("should reject suspended credentials", async () => {
+      expect(await rejection(issue(entry(suspensionList, 5, "suspension")))).to.equal("Credential has been suspended");
+    });
+
+    it("should check StatusList2021 entries", async () => {
+      expect(await rejection(issue(entry(legacyList, 8)))).to.equal("Credential has been revoked");
+      expect(await rejection(issue(entry(legacyList, 9)))).to.be.undefined;
+    });
+
+    it("should not check purposes that do not invalidate the credential", async () => {
+      expect(await rejection(issue(entry("https://issuer.test/status/unserved", 0, "message")))).to.be.undefined;
+    });
+
+    it("should reject a status list signed by another issuer", async () => {
+      expect(await rejection(issue(entry(foreignList, 0))))
+        .to.equal("Status list credential issuer does not match credential issuer");
+    });
+
+    it("should reject a status list for another purpose", async () => {
+      expect(await rejection(issue(entry(suspensionList, 0)))).to.equal("Status list credential does not cover revocation");
+    });
+
+    it("should reject unavailable status lists", async () => {
+      expect(await rejection(issue(entry("https://issuer.test/status/missing", 0))))
+        .to.equal("Failed to fetch status list credential: 404");
+    });
+
+    it("should reject unsupported status types", async () => {
+      const status = { ...entry(revocationList, 0), type: "RevocationList2020Status" } as unknown as CredentialStatusEntry;
+
+      expect(await rejection(issue(status))).to.equal("Unsupported credential status type: RevocationList2020Status");
+    });
+  });
+
+  describe("Enforcement", () => {
+    const requirements: CredentialRequirements = {
+      issuer: issuer.did,
+      credentialType: "GitHubVerification",
+      claims: { githubHandle: "octocat" },
+    };
+
+    it("should not match revoked credentials host-side", async () => {
+      const credentials = await verifyCredentials([{ jwt: issue(entry(revocationList, 3)) }], options);
+
+      expect(credentials).to.be.empty;
+      expect(findMatchingCredential(credentials, requirements, userAddress)).to.be.null;
+    });
+
+    describe("in the Lit Action", () => {
+      let savedFetch: typeof globalThis.fetch;
+
+      before(() => {
+        savedFetch = globalThis.fetch;
+        globalThis.fetch = fetch as typeof globalThis.fetch;
+      });
+
+      after(() => {
+        globalThis.fetch = savedFetch;
+      });
+
+      const run = async (credentialJWT: string) => {
+        const sealed = sealSecret("status checked", await hashCredentialRequirements(requirements));
+        const runtime = {
+          decryptCalls: 0,
+          Actions: {
+            decryptAndCombine: async () => {
+              runtime.decryptCalls++;
+              return sealed;
+            },
+            setResponse: () => undefined,
+          } as LitActionsRuntime,
+        };
+        const response = await runCredentialAction({
+          accessControlConditions: [],
+          ciphertext: "ciphertext",
+          dataToEncryptHash: "hash",
+          credentialJWT,
+          credentialRequirements: requirements,
+          userAddress,
+        }, runtime);
+        return { response, decryptCalls: runtime.decryptCalls };
+      };
+
+      it("should release the secret for an unrevoked credential", async () => {
+        const { response } = await run(issue(entry(revocationList, 4)));
+
+        expect(response.success).to.be.true;
+      });
+
+      it("should not decrypt for a revoked credential", async () => {
+        const { response, decryptCalls } = await run(issue(entry(revocationList, 3)));
+
+        expect(response.success).to.be.false;
+        expect(decryptCalls).to.equal(0);
+        if (!response.success) {
+          expect(response.error).to.equal("Credential has been revoked");
+        }
+      });
+
+      it("should classify status failures", () => {
+        expect(classifyActionError("Credential has been revoked")).to.equal("credential_status_verification");
+        expect(classifyActionError("Credential policy not satisfied: Credential has been suspended"))
+          .to.equal("credential_status_verification");
+        expect(classifyActionError("Failed to fetch status list credential: 404")).to.equal("credential_status_verification");
+      });
+    });
+  });
+});
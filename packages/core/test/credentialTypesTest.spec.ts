@@ -0,0 +1,167 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import {
+  createCredentialTypeRegistry,
+  createDIDResolver,
+  findMatchingCredential,
+  hashCredentialRequirements,
+  sealSecret,
+  verifyCredentials,
+  CredentialRequirements,
+} from "../src/verification/index.js";
+import { runCredentialAction, LitActionsRuntime } from "../src/action/index.js";
+import { validateCredentialRequirements } from "../src/utils.js";
+import { TestIssuer, createMockFetch, didWebDocumentUrl } from "../src/testing/index.js";
+
+describe("Credential Type Registry", () => {
+  const tinycloud = new TestIssuer("did:web:issuer.tinycloud.xyz");
+  const userAddress = ethers.Wallet.createRandom().address;
+  const subject = `did:pkh:eip155:1:${userAddress.toLowerCase()}`;
+  const fetch = createMockFetch({ [didWebDocumentUrl(tinycloud.did)]: tinycloud.didDocument });
+
+  const premiumRequirements: CredentialRequirements = {
+    issuer: tinycloud.did,
+    credentialType: "PremiumSubscription",
+    claims: { tier: "pro" },
+  };
+
+  const issueSubscription = (tier: string) => tinycloud.issueCredentialRecord({
+    subject,
+    credentialType: "PremiumSubscription",
+    credentialSubject: { tier },
+  });
+
+  describe("Requirements", () => {
+    const registry = createCredentialTypeRegistry();
+
+    it("should accept requirements for every built-in type", () => {
+      expect(registry.types).to.deep.equal(["GitHubVerification", "PremiumSubscription"]);
+      expect(() => registry.validateRequirements(premiumRequirements)).to.not.throw();
+      expect(() => registry.validateRequirements({
+        issuer: "did:web:rebasedemokey.pages.dev",
+        credentialType: "GitHubVerification",
+        claims: { githubHandle: ["octocat", "hubot"] },
+      })).to.not.throw();
+    });
+
+    it("should reject issuers the type does not allow", () => {
+      expect(() => registry.validateRequirements({ ...premiumRequirements, issuer: "did:web:rebasedemokey.pages.dev" }))
+        .to.throw("Issuer did:web:rebasedemokey.pages.dev is not allowed to issue PremiumSubscription credentials");
+    });
+
+    it("should reject claims the type does not define", () => {
+      expect(() => registry.validateRequirements({ ...premiumRequirements, claims: { githubHandle: "octocat" } }))
+        .to.throw("Unsupported claim githubHandle for PremiumSubscription credentials");
+    });
+
+    it("should run claim validators", () => {
+      expect(() => registry.validateRequirements({ ...premiumRequirements, claims: { tier: "" } }))
+        .to.throw("Invalid subscription tier: . Tiers must be non-empty strings.");
+    });
+
+    it("should reject unregistered types", () => {
+      expect(() => registry.validateRequirements({ ...premiumRequirements, credentialType: "EmailVerification" }))
+        .to.throw("Invalid credential type: EmailVerification. Supported types: GitHubVerification, PremiumSubscription");
+    });
+
+    it("should support registering new types", () => {
+      const custom = createCredentialTypeRegistry().register({
+        type: "EmailVerification",
+        issuers: ["did:web:email.test"],
+        claimLocation: "credentialSubject",
+        claims: {
+          domain: { field: "emailDomain", matches: (actual, required) => actual === required },
+        },
+      });
+
+      const requirements = { issuer: "did:web:email.test", credentialType: "EmailVerification", claims: { domain: "example.com" } };
+      expect(() => custom.validateRequirements(requirements)).to.not.throw();
+      expect(custom.claimsSatisfied({ credentialSubject: { emailDomain: "example.com" } }, requirements)).to.be.true;
+      expect(custom.claimsSatisfied({ credentialSubject: { emailDomain: "example.org" } }, requirements)).to.be.false;
+    });
+
+    it("should check trusted issuers before dispatching", () => {
+      const savedTrustedIssuers = process.env.TRUSTED_ISSUERS;
+      process.env.TRUSTED_ISSUERS = tinycloud.did;
+      try {
+        expect(() => validateCredentialRequirements(premiumRequirements)).to.not.throw();
+        expect(() => validateCredentialRequirements({ ...premiumRequirements, issuer: "did:web:untrusted.test" }))
+          .to.throw("Untrusted issuer: did:web:untrusted.test");
+      } finally {
+        process.env.TRUSTED_ISSUERS = savedTrustedIssuers;
+      }
+    });
+  });
+
+  describe("Matching", () => {
+    const options = { resolver: createDIDResolver({ fetch }) };
+
+    it("should match claims kept in credentialSubject", async () => {
+      const credentials = await verifyCredentials([issueSubscription("basic"), issueSubscription("pro")], options);
+      const match = findMatchingCredential(credentials, premiumRequirements, userAddress);
+
+      expect(match?.credentialSubject.tier).to.equal("pro");
+    });
+
+    it("should not read claims from the wrong location", async () => {
+      const record = tinycloud.issueCredentialRecord({
+        subject,
+        credentialType: "PremiumSubscription",
+        evidence: { tier: "pro" },
+      });
+      const credentials = await verifyCredentials([record], options);
+
+      expect(findMatchingCredential(credentials, premiumRequirements, userAddress)).to.be.null;
+    });
+  });
+
+  describe("Lit Action", () => {
+    let savedFetch: typeof globalThis.fetch;
+
+    before(() => {
+      savedFetch = globalThis.fetch;
+      globalThis.fetch = fetch as typeof globalThis.fetch;
+    });
+
+    after(() => {
+      globalThis.fetch = savedFetch;
+    });
+
+    const runAction = async (tier: string) => {
+      const sealed = sealSecret("premium content", await hashCredentialRequirements(premiumRequirements));
+      const runtime: LitActionsRuntime = {
+        decryptAndCombine: async () => sealed,
+        setResponse: () => undefined,
+      };
+      return runCredentialAction({
+        accessControlConditions: [],
+        ciphertext: "ciphertext",
+        dataToEncryptHash: "hash",
+        credentialJWT: issueSubscription(tier).jwt,
+        credentialRequirements: premiumRequirements,
+        userAddress,
+      }, { Actions: runtime });
+    };
+
+    it("should release the secret for a satisfied PremiumSubscription", async () => {
+      const response = await runAction("pro");
+
+      expect(response.success).to.be.true;
+      if (response.success) {
+        expect(response.secret).to.equal("premium content");
+        expect(response.verifiedCredential.credentialType).to.equal("PremiumSubscription");
+        expect(response.verifiedCredential.claims).to.deep.equal({ tier: "pro" });
+      }
+    });
+
+    it("should reject an unmet PremiumSubscription claim", async () => {
+      const response = await runAction("basic");
+
+      expect(response.success).to.be.false;
+      if (!response.success) {
+        expect(response.error).to.equal("Subscription tier requirement not met. Required: pro, Found: basic");
+      }
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import { runCredentialAction, classifyActionError, LitActionsRuntime } from "../src/action/index.js";
+import {
+  assertCredentialValidity,
+  createDIDResolver,
+  credentialValidityPeriod,
+  credentialValidityStatus,
+  hashCredentialRequirements,
+  resolveClockSkew,
+  sealSecret,
+  verifyCredentialJWT,
+  CredentialJWTPayload,
+  CredentialRequirements,
+  MAX_CLOCK_SKEW_SECONDS,
+} from "../src/verification/index.js";
+import { TestIssuer, createMockFetch, didWebDocumentUrl } from "../src/testing/index.js";
+
+describe("Credential Validity", () => {
+  const issuer = new TestIssuer("did:web:issuer.test");
+  const userAddress = ethers.Wallet.createRandom().address;
+  const subject = `did:pkh:eip155:1:${userAddress.toLowerCase()}`;
+  const fetch = createMockFetch({ [didWebDocumentUrl(issuer.did)]: issuer.didDocument });
+
+  const now = Date.parse("2025-06-01T12:00:00Z");
+  const iso = (offsetSeconds: number) => new Date(now + offsetSeconds * 1000).toISOString();
+  const seconds = (offsetSeconds: number) => Math.floor(now / 1000) + offsetSeconds;
+  const payload = (vc: Record<string, unknown>, claims: Partial<CredentialJWTPayload> = {}): CredentialJWTPayload =>
+    ({ iss: issuer.did, ...claims, vc });
+
+  describe("Validity period", () => {
+    it("should take the narrowest of the JWT and VC dates", () => {
+      expect(credentialValidityPeriod(payload(
+        { validFrom: iso(-100), validUntil: iso(500), expirationDate: iso(300) },
+        { nbf: seconds(-200), exp: seconds(400) },
+      ))).to.deep.equal({ validFrom: seconds(-100), validUntil: seconds(300) });
+    });
+
+    it("should leave missing ends open", () => {
+      expect(credentialValidityPeriod(payload({}))).to.deep.equal({ validFrom: undefined, validUntil: undefined });
+    });
+
+    it("should reject unparseable dates", () => {
+      expect(() => credentialValidityPeriod(payload({ validUntil: "next week" })))
+        .to.throw('Invalid credential validUntil: "next week"');
+    });
+  });
+
+  describe("Clock skew", () => {
+    for (const [label, vc, skew, error] of [
+      ["expired credentials", { validUntil: iso(-61) }, 60, "Credential expired"],
+      ["VC 1.1 expiration dates", { expirationDate: iso(-61) }, 60, "Credential expired"],
+      ["credentials not yet valid", { validFrom: iso(61) }, 60, "Credential not yet valid"],
+      ["expiry without tolerance", { validUntil: iso(-1) }, 0, "Credential expired"],
+    ] as const) {
+      it(`should reject ${label}`, () => {
+        expect(() => assertCredentialValidity(payload(vc), { now, clockSkewSeconds: skew })).to.throw(error);
+      });
+    }
+
+    it("should tolerate dates within the skew", () => {
+      expect(() => assertCredentialValidity(payload({ validUntil: iso(-59), validFrom: iso(59) }), { now })).to.not.throw();
+    });
+
+    it("should cap the configurable skew", () => {
+      expect(resolveClockSkew({})).to.equal(60);
+      expect(() => resolveClockSkew({ clockSkewSeconds: MAX_CLOCK_SKEW_SECONDS + 1 }))
+        .to.throw("Clock skew must be between 0 and 300 seconds");
+      expect(() => resolveClockSkew({ clockSkewSeconds: -1 })).to.throw("Clock skew must be between 0 and 300 seconds");
+    });
+  });
+
+  describe("Status", () => {
+    const status = (vc: Record<string, unknown>) => credentialValidityStatus(payload(vc), { now });
+
+    it("should report where now falls in the period", () => {
+      expect(status({ validUntil: iso(30 * 24 * 60 * 60) })).to.equal("valid");
+      expect(status({})).to.equal("valid");
+      expect(status({ validUntil: iso(24 * 60 * 60) })).to.equal("expiring");
+      expect(status({ validUntil: iso(-3600) })).to.equal("expired");
+      expect(status({ validFrom: iso(3600) })).to.equal("not-yet-valid");
+    });
+
+    it("should report a credential expired within the skew as expired", () => {
+      expect(() => assertCredentialValidity(payload({ validUntil: iso(-30) }), { now })).to.not.throw();
+      expect(status({ validUntil: iso(-30) })).to.equal("expired");
+      expect(status({ validFrom: iso(30) })).to.equal("not-yet-valid");
+    });
+  });
+
+  describe("Enforcement", () => {
+    const options = { resolver: createDIDResolver({ fetch }) };
+    const issue = (dates: { validFrom?: string; validUntil?: string; expirationDate?: string }) => issuer.issueCredentialJWT({
+      subject,
+      evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+      ...dates,
+    });
+    const fromNow = (offsetSeconds: number) => new Date(Date.now() + offsetSeconds * 1000).toISOString();
+
+    it("should reject expired credentials host-side", async () => {
+      let error: Error | undefined;
+      try {
+        await verifyCredentialJWT(issue({ expirationDate: fromNow(-3600) }), options);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal("Credential expired");
+    });
+
+    it("should accept a recently expired credential within a configured skew", async () => {
+      const credential = await verifyCredentialJWT(issue({ validUntil: fromNow(-120) }), { ...options, clockSkewSeconds: 300 });
+
+      expect(credential.handle).to.equal("octocat");
+    });
+
+    describe("in the Lit Action", () => {
+      const requirements: CredentialRequirements = {
+        issuer: issuer.did,
+        credentialType: "GitHubVerification",
+        claims: {},
+      };
+      let savedFetch: typeof globalThis.fetch;
+
+      before(() => {
+        savedFetch = globalThis.fetch;
+        globalThis.fetch = fetch as typeof globalThis.fetch;
+      });
+
+      after(() => {
+        globalThis.fetch = savedFetch;
+      });
+
+      const run = async (credentialJWT: string, clockSkewSeconds?: number) => {
+        const sealed = sealSecret("still valid", await hashCredentialRequirements(requirements));
+        const runtime = {
+          decryptCalls: 0,
+          Actions: {
+            decryptAndCombine: async () => {
+              runtime.decryptCalls++;
+              return sealed;
+            },
+            setResponse: () => undefined,
+          } as LitActionsRuntime,
+        };
+        const response = await runCredentialAction({
+          accessControlConditions: [],
+          ciphertext: "ciphertext",
+          dataToEncryptHash: "hash",
+          credentialJWT,
+          credentialRequirements: requirements,
+          userAddress,
+          clockSkewSeconds,
+        }, runtime);
+        return { response, decryptCalls: runtime.decryptCalls };
+      };
+
+      it("should release the secret within the validity period", async () => {
+        const { response } = await run(issue({ validFrom: fromNow(-60), validUntil: fromNow(3600) }));
+
+        expect(response.success).to.be.true;
+      });
+
+      it("should not decrypt for an expired credential", async () => {
+        const { response, decryptCalls } = await run(issue({ validUntil: fromNow(-3600) }));
+
+        expect(response.success).to.be.false;
+        expect(decryptCalls).to.equal(0);
+        if (!response.success) {
+          expect(response.error).to.equal("Credential expired");
+        }
+      });
+
+      it("should not let the caller widen the skew past the cap", async () => {
+        const { response, decryptCalls } = await run(issue({ validUntil: fromNow(-3600) }), 7200);
+
+        expect(response.success).to.be.false;
+        expect(decryptCalls).to.equal(0);
+        if (!response.success) {
+          expect(response.error).to.equal("Clock skew must be between 0 and 300 seconds");
+        }
+      });
+
+      it("should classify validity failures", () => {
+        expect(classifyActionError("Credential expired")).to.equal("credential_validity_verification");
+        expect(classifyActionError("Credential policy not satisfied: Credential not yet valid"))
+          .to.equal("credential_validity_verification");
+      });
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import {
+  createDIDResolver,
+  credentialSubjectMatchesAddress,
+  findMatchingCredential,
+  verifyCredentialJWT,
+  verifyCredentials,
+  CredentialRequirements,
+} from "../src/verification/index.js";
+import { TestIssuer, createMockFetch, didWebDocumentUrl } from "../src/testing/index.js";
+
+describe("Credential Verification", () => {
+  const issuer = new TestIssuer("did:web:issuer.test");
+  const userAddress = ethers.Wallet.createRandom().address;
+  const subject = `did:pkh:eip155:1:${userAddress.toLowerCase()}`;
+  const options = {
+    resolver: createDIDResolver({
+      fetch: createMockFetch({ [didWebDocumentUrl(issuer.did)]: issuer.didDocument }),
+    }),
+  };
+
+  const requirements: CredentialRequirements = {
+    issuer: issuer.did,
+    credentialType: "GitHubVerification",
+    claims: { githubHandle: "octocat" },
+  };
+
+  const expectRejection = async (jwt: string, message: string) => {
+    try {
+      await verifyCredentialJWT(jwt, options);
+      expect.fail("Should have thrown an error");
+    } catch (error: any) {
+      expect(error.message).to.equal(message);
+    }
+  };
+
+  describe("verifyCredentialJWT", () => {
+    it("should read the credential from the verified payload", async () => {
+      const credential = await verifyCredentialJWT(
+        issuer.issueCredentialJWT({ subject, evidence: { handle: "octocat" } }),
+        options,
+      );
+
+      expect(credential.issuer).to.equal(issuer.did);
+      expect(credential.subject).to.equal(subject);
+      expect(credential.types).to.deep.equal(["VerifiableCredential", "GitHubVerification"]);
+      expect(credential.credentialSubject.id).to.equal(subject);
+      expect(credential.handle).to.equal("octocat");
+    });
+
+    it("should reject a tampered signature", async () => {
+      const [header, payload, signature] = issuer.issueCredentialJWT({ subject }).split(".");
+      const tampered = `${header}.${payload}.${signature.startsWith("A") ? "B" : "A"}${signature.slice(1)}`;
+      await expectRejection(tampered, "Invalid JWT signature");
+    });
+
+    it("should reject a credential signed by a key the issuer does not publish", async () => {
+      const impostor = new TestIssuer(issuer.did);
+      await expectRejection(impostor.issueCredentialJWT({ subject }), "Invalid JWT signature");
+    });
+
+    it("should reject a vc.issuer that differs from the JWT issuer", async () => {
+      const jwt = issuer.signJWT({
+        iss: issuer.did,
+        sub: subject,
+        vc: { type: ["VerifiableCredential", "GitHubVerification"], issuer: "did:web:other.test", credentialSubject: { id: subject } },
+      });
+      await expectRejection(jwt, "Credential issuer does not match JWT issuer");
+    });
+
+    it("should reject a sub that differs from the credential subject", async () => {
+      const jwt = issuer.signJWT({
+        iss: issuer.did,
+        sub: "did:pkh:eip155:1:0x0000000000000000000000000000000000000001",
+        vc: { type: ["VerifiableCredential", "GitHubVerification"], credentialSubject: { id: subject } },
+      });
+      await expectRejection(jwt, "Credential subject does not match JWT subject");
+    });
+  });
+
+  describe("Matching", () => {
+    it("should ignore the unsigned parsed sidecar", async () => {
+      const record = issuer.issueCredentialRecord({ subject, evidence: { handle: "someone-else" } });
+      const forged = { ...record, parsed: { ...record.parsed, handle: "octocat", evidence: { handle: "octocat" } } };
+
+      const credentials = await verifyCredentials([forged], options);
+      expect(credentials).to.have.length(1);
+      expect(findMatchingCredential(credentials, requirements, userAddress)).to.be.null;
+    });
+
+    it("should drop credentials that fail verification", async () => {
+      const impostor = new TestIssuer(issuer.did);
+      const credentials = await verifyCredentials([
+        impostor.issueCredentialRecord({ subject, evidence: { handle: "octocat" } }),
+        issuer.issueCredentialRecord({ subject, evidence: { handle: "octocat" } }),
+      ], options);
+
+      expect(credentials).to.have.length(1);
+      expect(findMatchingCredential(credentials, requirements, userAddress)?.issuer).to.equal(issuer.did);
+    });
+
+    it("should match checksummed subject addresses exactly", async () => {
+      const checksummed = `did:pkh:eip155:1:${userAddress}`;
+      const [credential] = await verifyCredentials([
+        issuer.issueCredentialRecord({ subject: checksummed, evidence: { handle: "octocat" } }),
+      ], options);
+
+      expect(findMatchingCredential([credential], requirements, userAddress.toLowerCase())).to.equal(credential);
+      expect(findMatchingCredential([credential], requirements, userAddress)).to.equal(credential);
+    });
+
+    it("should not match addresses that only contain the user's address", () => {
+      expect(credentialSubjectMatchesAddress(`did:pkh:eip155:1:${userAddress}`, userAddress)).to.be.true;
+      expect(credentialSubjectMatchesAddress(`did:pkh:eip155:1:${userAddress}ff`, userAddress)).to.be.false;
+      expect(credentialSubjectMatchesAddress(`did:web:${userAddress.toLowerCase()}.test`, userAddress)).to.be.false;
+    });
+
+    it("should require the requested credential type", async () => {
+      const credentials = await verifyCredentials([
+        issuer.issueCredentialRecord({ subject, credentialType: "EmailVerification", evidence: { handle: "octocat" } }),
+      ], options);
+
+      expect(findMatchingCredential(credentials, requirements, userAddress)).to.be.null;
+    });
+  });
+});
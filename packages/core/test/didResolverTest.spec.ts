@@ -0,0 +1,240 @@
+import { expect } from "chai";
+import { generateKeyPairSync } from "crypto";
+import * as ethers from "ethers";
+
+import {
+  createDIDResolver,
+  createDIDKey,
+  createDIDJwk,
+  didWebToUrl,
+  getDIDMethod,
+  DIDResolver,
+  PublicKeyJwk,
+  verifyJWTWithEdDSA,
+  base58btcDecode,
+  base58btcEncode,
+  multibaseEncode,
+  encodeMulticodec,
+} from "../src/verification/index.js";
+import { runCredentialAction } from "../src/action/index.js";
+import { TestIssuer, createMockFetch, didWebDocumentUrl } from "../src/testing/index.js";
+
+describe("DID Resolver", () => {
+  const exportJwk = (namedCurve?: string) => {
+    const { publicKey } = namedCurve
+      ? generateKeyPairSync("ec", { namedCurve })
+      : generateKeyPairSync("ed25519");
+    return publicKey.export({ format: "jwk" }) as PublicKeyJwk;
+  };
+
+  describe("Method dispatch", () => {
+    it("should extract the DID method", () => {
+      expect(getDIDMethod("did:web:example.com")).to.equal("web");
+      expect(() => getDIDMethod("not-a-did")).to.throw("Invalid DID: not-a-did");
+    });
+
+    it("should reject unsupported methods", async () => {
+      try {
+        await createDIDResolver().resolve("did:ion:abc");
+        expect.fail("Should have thrown an error");
+      } catch (error: any) {
+        expect(error.message).to.equal("Unsupported DID method: did:ion");
+      }
+    });
+
+    it("should resolve through registered custom resolvers", async () => {
+      const exampleResolver: DIDResolver = {
+        method: "example",
+        resolve: async (did) => ({ id: did, verificationMethod: [] }),
+      };
+      const resolver = createDIDResolver().register(exampleResolver);
+
+      expect(resolver.methods).to.include.members(["web", "key", "jwk", "pkh", "example"]);
+      expect(await resolver.resolve("did:example:123")).to.deep.equal({ id: "did:example:123", verificationMethod: [] });
+    });
+  });
+
+  describe("did:web", () => {
+    it("should map DIDs to document URLs", () => {
+      expect(didWebToUrl("did:web:example.com")).to.equal("https://example.com/.well-known/did.json");
+      expect(didWebToUrl("did:web:example.com:users:alice")).to.equal("https://example.com/users/alice/did.json");
+      expect(didWebToUrl("did:web:localhost%3A8443")).to.equal("https://localhost:8443/.well-known/did.json");
+      expect(didWebToUrl("did:web:localhost%3A8443:issuers:github")).to.equal("https://localhost:8443/issuers/github/did.json");
+    });
+
+    it("should reject malformed did:web identifiers", () => {
+      expect(() => didWebToUrl("did:web:example.com::alice")).to.throw("Invalid did:web DID");
+      expect(() => didWebToUrl("did:web:example.com%2Fevil")).to.throw("Invalid did:web DID");
+    });
+
+    it("should fetch path-based DID documents", async () => {
+      const did = "did:web:example.com%3A8443:users:alice";
+      const resolver = createDIDResolver({
+        fetch: createMockFetch({ "https://example.com:8443/users/alice/did.json": { id: did } }),
+      });
+
+      expect(await resolver.resolve(did)).to.deep.equal({ id: did });
+    });
+
+    it("should reject documents for a different DID", async () => {
+      const resolver = createDIDResolver({
+        fetch: createMockFetch({ "https://example.com/.well-known/did.json": { id: "did:web:attacker.com" } }),
+      });
+
+      try {
+        await resolver.resolve("did:web:example.com");
+        expect.fail("Should have thrown an error");
+      } catch (error: any) {
+        expect(error.message).to.equal("DID document id did:web:attacker.com does not match did:web:example.com");
+      }
+    });
+  });
+
+  describe("did:key", () => {
+    it("should round-trip base58btc", () => {
+      const bytes = new Uint8Array([0, 0, 1, 2, 3, 255]);
+      expect(base58btcEncode(bytes)).to.match(/^11/);
+      expect(Array.from(base58btcDecode(base58btcEncode(bytes)))).to.deep.equal(Array.from(bytes));
+    });
+
+    it("should resolve a known Ed25519 did:key", async () => {
+      // Test vector from the did:key specification
+      const did = "did:key:z6MkiTBz1ymuepAQ4HEHYSF1H8quG5GLVVQR3djdX3mDooWp";
+      const didDocument = await createDIDResolver().resolve(did);
+
+      expect(didDocument.verificationMethod?.[0]).to.deep.include({
+        id: `${did}#z6MkiTBz1ymuepAQ4HEHYSF1H8quG5GLVVQR3djdX3mDooWp`,
+        type: "JsonWebKey2020",
+        controller: did,
+      });
+      expect(didDocument.verificationMethod?.[0].publicKeyJwk).to.deep.equal({
+        kty: "OKP",
+        crv: "Ed25519",
+        x: "O2onvM62pC1io6jQKm8Nc2UyFXcd4kOmOsBIoYtZ2ik",
+      });
+      expect(didDocument.assertionMethod).to.deep.equal([`${did}#z6MkiTBz1ymuepAQ4HEHYSF1H8quG5GLVVQR3djdX3mDooWp`]);
+    });
+
+    for (const [label, namedCurve, prefix] of [
+      ["Ed25519", undefined, "z6Mk"],
+      ["secp256k1", "secp256k1", "zQ3s"],
+      ["P-256", "P-256", "zDn"],
+    ] as const) {
+      it(`should round-trip ${label} public keys`, async () => {
+        const jwk = exportJwk(namedCurve);
+        const did = createDIDKey(jwk);
+        const didDocument = await createDIDResolver().resolve(did);
+
+        expect(did.startsWith(`did:key:${prefix}`)).to.be.true;
+        expect(didDocument.verificationMethod?.[0].publicKeyJwk).to.deep.equal(jwk);
+      });
+    }
+
+    it("should reject unknown key types", async () => {
+      try {
+        // bls12_381-g1-pub
+        await createDIDResolver().resolve(`did:key:${multibaseEncode(encodeMulticodec(0xea, new Uint8Array(48)))}`);
+        expect.fail("Should have thrown an error");
+      } catch (error: any) {
+        expect(error.message).to.include("Unsupported multicodec key type");
+      }
+    });
+  });
+
+  describe("did:jwk", () => {
+    it("should resolve a public JWK", async () => {
+      const jwk = exportJwk("P-256");
+      const did = createDIDJwk(jwk);
+      const didDocument = await createDIDResolver().resolve(did);
+
+      expect(didDocument.verificationMethod?.[0]).to.deep.equal({
+        id: `${did}#0`,
+        type: "JsonWebKey2020",
+        controller: did,
+        publicKeyJwk: jwk,
+      });
+    });
+
+    it("should refuse private key material", async () => {
+      const did = createDIDJwk({ ...exportJwk(), d: "secret" });
+      try {
+        await createDIDResolver().resolve(did);
+        expect.fail("Should have thrown an error");
+      } catch (error: any) {
+        expect(error.message).to.equal("did:jwk must not contain private key material");
+      }
+    });
+  });
+
+  describe("did:pkh", () => {
+    it("should resolve eip155 accounts", async () => {
+      const address = ethers.Wallet.createRandom().address;
+      const did = `did:pkh:eip155:1:${address}`;
+      const didDocument = await createDIDResolver().resolve(did);
+
+      expect(didDocument.verificationMethod?.[0]).to.deep.equal({
+        id: `${did}#blockchainAccountId`,
+        type: "EcdsaSecp256k1RecoveryMethod2020",
+        controller: did,
+        blockchainAccountId: `eip155:1:${address}`,
+      });
+    });
+
+    it("should reject invalid addresses", async () => {
+      try {
+        await createDIDResolver().resolve("did:pkh:eip155:1:0x1234");
+        expect.fail("Should have thrown an error");
+      } catch (error: any) {
+        expect(error.message).to.equal("Invalid address in did:pkh DID: 0x1234");
+      }
+    });
+  });
+
+  describe("Credential verification", () => {
+    const userAddress = ethers.Wallet.createRandom().address;
+    const subject = `did:pkh:eip155:1:${userAddress.toLowerCase()}`;
+
+    it("should verify credentials from a did:key issuer", async () => {
+      const issuer = TestIssuer.withDIDKey();
+      const credentialJWT = issuer.issueCredentialJWT({ subject, evidence: { handle: "octocat" } });
+
+      const result = await verifyJWTWithEdDSA(credentialJWT, issuer.did);
+      expect(result.payload.iss).to.equal(issuer.did);
+    });
+
+    it("should verify credentials from a path-based did:web issuer inside the action", async () => {
+      expect(didWebDocumentUrl("did:web:issuers.test%3A8443:github")).to.equal("https://issuers.test:8443/github/did.json");
+
+      const issuer = new TestIssuer("did:web:issuers.test%3A8443:github");
+      const savedFetch = globalThis.fetch;
+      globalThis.fetch = createMockFetch({
+        [didWebDocumentUrl(issuer.did)]: issuer.didDocument,
+      }) as typeof globalThis.fetch;
+
+      try {
+        const response = await runCredentialAction({
+          accessControlConditions: [],
+          ciphertext: "ciphertext",
+          dataToEncryptHash: "hash",
+          credentialJWT: issuer.issueCredentialJWT({ subject, evidence: { handle: "octocat" } }),
+          credentialRequirements: { issuer: issuer.did, credentialType: "GitHubVerification" },
+          userAddress,
+        }, {
+          Actions: {
+            // The sealed secret is not bound to these requirements, so the
+            // action fails only after the credential has been verified
+            decryptAndCombine: async () => "unsealed",
+            setResponse: () => undefined,
+          },
+        });
+
+        expect(response.success).to.be.false;
+        if (!response.success) {
+          expect(response.error).to.equal("Ciphertext is not bound to credential requirements");
+        }
+      } finally {
+        globalThis.fetch = savedFetch;
+      }
+    });
+  });
+});
@@ -4,7 +4,7 @@ import * as ethers from "ethers";
 
 use(chaiJsonSchema);
 
-import { encryptToCredentialWithJWT, decryptFromCredentialsWithJWT } from "../src/index.js";
+import { encryptToCredentialWithJWT, decryptFromCredentialsWithJWT, disconnectEnvironmentClient } from "../src/index.js";
 import { 
   createEncryptionJWT, 
   createDecryptionJWT, 
@@ -23,6 +23,7 @@ import {
 import { 
   CredentialRequirements
 } from "../src/utils.js";
+import { hashCredentialRequirements } from "../src/verification/requirements.js";
 
 describe("Dual-Factor Authentication with ES256K JWT", () => {
   const testSecret = "This is a dual-factor protected secret requiring both GitHub credential and Ethereum key proof!";
@@ -39,9 +40,14 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
     }
   };
 
+  // Lit's dataToEncryptHash of testSecret: the SHA-256 of the plaintext, in hex
+  const dataToEncryptHash = ethers.utils.sha256(ethers.utils.toUtf8Bytes(testSecret)).slice(2);
+
   // Shared encrypted data for tests
   let encryptedData: any;
 
+  after(() => disconnectEnvironmentClient());
+
   describe("DID:PKH Utilities", () => {
     it("should create valid DID:PKH from Ethereum address", () => {
       const did = createDIDPKH(userAddress);
@@ -114,7 +120,7 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
       expect(parsed.payload.resource).to.equal("credential-gated-secret");
       
       // Verify JWT structure
-      expect(parsed.payload.credential_requirements).to.deep.equal(credentialRequirements);
+      expect(parsed.payload.credential_requirements_hash).to.equal(await hashCredentialRequirements(credentialRequirements));
       expect(parsed.payload.nonce).to.be.a('string');
       expect(parsed.payload.iat).to.be.a('number');
       expect(parsed.payload.exp).to.be.a('number');
@@ -122,13 +128,14 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
     });
 
     it("should create valid decryption JWT with ES256K", async () => {
-      decryptionJWT = await createDecryptionJWT(userWallet, credentialRequirements);
+      decryptionJWT = await createDecryptionJWT(userWallet, credentialRequirements, dataToEncryptHash);
       
       console.log("🔓 Created decryption JWT:", decryptionJWT);
       
       const parsed = parseJWT(decryptionJWT);
       
       expect(parsed.payload.purpose).to.equal("decrypt");
+      expect(parsed.payload.resource).to.equal(`lit-ciphertext:${dataToEncryptHash}`);
       expect(parsed.payload.aud).to.equal("lit-protocol-encryption");
       expect(parsed.payload.iss).to.equal(`did:pkh:eip155:1:${userAddress}`);
     });
@@ -158,7 +165,7 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
         aud: "lit-protocol-encryption",
         purpose: "encrypt",
         resource: "credential-gated-secret",
-        credential_requirements: credentialRequirements
+        credential_requirements_hash: await hashCredentialRequirements(credentialRequirements)
       }, -1); // Negative expiration means already expired
       
       try {
@@ -316,7 +323,7 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
   describe("Security Validation", () => {
     it("should prevent JWT reuse across different operations", async () => {
       const encryptJWT = await createEncryptionJWT(userWallet, credentialRequirements);
-      const decryptJWT = await createDecryptionJWT(userWallet, credentialRequirements);
+      const decryptJWT = await createDecryptionJWT(userWallet, credentialRequirements, dataToEncryptHash);
       
       const encryptParsed = parseJWT(encryptJWT);
       const decryptParsed = parseJWT(decryptJWT);
@@ -343,7 +350,7 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
       const parsed1 = parseJWT(jwt1);
       const parsed2 = parseJWT(jwt2);
       
-      expect(parsed1.payload.credential_requirements).to.not.deep.equal(parsed2.payload.credential_requirements);
+      expect(parsed1.payload.credential_requirements_hash).to.not.equal(parsed2.payload.credential_requirements_hash);
       console.log("🔗 JWTs properly bound to specific credential requirements");
     });
 
@@ -412,7 +419,7 @@ describe("Dual-Factor Authentication with ES256K JWT", () => {
       expect(parsedJWT.header.alg).to.equal("ES256K");
       expect(parsedJWT.payload.iss).to.match(/^did:pkh:eip155:1:/);
       expect(parsedJWT.payload.purpose).to.equal("encrypt");
-      expect(parsedJWT.payload.credential_requirements).to.deep.equal(credentialRequirements);
+      expect(parsedJWT.payload.credential_requirements_hash).to.equal(await hashCredentialRequirements(credentialRequirements));
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,228 @@
+import { expect, use } from "chai";
+import chaiJsonSchema from "chai-json-schema";
+import * as ethers from "ethers";
+
+use(chaiJsonSchema);
+
+import {
+  CredentialEncryptionClient,
+  ENCRYPTED_PAYLOAD_SCHEMA,
+  EncryptedPayload,
+  EncryptedPayloadV1,
+  migrateEncryptedPayload,
+  parseEncryptedPayload,
+  serializeEncryptedPayload,
+  validateEncryptedPayload,
+} from "../src/index.js";
+import { litActionCode } from "../src/litAction.js";
+import { CredentialRequirements } from "../src/utils.js";
+import {
+  MockLitNodeClient,
+  MockLitContracts,
+  createMockLitClientFactory,
+} from "../src/testing/index.js";
+
+describe("Encrypted Payloads", () => {
+  const credentialRequirements: CredentialRequirements = {
+    issuer: "did:web:issuer.test",
+    credentialType: "GitHubVerification",
+  };
+  const accessControlConditions = [
+    {
+      contractAddress: "",
+      standardContractType: "timestamp",
+      chain: "ethereum",
+      method: "",
+      parameters: [":currentActionIpfsId"],
+      returnValueTest: { comparator: "=", value: "QmAction" },
+    },
+  ] as EncryptedPayload["accessControlConditions"];
+
+  const v1Payload = (fields: Partial<EncryptedPayloadV1> = {}): EncryptedPayloadV1 => ({
+    ciphertext: "c2VjcmV0",
+    dataToEncryptHash: "0xhash",
+    accessControlConditions,
+    accsResourceString: "lit-accesscontrolcondition://0xresource",
+    credentialRequirements,
+    credentialRequirementsHash: "0xrequirements",
+    litActionIpfsCid: "QmAction",
+    ...fields,
+  });
+
+  const v2Payload = (fields: Partial<EncryptedPayload> = {}): EncryptedPayload => ({
+    ...migrateEncryptedPayload(v1Payload()),
+    ...fields,
+  });
+
+  const expectInvalid = (value: unknown, message: string) => {
+    expect(() => validateEncryptedPayload(value)).to.throw(`Invalid encrypted payload: ${message}`);
+    expect(value).to.not.be.jsonSchema(ENCRYPTED_PAYLOAD_SCHEMA);
+  };
+
+  describe("Schema", () => {
+    it("should accept Lit and mock payloads", () => {
+      const { credentialRequirementsHash: _hash, litActionIpfsCid: _cid, ...mock } = v2Payload({
+        encryption: "mock",
+        userAddress: "0x8fd379246834eac74B8419FfdA202CF8051F7A03",
+        userChain: "eip155:8453",
+        metadata: { flowId: "developer-resources", contentLength: 663 },
+      });
+
+      for (const payload of [v2Payload(), mock]) {
+        expect(() => validateEncryptedPayload(payload)).to.not.throw();
+        expect(payload).to.be.jsonSchema(ENCRYPTED_PAYLOAD_SCHEMA);
+      }
+    });
+
+    it("should reject malformed payloads", () => {
+      const { ciphertext: _ciphertext, ...withoutCiphertext } = v2Payload();
+
+      expectInvalid(withoutCiphertext, "/ must have ciphertext");
+      expectInvalid(v2Payload({ encryption: "aes" as any }), '/encryption must be one of "lit", "mock"');
+      expectInvalid(v2Payload({ accessControlConditions: [] }), "/accessControlConditions must have at least 1 item(s)");
+      expectInvalid(v2Payload({ userChain: "mainnet" }), "/userChain must match");
+      expectInvalid(v2Payload({ metadata: { contentLength: -1 } }), "/metadata/contentLength must be at least 0");
+      expectInvalid(v2Payload({ revision: 0 }), "/revision must be at least 1");
+      expectInvalid(v2Payload({ previous: { dataToEncryptHash: "0xold" } as any }), "/previous must have credentialRequirementsHash");
+      expectInvalid({ ...v2Payload(), secret: "plaintext" }, "/ must not have secret");
+      expectInvalid(null, "/ must be an object");
+    });
+
+    for (const field of ENCRYPTED_PAYLOAD_SCHEMA.required!) {
+      it(`should reject a payload without ${field}`, () => {
+        const payload: Record<string, unknown> = { ...v2Payload() };
+        delete payload[field];
+
+        expectInvalid(payload, `/ must have ${field}`);
+      });
+    }
+
+    const previous = { dataToEncryptHash: "0xold", credentialRequirementsHash: "0xrequirements" };
+    for (const [label, fields, message] of [
+      ["another format version", { formatVersion: 1 }, "/formatVersion must be one of 2"],
+      ["an unknown encryption", { encryption: "aes" }, '/encryption must be one of "lit", "mock"'],
+      ["a ciphertext that is not a string", { ciphertext: 42 }, "/ciphertext must be a string"],
+      ["an empty ciphertext", { ciphertext: "" }, "/ciphertext must not be empty"],
+      ["an empty dataToEncryptHash", { dataToEncryptHash: "" }, "/dataToEncryptHash must not be empty"],
+      ["access control conditions that are not an array", { accessControlConditions: {} }, "/accessControlConditions must be an array"],
+      ["no access control conditions", { accessControlConditions: [] }, "/accessControlConditions must have at least 1 item(s)"],
+      ["an access control condition that is not an object", { accessControlConditions: ["QmAction"] }, "/accessControlConditions/0 must be an object"],
+      ["an accsResourceString that is not a string", { accsResourceString: null }, "/accsResourceString must be a string"],
+      ["credential requirements that are not an object", { credentialRequirements: [credentialRequirements] }, "/credentialRequirements must be an object"],
+      ["an empty credentialRequirementsHash", { credentialRequirementsHash: "" }, "/credentialRequirementsHash must not be empty"],
+      ["an empty litActionIpfsCid", { litActionIpfsCid: "" }, "/litActionIpfsCid must not be empty"],
+      ["an empty userSignedJWT", { userSignedJWT: "" }, "/userSignedJWT must not be empty"],
+      ["an empty userAddress", { userAddress: "" }, "/userAddress must not be empty"],
+      ["a userChain that is not CAIP-2", { userChain: "eip155" }, "/userChain must match"],
+      ["a fractional revision", { revision: 1.5 }, "/revision must be an integer"],
+      ["a revision below 1", { revision: 0 }, "/revision must be at least 1"],
+      ["a previous payload that is not an object", { previous: "0xold" }, "/previous must be an object"],
+      ["a previous payload without dataToEncryptHash", { previous: { credentialRequirementsHash: "0xold" } }, "/previous must have dataToEncryptHash"],
+      ["a previous payload with unknown fields", { previous: { ...previous, ciphertext: "c2VjcmV0" } }, "/previous must not have ciphertext"],
+      ["a previous revision below 1", { previous: { ...previous, revision: 0 } }, "/previous/revision must be at least 1"],
+      ["metadata that is not an object", { metadata: "premium" }, "/metadata must be an object"],
+      ["a flowId that is not a string", { metadata: { flowId: 1 } }, "/metadata/flowId must be a string"],
+      ["a flowTitle that is not a string", { metadata: { flowTitle: 1 } }, "/metadata/flowTitle must be a string"],
+      ["an encryptedAt that is not a string", { metadata: { encryptedAt: 1 } }, "/metadata/encryptedAt must be a string"],
+      ["a fractional contentLength", { metadata: { contentLength: 1.5 } }, "/metadata/contentLength must be an integer"],
+      ["unknown fields", { secret: "plaintext" }, "/ must not have secret"],
+    ] as [string, Record<string, unknown>, string][]) {
+      it(`should reject ${label}`, () => {
+        expectInvalid({ ...v2Payload(), ...fields }, message);
+      });
+    }
+
+    it("should require Lit payloads to be bound to their requirements and action", () => {
+      expectInvalid(v2Payload({ litActionIpfsCid: undefined }), "/ must have litActionIpfsCid");
+      expectInvalid(v2Payload({ credentialRequirementsHash: undefined }), "/ must have credentialRequirementsHash");
+    });
+  });
+
+  describe("Migrations", () => {
+    it("should version a v1 Lit payload", () => {
+      const migrated = migrateEncryptedPayload(
+        v1Payload({ userSignedJWT: "a.b.c", userAddress: "0xabc", metadata: { flowId: "premium" } }),
+      );
+
+      expect(migrated).to.deep.equal({
+        formatVersion: 2,
+        encryption: "lit",
+        ...v1Payload(),
+        userSignedJWT: "a.b.c",
+        userAddress: "0xabc",
+        metadata: { flowId: "premium" },
+      });
+    });
+
+    it("should turn the v1 mock convention into mock encryption", () => {
+      const mock = { credentialRequirementsHash: undefined, litActionIpfsCid: undefined };
+      const byMetadata = migrateEncryptedPayload(
+        v1Payload({ ...mock, metadata: { flowId: "developer-resources", mock: true } }),
+      );
+      const byJWT = migrateEncryptedPayload(v1Payload({ ...mock, userSignedJWT: "mock.jwt.token" }));
+
+      expect(byMetadata.encryption).to.equal("mock");
+      expect(byMetadata.metadata).to.deep.equal({ flowId: "developer-resources" });
+      expect(byJWT.encryption).to.equal("mock");
+      expect(byJWT).to.not.have.property("userSignedJWT");
+    });
+
+    for (const field of ["credentialRequirementsHash", "litActionIpfsCid"] as const) {
+      it(`should refuse a v1 Lit payload without ${field}`, () => {
+        expect(() => migrateEncryptedPayload(v1Payload({ [field]: undefined }))).to.throw(
+          "Version 1 Lit payloads are not bound to their requirements and must be re-encrypted",
+        );
+      });
+    }
+
+    it("should refuse unknown format versions", () => {
+      expect(() => migrateEncryptedPayload({ ...v2Payload(), formatVersion: 3 })).to.throw(
+        "Unsupported encrypted payload format version: 3",
+      );
+      expect(() => migrateEncryptedPayload({ ...v2Payload(), formatVersion: "2" })).to.throw(
+        "Unsupported encrypted payload format version: 2",
+      );
+    });
+  });
+
+  describe("Serialization", () => {
+    it("should parse what it serializes, and older versions", () => {
+      const payload = v2Payload({ metadata: { encryptedAt: "2026-10-19T12:00:00.000Z" } });
+
+      expect(parseEncryptedPayload(serializeEncryptedPayload(payload))).to.deep.equal(payload);
+      expect(parseEncryptedPayload(JSON.stringify(v1Payload()))).to.deep.equal(v2Payload());
+    });
+
+    it("should not serialize an invalid payload", () => {
+      expect(() => serializeEncryptedPayload(v2Payload({ ciphertext: "" }))).to.throw(
+        "Invalid encrypted payload: /ciphertext must not be empty",
+      );
+    });
+
+    it("should version the client's ciphertexts and refuse mock ones", async () => {
+      const client = new CredentialEncryptionClient({
+        payer: ethers.Wallet.createRandom(),
+        credentials: { load: async () => [] },
+        trustedIssuers: [credentialRequirements.issuer],
+        logger: { log: () => undefined, error: () => undefined },
+        litClients: createMockLitClientFactory(
+          new MockLitNodeClient({ pinnedActions: [litActionCode] }),
+          new MockLitContracts(),
+        ),
+      });
+
+      const encryptedData = await client.encrypt("secret", credentialRequirements);
+      expect(encryptedData).to.include({ formatVersion: 2, encryption: "lit" });
+      expect(parseEncryptedPayload(serializeEncryptedPayload(encryptedData))).to.deep.equal(encryptedData);
+
+      try {
+        await client.decrypt({ ...encryptedData, encryption: "mock" as any }, ethers.Wallet.createRandom().address);
+        expect.fail("Should have thrown an error");
+      } catch (error: any) {
+        expect(error.message).to.equal("Mock payloads cannot be decrypted through Lit");
+      } finally {
+        await client.disconnect();
+      }
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import {
+  CredentialEncryptionClient,
+  decryptContent,
+  decryptContentStream,
+  encryptContent,
+  encryptContentStream,
+  generateContentKey,
+  readContent,
+} from "../src/index.js";
+import { litActionCode } from "../src/litAction.js";
+import { CredentialRequirements, ParsedCredential } from "../src/utils.js";
+import {
+  MockLitNodeClient,
+  MockLitContracts,
+  createMockLitClientFactory,
+  createMockFetch,
+  TestIssuer,
+  didWebDocumentUrl,
+} from "../src/testing/index.js";
+
+const randomBytes = (length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  for (let offset = 0; offset < length; offset += 65536) {
+    crypto.getRandomValues(bytes.subarray(offset, Math.min(offset + 65536, length)));
+  }
+  return bytes;
+};
+
+/**
+ * A stream handing out `bytes` in reads of `readSize`, like a file or a
+ * network response
+ */
+const streamOf = (bytes: Uint8Array, readSize: number): ReadableStream<Uint8Array> => {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + readSize));
+      offset += readSize;
+    },
+  });
+};
+
+const expectRejection = async (promise: Promise<unknown>, message: string) => {
+  let error: Error | undefined;
+  try {
+    await promise;
+  } catch (e) {
+    error = e as Error;
+  }
+  expect(error?.message).to.equal(message);
+};
+
+describe("Envelope Encryption", () => {
+  describe("Content encryption", () => {
+    const contentKey = generateContentKey();
+
+    it("should round-trip binary content", async () => {
+      const content = Uint8Array.from([0, 255, 128, 10, 13, 0xef, 0xbb, 0xbf]);
+      const { metadata, ciphertext } = await encryptContent(content, contentKey);
+
+      expect(metadata).to.deep.include({
+        algorithm: "AES-256-GCM",
+        mimeType: "application/octet-stream",
+        size: 8,
+      });
+      expect(await decryptContent(ciphertext, contentKey, metadata)).to.deep.equal(content);
+    });
+
+    it("should take the MIME type and size of a Blob", async () => {
+      const blob = new Blob(["<svg xmlns='http://www.w3.org/2000/svg'/>"], { type: "image/svg+xml" });
+      const { metadata, ciphertext } = await encryptContent(blob, contentKey);
+
+      expect(metadata.mimeType).to.equal("image/svg+xml");
+      expect(metadata.size).to.equal(blob.size);
+      const content = await decryptContent(new Blob([ciphertext]), contentKey, metadata);
+      expect(new TextDecoder().decode(content)).to.equal("<svg xmlns='http://www.w3.org/2000/svg'/>");
+    });
+
+    it("should stream multi-MB content in chunks", async () => {
+      const content = randomBytes(3 * 1024 * 1024 + 5);
+      const { metadata, ciphertext } = encryptContentStream(streamOf(content, 100_000), contentKey, { mimeType: "video/mp4" });
+      const encrypted = await readContent(ciphertext);
+
+      expect(metadata.size).to.be.undefined;
+      expect(encrypted.length).to.equal(content.length + 4 * 16);
+      const decrypted = await readContent(decryptContentStream(streamOf(encrypted, 70_000), contentKey, metadata));
+      expect(decrypted).to.deep.equal(content);
+    });
+
+    it("should encrypt empty content and content filling whole chunks", async () => {
+      for (const length of [0, 32, 64]) {
+        const content = randomBytes(length);
+        const { metadata, ciphertext } = await encryptContent(content, contentKey, { chunkSize: 32 });
+        expect(await decryptContent(ciphertext, contentKey, metadata)).to.deep.equal(content);
+      }
+    });
+
+    it("should reject altered, reordered or truncated ciphertexts", async () => {
+      const { metadata, ciphertext } = await encryptContent(randomBytes(100), contentKey, { chunkSize: 32 });
+      const chunk = 32 + 16;
+
+      const altered = ciphertext.slice();
+      altered[chunk + 3] ^= 1;
+      await expectRejection(decryptContent(altered, contentKey, metadata), "Content chunk 1 failed to decrypt");
+
+      const reordered = new Uint8Array(ciphertext.length);
+      reordered.set(ciphertext.subarray(chunk, 2 * chunk), 0);
+      reordered.set(ciphertext.subarray(0, chunk), chunk);
+      reordered.set(ciphertext.subarray(2 * chunk), 2 * chunk);
+      await expectRejection(decryptContent(reordered, contentKey, metadata), "Content chunk 0 failed to decrypt");
+
+      const truncated = ciphertext.slice(0, 3 * chunk);
+      await expectRejection(
+        decryptContent(truncated, contentKey, { ...metadata, size: undefined }),
+        "Content chunk 2 failed to decrypt",
+      );
+    });
+
+    it("should authenticate the MIME type", async () => {
+      const { metadata, ciphertext } = await encryptContent(randomBytes(10), contentKey, { mimeType: "text/plain" });
+
+      await expectRejection(
+        decryptContent(ciphertext, contentKey, { ...metadata, mimeType: "text/html" }),
+        "Content chunk 0 failed to decrypt",
+      );
+    });
+
+    it("should refuse another or a malformed key", async () => {
+      const { metadata, ciphertext } = await encryptContent(randomBytes(10), contentKey);
+
+      await expectRejection(decryptContent(ciphertext, generateContentKey(), metadata), "Content chunk 0 failed to decrypt");
+      expect(() => encryptContentStream(randomBytes(10), "c2hvcnQ")).to.throw("Content key must be 256 bits");
+    });
+  });
+
+  describe("Through the credential Lit Action", () => {
+    const issuer = new TestIssuer("did:web:issuer.test");
+    const userWallet = ethers.Wallet.createRandom();
+    const routes = { [didWebDocumentUrl(issuer.did)]: issuer.didDocument };
+    const credentialRequirements: CredentialRequirements = { issuer: issuer.did, credentialType: "GitHubVerification" };
+    const savedFetch = globalThis.fetch;
+    let litNodeClient: MockLitNodeClient;
+    let client: CredentialEncryptionClient;
+
+    const credentialOf = (address: string) =>
+      issuer.issueCredentialRecord({
+        subject: `did:pkh:eip155:1:${address.toLowerCase()}`,
+        evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+      });
+
+    before(() => {
+      globalThis.fetch = createMockFetch(routes) as typeof globalThis.fetch;
+      const storedCredentials: ParsedCredential[] = [credentialOf(userWallet.address)].map(({ jwt, subject, parsed }) => ({
+        jwt,
+        subject,
+        ...parsed,
+      }));
+      litNodeClient = new MockLitNodeClient({ pinnedActions: [litActionCode], fetch: createMockFetch(routes) });
+      client = new CredentialEncryptionClient({
+        payer: ethers.Wallet.createRandom(),
+        credentials: { load: async () => storedCredentials },
+        trustedIssuers: [issuer.did],
+        logger: { log: () => undefined, error: () => undefined },
+        litClients: createMockLitClientFactory(litNodeClient, new MockLitContracts()),
+      });
+    });
+
+    after(async () => {
+      await client.disconnect();
+      globalThis.fetch = savedFetch;
+    });
+
+    it("should only send the content key through Lit", async () => {
+      const content = randomBytes(200_000);
+      const envelope = await client.encryptContentEnvelope(content, credentialRequirements, { mimeType: "application/pdf" });
+
+      expect(envelope.encryptedKey.ciphertext.length).to.be.lessThan(1000);
+      const decrypted = await client.decryptContentEnvelope(envelope, userWallet.address);
+      expect(decrypted.mimeType).to.equal("application/pdf");
+      expect(decrypted.content).to.deep.equal(content);
+    });
+
+    it("should stream a file through the envelope", async () => {
+      const content = randomBytes(2 * 1024 * 1024);
+      const envelope = await client.encryptContentEnvelopeStream(new Blob([content], { type: "image/png" }), credentialRequirements);
+      const ciphertext = await readContent(envelope.ciphertext);
+
+      const decrypted = await client.decryptContentEnvelopeStream({ ...envelope, ciphertext: streamOf(ciphertext, 65536) }, userWallet.address);
+      expect(decrypted.mimeType).to.equal("image/png");
+      expect(await readContent(decrypted.content)).to.deep.equal(content);
+    });
+
+    it("should not release the content key without a matching credential", async () => {
+      const { encryptedKey } = await client.encryptContentEnvelope(randomBytes(10), credentialRequirements);
+      const other = ethers.Wallet.createRandom();
+      const sessionSigs = await litNodeClient.getSessionSigs({
+        resourceAbilityRequests: [{ resource: { getResourceKey: () => "lit-litaction://*" }, ability: "lit-action-execution" }],
+      });
+
+      const result = await litNodeClient.executeJs({
+        sessionSigs,
+        ipfsId: encryptedKey.litActionIpfsCid,
+        jsParams: {
+          accessControlConditions: encryptedKey.accessControlConditions,
+          ciphertext: encryptedKey.ciphertext,
+          dataToEncryptHash: encryptedKey.dataToEncryptHash,
+          credentialJWT: credentialOf(userWallet.address).jwt,
+          credentialRequirements,
+          userAddress: other.address,
+        },
+      });
+
+      expect((result.response as any).success).to.be.false;
+      expect((result.response as any).secret).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+import fs from "fs";
+
+import {
+  runCredentialAction,
+  runEnhancedCredentialAction,
+  classifyActionError,
+  parseCredentialActionResponse,
+  LitActionsRuntime,
+} from "../src/action/index.js";
+import {
+  assertES256KJWT,
+  verifyJWTWithEdDSA,
+  hashCredentialRequirements,
+  sealSecret,
+  CredentialRequirements,
+} from "../src/verification/index.js";
+import { createDecryptionJWT } from "../src/jwt.js";
+import {
+  TestIssuer,
+  createMockFetch,
+  didWebDocumentUrl,
+  mockReplayServiceRoute,
+  MOCK_REPLAY_SERVICE_URL,
+} from "../src/testing/index.js";
+import {
+  LIT_ACTIONS,
+  bundleLitAction,
+  renderGeneratedModule,
+  generatedModulePath,
+} from "../scripts/build-lit-actions.js";
+
+describe("Lit Action Modules", () => {
+  const testSecret = "Verified in-process without a Lit network";
+  const issuer = new TestIssuer("did:web:issuer.test");
+  const userWallet = ethers.Wallet.createRandom();
+  const userAddress = userWallet.address;
+  const subject = `did:pkh:eip155:1:${userAddress.toLowerCase()}`;
+  const fetch = createMockFetch({ [didWebDocumentUrl(issuer.did)]: issuer.didDocument, ...mockReplayServiceRoute() });
+
+  const credentialRequirements: CredentialRequirements = {
+    issuer: issuer.did,
+    credentialType: "GitHubVerification",
+    claims: {
+      githubHandle: "octocat"
+    }
+  };
+
+  const credentialJWT = issuer.issueCredentialJWT({
+    subject,
+    evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" }
+  });
+
+  let savedFetch: typeof globalThis.fetch;
+
+  before(() => {
+    // The actions resolve DID documents with the runtime's global fetch
+    savedFetch = globalThis.fetch;
+    globalThis.fetch = fetch as typeof globalThis.fetch;
+  });
+
+  after(() => {
+    globalThis.fetch = savedFetch;
+  });
+
+  const createRuntime = async () => {
+    const sealed = sealSecret(testSecret, await hashCredentialRequirements(credentialRequirements));
+    const runtime = {
+      decryptCalls: 0,
+      response: undefined as unknown,
+      Actions: {
+        decryptAndCombine: async () => {
+          runtime.decryptCalls++;
+          return sealed;
+        },
+        setResponse: ({ response }: { response: unknown }) => {
+          runtime.response = response;
+        },
+      } as LitActionsRuntime,
+    };
+    return runtime;
+  };
+
+  const actionParams = {
+    accessControlConditions: [],
+    ciphertext: "ciphertext",
+    dataToEncryptHash: "hash",
+    credentialJWT,
+    credentialRequirements,
+    userAddress,
+  };
+
+  describe("Generated action code", () => {
+    for (const { entry, exportName } of LIT_ACTIONS) {
+      it(`should match the bundled ${entry} sources`, async function () {
+        this.timeout(30000);
+        const expected = renderGeneratedModule(exportName, await bundleLitAction(entry));
+        const current = fs.readFileSync(generatedModulePath(entry), "utf8");
+
+        expect(current, "run `npm run build:actions` to regenerate").to.equal(expected);
+      });
+    }
+  });
+
+  describe("Credential action", () => {
+    it("should release the secret for a matching credential", async () => {
+      const runtime = await createRuntime();
+      const response = await runCredentialAction(actionParams, runtime);
+
+      console.log("✅ Action response:", response);
+
+      expect(response.success).to.be.true;
+      expect(runtime.response).to.deep.equal(response);
+      if (response.success) {
+        expect(response.secret).to.equal(testSecret);
+        expect(response.verifiedCredential.githubHandle).to.equal("octocat");
+      }
+    });
+
+    it("should not decrypt when claims do not match", async () => {
+      const runtime = await createRuntime();
+      const response = await runCredentialAction({
+        ...actionParams,
+        credentialRequirements: { ...credentialRequirements, claims: { githubHandle: "someone-else" } }
+      }, runtime);
+
+      expect(response.success).to.be.false;
+      expect(runtime.decryptCalls).to.equal(0);
+      if (!response.success) {
+        expect(response.error).to.include("GitHub handle requirement not met");
+      }
+    });
+
+    it("should parse the responses it sets", async () => {
+      const runtime = await createRuntime();
+      const response = await runCredentialAction(actionParams, runtime);
+
+      expect(parseCredentialActionResponse(runtime.response)).to.deep.equal(response);
+      expect(parseCredentialActionResponse({ success: false, error: "denied" })).to.deep.equal({ success: false, error: "denied" });
+    });
+
+    for (const [label, response, error] of [
+      ["a string", "ok", "Lit Action response has no success flag"],
+      ["null", null, "Lit Action response has no success flag"],
+      ["a string success flag", { success: "true", secret: "s" }, "Lit Action response has no success flag"],
+      ["a success without a secret", { success: true }, "Lit Action response has no secret"],
+      ["a failure without an error", { success: false }, "Lit Action response has no error"],
+    ] as const) {
+      it(`should refuse ${label} as a response`, () => {
+        expect(() => parseCredentialActionResponse(response)).to.throw(error);
+      });
+    }
+  });
+
+  describe("Enhanced credential action", () => {
+    it("should release the secret with a valid user JWT", async () => {
+      const runtime = await createRuntime();
+      const response = await runEnhancedCredentialAction({
+        ...actionParams,
+        userSignedJWT: await createDecryptionJWT(userWallet, credentialRequirements, "hash", undefined, MOCK_REPLAY_SERVICE_URL),
+      }, runtime);
+
+      expect(response.success).to.be.true;
+      if (response.success) {
+        expect(response.secret).to.equal(testSecret);
+        expect(response.authenticationFactors).to.have.length(2);
+      }
+    });
+
+    it("should reject a user JWT signed by another wallet", async () => {
+      const runtime = await createRuntime();
+      const response = await runEnhancedCredentialAction({
+        ...actionParams,
+        userSignedJWT: await createDecryptionJWT(ethers.Wallet.createRandom(), credentialRequirements, "hash"),
+      }, runtime);
+
+      expect(response.success).to.be.false;
+      expect(runtime.decryptCalls).to.equal(0);
+      if (!response.success) {
+        expect(response.error).to.equal("JWT signer does not match expected address");
+      }
+    });
+
+    it("should classify errors by verification stage", () => {
+      expect(classifyActionError("GitHub handle requirement not met")).to.equal("github_credential_verification");
+      expect(classifyActionError("Subscription tier requirement not met")).to.equal("credential_claims_verification");
+      expect(classifyActionError("Ciphertext is not bound to credential requirements")).to.equal("requirements_binding_error");
+      expect(classifyActionError("JWT expired")).to.equal("general_error");
+    });
+  });
+
+  describe("Shared verification", () => {
+    it("should verify credential JWTs with an injected fetch", async () => {
+      const result = await verifyJWTWithEdDSA(credentialJWT, issuer.did, { fetch });
+
+      expect(result.valid).to.be.true;
+      expect(result.payload.sub).to.equal(subject);
+    });
+
+    it("should report a missing DID document", async () => {
+      try {
+        await verifyJWTWithEdDSA(credentialJWT, issuer.did, { fetch: createMockFetch({}) });
+        expect.fail("Should have thrown an error");
+      } catch (error: any) {
+        expect(error.message).to.equal("Failed to fetch DID document: 404");
+      }
+    });
+
+    it("should assert the ES256K JWT signer", async () => {
+      const jwt = await createDecryptionJWT(userWallet, credentialRequirements, "hash");
+      const { payload } = await assertES256KJWT(jwt, userAddress.toLowerCase());
+
+      expect(payload.purpose).to.equal("decrypt");
+    });
+  });
+});
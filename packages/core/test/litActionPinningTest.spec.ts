@@ -0,0 +1,115 @@
+import { expect } from "chai";
+
+import {
+  computeLitActionIpfsCid,
+  createLitActionAccessControlConditions,
+  assertLitActionPinned,
+} from "../src/ipfs.js";
+import { litActionCode } from "../src/litAction.js";
+import { litActionCode as enhancedLitActionCode } from "../src/litActionEnhanced.js";
+import { rekeyActionCode } from "../src/action/index.js";
+
+describe("Lit Action IPFS Pinning", () => {
+  let litActionIpfsCid: string;
+
+  it("should compute a deterministic CIDv0 for the Lit Action code", async () => {
+    litActionIpfsCid = await computeLitActionIpfsCid(litActionCode);
+
+    console.log("📌 Lit Action IPFS CID:", litActionIpfsCid);
+
+    expect(litActionIpfsCid).to.match(/^Qm[1-9A-HJ-NP-Za-km-z]{44}$/);
+    expect(await computeLitActionIpfsCid(litActionCode)).to.equal(litActionIpfsCid);
+    expect(await computeLitActionIpfsCid(enhancedLitActionCode)).to.not.equal(litActionIpfsCid);
+  });
+
+  it("should match the CID IPFS assigns to known content", async () => {
+    expect(await computeLitActionIpfsCid("hello")).to.equal("QmWfVY9y3xjsixTgbd9AorQxH7VtMpzfx2HaWtsoUYecaX");
+  });
+
+  it("should bind access control conditions to the exact CID", () => {
+    const conditions = createLitActionAccessControlConditions(litActionIpfsCid);
+
+    expect(conditions).to.have.length(1);
+    expect(conditions[0]).to.deep.include({
+      parameters: [":currentActionIpfsId"],
+      returnValueTest: { comparator: "=", value: litActionIpfsCid },
+    });
+  });
+
+  it("should accept code that matches the pinned CID", async () => {
+    const accessControlConditions = createLitActionAccessControlConditions(litActionIpfsCid);
+
+    const cid = await assertLitActionPinned(litActionCode, { litActionIpfsCid, accessControlConditions });
+    expect(cid).to.equal(litActionIpfsCid);
+  });
+
+  it("should reject code that does not hash to the pinned CID", async () => {
+    const accessControlConditions = createLitActionAccessControlConditions(litActionIpfsCid);
+
+    try {
+      await assertLitActionPinned(litActionCode + "\n// tampered", { litActionIpfsCid, accessControlConditions });
+      expect.fail("Expected tampered Lit Action code to be rejected");
+    } catch (error) {
+      expect((error as Error).message).to.include("Lit Action code does not match pinned IPFS CID");
+    }
+  });
+
+  it("should reject conditions that are not bound to the pinned CID", async () => {
+    const permissiveConditions: any = [
+      {
+        contractAddress: "",
+        standardContractType: "timestamp",
+        chain: "ethereum",
+        method: "",
+        parameters: [":currentActionIpfsId"],
+        returnValueTest: { comparator: ">=", value: "0" },
+      },
+    ];
+
+    try {
+      await assertLitActionPinned(litActionCode, { litActionIpfsCid, accessControlConditions: permissiveConditions });
+      expect.fail("Expected permissive access control conditions to be rejected");
+    } catch (error) {
+      expect((error as Error).message).to.include("not bound to Lit Action");
+    }
+  });
+
+  it("should reject conditions that pin the CID alongside another condition", async () => {
+    const accessControlConditions = [
+      ...createLitActionAccessControlConditions(litActionIpfsCid),
+      { operator: "or" },
+      ...createLitActionAccessControlConditions(await computeLitActionIpfsCid("// another action")),
+    ];
+
+    try {
+      await assertLitActionPinned(litActionCode, { litActionIpfsCid, accessControlConditions });
+      expect.fail("Expected conditions admitting another Lit Action to be rejected");
+    } catch (error) {
+      expect((error as Error).message).to.include("not bound to Lit Action");
+    }
+  });
+
+  it("should accept conditions that also pin the given rekey Lit Action", async () => {
+    const rekeyActionIpfsCid = await computeLitActionIpfsCid(rekeyActionCode);
+    const accessControlConditions = createLitActionAccessControlConditions(litActionIpfsCid, rekeyActionIpfsCid);
+
+    const cid = await assertLitActionPinned(litActionCode, { litActionIpfsCid, accessControlConditions }, rekeyActionIpfsCid);
+    expect(cid).to.equal(litActionIpfsCid);
+  });
+
+  it("should reject conditions pinning a rekey Lit Action other than the given one", async () => {
+    const accessControlConditions = createLitActionAccessControlConditions(
+      litActionIpfsCid,
+      await computeLitActionIpfsCid("// another rekey action"),
+    );
+
+    for (const rekeyActionIpfsCid of [undefined, await computeLitActionIpfsCid(rekeyActionCode)]) {
+      try {
+        await assertLitActionPinned(litActionCode, { litActionIpfsCid, accessControlConditions }, rekeyActionIpfsCid);
+        expect.fail("Expected an unknown rekey Lit Action to be rejected");
+      } catch (error) {
+        expect((error as Error).message).to.include("not bound to Lit Action");
+      }
+    }
+  });
+});
@@ -0,0 +1,197 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import {
+  CredentialEncryptionClient,
+  DEFAULT_CAPACITY_CREDIT_POLICY,
+  LitSessionManager,
+  LitSessionOptions,
+} from "../src/index.js";
+import { litActionCode } from "../src/litAction.js";
+import { computeLitActionIpfsCid } from "../src/ipfs.js";
+import { CredentialRequirements, ParsedCredential } from "../src/utils.js";
+import {
+  MockLitNodeClient,
+  MockLitContracts,
+  createMockLitClientFactory,
+  createMockFetch,
+  TestIssuer,
+  didWebDocumentUrl,
+} from "../src/testing/index.js";
+
+describe("Lit sessions", () => {
+  const issuer = new TestIssuer("did:web:issuer.test");
+  const userWallet = ethers.Wallet.createRandom();
+  const payer = ethers.Wallet.createRandom();
+  const routes = { [didWebDocumentUrl(issuer.did)]: issuer.didDocument };
+  const silent = { log: () => undefined, error: () => undefined };
+
+  const credentialRequirements: CredentialRequirements = {
+    issuer: issuer.did,
+    credentialType: "GitHubVerification",
+  };
+
+  const savedFetch = globalThis.fetch;
+  const savedNow = Date.now;
+  let litNodeClient: MockLitNodeClient;
+  let litContracts: MockLitContracts;
+  let connections: number;
+  let delegations: string[];
+
+  const createSession = (options: Partial<LitSessionOptions> = {}) =>
+    new LitSessionManager({
+      litClients: createMockLitClientFactory(litNodeClient, litContracts),
+      payer: () => payer,
+      litActionIpfsCids: async () => [await computeLitActionIpfsCid(litActionCode)],
+      capacityCredits: { ...DEFAULT_CAPACITY_CREDIT_POLICY, delegationUses: "2" },
+      logger: silent,
+      ...options,
+    });
+
+  before(() => {
+    globalThis.fetch = createMockFetch(routes) as typeof globalThis.fetch;
+  });
+
+  beforeEach(() => {
+    litNodeClient = new MockLitNodeClient({ pinnedActions: [litActionCode], fetch: createMockFetch(routes) });
+    litContracts = new MockLitContracts();
+    connections = 0;
+    delegations = [];
+
+    const connect = litNodeClient.connect.bind(litNodeClient);
+    litNodeClient.connect = async () => {
+      connections++;
+      await connect();
+    };
+    const createCapacityDelegationAuthSig = litNodeClient.createCapacityDelegationAuthSig.bind(litNodeClient);
+    litNodeClient.createCapacityDelegationAuthSig = async (params) => {
+      delegations.push(params.uses!);
+      return createCapacityDelegationAuthSig(params);
+    };
+  });
+
+  afterEach(() => {
+    Date.now = savedNow;
+  });
+
+  after(() => {
+    globalThis.fetch = savedFetch;
+  });
+
+  it("should connect and mint a capacity credit once", async () => {
+    const session = createSession();
+
+    await Promise.all([session.litNodeClient(), session.sessionSigs(), session.sessionSigs()]);
+    await session.sessionSigs();
+
+    expect(connections).to.equal(1);
+    expect(litContracts.mintedCapacityTokenIds).to.have.length(1);
+    expect(litNodeClient.ready).to.be.true;
+  });
+
+  it("should renew the session once its delegation's uses are spent", async () => {
+    const session = createSession();
+
+    const first = await session.sessionSigs();
+    expect(await session.sessionSigs()).to.equal(first);
+    expect(await session.sessionSigs()).to.not.equal(first);
+    expect(delegations).to.deep.equal(["2", "2"]);
+  });
+
+  it("should renew the session before it expires", async () => {
+    const session = createSession({ sessionDurationMs: 60_000 });
+    const start = savedNow();
+
+    const first = await session.sessionSigs();
+    Date.now = () => start + 20_000;
+    expect(await session.sessionSigs()).to.equal(first);
+
+    Date.now = () => start + 40_000;
+    const renewed = await session.sessionSigs();
+    expect(renewed).to.not.equal(first);
+    expect(JSON.parse(renewed["mock-node"].signedMessage).expiration).to.equal(new Date(start + 100_000).toISOString());
+  });
+
+  it("should only let session signatures execute the given Lit Actions", async () => {
+    const sessionSigs = await createSession().sessionSigs();
+
+    const { resourceAbilityRequests } = JSON.parse(sessionSigs["mock-node"].signedMessage);
+    expect(resourceAbilityRequests.filter((request: { ability: string }) => request.ability === "lit-action-execution"))
+      .to.deep.equal([
+        { resource: `lit-litaction://${await computeLitActionIpfsCid(litActionCode)}`, ability: "lit-action-execution" },
+      ]);
+
+    const rogueAction = `Lit.Actions.setResponse({ response: { success: true } })`;
+    try {
+      await litNodeClient.executeJs({ sessionSigs, code: rogueAction, jsParams: {} });
+      expect.fail("Expected the session signatures to refuse another Lit Action");
+    } catch (error) {
+      expect((error as Error).message).to.include("Session signatures do not permit executing Lit Action");
+    }
+  });
+
+  it("should reconnect after disconnecting", async () => {
+    const session = createSession();
+
+    const first = await session.sessionSigs();
+    await session.disconnect();
+    expect(litNodeClient.ready).to.be.false;
+
+    expect(await session.sessionSigs()).to.not.equal(first);
+    expect(connections).to.equal(2);
+    expect(litContracts.mintedCapacityTokenIds).to.have.length(1);
+  });
+
+  it("should retry a failed connection", async () => {
+    const connect = litNodeClient.connect;
+    litNodeClient.connect = async () => {
+      litNodeClient.connect = connect;
+      throw new Error("Lit network unavailable");
+    };
+    const session = createSession();
+
+    try {
+      await session.sessionSigs();
+      expect.fail("Should have thrown an error");
+    } catch (error: any) {
+      expect(error.message).to.equal("Lit network unavailable");
+    }
+    expect(await session.litNodeClient()).to.equal(litNodeClient);
+  });
+
+  it("should refuse delegations without uses", () => {
+    expect(() =>
+      createSession({ capacityCredits: { ...DEFAULT_CAPACITY_CREDIT_POLICY, delegationUses: "0" } }),
+    ).to.throw("Invalid capacity delegation uses: 0");
+  });
+
+  it("should run many decrypts on one client session", async () => {
+    const storedCredentials: ParsedCredential[] = [
+      issuer.issueCredentialRecord({
+        subject: `did:pkh:eip155:1:${userWallet.address.toLowerCase()}`,
+        evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+      }),
+    ].map(({ jwt, subject, parsed }) => ({ jwt, subject, ...parsed }));
+    const client = new CredentialEncryptionClient({
+      payer: ethers.Wallet.createRandom(),
+      capacityCredits: { delegationUses: "5" },
+      credentials: { load: async () => storedCredentials },
+      trustedIssuers: [issuer.did],
+      logger: silent,
+      litClients: createMockLitClientFactory(litNodeClient, litContracts),
+    });
+
+    const secrets = ["first", "second", "third"];
+    const encrypted = await Promise.all(secrets.map((secret) => client.encrypt(secret, credentialRequirements)));
+    const results = [];
+    for (const encryptedData of encrypted) {
+      results.push((await client.decrypt(encryptedData, userWallet.address)).response as any);
+    }
+    await client.disconnect();
+
+    expect(results.map((response) => response.secret)).to.deep.equal(secrets);
+    expect(connections).to.equal(1);
+    expect(delegations).to.deep.equal(["5"]);
+    expect(litNodeClient.ready).to.be.false;
+  });
+});
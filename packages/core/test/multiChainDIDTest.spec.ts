@@ -0,0 +1,272 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import { runEnhancedCredentialAction, LitActionsRuntime } from "../src/action/index.js";
+import {
+  base58btcEncode,
+  bitcoinMessageHash,
+  createDIDResolver,
+  credentialTypes,
+  hashCredentialRequirements,
+  sealSecret,
+  verifyES256KJWT,
+  BITCOIN_MAINNET,
+  CredentialRequirements,
+  SOLANA_MAINNET,
+  UserJWTSigner,
+} from "../src/verification/index.js";
+import { createDIDPKH, parseDIDPKH, validateDIDPKHAddress } from "../src/did.js";
+import { createDecryptionJWT, parseJWT, signWalletJWT } from "../src/jwt.js";
+import {
+  TestIssuer,
+  createMockFetch,
+  didWebDocumentUrl,
+  mockReplayServiceRoute,
+  MOCK_REPLAY_SERVICE_URL,
+} from "../src/testing/index.js";
+
+const hash160 = (data: ethers.utils.BytesLike) => ethers.utils.ripemd160(ethers.utils.sha256(data));
+
+const base58check = (version: number, payload: string) => {
+  const body = ethers.utils.concat([[version], payload]);
+  const checksum = ethers.utils.arrayify(ethers.utils.sha256(ethers.utils.sha256(body))).slice(0, 4);
+  return base58btcEncode(ethers.utils.concat([body, checksum]));
+};
+
+/**
+ * A Solana wallet stand-in: an Ed25519 key whose base58 public key is the address
+ */
+const createSolanaSigner = async (): Promise<UserJWTSigner> => {
+  const { publicKey, privateKey } = await crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"]) as CryptoKeyPair;
+  return {
+    address: base58btcEncode(new Uint8Array(await crypto.subtle.exportKey("raw", publicKey))),
+    chain: SOLANA_MAINNET,
+    signBytes: async (message) => new Uint8Array(await crypto.subtle.sign("Ed25519", privateKey, message)),
+  };
+};
+
+/**
+ * A Bitcoin wallet stand-in signing BIP-137 messages for a P2PKH or
+ * P2SH-P2WPKH address of a secp256k1 key
+ */
+const createBitcoinSigner = (type: "p2pkh" | "p2sh-p2wpkh" = "p2pkh"): UserJWTSigner => {
+  const key = new ethers.utils.SigningKey(ethers.Wallet.createRandom().privateKey);
+  const compressed = ethers.utils.computePublicKey(key.publicKey, true);
+  const address = type === "p2pkh"
+    ? base58check(0x00, hash160(compressed))
+    : base58check(0x05, hash160(ethers.utils.concat(["0x0014", hash160(compressed)])));
+  return {
+    address,
+    chain: BITCOIN_MAINNET,
+    signMessage: async (message) => {
+      const signature = key.signDigest(bitcoinMessageHash(message));
+      const header = (type === "p2pkh" ? 31 : 35) + signature.recoveryParam;
+      return Buffer.from(ethers.utils.concat([[header], signature.r, signature.s])).toString("base64");
+    },
+  };
+};
+
+describe("Multi-chain did:pkh", () => {
+  const claims = {
+    aud: "lit-protocol-encryption",
+    purpose: "decrypt" as const,
+    resource: "lit-ciphertext:hash",
+  };
+
+  describe("DID:PKH utilities", () => {
+    it("should create and parse CAIP-10 accounts in each namespace", async () => {
+      const solana = await createSolanaSigner();
+      const bitcoin = createBitcoinSigner();
+      const evmAddress = ethers.Wallet.createRandom().address;
+
+      expect(parseDIDPKH(createDIDPKH(evmAddress, "eip155:137"))).to.deep.equal({
+        did: `did:pkh:eip155:137:${evmAddress}`,
+        namespace: "eip155",
+        chain: "eip155:137",
+        chainId: 137,
+        address: evmAddress,
+      });
+      expect(parseDIDPKH(createDIDPKH(solana.address, SOLANA_MAINNET))).to.deep.include({
+        did: `did:pkh:${SOLANA_MAINNET}:${solana.address}`,
+        namespace: "solana",
+        chainId: "5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp",
+      });
+      expect(parseDIDPKH(createDIDPKH(bitcoin.address, BITCOIN_MAINNET)).address).to.equal(bitcoin.address);
+    });
+
+    it("should reject addresses that are invalid for the namespace", () => {
+      const evmAddress = ethers.Wallet.createRandom().address;
+
+      expect(() => createDIDPKH(evmAddress, SOLANA_MAINNET)).to.throw(`Invalid Solana address: ${evmAddress}`);
+      expect(() => createDIDPKH("1BoatSLRHtKNngkdXEeobR76b53LETtpyU", BITCOIN_MAINNET)).to.throw("Invalid Bitcoin address");
+      expect(() => createDIDPKH(evmAddress, "cosmos:cosmoshub-4")).to.throw("Unsupported did:pkh namespace: cosmos");
+      expect(() => parseDIDPKH(`did:pkh:solana:${SOLANA_MAINNET.split(":")[1]}:0xnope`)).to.throw("Invalid DID:PKH format");
+    });
+
+    it("should compare base58 addresses case-sensitively", async () => {
+      const { address } = await createSolanaSigner();
+      const did = createDIDPKH(address, SOLANA_MAINNET);
+
+      expect(validateDIDPKHAddress(did, address)).to.be.true;
+      expect(validateDIDPKHAddress(did, address.toLowerCase())).to.be.false;
+    });
+
+    it("should resolve a Solana account to its Ed25519 key", async () => {
+      const { address } = await createSolanaSigner();
+      const did = createDIDPKH(address, SOLANA_MAINNET);
+      const didDocument = await createDIDResolver().resolve(did);
+
+      expect(didDocument.verificationMethod?.[0]).to.deep.include({
+        type: "Ed25519VerificationKey2018",
+        blockchainAccountId: `${SOLANA_MAINNET}:${address}`,
+        publicKeyBase58: address,
+      });
+    });
+  });
+
+  describe("User JWTs", () => {
+    it("should verify a Solana wallet's Ed25519 signature", async () => {
+      const signer = await createSolanaSigner();
+      const jwt = await signWalletJWT(signer, claims);
+      const { header, payload, valid } = await verifyES256KJWT(jwt);
+
+      expect(header.alg).to.equal("EdDSA");
+      expect(payload.iss).to.equal(`did:pkh:${SOLANA_MAINNET}:${signer.address}`);
+      expect(valid).to.be.true;
+    });
+
+    it("should reject an Ed25519 signature by another key", async () => {
+      const signer = await createSolanaSigner();
+      const other = await createSolanaSigner();
+      const jwt = await signWalletJWT({ ...signer, signBytes: other.signBytes }, claims);
+
+      expect((await verifyES256KJWT(jwt)).valid).to.be.false;
+    });
+
+    for (const type of ["p2pkh", "p2sh-p2wpkh"] as const) {
+      it(`should verify a BIP-137 signature for a ${type} address`, async () => {
+        const signer = createBitcoinSigner(type);
+        const jwt = await signWalletJWT(signer, claims);
+        const { header, valid } = await verifyES256KJWT(jwt);
+
+        expect(header.alg).to.equal("BIP137");
+        expect(valid).to.be.true;
+      });
+    }
+
+    it("should reject a BIP-137 signature for another address", async () => {
+      const signer = createBitcoinSigner();
+      const jwt = await signWalletJWT({ ...signer, address: createBitcoinSigner().address }, claims);
+
+      expect((await verifyES256KJWT(jwt)).valid).to.be.false;
+    });
+
+    it("should not accept an algorithm the namespace cannot sign with", async () => {
+      const signer = await createSolanaSigner();
+      const jwt = await signWalletJWT(
+        { ...signer, signMessage: async () => ethers.Wallet.createRandom().signMessage("x") },
+        claims,
+        { scheme: "eip191" },
+      );
+
+      let error: Error | undefined;
+      try {
+        await verifyES256KJWT(jwt);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal("Unsupported algorithm: EIP191");
+    });
+
+    it("should put the chain of an ES256K wallet in its DID", async () => {
+      const wallet = ethers.Wallet.createRandom();
+      const jwt = await createDecryptionJWT(wallet, { issuer: "did:web:issuer.test", credentialType: "GitHubVerification" }, "hash", "eip155:137");
+
+      expect(parseJWT(jwt).payload.iss).to.equal(`did:pkh:eip155:137:${wallet.address}`);
+      expect((await verifyES256KJWT(jwt)).valid).to.be.true;
+
+      let error: Error | undefined;
+      try {
+        await createDecryptionJWT(wallet, { issuer: "did:web:issuer.test", credentialType: "GitHubVerification" }, "hash", SOLANA_MAINNET);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal("ES256K keys cannot sign for solana accounts");
+    });
+  });
+
+  describe("Accepted chains", () => {
+    const issuer = new TestIssuer("did:web:issuer.test");
+    const fetch = createMockFetch({ [didWebDocumentUrl(issuer.did)]: issuer.didDocument, ...mockReplayServiceRoute() });
+    let savedFetch: typeof globalThis.fetch;
+    let solana: UserJWTSigner;
+
+    before(async () => {
+      savedFetch = globalThis.fetch;
+      globalThis.fetch = fetch as typeof globalThis.fetch;
+      solana = await createSolanaSigner();
+    });
+
+    after(() => {
+      globalThis.fetch = savedFetch;
+    });
+
+    const run = async (credentialRequirements: CredentialRequirements, userChain?: string) => {
+      const sealed = sealSecret("multi-chain", await hashCredentialRequirements(credentialRequirements));
+      return runEnhancedCredentialAction({
+        accessControlConditions: [],
+        ciphertext: "ciphertext",
+        dataToEncryptHash: "hash",
+        credentialJWT: issuer.issueCredentialJWT({
+          subject: `did:pkh:${SOLANA_MAINNET}:${solana.address}`,
+          evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+        }),
+        credentialRequirements,
+        userAddress: solana.address,
+        userChain,
+        userSignedJWT: await createDecryptionJWT(solana, credentialRequirements, "hash", undefined, MOCK_REPLAY_SERVICE_URL),
+      }, {
+        Actions: {
+          decryptAndCombine: async () => sealed,
+          setResponse: () => undefined,
+        } as LitActionsRuntime,
+      });
+    };
+
+    it("should release the secret to a Solana account on an accepted chain", async () => {
+      const response = await run({ issuer: issuer.did, credentialType: "GitHubVerification", chains: ["solana"] });
+
+      expect(response.success).to.be.true;
+      if (response.success) {
+        expect(response.verifiedUserJWT.userDID).to.equal(`did:pkh:${SOLANA_MAINNET}:${solana.address}`);
+        expect(response.authenticationFactors).to.include("Solana key ownership proof");
+      }
+    });
+
+    it("should refuse accounts on chains the requirements do not name", async () => {
+      const response = await run({ issuer: issuer.did, credentialType: "GitHubVerification", chains: ["eip155:1", "eip155:137"] });
+
+      expect(response.success).to.be.false;
+      if (!response.success) {
+        expect(response.error).to.equal(`Account chain ${SOLANA_MAINNET} is not accepted by the requirements`);
+        expect(response.errorType).to.equal("chain_not_accepted");
+      }
+    });
+
+    it("should refuse a user JWT for another chain than the caller named", async () => {
+      const response = await run({ issuer: issuer.did, credentialType: "GitHubVerification" }, "eip155:1");
+
+      expect(response.success).to.be.false;
+      if (!response.success) {
+        expect(response.errorType).to.equal("user_jwt_verification");
+      }
+    });
+
+    it("should validate the chains requirements name", () => {
+      expect(() => credentialTypes.validateRequirements({ issuer: issuer.did, credentialType: "GitHubVerification", chains: ["cosmos"] }))
+        .to.throw("Unsupported did:pkh namespace: cosmos");
+      expect(() => credentialTypes.validateRequirements({ issuer: issuer.did, credentialType: "GitHubVerification", chains: [] }))
+        .to.throw("chains must be a non-empty array of CAIP-2 chain ids or namespaces");
+    });
+  });
+});
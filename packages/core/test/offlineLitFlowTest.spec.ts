@@ -0,0 +1,391 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+  encryptToCredential,
+  decryptFromCredentials,
+  encryptToCredentialWithJWT,
+  decryptFromCredentialsWithJWT,
+  setLitClientFactory,
+  resetLitClientFactory,
+  disconnectEnvironmentClient,
+} from "../src/index.js";
+import { litActionCode } from "../src/litAction.js";
+import { litActionCode as enhancedLitActionCode } from "../src/litActionEnhanced.js";
+import { createDecryptionJWT } from "../src/jwt.js";
+import { CredentialRequirements } from "../src/utils.js";
+import {
+  MockLitNodeClient,
+  MockLitContracts,
+  createMockLitClientFactory,
+  createMockFetch,
+  TestIssuer,
+  didWebDocumentUrl,
+  mockReplayServiceRoute,
+  MOCK_REPLAY_SERVICE_URL,
+} from "../src/testing/index.js";
+
+describe("Offline Lit Flow (MockLitNodeClient)", () => {
+  const testSecret = "This secret never leaves the mock Lit network unless the credential checks pass!";
+  const issuer = new TestIssuer("did:web:issuer.test");
+  const userWallet = ethers.Wallet.createRandom();
+  const userAddress = userWallet.address;
+
+  const credentialRequirements: CredentialRequirements = {
+    issuer: issuer.did,
+    credentialType: "GitHubVerification",
+    claims: {
+      githubHandle: "octocat"
+    }
+  };
+
+  // Index 7 of the issuer's revocation list is set
+  const statusListUrl = "https://issuer.test/status/revocation";
+  const routes = {
+    [didWebDocumentUrl(issuer.did)]: issuer.didDocument,
+    [statusListUrl]: issuer.issueStatusListCredential({ id: statusListUrl, setIndexes: [7] }),
+    ...mockReplayServiceRoute()
+  };
+
+  const savedEnv = { ...process.env };
+  const savedFetch = globalThis.fetch;
+  let litNodeClient: MockLitNodeClient;
+  let litContracts: MockLitContracts;
+  let tmpDir: string;
+
+  before(() => {
+    // Host-side credential verification resolves the issuer too
+    globalThis.fetch = createMockFetch(routes) as typeof globalThis.fetch;
+
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "lit-offline-"));
+    const credentialsPath = path.join(tmpDir, "credentials.json");
+    const subject = `did:pkh:eip155:1:${userAddress.toLowerCase()}`;
+    fs.writeFileSync(credentialsPath, JSON.stringify({
+      data: [
+        issuer.issueCredentialRecord({ subject, evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" } })
+      ]
+    }));
+
+    process.env.CREDENTIALS_PATH = credentialsPath;
+    process.env.TRUSTED_ISSUERS = issuer.did;
+    process.env.REPLAY_SERVICE_URL = MOCK_REPLAY_SERVICE_URL;
+    process.env.ETHEREUM_PRIVATE_KEY = ethers.Wallet.createRandom().privateKey;
+    delete process.env.LIT_CAPACITY_CREDIT_TOKEN_ID;
+
+    litNodeClient = new MockLitNodeClient({
+      pinnedActions: [litActionCode, enhancedLitActionCode],
+      fetch: createMockFetch(routes)
+    });
+    litContracts = new MockLitContracts();
+    setLitClientFactory(createMockLitClientFactory(litNodeClient, litContracts));
+  });
+
+  after(async () => {
+    await disconnectEnvironmentClient();
+    resetLitClientFactory();
+    globalThis.fetch = savedFetch;
+    process.env = savedEnv;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("Credential-gated flow", () => {
+    let encryptedData: Awaited<ReturnType<typeof encryptToCredential>>;
+
+    it("should encrypt without a Lit network", async () => {
+      encryptedData = await encryptToCredential(testSecret, credentialRequirements, userAddress);
+
+      expect(encryptedData.ciphertext).to.be.a("string");
+      expect(encryptedData.accessControlConditions[0]).to.deep.include({
+        returnValueTest: { comparator: "=", value: encryptedData.litActionIpfsCid }
+      });
+    });
+
+    it("should decrypt through the sandboxed Lit Action", async () => {
+      const result = await decryptFromCredentials(encryptedData, userAddress);
+      const response = result.response as any;
+
+      console.log("🔓 Offline decryption result:", response.verifiedCredential);
+
+      expect(response.success).to.be.true;
+      expect(response.secret).to.equal(testSecret);
+      expect(response.verifiedCredential.githubHandle).to.equal("octocat");
+      expect(litContracts.mintedCapacityTokenIds).to.have.length.greaterThan(0);
+    });
+
+    it("should keep one Lit connection between module-level calls until disconnected", async () => {
+      let connections = 0;
+      const connect = litNodeClient.connect.bind(litNodeClient);
+      litNodeClient.connect = async () => {
+        connections++;
+        await connect();
+      };
+
+      try {
+        await disconnectEnvironmentClient();
+        await decryptFromCredentials(encryptedData, userAddress);
+        await decryptFromCredentials(encryptedData, userAddress);
+        expect(connections).to.equal(1);
+
+        await disconnectEnvironmentClient();
+        expect(litNodeClient.ready).to.be.false;
+        await decryptFromCredentials(encryptedData, userAddress);
+        expect(connections).to.equal(2);
+      } finally {
+        litNodeClient.connect = connect;
+      }
+    });
+
+    it("should not let an unpinned Lit Action decrypt the ciphertext", async () => {
+      const sessionSigs = await litNodeClient.getSessionSigs({
+        resourceAbilityRequests: [{ resource: { getResourceKey: () => "lit-litaction://*" }, ability: "lit-action-execution" }]
+      });
+      const rogueAction = `(async () => {
+        try {
+          const secret = await Lit.Actions.decryptAndCombine({ accessControlConditions, ciphertext, dataToEncryptHash, chain: "ethereum" });
+          Lit.Actions.setResponse({ response: { success: true, secret } });
+        } catch (e) {
+          Lit.Actions.setResponse({ response: { success: false, error: e.message } });
+        }
+      })()`;
+
+      const result = await litNodeClient.executeJs({
+        sessionSigs,
+        code: rogueAction,
+        jsParams: {
+          accessControlConditions: encryptedData.accessControlConditions,
+          ciphertext: encryptedData.ciphertext,
+          dataToEncryptHash: encryptedData.dataToEncryptHash
+        }
+      });
+
+      expect((result.response as any).success).to.be.false;
+      expect((result.response as any).error).to.include("Access control conditions check failed");
+    });
+
+    it("should refuse to release the secret under relaxed requirements", async () => {
+      const sessionSigs = await litNodeClient.getSessionSigs({
+        resourceAbilityRequests: [{ resource: { getResourceKey: () => `lit-litaction://${encryptedData.litActionIpfsCid}` }, ability: "lit-action-execution" }]
+      });
+      const credentials = JSON.parse(fs.readFileSync(process.env.CREDENTIALS_PATH!, "utf8"));
+
+      const result = await litNodeClient.executeJs({
+        sessionSigs,
+        ipfsId: encryptedData.litActionIpfsCid,
+        jsParams: {
+          accessControlConditions: encryptedData.accessControlConditions,
+          ciphertext: encryptedData.ciphertext,
+          dataToEncryptHash: encryptedData.dataToEncryptHash,
+          credentialJWT: credentials.data[0].jwt,
+          credentialRequirements: { ...credentialRequirements, claims: {} },
+          userAddress
+        }
+      });
+
+      expect((result.response as any).success).to.be.false;
+      expect((result.response as any).error).to.include("Credential requirements do not match");
+      expect((result.response as any).secret).to.be.undefined;
+    });
+
+    it("should refuse a revoked credential inside the Lit Action", async () => {
+      const sessionSigs = await litNodeClient.getSessionSigs({
+        resourceAbilityRequests: [{ resource: { getResourceKey: () => `lit-litaction://${encryptedData.litActionIpfsCid}` }, ability: "lit-action-execution" }]
+      });
+      const revoked = issuer.issueCredentialJWT({
+        subject: `did:pkh:eip155:1:${userAddress.toLowerCase()}`,
+        evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+        credentialStatus: {
+          type: "BitstringStatusListEntry",
+          statusPurpose: "revocation",
+          statusListIndex: "7",
+          statusListCredential: statusListUrl
+        }
+      });
+
+      const result = await litNodeClient.executeJs({
+        sessionSigs,
+        ipfsId: encryptedData.litActionIpfsCid,
+        jsParams: {
+          accessControlConditions: encryptedData.accessControlConditions,
+          ciphertext: encryptedData.ciphertext,
+          dataToEncryptHash: encryptedData.dataToEncryptHash,
+          credentialJWT: revoked,
+          credentialRequirements,
+          userAddress
+        }
+      });
+
+      expect((result.response as any).success).to.be.false;
+      expect((result.response as any).error).to.equal("Credential has been revoked");
+      expect((result.response as any).secret).to.be.undefined;
+    });
+  });
+
+  describe("Dual-factor flow", () => {
+    it("should encrypt and decrypt with ES256K user JWTs", async () => {
+      const encryptedData = await encryptToCredentialWithJWT(testSecret, credentialRequirements, userWallet);
+      const result = await decryptFromCredentialsWithJWT(encryptedData, userWallet);
+      const response = result.response as any;
+
+      expect(response.success).to.be.true;
+      expect(response.secret).to.equal(testSecret);
+      expect(response.verifiedUserJWT.purpose).to.equal("decrypt");
+      expect(response.authenticationFactors).to.include("Ethereum key ownership proof");
+    });
+
+    it("should not accept a decryption JWT twice", async () => {
+      const encryptedData = await encryptToCredentialWithJWT(testSecret, credentialRequirements, userWallet);
+      const sessionSigs = await litNodeClient.getSessionSigs({
+        resourceAbilityRequests: [{ resource: { getResourceKey: () => `lit-litaction://${encryptedData.litActionIpfsCid}` }, ability: "lit-action-execution" }]
+      });
+      const credentials = JSON.parse(fs.readFileSync(process.env.CREDENTIALS_PATH!, "utf8"));
+      const jsParams = {
+        accessControlConditions: encryptedData.accessControlConditions,
+        ciphertext: encryptedData.ciphertext,
+        dataToEncryptHash: encryptedData.dataToEncryptHash,
+        credentialJWT: credentials.data[0].jwt,
+        credentialRequirements,
+        userAddress,
+        userSignedJWT: await createDecryptionJWT(
+          userWallet,
+          credentialRequirements,
+          encryptedData.dataToEncryptHash,
+          undefined,
+          MOCK_REPLAY_SERVICE_URL
+        ),
+      };
+
+      const first = await litNodeClient.executeJs({ sessionSigs, ipfsId: encryptedData.litActionIpfsCid, jsParams });
+      const replayed = await litNodeClient.executeJs({ sessionSigs, ipfsId: encryptedData.litActionIpfsCid, jsParams });
+
+      expect((first.response as any).secret).to.equal(testSecret);
+      expect((replayed.response as any).success).to.be.false;
+      expect((replayed.response as any).errorType).to.equal("jwt_replay");
+      expect((replayed.response as any).secret).to.be.undefined;
+    });
+
+    it("should not decrypt one ciphertext with a decryption JWT bound to another", async () => {
+      const ciphertextA = await encryptToCredentialWithJWT(testSecret, credentialRequirements, userWallet);
+      const ciphertextB = await encryptToCredentialWithJWT("Another secret under the same requirements", credentialRequirements, userWallet);
+      const sessionSigs = await litNodeClient.getSessionSigs({
+        resourceAbilityRequests: [{ resource: { getResourceKey: () => `lit-litaction://${ciphertextB.litActionIpfsCid}` }, ability: "lit-action-execution" }]
+      });
+      const credentials = JSON.parse(fs.readFileSync(process.env.CREDENTIALS_PATH!, "utf8"));
+
+      const result = await litNodeClient.executeJs({
+        sessionSigs,
+        ipfsId: ciphertextB.litActionIpfsCid,
+        jsParams: {
+          accessControlConditions: ciphertextB.accessControlConditions,
+          ciphertext: ciphertextB.ciphertext,
+          dataToEncryptHash: ciphertextB.dataToEncryptHash,
+          credentialJWT: credentials.data[0].jwt,
+          credentialRequirements,
+          userAddress,
+          userSignedJWT: await createDecryptionJWT(
+            userWallet,
+            credentialRequirements,
+            ciphertextA.dataToEncryptHash,
+            undefined,
+            MOCK_REPLAY_SERVICE_URL
+          ),
+        }
+      });
+
+      expect(ciphertextA.dataToEncryptHash).to.not.equal(ciphertextB.dataToEncryptHash);
+      expect((result.response as any).success).to.be.false;
+      expect((result.response as any).error).to.equal("JWT resource does not match the ciphertext");
+      expect((result.response as any).errorType).to.equal("jwt_resource_mismatch");
+      expect((result.response as any).secret).to.be.undefined;
+    });
+
+    it("should not decrypt with the stored encryption JWT whatever purpose is passed", async () => {
+      const encryptedData = await encryptToCredentialWithJWT(testSecret, credentialRequirements, userWallet);
+      const sessionSigs = await litNodeClient.getSessionSigs({
+        resourceAbilityRequests: [{ resource: { getResourceKey: () => `lit-litaction://${encryptedData.litActionIpfsCid}` }, ability: "lit-action-execution" }]
+      });
+      const credentials = JSON.parse(fs.readFileSync(process.env.CREDENTIALS_PATH!, "utf8"));
+
+      const result = await litNodeClient.executeJs({
+        sessionSigs,
+        ipfsId: encryptedData.litActionIpfsCid,
+        jsParams: {
+          accessControlConditions: encryptedData.accessControlConditions,
+          ciphertext: encryptedData.ciphertext,
+          dataToEncryptHash: encryptedData.dataToEncryptHash,
+          credentialJWT: credentials.data[0].jwt,
+          credentialRequirements,
+          userAddress,
+          // Public, stored with the ciphertext
+          userSignedJWT: encryptedData.userSignedJWT,
+          operationPurpose: "encrypt"
+        }
+      });
+
+      expect((result.response as any).success).to.be.false;
+      expect((result.response as any).error).to.equal("JWT purpose mismatch. Expected: decrypt, Got: encrypt");
+      expect((result.response as any).secret).to.be.undefined;
+    });
+
+    it("should accept a decryption JWT signed with EIP-712 by a browser wallet", async () => {
+      const encryptedData = await encryptToCredentialWithJWT(testSecret, credentialRequirements, userWallet);
+      const sessionSigs = await litNodeClient.getSessionSigs({
+        resourceAbilityRequests: [{ resource: { getResourceKey: () => `lit-litaction://${encryptedData.litActionIpfsCid}` }, ability: "lit-action-execution" }]
+      });
+      const credentials = JSON.parse(fs.readFileSync(process.env.CREDENTIALS_PATH!, "utf8"));
+      const browserWallet = {
+        address: userAddress,
+        signTypedData: ({ domain, types, message }: any) => userWallet._signTypedData(domain, types, message)
+      };
+
+      const result = await litNodeClient.executeJs({
+        sessionSigs,
+        ipfsId: encryptedData.litActionIpfsCid,
+        jsParams: {
+          accessControlConditions: encryptedData.accessControlConditions,
+          ciphertext: encryptedData.ciphertext,
+          dataToEncryptHash: encryptedData.dataToEncryptHash,
+          credentialJWT: credentials.data[0].jwt,
+          credentialRequirements,
+          userAddress,
+          userSignedJWT: await createDecryptionJWT(
+            browserWallet,
+            credentialRequirements,
+            encryptedData.dataToEncryptHash,
+            undefined,
+            MOCK_REPLAY_SERVICE_URL
+          ),
+        }
+      });
+
+      expect((result.response as any).success).to.be.true;
+      expect((result.response as any).secret).to.equal(testSecret);
+    });
+
+    it("should reject a credential from a different issuer key", async () => {
+      const impostor = new TestIssuer(issuer.did);
+      const encryptedData = await encryptToCredentialWithJWT(testSecret, credentialRequirements, userWallet);
+
+      const credentialsPath = process.env.CREDENTIALS_PATH!;
+      const original = fs.readFileSync(credentialsPath, "utf8");
+      fs.writeFileSync(credentialsPath, JSON.stringify({
+        data: [
+          impostor.issueCredentialRecord({ subject: `did:pkh:eip155:1:${userAddress.toLowerCase()}`, evidence: { handle: "octocat" } })
+        ]
+      }));
+
+      try {
+        // The forged credential fails verification host-side, so it never
+        // reaches the Lit Action
+        await decryptFromCredentialsWithJWT(encryptedData, userWallet);
+        expect.fail("Should have thrown an error");
+      } catch (error: any) {
+        expect(error.message).to.equal("No matching credential found for the specified requirements");
+      } finally {
+        fs.writeFileSync(credentialsPath, original);
+      }
+    });
+  });
+});
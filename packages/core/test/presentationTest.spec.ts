@@ -0,0 +1,219 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import { runEnhancedCredentialAction, LitActionsRuntime } from "../src/action/index.js";
+import {
+  assertPresentationJWT,
+  hashCredentialRequirements,
+  sealSecret,
+  verifyPresentation,
+  CredentialRequirements,
+  PresentationJWTPayload,
+  VERIFIABLE_PRESENTATION_CONTEXT,
+} from "../src/verification/index.js";
+import { createDecryptionJWT, createDecryptionPresentation, createPresentation, parseJWT } from "../src/jwt.js";
+import {
+  TestIssuer,
+  createMockFetch,
+  didWebDocumentUrl,
+  mockReplayServiceRoute,
+  MOCK_REPLAY_SERVICE_URL,
+} from "../src/testing/index.js";
+
+const expectRejection = async (promise: Promise<unknown>, message: string) => {
+  let error: Error | undefined;
+  try {
+    await promise;
+  } catch (e) {
+    error = e as Error;
+  }
+  expect(error?.message).to.equal(message);
+};
+
+describe("Verifiable Presentations", () => {
+  const issuer = new TestIssuer("did:web:issuer.test");
+  const fetch = createMockFetch({ [didWebDocumentUrl(issuer.did)]: issuer.didDocument, ...mockReplayServiceRoute() });
+  const holder = ethers.Wallet.createRandom();
+  const holderDID = `did:pkh:eip155:1:${holder.address}`;
+  const credentialJWT = issuer.issueCredentialJWT({
+    subject: `did:pkh:eip155:1:${holder.address.toLowerCase()}`,
+    evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+  });
+  const claims = {
+    aud: "https://verifier.test",
+    nonce: "challenge-1",
+    purpose: "decrypt" as const,
+    resource: "lit-ciphertext:hash",
+  };
+
+  describe("createPresentation", () => {
+    it("should embed the credentials under the verifier's aud and nonce", async () => {
+      const { header, payload } = parseJWT(await createPresentation(holder, [credentialJWT], claims));
+      const { vp } = payload as PresentationJWTPayload;
+
+      expect(header.alg).to.equal("ES256K");
+      expect(payload.iss).to.equal(holderDID);
+      expect(payload.aud).to.equal("https://verifier.test");
+      expect(payload.nonce).to.equal("challenge-1");
+      expect(vp).to.deep.equal({
+        "@context": [VERIFIABLE_PRESENTATION_CONTEXT],
+        type: ["VerifiablePresentation"],
+        verifiableCredential: [credentialJWT],
+      });
+    });
+
+    it("should sign with browser wallets", async () => {
+      const jwt = await createPresentation({ address: holder.address, signMessage: (message: string) => holder.signMessage(message) }, [credentialJWT], claims);
+      const { payload } = await assertPresentationJWT(jwt, holder.address, { audience: "https://verifier.test" });
+
+      expect(payload.vp.verifiableCredential).to.deep.equal([credentialJWT]);
+    });
+  });
+
+  describe("verifyPresentation", () => {
+    it("should verify the holder signature and the embedded credentials", async () => {
+      const jwt = await createPresentation(holder, [credentialJWT], claims);
+      const presentation = await verifyPresentation(jwt, { audience: "https://verifier.test", nonce: "challenge-1", fetch });
+
+      expect(presentation.holder).to.equal(holderDID);
+      expect(presentation.credentials).to.have.length(1);
+      expect(presentation.credentials[0].issuer).to.equal(issuer.did);
+      expect(presentation.credentials[0].handle).to.equal("octocat");
+    });
+
+    it("should reject another verifier's audience or challenge", async () => {
+      const jwt = await createPresentation(holder, [credentialJWT], claims);
+
+      await expectRejection(
+        verifyPresentation(jwt, { audience: "https://other.test", fetch }),
+        "Invalid presentation audience: https://verifier.test",
+      );
+      await expectRejection(
+        verifyPresentation(jwt, { audience: "https://verifier.test", nonce: "challenge-2", fetch }),
+        "Presentation nonce does not match the challenge",
+      );
+    });
+
+    it("should reject credentials issued to someone other than the holder", async () => {
+      const other = ethers.Wallet.createRandom();
+      const jwt = await createPresentation(other, [credentialJWT], claims);
+
+      await expectRejection(
+        verifyPresentation(jwt, { audience: "https://verifier.test", fetch }),
+        `Presentation credential subject did:pkh:eip155:1:${holder.address.toLowerCase()} is not the holder`,
+      );
+    });
+
+    it("should reject credentials swapped into a signed presentation", async () => {
+      const jwt = await createPresentation(holder, [credentialJWT], claims);
+      const [header, , signature] = jwt.split(".");
+      const { payload } = parseJWT(jwt);
+      const swapped = { ...payload, vp: { ...(payload as PresentationJWTPayload).vp, verifiableCredential: [] } };
+      const tampered = `${header}.${Buffer.from(JSON.stringify(swapped)).toString("base64url")}.${signature}`;
+
+      await expectRejection(verifyPresentation(tampered, { audience: "https://verifier.test", fetch }), "Invalid JWT signature");
+    });
+
+    it("should not take a user JWT for a presentation", async () => {
+      const jwt = await createDecryptionJWT(holder, { issuer: issuer.did, credentialType: "GitHubVerification" }, "hash");
+
+      await expectRejection(
+        verifyPresentation(jwt, { audience: "lit-protocol-encryption", fetch }),
+        "Presentation JWT has no VerifiablePresentation",
+      );
+    });
+  });
+
+  describe("In the enhanced Lit Action", () => {
+    const credentialRequirements: CredentialRequirements = { issuer: issuer.did, credentialType: "GitHubVerification" };
+    let savedFetch: typeof globalThis.fetch;
+
+    before(() => {
+      savedFetch = globalThis.fetch;
+      globalThis.fetch = fetch as typeof globalThis.fetch;
+    });
+
+    after(() => {
+      globalThis.fetch = savedFetch;
+    });
+
+    const runtime = async () => {
+      const sealed = sealSecret("presented", await hashCredentialRequirements(credentialRequirements));
+      return {
+        Actions: {
+          decryptAndCombine: async () => sealed,
+          setResponse: () => undefined,
+        } as LitActionsRuntime,
+      };
+    };
+
+    const params = (presentationJWT: string) => ({
+      accessControlConditions: [],
+      ciphertext: "ciphertext",
+      dataToEncryptHash: "hash",
+      credentialRequirements,
+      userAddress: holder.address,
+      presentationJWT,
+    });
+
+    it("should decrypt with a presentation in place of credentialJWT and userSignedJWT", async () => {
+      const presentationJWT = await createDecryptionPresentation(holder, [credentialJWT], credentialRequirements, "hash", undefined, MOCK_REPLAY_SERVICE_URL);
+      const response = await runEnhancedCredentialAction(params(presentationJWT), await runtime());
+
+      expect(response.success).to.be.true;
+      if (response.success) {
+        expect(response.secret).to.equal("presented");
+        expect(response.verifiedUserJWT.userDID).to.equal(holderDID);
+        expect(response.verifiedCredentials[0].githubHandle).to.equal("octocat");
+      }
+    });
+
+    it("should not accept a presentation twice", async () => {
+      const presentationJWT = await createDecryptionPresentation(holder, [credentialJWT], credentialRequirements, "hash", undefined, MOCK_REPLAY_SERVICE_URL);
+      const Lit = await runtime();
+
+      expect((await runEnhancedCredentialAction(params(presentationJWT), Lit)).success).to.be.true;
+      const replayed = await runEnhancedCredentialAction(params(presentationJWT), Lit);
+      expect(replayed.success).to.be.false;
+      if (!replayed.success) {
+        expect(replayed.errorType).to.equal("jwt_replay");
+      }
+    });
+
+    it("should only use the credentials the presentation embeds", async () => {
+      const presentationJWT = await createDecryptionPresentation(holder, [credentialJWT], credentialRequirements, "hash", undefined, MOCK_REPLAY_SERVICE_URL);
+      const response = await runEnhancedCredentialAction({ ...params(presentationJWT), credentialJWT }, await runtime());
+
+      expect(response.success).to.be.false;
+      if (!response.success) {
+        expect(response.error).to.equal("A presentation replaces credentialJWT(s) and userSignedJWT");
+        expect(response.errorType).to.equal("presentation_verification");
+      }
+    });
+
+    it("should refuse a presentation for another verifier", async () => {
+      const presentationJWT = await createPresentation(holder, [credentialJWT], {
+        ...claims,
+        credential_requirements_hash: await hashCredentialRequirements(credentialRequirements),
+      });
+      const response = await runEnhancedCredentialAction(params(presentationJWT), await runtime());
+
+      expect(response.success).to.be.false;
+      if (!response.success) {
+        expect(response.error).to.equal("Invalid presentation audience: https://verifier.test");
+        expect(response.errorType).to.equal("presentation_verification");
+      }
+    });
+
+    it("should refuse credentials of another holder", async () => {
+      const other = ethers.Wallet.createRandom();
+      const presentationJWT = await createDecryptionPresentation(other, [credentialJWT], credentialRequirements, "hash", undefined, MOCK_REPLAY_SERVICE_URL);
+      const response = await runEnhancedCredentialAction({ ...params(presentationJWT), userAddress: other.address }, await runtime());
+
+      expect(response.success).to.be.false;
+      if (!response.success) {
+        expect(response.error).to.equal("Credential subject does not match user address");
+      }
+    });
+  });
+});
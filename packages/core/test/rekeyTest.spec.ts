@@ -0,0 +1,266 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import {
+  CredentialEncryptionClient,
+  EncryptedCredentialDataWithJWT,
+  classifyActionError,
+  hashCredentialRequirements,
+  rekeyActionCode,
+  sealSecret,
+  validateEncryptedPayload,
+} from "../src/index.js";
+import { litActionCode as enhancedLitActionCode } from "../src/litActionEnhanced.js";
+import { computeLitActionIpfsCid, createLitActionAccessControlConditions } from "../src/ipfs.js";
+import { createDecryptionJWT, createRekeyJWT } from "../src/jwt.js";
+import { CredentialRequirements, ParsedCredential } from "../src/utils.js";
+import {
+  MockLitNodeClient,
+  MockLitContracts,
+  createMockLitClientFactory,
+  createMockFetch,
+  TestIssuer,
+  didWebDocumentUrl,
+  mockReplayServiceRoute,
+  MOCK_REPLAY_SERVICE_URL,
+} from "../src/testing/index.js";
+
+describe("Rekeying", () => {
+  const testSecret = "Published under the old requirements";
+  const issuer = new TestIssuer("did:web:issuer.test");
+  const publisher = ethers.Wallet.createRandom();
+  const other = ethers.Wallet.createRandom();
+  const routes = { [didWebDocumentUrl(issuer.did)]: issuer.didDocument, ...mockReplayServiceRoute() };
+
+  const githubRequirements: CredentialRequirements = {
+    issuer: issuer.did,
+    credentialType: "GitHubVerification",
+    claims: { githubHandle: "octocat" },
+  };
+  // Opened up to any verified GitHub account
+  const anyGithubRequirements: CredentialRequirements = {
+    issuer: issuer.did,
+    credentialType: "GitHubVerification",
+  };
+
+  const storedCredentials: ParsedCredential[] = [
+    issuer.issueCredentialRecord({
+      subject: `did:pkh:eip155:1:${publisher.address.toLowerCase()}`,
+      evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+    }),
+  ].map(({ jwt, subject, parsed }) => ({ jwt, subject, ...parsed }));
+
+  const savedFetch = globalThis.fetch;
+  let litNodeClient: MockLitNodeClient;
+  let client: CredentialEncryptionClient;
+  let published: EncryptedCredentialDataWithJWT;
+
+  /**
+   * Run the rekey action on `published` directly, as a caller bypassing the
+   * client's checks would
+   */
+  const runRekeyAction = async (
+    rekeyJWT: string,
+    jsParams: Record<string, unknown> = {},
+  ): Promise<{ response: any; logs: string }> => {
+    const sessionSigs = await litNodeClient.getSessionSigs({
+      resourceAbilityRequests: [{ resource: { getResourceKey: () => "lit-litaction://*" }, ability: "lit-action-execution" }],
+    });
+    return litNodeClient.executeJs({
+      sessionSigs,
+      ipfsId: await computeLitActionIpfsCid(rekeyActionCode),
+      jsParams: {
+        accessControlConditions: published.accessControlConditions,
+        ciphertext: published.ciphertext,
+        dataToEncryptHash: published.dataToEncryptHash,
+        credentialRequirements: githubRequirements,
+        newCredentialRequirements: anyGithubRequirements,
+        rekeyJWT,
+        publisherAddress: publisher.address,
+        ...jsParams,
+      },
+    });
+  };
+
+  const expectRefused = async (promise: Promise<unknown>, message: string) => {
+    try {
+      await promise;
+      expect.fail("Should have thrown an error");
+    } catch (error: any) {
+      expect(error.message).to.equal(message);
+    }
+  };
+
+  before(() => {
+    globalThis.fetch = createMockFetch(routes) as typeof globalThis.fetch;
+  });
+
+  after(() => {
+    globalThis.fetch = savedFetch;
+  });
+
+  /**
+   * Publish `testSecret` under `githubRequirements` on a fresh mock network
+   */
+  const publish = async (nodes = 1) => {
+    litNodeClient = new MockLitNodeClient({
+      pinnedActions: [enhancedLitActionCode, rekeyActionCode],
+      fetch: createMockFetch(routes),
+      nodes,
+    });
+    client = new CredentialEncryptionClient({
+      payer: ethers.Wallet.createRandom(),
+      credentials: { load: async () => storedCredentials },
+      trustedIssuers: [issuer.did],
+      logger: { log: () => undefined, error: () => undefined },
+      litClients: createMockLitClientFactory(litNodeClient, new MockLitContracts()),
+      replayService: MOCK_REPLAY_SERVICE_URL,
+    });
+    published = await client.encryptWithJWT(testSecret, githubRequirements, publisher);
+  };
+
+  beforeEach(() => publish());
+
+  afterEach(async () => {
+    await client.disconnect();
+  });
+
+  it("should let the rekey action decrypt what the publisher encrypts", async () => {
+    const enhancedCid = await computeLitActionIpfsCid(enhancedLitActionCode);
+    const rekeyCid = await computeLitActionIpfsCid(rekeyActionCode);
+
+    expect(published.accessControlConditions).to.deep.equal(
+      createLitActionAccessControlConditions(enhancedCid, rekeyCid),
+    );
+    expect(published.litActionIpfsCid).to.equal(enhancedCid);
+  });
+
+  it("should move the secret to new requirements as the next revision", async () => {
+    const rekeyed = await client.rekey(published, anyGithubRequirements, publisher);
+
+    expect(() => validateEncryptedPayload(rekeyed)).to.not.throw();
+    expect(rekeyed.ciphertext).to.not.equal(published.ciphertext);
+    expect(rekeyed.accessControlConditions).to.deep.equal(published.accessControlConditions);
+    expect(rekeyed.credentialRequirements).to.deep.equal(anyGithubRequirements);
+    expect(rekeyed.credentialRequirementsHash).to.equal(await hashCredentialRequirements(anyGithubRequirements));
+    expect(rekeyed.revision).to.equal(2);
+    expect(rekeyed.previous).to.deep.equal({
+      dataToEncryptHash: published.dataToEncryptHash,
+      credentialRequirementsHash: published.credentialRequirementsHash,
+      revision: 1,
+    });
+
+    const response = (await client.decryptWithJWT(rekeyed, publisher)).response as any;
+    expect(response.success).to.be.true;
+    expect(response.secret).to.equal(testSecret);
+
+    const again = await client.rekey(rekeyed, githubRequirements, publisher);
+    expect(again.revision).to.equal(3);
+    expect(again.previous).to.include({ dataToEncryptHash: rekeyed.dataToEncryptHash, revision: 2 });
+  });
+
+  it("should seal the new ciphertext to the new requirements only", async () => {
+    const rekeyed = await client.rekey(published, anyGithubRequirements, publisher);
+    const response = (
+      await client.decryptWithJWT(
+        { ...rekeyed, credentialRequirements: githubRequirements, credentialRequirementsHash: published.credentialRequirementsHash },
+        publisher,
+      )
+    ).response as any;
+
+    expect(response.success).to.be.false;
+    expect(response.errorType).to.equal("requirements_binding_error");
+  });
+
+  it("should never return the secret", async () => {
+    const result = await runRekeyAction(
+      await createRekeyJWT(publisher, anyGithubRequirements, published.dataToEncryptHash, undefined, MOCK_REPLAY_SERVICE_URL),
+    );
+
+    expect(result.response.success).to.be.true;
+    expect(JSON.stringify(result.response)).to.not.include(testSecret);
+    expect(result.logs).to.not.include(testSecret);
+  });
+
+  it("should only let the publisher rekey", async () => {
+    await expectRefused(
+      client.rekey(published, anyGithubRequirements, other),
+      "Only the publisher can rekey this ciphertext",
+    );
+
+    const { response } = await runRekeyAction(
+      await createRekeyJWT(other, anyGithubRequirements, published.dataToEncryptHash, undefined, MOCK_REPLAY_SERVICE_URL),
+      { publisherAddress: other.address },
+    );
+    expect(response.success).to.be.false;
+    expect(response.error).to.equal("Only the publisher can rekey this ciphertext");
+    expect(response.errorType).to.equal("rekey_authorization");
+  });
+
+  it("should refuse JWTs not signed to rekey this ciphertext to these requirements", async () => {
+    const refusals: [string, string][] = [
+      [
+        await createDecryptionJWT(publisher, anyGithubRequirements, published.dataToEncryptHash, undefined, MOCK_REPLAY_SERVICE_URL),
+        "JWT purpose mismatch. Expected: rekey, Got: decrypt",
+      ],
+      [
+        await createRekeyJWT(publisher, anyGithubRequirements, "0xother", undefined, MOCK_REPLAY_SERVICE_URL),
+        "JWT resource does not match the ciphertext",
+      ],
+      [
+        await createRekeyJWT(publisher, githubRequirements, published.dataToEncryptHash, undefined, MOCK_REPLAY_SERVICE_URL),
+        "JWT credential requirements do not match the new requirements",
+      ],
+    ];
+
+    for (const [rekeyJWT, error] of refusals) {
+      const { response } = await runRekeyAction(rekeyJWT);
+      expect(response).to.include({ success: false, error });
+    }
+  });
+
+  it("should rekey to one ciphertext on every node of the network", async () => {
+    // Every node must respond with the same ciphertext, or the mock refuses the execution
+    await client.disconnect();
+    await publish(3);
+    const rekeyJWT = await createRekeyJWT(publisher, anyGithubRequirements, published.dataToEncryptHash, undefined, MOCK_REPLAY_SERVICE_URL);
+
+    const { response } = await runRekeyAction(rekeyJWT);
+    expect(response.success).to.be.true;
+    expect((await runRekeyAction(rekeyJWT)).response).to.include({ success: false, errorType: "jwt_replay" });
+  });
+
+  it("should refuse a replayed rekey JWT", async () => {
+    const rekeyJWT = await createRekeyJWT(publisher, anyGithubRequirements, published.dataToEncryptHash, undefined, MOCK_REPLAY_SERVICE_URL);
+
+    expect((await runRekeyAction(rekeyJWT)).response.success).to.be.true;
+    const { response } = await runRekeyAction(rekeyJWT);
+    expect(response).to.include({ success: false, error: "JWT nonce has already been used", errorType: "jwt_replay" });
+  });
+
+  it("should refuse ciphertexts the publisher cannot rekey", async () => {
+    const pinnedToDecryptionOnly = {
+      ...published,
+      accessControlConditions: createLitActionAccessControlConditions(published.litActionIpfsCid),
+    };
+    const rekeyCid = await computeLitActionIpfsCid(rekeyActionCode);
+    await expectRefused(
+      client.rekey(pinnedToDecryptionOnly, anyGithubRequirements, publisher),
+      `Access control conditions do not let Lit Action ${rekeyCid} rekey the ciphertext`,
+    );
+
+    // Sealed without a publisher, e.g. by `encrypt`
+    const unpublished = await litNodeClient.encrypt({
+      accessControlConditions: published.accessControlConditions,
+      dataToEncrypt: new TextEncoder().encode(
+        sealSecret(testSecret, await hashCredentialRequirements(githubRequirements)),
+      ),
+    });
+    const { response } = await runRekeyAction(
+      await createRekeyJWT(publisher, anyGithubRequirements, unpublished.dataToEncryptHash, undefined, MOCK_REPLAY_SERVICE_URL),
+      unpublished,
+    );
+    expect(response).to.include({ success: false, error: "Ciphertext has no publisher to authorize a rekey" });
+    expect(classifyActionError(response.error)).to.equal("rekey_authorization");
+  });
+});
@@ -0,0 +1,229 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { runEnhancedCredentialAction, classifyActionError, LitActionsRuntime } from "../src/action/index.js";
+import {
+  ciphertextResource,
+  consumeJWTNonce,
+  createHttpReplayStore,
+  createMemoryReplayStore,
+  createTinyCloudReplayStore,
+  hashCredentialRequirements,
+  jwtReplayKey,
+  jwtReplayStore,
+  sealSecret,
+  CredentialRequirements,
+} from "../src/verification/index.js";
+import { createFileReplayStore, createReplayServiceHandler } from "../src/replayStore.js";
+import { createDecryptionJWT, parseJWT } from "../src/jwt.js";
+import {
+  TestIssuer,
+  createMockFetch,
+  didWebDocumentUrl,
+  mockReplayServiceRoute,
+  MOCK_REPLAY_SERVICE_URL,
+} from "../src/testing/index.js";
+
+describe("Replay Protection", () => {
+  const payload = { iss: "did:pkh:eip155:1:0xabc", nonce: "n-1", exp: 2000 };
+
+  describe("Replay keys", () => {
+    it("should scope the nonce to the signer and prefer jti", () => {
+      expect(jwtReplayKey(payload)).to.equal("did:pkh:eip155:1:0xabc#n-1");
+      expect(jwtReplayKey({ ...payload, jti: "id-1" })).to.equal("did:pkh:eip155:1:0xabc#id-1");
+      expect(() => jwtReplayKey({ ...payload, nonce: "" })).to.throw("JWT has no nonce or jti");
+    });
+
+    it("should bind decryption JWTs to the dataToEncryptHash", async () => {
+      const jwt = await createDecryptionJWT(ethers.Wallet.createRandom(), { issuer: "did:web:issuer.test", credentialType: "GitHubVerification" }, "abc123");
+
+      expect(parseJWT(jwt).payload.resource).to.equal(ciphertextResource("abc123"));
+      expect(ciphertextResource("abc123")).to.equal("lit-ciphertext:abc123");
+    });
+  });
+
+  describe("Stores", () => {
+    it("should consume a nonce once in memory and forget it after expiry", async () => {
+      let now = 1000;
+      const store = createMemoryReplayStore(() => now);
+
+      expect(await store.consume("a", 1500)).to.be.true;
+      expect(await store.consume("a", 1500)).to.be.false;
+      now = 1501;
+      expect(await store.consume("b", 2000)).to.be.true;
+      expect(await store.consume("a", 2000)).to.be.true;
+    });
+
+    it("should persist used nonces to a file", async () => {
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "lit-replay-"));
+      const filePath = path.join(tmpDir, "nonces", "used.json");
+      try {
+        expect(await createFileReplayStore(filePath, () => 1000).consume("a", 1500)).to.be.true;
+        expect(await createFileReplayStore(filePath, () => 1000).consume("a", 1500)).to.be.false;
+        expect(await createFileReplayStore(filePath, () => 1600).consume("b", 2000)).to.be.true;
+        expect(JSON.parse(fs.readFileSync(filePath, "utf8"))).to.deep.equal({ b: 2000 });
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it("should keep used nonces in TinyCloud storage", async () => {
+      const stored = new Map<string, string>();
+      const store = createTinyCloudReplayStore({
+        get: async (key) => ({ data: stored.get(key) }),
+        put: async (key, value) => stored.set(key, value),
+      });
+
+      await consumeJWTNonce(store, payload);
+      expect([...stored.keys()]).to.deep.equal([`replay/${encodeURIComponent(jwtReplayKey(payload))}`]);
+
+      let error: Error | undefined;
+      try {
+        await consumeJWTNonce(store, payload);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal("JWT nonce has already been used");
+    });
+
+    it("should consume nonces through a replay service", async () => {
+      const fetch = createMockFetch({ [MOCK_REPLAY_SERVICE_URL]: createReplayServiceHandler(createMemoryReplayStore()) });
+      const store = createHttpReplayStore(MOCK_REPLAY_SERVICE_URL, fetch);
+      const expiresAt = Math.floor(Date.now() / 1000) + 300;
+
+      expect(await store.consume("a", expiresAt)).to.be.true;
+      expect(await store.consume("a", expiresAt)).to.be.false;
+      expect(await createHttpReplayStore(MOCK_REPLAY_SERVICE_URL, fetch).consume("a", expiresAt)).to.be.false;
+    });
+
+    it("should only accept a replay service that answers over https", async () => {
+      expect(() => createHttpReplayStore("http://replay.test/nonces")).to.throw(
+        "Replay service is not an https URL: http://replay.test/nonces",
+      );
+
+      let error: Error | undefined;
+      try {
+        await createHttpReplayStore(MOCK_REPLAY_SERVICE_URL, async () => ({ status: 500 })).consume("a", 1500);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal("Replay service request failed: 500");
+    });
+
+    it("should refuse malformed replay service requests", async () => {
+      const handler = createReplayServiceHandler(createMemoryReplayStore());
+      const post = (body: string) => handler(new Request(MOCK_REPLAY_SERVICE_URL, { method: "POST", body }));
+
+      expect((await handler(new Request(MOCK_REPLAY_SERVICE_URL))).status).to.equal(405);
+      expect((await post("not json")).status).to.equal(400);
+      expect((await post(JSON.stringify({ key: "a" }))).status).to.equal(400);
+      expect((await post(JSON.stringify({ key: "a", expiresAt: 1500 }))).status).to.equal(201);
+    });
+
+    it("should use the replay service the JWT names", () => {
+      expect(() => jwtReplayStore({})).to.throw("JWT names no replay service to consume its nonce in");
+      expect(() => jwtReplayStore({ replay_service: "http://replay.test/nonces" })).to.throw(
+        "Replay service is not an https URL",
+      );
+    });
+  });
+
+  describe("Enhanced credential action", () => {
+    const issuer = new TestIssuer("did:web:issuer.test");
+    const userWallet = ethers.Wallet.createRandom();
+    const userAddress = userWallet.address;
+    const fetch = createMockFetch({ [didWebDocumentUrl(issuer.did)]: issuer.didDocument, ...mockReplayServiceRoute() });
+    const credentialRequirements: CredentialRequirements = {
+      issuer: issuer.did,
+      credentialType: "GitHubVerification",
+      claims: { githubHandle: "octocat" },
+    };
+    const credentialJWT = issuer.issueCredentialJWT({
+      subject: `did:pkh:eip155:1:${userAddress.toLowerCase()}`,
+      evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+    });
+    let savedFetch: typeof globalThis.fetch;
+
+    before(() => {
+      savedFetch = globalThis.fetch;
+      globalThis.fetch = fetch as typeof globalThis.fetch;
+    });
+
+    after(() => {
+      globalThis.fetch = savedFetch;
+    });
+
+    // Like on the Lit network, each run gets a fresh runtime; only the
+    // replay service the JWT names remembers used nonces
+    const run = async (userSignedJWT: string, dataToEncryptHash = "hash") => {
+      const sealed = sealSecret("once only", await hashCredentialRequirements(credentialRequirements));
+      const runtime = {
+        decryptCalls: 0,
+        Actions: {
+          decryptAndCombine: async () => {
+            runtime.decryptCalls++;
+            return sealed;
+          },
+          setResponse: () => undefined,
+        } as LitActionsRuntime,
+      };
+      const response = await runEnhancedCredentialAction({
+        accessControlConditions: [],
+        ciphertext: "ciphertext",
+        dataToEncryptHash,
+        credentialJWT,
+        credentialRequirements,
+        userAddress,
+        userSignedJWT,
+      }, runtime);
+      return { response, decryptCalls: runtime.decryptCalls };
+    };
+
+    it("should accept a decryption JWT once", async () => {
+      const jwt = await createDecryptionJWT(userWallet, credentialRequirements, "hash", undefined, MOCK_REPLAY_SERVICE_URL);
+
+      const first = await run(jwt);
+      const replayed = await run(jwt);
+
+      expect(first.response.success).to.be.true;
+      expect(replayed.response.success).to.be.false;
+      expect(replayed.decryptCalls).to.equal(0);
+      if (!replayed.response.success) {
+        expect(replayed.response.error).to.equal("JWT nonce has already been used");
+        expect(replayed.response.errorType).to.equal("jwt_replay");
+      }
+    });
+
+    it("should refuse a JWT that names no replay service", async () => {
+      const jwt = await createDecryptionJWT(userWallet, credentialRequirements, "hash");
+      const { response, decryptCalls } = await run(jwt);
+
+      expect(response.success).to.be.false;
+      expect(decryptCalls).to.equal(0);
+      if (!response.success) {
+        expect(response.error).to.equal("JWT names no replay service to consume its nonce in");
+        expect(response.errorType).to.equal("jwt_replay");
+      }
+    });
+
+    it("should not decrypt another ciphertext with the JWT", async () => {
+      const jwt = await createDecryptionJWT(userWallet, credentialRequirements, "hash", undefined, MOCK_REPLAY_SERVICE_URL);
+      const { response, decryptCalls } = await run(jwt, "other-hash");
+
+      expect(response.success).to.be.false;
+      expect(decryptCalls).to.equal(0);
+      if (!response.success) {
+        expect(response.error).to.equal("JWT resource does not match the ciphertext");
+        expect(response.errorType).to.equal("jwt_resource_mismatch");
+      }
+    });
+
+    it("should classify replay failures", () => {
+      expect(classifyActionError("JWT nonce has already been used")).to.equal("jwt_replay");
+      expect(classifyActionError("JWT resource does not match the ciphertext")).to.equal("jwt_resource_mismatch");
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { expect } from "chai";
+
+import {
+  canonicalizeCredentialRequirements,
+  hashCredentialRequirements,
+  sealSecret,
+} from "../src/verification/requirements.js";
+import { CredentialRequirements } from "../src/utils.js";
+
+describe("Credential Requirements Binding", () => {
+  const credentialRequirements: CredentialRequirements = {
+    issuer: "did:web:rebasedemokey.pages.dev",
+    credentialType: "GitHubVerification",
+    claims: {
+      githubHandle: "skgbafa"
+    }
+  };
+
+  it("should canonicalize requirements independent of key order", () => {
+    const reordered = {
+      claims: { githubHandle: "skgbafa" },
+      credentialType: "GitHubVerification",
+      issuer: "did:web:rebasedemokey.pages.dev"
+    } as CredentialRequirements;
+
+    expect(canonicalizeCredentialRequirements(reordered)).to.equal(
+      canonicalizeCredentialRequirements(credentialRequirements)
+    );
+    expect(canonicalizeCredentialRequirements(credentialRequirements)).to.equal(
+      '{"claims":{"githubHandle":"skgbafa"},"credentialType":"GitHubVerification","issuer":"did:web:rebasedemokey.pages.dev"}'
+    );
+  });
+
+  it("should treat undefined members as missing", async () => {
+    const withUndefined: CredentialRequirements = {
+      issuer: "did:web:rebasedemokey.pages.dev",
+      credentialType: "GitHubVerification",
+      claims: undefined
+    };
+    const withoutClaims: CredentialRequirements = {
+      issuer: "did:web:rebasedemokey.pages.dev",
+      credentialType: "GitHubVerification"
+    };
+
+    expect(await hashCredentialRequirements(withUndefined)).to.equal(
+      await hashCredentialRequirements(withoutClaims)
+    );
+  });
+
+  it("should produce a SHA-256 hex hash", async () => {
+    const hash = await hashCredentialRequirements(credentialRequirements);
+
+    console.log("🔗 Credential requirements hash:", hash);
+
+    expect(hash).to.match(/^[0-9a-f]{64}$/);
+  });
+
+  it("should change the hash when requirements are relaxed", async () => {
+    const relaxedIssuer: CredentialRequirements = {
+      ...credentialRequirements,
+      issuer: "did:web:attacker.example"
+    };
+    const relaxedHandle: CredentialRequirements = {
+      ...credentialRequirements,
+      claims: {}
+    };
+
+    const hash = await hashCredentialRequirements(credentialRequirements);
+    expect(await hashCredentialRequirements(relaxedIssuer)).to.not.equal(hash);
+    expect(await hashCredentialRequirements(relaxedHandle)).to.not.equal(hash);
+  });
+
+  it("should seal the secret together with the requirements hash", async () => {
+    const hash = await hashCredentialRequirements(credentialRequirements);
+    const sealed = JSON.parse(sealSecret("top secret", hash));
+
+    expect(sealed).to.deep.equal({ credentialRequirementsHash: hash, secret: "top secret" });
+  });
+});
@@ -0,0 +1,237 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import {
+  enhancedCredentialActionCode,
+  runEnhancedCredentialAction,
+  LitActionsRuntime,
+} from "../src/action/index.js";
+import {
+  createChainRPC,
+  hashCredentialRequirements,
+  sealSecret,
+  verifyES256KJWT,
+  verifySmartAccountSignature,
+  CredentialRequirements,
+  ERC6492_MAGIC_SUFFIX,
+  UserJWTSigner,
+} from "../src/verification/index.js";
+import { createDecryptionJWT, signWalletJWT } from "../src/jwt.js";
+import { computeLitActionIpfsCid, createLitActionAccessControlConditions } from "../src/ipfs.js";
+import {
+  LocalEVM,
+  MockLitNodeClient,
+  TestIssuer,
+  createMockFetch,
+  didWebDocumentUrl,
+  mockReplayServiceRoute,
+  ownerSmartAccount,
+  MOCK_REPLAY_SERVICE_URL,
+} from "../src/testing/index.js";
+
+describe("Smart Account User JWTs (ERC-1271 / ERC-6492)", () => {
+  const owner = ethers.Wallet.createRandom();
+  const evm = new LocalEVM(1);
+
+  // A deployed account that accepts its owner's signatures
+  const account = ethers.Wallet.createRandom().address;
+  evm.deploy(account, ownerSmartAccount(owner.address));
+
+  // A factory that deploys owner accounts at a CREATE2 address
+  const factory = ethers.Wallet.createRandom().address;
+  const factoryInterface = new ethers.utils.Interface(["function createAccount(address owner, uint256 salt)"]);
+  const counterfactualAddress = (accountOwner: string, salt: number) =>
+    ethers.utils.getCreate2Address(
+      factory,
+      ethers.utils.hexZeroPad(ethers.utils.hexlify(salt), 32),
+      ethers.utils.keccak256(accountOwner),
+    );
+  evm.registerFactory(factory, (calldata) => {
+    const { owner: accountOwner, salt } = factoryInterface.decodeFunctionData("createAccount", calldata);
+    return { address: counterfactualAddress(accountOwner, salt.toNumber()), account: ownerSmartAccount(accountOwner) };
+  });
+
+  const rpc = createChainRPC({ 1: evm.url }, evm.fetch);
+
+  const claims = {
+    aud: "lit-protocol-encryption",
+    purpose: "decrypt" as const,
+    resource: "lit-ciphertext:hash",
+  };
+
+  const accountSigner: UserJWTSigner = {
+    address: account,
+    signMessage: (message) => owner.signMessage(message),
+    signTypedData: ({ domain, types, message }) => owner._signTypedData(domain, types, message),
+  };
+
+  // Wraps the owner's signature with the deployment the account still needs
+  const counterfactualSigner = (salt: number): UserJWTSigner => ({
+    address: counterfactualAddress(owner.address, salt),
+    signMessage: async (message) =>
+      ethers.utils.hexConcat([
+        ethers.utils.defaultAbiCoder.encode(
+          ["address", "bytes", "bytes"],
+          [factory, factoryInterface.encodeFunctionData("createAccount", [owner.address, salt]), await owner.signMessage(message)],
+        ),
+        ERC6492_MAGIC_SUFFIX,
+      ]),
+  });
+
+  describe("Verification", () => {
+    it("should not accept a smart account signature without an RPC", async () => {
+      const jwt = await signWalletJWT(accountSigner, claims);
+
+      expect((await verifyES256KJWT(jwt)).valid).to.be.false;
+    });
+
+    for (const scheme of ["eip191", "eip712"] as const) {
+      it(`should accept an ${scheme} signature the deployed account validates`, async () => {
+        const jwt = await signWalletJWT(accountSigner, claims, { scheme });
+
+        expect((await verifyES256KJWT(jwt, { rpc })).valid).to.be.true;
+      });
+    }
+
+    it("should reject a signature the account does not validate", async () => {
+      const other = ethers.Wallet.createRandom();
+      const jwt = await signWalletJWT({ address: account, signMessage: (message) => other.signMessage(message) }, claims);
+
+      expect((await verifyES256KJWT(jwt, { rpc })).valid).to.be.false;
+    });
+
+    it("should accept an ERC-6492 signature from a counterfactual account", async () => {
+      const jwt = await signWalletJWT(counterfactualSigner(1), claims);
+
+      expect((await verifyES256KJWT(jwt, { rpc })).valid).to.be.true;
+    });
+
+    it("should reject an ERC-6492 signature whose factory deploys another account", async () => {
+      const signer = counterfactualSigner(2);
+      const jwt = await signWalletJWT({ ...signer, address: counterfactualAddress(owner.address, 3) }, claims);
+
+      expect((await verifyES256KJWT(jwt, { rpc })).valid).to.be.false;
+    });
+
+    it("should check an ERC-6492 signature with ERC-1271 once the account is deployed", async () => {
+      const evmAfterDeployment = new LocalEVM(1);
+      const address = counterfactualAddress(owner.address, 4);
+      evmAfterDeployment.deploy(address, ownerSmartAccount(owner.address));
+      const hash = ethers.utils.hashMessage("deployed since");
+      const signature = await counterfactualSigner(4).signMessage!("deployed since");
+
+      expect(await verifySmartAccountSignature(evmAfterDeployment, address, hash, signature)).to.be.true;
+    });
+
+    it("should not check chains without an RPC", async () => {
+      const jwt = await signWalletJWT(accountSigner, claims);
+
+      expect((await verifyES256KJWT(jwt, { rpc: createChainRPC({ 10: evm.url }, evm.fetch) })).valid).to.be.false;
+    });
+  });
+
+  describe("In the enhanced action", () => {
+    const issuer = new TestIssuer("did:web:issuer.test");
+    const routes = { [didWebDocumentUrl(issuer.did)]: issuer.didDocument, ...mockReplayServiceRoute() };
+    const issuerFetch = createMockFetch(routes);
+    const fetch = (url: string, init?: RequestInit) => (url === evm.url ? evm.fetch(url, init as { body?: unknown }) : issuerFetch(url, init));
+    const credentialRequirements: CredentialRequirements = {
+      issuer: issuer.did,
+      credentialType: "GitHubVerification",
+      claims: { githubHandle: "octocat" },
+    };
+    const credentialJWT = issuer.issueCredentialJWT({
+      subject: `did:pkh:eip155:1:${account.toLowerCase()}`,
+      evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+    });
+    let savedFetch: typeof globalThis.fetch;
+
+    before(() => {
+      savedFetch = globalThis.fetch;
+      globalThis.fetch = fetch as typeof globalThis.fetch;
+    });
+
+    after(() => {
+      globalThis.fetch = savedFetch;
+    });
+
+    const run = async (actions: Partial<LitActionsRuntime>) => {
+      const sealed = sealSecret("held by a smart account", await hashCredentialRequirements(credentialRequirements));
+      return runEnhancedCredentialAction({
+        accessControlConditions: [],
+        ciphertext: "ciphertext",
+        dataToEncryptHash: "hash",
+        credentialJWT,
+        credentialRequirements,
+        userAddress: account,
+        userSignedJWT: await createDecryptionJWT(accountSigner, credentialRequirements, "hash", undefined, MOCK_REPLAY_SERVICE_URL),
+      }, {
+        Actions: {
+          decryptAndCombine: async () => sealed,
+          setResponse: () => undefined,
+          ...actions,
+        } as LitActionsRuntime,
+      });
+    };
+
+    it("should check the account through the node's RPC", async () => {
+      const response = await run({ getRpcUrl: async () => evm.url });
+
+      expect(response.success).to.be.true;
+      if (response.success) {
+        expect(response.secret).to.equal("held by a smart account");
+      }
+    });
+
+    it("should reject a smart account signature when the node has no RPC", async () => {
+      const response = await run({});
+
+      expect(response.success).to.be.false;
+      if (!response.success) {
+        expect(response.error).to.equal("Invalid JWT signature");
+      }
+    });
+
+    it("should release the secret inside the sandboxed Lit Action", async () => {
+      const litNodeClient = new MockLitNodeClient({
+        pinnedActions: [enhancedCredentialActionCode],
+        fetch,
+        rpcUrls: { ethereum: evm.url },
+      });
+      const ipfsId = await computeLitActionIpfsCid(enhancedCredentialActionCode);
+      const accessControlConditions = createLitActionAccessControlConditions(ipfsId);
+      const { ciphertext, dataToEncryptHash } = await litNodeClient.encrypt({
+        accessControlConditions,
+        dataToEncrypt: new TextEncoder().encode(
+          sealSecret("held by a smart account", await hashCredentialRequirements(credentialRequirements)),
+        ),
+      });
+      const sessionSigs = await litNodeClient.getSessionSigs({
+        resourceAbilityRequests: [{ resource: { getResourceKey: () => `lit-litaction://${ipfsId}` }, ability: "lit-action-execution" }],
+      });
+
+      const result = await litNodeClient.executeJs({
+        sessionSigs,
+        ipfsId,
+        jsParams: {
+          accessControlConditions,
+          ciphertext,
+          dataToEncryptHash,
+          credentialJWT,
+          credentialRequirements,
+          userAddress: account,
+          userSignedJWT: await createDecryptionJWT(
+            accountSigner,
+            credentialRequirements,
+            dataToEncryptHash,
+            undefined,
+            MOCK_REPLAY_SERVICE_URL,
+          ),
+        },
+      });
+
+      expect((result.response as any).success).to.be.true;
+      expect((result.response as any).secret).to.equal("held by a smart account");
+    });
+  });
+});
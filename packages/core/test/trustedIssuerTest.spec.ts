@@ -3,7 +3,7 @@ import chaiJsonSchema from "chai-json-schema";
 
 use(chaiJsonSchema);
 
-import { encryptToCredential, decryptFromCredentials } from "../src/index.js";
+import { encryptToCredential, decryptFromCredentials, disconnectEnvironmentClient } from "../src/index.js";
 import { 
   CredentialRequirements, 
   getTrustedIssuers, 
@@ -15,6 +15,8 @@ describe("Trusted Issuer Gating", () => {
   const testSecret = "This secret can only be decrypted by trusted GitHub credentials!";
   const userAddress = "0x251dea84e35b32ea793e6c54110672c44c3d5ccc"; // Address from credentials.json
   
+  after(() => disconnectEnvironmentClient());
+
   describe("Trusted Issuer Configuration", () => {
     it("should load trusted issuers from environment", () => {
       const trustedIssuers = getTrustedIssuers();
@@ -61,7 +63,7 @@ describe("Trusted Issuer Gating", () => {
         .to.throw('Untrusted issuer: did:web:untrusted-issuer.com');
     });
 
-    it("should reject non-GitHub credential types", () => {
+    it("should reject unregistered credential types", () => {
       const invalidTypeRequirements: CredentialRequirements = {
         issuer: "did:web:rebasedemokey.pages.dev",
         credentialType: "TwitterVerification",
@@ -71,7 +73,7 @@ describe("Trusted Issuer Gating", () => {
       };
 
       expect(() => validateGithubCredentialRequirements(invalidTypeRequirements))
-        .to.throw('Invalid credential type: TwitterVerification. Only GitHubVerification is supported');
+        .to.throw('Invalid credential type: TwitterVerification. Supported types: GitHubVerification, PremiumSubscription');
     });
 
     it("should reject empty GitHub handles", () => {
@@ -0,0 +1,171 @@
+import { expect } from "chai";
+
+import {
+  createDIDResolver,
+  jwkToMultikey,
+  selectVerificationMethod,
+  verifyJWTWithEdDSA,
+  DIDDocument,
+  VerificationMethod,
+} from "../src/verification/index.js";
+import { TestIssuer, createMockFetch, didWebDocumentUrl } from "../src/testing/index.js";
+
+describe("Verification Method Selection", () => {
+  const did = "did:web:rotating-issuer.test";
+  const currentKey = new TestIssuer(did, { keyId: `${did}#key-2` });
+  const previousKey = new TestIssuer(did, { keyId: `${did}#key-1` });
+  const retiredKey = new TestIssuer(did, { keyId: `${did}#key-0` });
+
+  const jsonWebKey = (issuer: TestIssuer): VerificationMethod => ({
+    id: issuer.keyId,
+    type: "JsonWebKey2020",
+    controller: did,
+    publicKeyJwk: issuer.publicKeyJwk,
+  });
+
+  const credentialPayload = {
+    iss: did,
+    sub: "did:pkh:eip155:1:0x0000000000000000000000000000000000000001",
+    vc: { type: ["VerifiableCredential", "GitHubVerification"] },
+  };
+
+  const verify = (jwt: string, didDocument: DIDDocument) =>
+    verifyJWTWithEdDSA(jwt, did, {
+      resolver: createDIDResolver({ fetch: createMockFetch({ [didWebDocumentUrl(did)]: didDocument }) }),
+    });
+
+  const expectRejection = async (jwt: string, didDocument: DIDDocument, message: string) => {
+    try {
+      await verify(jwt, didDocument);
+      expect.fail("Should have thrown an error");
+    } catch (error: any) {
+      expect(error.message).to.equal(message);
+    }
+  };
+
+  // Both keys are active during the rotation window
+  const rotatingDocument: DIDDocument = {
+    id: did,
+    verificationMethod: [jsonWebKey(previousKey), jsonWebKey(currentKey)],
+    assertionMethod: [previousKey.keyId, currentKey.keyId],
+  };
+
+  describe("Key rotation", () => {
+    it("should accept every active assertion key", async () => {
+      for (const issuer of [previousKey, currentKey]) {
+        const result = await verify(issuer.signJWT(credentialPayload), rotatingDocument);
+        expect(result.header.kid).to.equal(issuer.keyId);
+      }
+    });
+
+    it("should reject a kid for a key that was rotated out", async () => {
+      await expectRejection(retiredKey.signJWT(credentialPayload), rotatingDocument, `Key ${retiredKey.keyId} not found in DID document`);
+    });
+
+    it("should not fall back to the #controller key when the kid is unknown", async () => {
+      // The signing key is published as #controller, but the JWT names another key
+      const jwt = currentKey.signJWT(credentialPayload, { kid: `${did}#key-9` });
+      await expectRejection(jwt, {
+        id: did,
+        verificationMethod: [{ ...jsonWebKey(currentKey), id: `${did}#controller` }],
+        assertionMethod: [`${did}#controller`],
+      }, `Key ${did}#key-9 not found in DID document`);
+    });
+
+    it("should only verify against the key the kid names", async () => {
+      // Signed with the current key but claiming the previous key's id
+      const jwt = currentKey.signJWT(credentialPayload, { kid: previousKey.keyId });
+      await expectRejection(jwt, rotatingDocument, "Invalid JWT signature");
+    });
+
+    it("should require a kid when several keys are active", async () => {
+      const jwt = currentKey.signJWT(credentialPayload, { kid: undefined });
+      await expectRejection(jwt, rotatingDocument, `JWT kid is required: ${did} has 2 assertionMethod keys`);
+    });
+
+    it("should use the only assertion key when the kid is omitted", async () => {
+      const jwt = currentKey.signJWT(credentialPayload, { kid: undefined });
+      const result = await verify(jwt, {
+        id: did,
+        verificationMethod: [jsonWebKey(currentKey)],
+        assertionMethod: [currentKey.keyId],
+      });
+      expect(result.valid).to.be.true;
+    });
+  });
+
+  describe("Kid resolution", () => {
+    it("should resolve relative #fragment kids and ids", async () => {
+      const jwt = currentKey.signJWT(credentialPayload, { kid: "#key-2" });
+      const result = await verify(jwt, {
+        id: did,
+        verificationMethod: [{ ...jsonWebKey(currentKey), id: "#key-2" }],
+        assertionMethod: ["#key-2"],
+      });
+      expect(result.valid).to.be.true;
+    });
+
+    it("should reject keys not listed under assertionMethod", async () => {
+      await expectRejection(currentKey.signJWT(credentialPayload), {
+        id: did,
+        verificationMethod: [jsonWebKey(currentKey)],
+        authentication: [currentKey.keyId],
+      }, `Key ${currentKey.keyId} is not authorized for assertionMethod`);
+    });
+
+    it("should reject kids of another DID", async () => {
+      const jwt = currentKey.signJWT(credentialPayload, { kid: "did:web:attacker.test#key-2" });
+      await expectRejection(jwt, rotatingDocument, `Key did:web:attacker.test#key-2 is not controlled by ${did}`);
+    });
+
+    it("should accept assertion methods embedded in the relationship", () => {
+      const method = selectVerificationMethod({ id: did, assertionMethod: [jsonWebKey(currentKey)] }, did, "#key-2");
+      expect(method.id).to.equal(currentKey.keyId);
+    });
+  });
+
+  describe("Verification method types", () => {
+    const documentWith = (method: VerificationMethod): DIDDocument => ({
+      id: did,
+      verificationMethod: [method],
+      assertionMethod: [method.id],
+    });
+
+    it("should verify Ed25519VerificationKey2018 keys", async () => {
+      const result = await verify(currentKey.signJWT(credentialPayload), documentWith({
+        ...jsonWebKey(currentKey),
+        type: "Ed25519VerificationKey2018",
+      }));
+      expect(result.valid).to.be.true;
+    });
+
+    for (const type of ["Ed25519VerificationKey2020", "Multikey"]) {
+      it(`should verify ${type} keys with publicKeyMultibase`, async () => {
+        const result = await verify(currentKey.signJWT(credentialPayload), documentWith({
+          id: currentKey.keyId,
+          type,
+          controller: did,
+          publicKeyMultibase: jwkToMultikey(currentKey.publicKeyJwk),
+        }));
+        expect(result.valid).to.be.true;
+      });
+    }
+
+    it("should reject non-Ed25519 keys for EdDSA", async () => {
+      await expectRejection(currentKey.signJWT(credentialPayload), documentWith({
+        id: currentKey.keyId,
+        type: "JsonWebKey2020",
+        controller: did,
+        publicKeyJwk: { kty: "EC", crv: "P-256", x: "AA", y: "AA" },
+      }), `Key ${currentKey.keyId} is not an Ed25519 key`);
+    });
+
+    it("should reject unsupported verification method types", async () => {
+      await expectRejection(currentKey.signJWT(credentialPayload), documentWith({
+        id: currentKey.keyId,
+        type: "EcdsaSecp256k1RecoveryMethod2020",
+        controller: did,
+      }), "Unsupported verification method type: EcdsaSecp256k1RecoveryMethod2020");
+    });
+  });
+});
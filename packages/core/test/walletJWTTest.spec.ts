@@ -0,0 +1,144 @@
+import { expect } from "chai";
+import * as ethers from "ethers";
+
+import { runEnhancedCredentialAction, LitActionsRuntime } from "../src/action/index.js";
+import {
+  assertES256KJWT,
+  hashCredentialRequirements,
+  sealSecret,
+  verifyES256KJWT,
+  CredentialRequirements,
+  UserJWTSigner,
+} from "../src/verification/index.js";
+import { createDecryptionJWT, parseJWT, signWalletJWT } from "../src/jwt.js";
+import {
+  TestIssuer,
+  createMockFetch,
+  didWebDocumentUrl,
+  mockReplayServiceRoute,
+  MOCK_REPLAY_SERVICE_URL,
+} from "../src/testing/index.js";
+
+describe("Wallet-signed User JWTs", () => {
+  const wallet = ethers.Wallet.createRandom();
+
+  // Stand-ins for a browser wallet: wagmi's signMessageAsync and viem's
+  // signTypedData hand back hex signatures like these
+  const personalSigner: UserJWTSigner = {
+    address: wallet.address,
+    signMessage: (message) => wallet.signMessage(message),
+  };
+  const typedDataSigner: UserJWTSigner = {
+    address: wallet.address,
+    signTypedData: ({ domain, types, message }) => wallet._signTypedData(domain, types, message),
+  };
+
+  const claims = {
+    aud: "lit-protocol-encryption",
+    purpose: "decrypt" as const,
+    resource: "lit-ciphertext:hash",
+  };
+
+  describe("Signing and verification", () => {
+    for (const [scheme, signer, alg] of [
+      ["eip191", personalSigner, "EIP191"],
+      ["eip712", typedDataSigner, "EIP712"],
+    ] as const) {
+      it(`should verify an ${alg} signature`, async () => {
+        const jwt = await signWalletJWT(signer, claims, { scheme });
+        const { header, payload, valid } = await verifyES256KJWT(jwt);
+
+        expect(header.alg).to.equal(alg);
+        expect(payload.iss).to.equal(`did:pkh:eip155:1:${wallet.address}`);
+        expect(valid).to.be.true;
+      });
+    }
+
+    it("should pick the scheme the signer supports", async () => {
+      expect(parseJWT(await signWalletJWT(personalSigner, claims)).header.alg).to.equal("EIP191");
+      expect(parseJWT(await signWalletJWT(typedDataSigner, claims)).header.alg).to.equal("EIP712");
+    });
+
+    it("should reject a signature from another wallet", async () => {
+      const other = ethers.Wallet.createRandom();
+      const jwt = await signWalletJWT({ address: wallet.address, signMessage: (message) => other.signMessage(message) }, claims);
+
+      expect((await verifyES256KJWT(jwt)).valid).to.be.false;
+    });
+
+    it("should not accept an EIP-191 signature labelled as EIP-712", async () => {
+      const jwt = await signWalletJWT(
+        { address: wallet.address, signTypedData: ({ message }) => wallet.signMessage(message.signingInput) },
+        claims,
+        { scheme: "eip712" },
+      );
+
+      let error: Error | undefined;
+      try {
+        await assertES256KJWT(jwt, wallet.address);
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal("Invalid JWT signature");
+    });
+
+    it("should reject signers without the requested scheme", async () => {
+      let error: Error | undefined;
+      try {
+        await signWalletJWT(personalSigner, claims, { scheme: "eip712" });
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.equal("Signer cannot sign EIP-712 typed data");
+    });
+  });
+
+  describe("In the enhanced action", () => {
+    const issuer = new TestIssuer("did:web:issuer.test");
+    const fetch = createMockFetch({ [didWebDocumentUrl(issuer.did)]: issuer.didDocument, ...mockReplayServiceRoute() });
+    const credentialRequirements: CredentialRequirements = {
+      issuer: issuer.did,
+      credentialType: "GitHubVerification",
+      claims: { githubHandle: "octocat" },
+    };
+    const credentialJWT = issuer.issueCredentialJWT({
+      subject: `did:pkh:eip155:1:${wallet.address.toLowerCase()}`,
+      evidence: { type: ["GitHubVerificationMessage"], handle: "octocat" },
+    });
+    let savedFetch: typeof globalThis.fetch;
+
+    before(() => {
+      savedFetch = globalThis.fetch;
+      globalThis.fetch = fetch as typeof globalThis.fetch;
+    });
+
+    after(() => {
+      globalThis.fetch = savedFetch;
+    });
+
+    for (const [label, signer] of [["personal_sign", personalSigner], ["typed data", typedDataSigner]] as const) {
+      it(`should release the secret for a ${label} decryption JWT`, async () => {
+        const sealed = sealSecret("signed in the browser", await hashCredentialRequirements(credentialRequirements));
+        const response = await runEnhancedCredentialAction({
+          accessControlConditions: [],
+          ciphertext: "ciphertext",
+          dataToEncryptHash: "hash",
+          credentialJWT,
+          credentialRequirements,
+          userAddress: wallet.address,
+          userSignedJWT: await createDecryptionJWT(signer, credentialRequirements, "hash", undefined, MOCK_REPLAY_SERVICE_URL),
+        }, {
+          Actions: {
+            decryptAndCombine: async () => sealed,
+            setResponse: () => undefined,
+          } as LitActionsRuntime,
+        });
+
+        expect(response.success).to.be.true;
+        if (response.success) {
+          expect(response.secret).to.equal("signed in the browser");
+        }
+      });
+    }
+  });
+});